@@ -119,19 +119,45 @@ END $$;
 
 BEGIN;
 
+-- Unaccented simple configuration of the Yoruba, Hausa, Igbo and Pidgin analyzers
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'simple_unaccent') THEN
+        CREATE TEXT SEARCH CONFIGURATION simple_unaccent (COPY = simple);
+        ALTER TEXT SEARCH CONFIGURATION simple_unaccent
+            ALTER MAPPING FOR hword, hword_part, word WITH unaccent, simple;
+    END IF;
+END $$;
+
+-- Text search configuration of a field, from the textSearchConfigs the
+-- application derives from the field's analyzer when the index is saved
+CREATE OR REPLACE FUNCTION field_text_search_config(
+    configs jsonb,
+    field_name text
+) RETURNS regconfig AS $$
+    SELECT COALESCE(configs->>field_name, configs->>'_default', 'english')::regconfig;
+$$ LANGUAGE sql STABLE;
+
 -- Function to generate field-weighted search vectors
 CREATE OR REPLACE FUNCTION generate_weighted_search_vector(
     index_name_param text,
     content_data jsonb
 ) RETURNS tsvector AS $$
+DECLARE
+    configs jsonb;
 BEGIN
+    SELECT settings->'textSearchConfigs' INTO configs
+    FROM indices WHERE index_name = index_name_param;
+
     RETURN 
         -- A-weight (highest priority): name and title fields
-        COALESCE(setweight(to_tsvector('english', COALESCE(content_data->>'name', '')), 'A'), ''::tsvector) ||
-        COALESCE(setweight(to_tsvector('english', COALESCE(content_data->>'title', '')), 'A'), ''::tsvector) ||
+        COALESCE(setweight(to_tsvector(field_text_search_config(configs, 'name'), COALESCE(content_data->>'name', '')), 'A'), ''::tsvector) ||
+        COALESCE(setweight(to_tsvector(field_text_search_config(configs, 'title'), COALESCE(content_data->>'title', '')), 'A'), ''::tsvector) ||
         -- B-weight (high priority): category fields  
-        COALESCE(setweight(to_tsvector('english', COALESCE(content_data->>'category_name', '')), 'B'), ''::tsvector) ||
-        COALESCE(setweight(to_tsvector('english', 
+        COALESCE(setweight(to_tsvector(field_text_search_config(configs, 'category_name'), COALESCE(content_data->>'category_name', '')), 'B'), ''::tsvector) ||
+        COALESCE(setweight(to_tsvector(field_text_search_config(configs, 'sub_category_name'), 
             CASE 
                 WHEN jsonb_typeof(content_data->'sub_category_name') = 'array' 
                 THEN array_to_string(ARRAY(SELECT jsonb_array_elements_text(content_data->'sub_category_name')), ' ')
@@ -139,13 +165,13 @@ BEGIN
             END
         ), 'B'), ''::tsvector) ||
         -- C-weight (medium priority): description and location
-        COALESCE(setweight(to_tsvector('english', COALESCE(content_data->>'description', '')), 'C'), ''::tsvector) ||
-        COALESCE(setweight(to_tsvector('english', COALESCE(content_data->>'location_text', '')), 'C'), ''::tsvector) ||
-        COALESCE(setweight(to_tsvector('english', COALESCE(content_data->>'profile', '')), 'C'), ''::tsvector) ||
+        COALESCE(setweight(to_tsvector(field_text_search_config(configs, 'description'), COALESCE(content_data->>'description', '')), 'C'), ''::tsvector) ||
+        COALESCE(setweight(to_tsvector(field_text_search_config(configs, 'location_text'), COALESCE(content_data->>'location_text', '')), 'C'), ''::tsvector) ||
+        COALESCE(setweight(to_tsvector(field_text_search_config(configs, 'profile'), COALESCE(content_data->>'profile', '')), 'C'), ''::tsvector) ||
         -- D-weight (lowest priority): tags and other fields
-        COALESCE(setweight(to_tsvector('english', COALESCE(content_data->>'tags', '')), 'D'), ''::tsvector);
+        COALESCE(setweight(to_tsvector(field_text_search_config(configs, 'tags'), COALESCE(content_data->>'tags', '')), 'D'), ''::tsvector);
 END;
-$$ LANGUAGE plpgsql IMMUTABLE PARALLEL SAFE;
+$$ LANGUAGE plpgsql STABLE PARALLEL SAFE;
 
 -- Function to generate simple search vector (fallback)
 CREATE OR REPLACE FUNCTION generate_simple_search_vector(
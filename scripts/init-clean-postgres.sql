@@ -145,36 +145,92 @@ CREATE TRIGGER update_indices_updated_at BEFORE UPDATE ON indices FOR EACH ROW E
 CREATE TRIGGER update_documents_updated_at BEFORE UPDATE ON documents FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 -- Step 7: Create optimized search vector generation function
-CREATE OR REPLACE FUNCTION generate_document_search_vector(doc_content JSONB) RETURNS TSVECTOR AS $$
-DECLARE
-    search_vector TSVECTOR;
-    title_vector TSVECTOR;
-    description_vector TSVECTOR;
-    name_vector TSVECTOR;
-    tags_vector TSVECTOR;
-    profile_vector TSVECTOR;
-    slug_vector TSVECTOR;
+-- Unaccented simple configuration of the Yoruba, Hausa, Igbo and Pidgin analyzers
+DO $$
 BEGIN
-    title_vector := to_tsvector('english', COALESCE(doc_content->>'title', ''));
-    description_vector := to_tsvector('english', COALESCE(doc_content->>'description', ''));
-    name_vector := to_tsvector('english', COALESCE(doc_content->>'name', ''));
-    profile_vector := to_tsvector('english', COALESCE(doc_content->>'profile', ''));
-    slug_vector := to_tsvector('english', COALESCE(doc_content->>'slug', ''));
-    IF jsonb_typeof(doc_content->'tags') = 'array' THEN
-        tags_vector := to_tsvector('english', (SELECT string_agg(value::text, ' ') FROM jsonb_array_elements_text(doc_content->'tags')));
-    ELSE
-        tags_vector := to_tsvector('english', COALESCE(doc_content->>'tags', ''));
+    IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'simple_unaccent') THEN
+        CREATE TEXT SEARCH CONFIGURATION simple_unaccent (COPY = simple);
+        ALTER TEXT SEARCH CONFIGURATION simple_unaccent
+            ALTER MAPPING FOR hword, hword_part, word WITH unaccent, simple;
     END IF;
-    search_vector := title_vector || description_vector || name_vector || profile_vector || slug_vector || tags_vector;
+END $$;
+
+-- Text search configuration of a field, from the textSearchConfigs the
+-- application derives from the field's analyzer when the index is saved
+CREATE OR REPLACE FUNCTION field_text_search_config(
+    configs jsonb,
+    field_name text
+) RETURNS regconfig AS $$
+    SELECT COALESCE(configs->>field_name, configs->>'_default', 'english')::regconfig;
+$$ LANGUAGE sql STABLE;
+
+-- Text fields of an index: those with a text search configuration, or the
+-- built-in business fields for indices that map no text field
+CREATE OR REPLACE FUNCTION document_search_fields(configs jsonb) RETURNS text[] AS $$
+    SELECT COALESCE(
+        (SELECT array_agg(key) FROM jsonb_object_keys(configs) AS key WHERE key <> '_default'),
+        ARRAY['title', 'description', 'name', 'profile', 'slug', 'tags']
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Text of a (dotted) field, with the elements of an array joined
+CREATE OR REPLACE FUNCTION document_field_text(doc_content jsonb, field_name text) RETURNS text AS $$
+    SELECT CASE jsonb_typeof(doc_content #> string_to_array(field_name, '.'))
+        WHEN 'array' THEN (
+            SELECT string_agg(value, ' ')
+            FROM jsonb_array_elements_text(doc_content #> string_to_array(field_name, '.'))
+        )
+        ELSE doc_content #>> string_to_array(field_name, '.')
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION generate_document_search_vector(doc_index_name TEXT, doc_content JSONB) RETURNS TSVECTOR AS $$
+DECLARE
+    configs JSONB;
+    field_name TEXT;
+    search_vector TSVECTOR := ''::tsvector;
+BEGIN
+    SELECT settings->'textSearchConfigs' INTO configs FROM indices WHERE index_name = doc_index_name;
+
+    FOREACH field_name IN ARRAY document_search_fields(configs) LOOP
+        search_vector := search_vector || to_tsvector(
+            field_text_search_config(configs, field_name),
+            COALESCE(document_field_text(doc_content, field_name), '')
+        );
+    END LOOP;
     RETURN search_vector;
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql STABLE;
 
 -- Step 8: Create trigger to automatically update search vectors
 CREATE OR REPLACE FUNCTION update_document_search_vector() RETURNS TRIGGER AS $$
+DECLARE
+    configs JSONB;
 BEGIN
-    NEW.search_vector := generate_document_search_vector(NEW.content);
-    NEW.materialized_vector := COALESCE(NEW.search_vector, to_tsvector('english', NEW.content::text));
+    -- A vector the application analyzed with the index's analyzers stands
+    -- as long as the content it was built from is unchanged
+    IF TG_OP = 'UPDATE'
+        AND NEW.content IS NOT DISTINCT FROM OLD.content
+        AND NEW.search_vector IS DISTINCT FROM OLD.search_vector THEN
+        NEW.materialized_vector := NEW.search_vector;
+        RETURN NEW;
+    END IF;
+
+    -- Partial updates mostly leave the index's text fields alone, so skip re-analysis then
+    SELECT settings->'textSearchConfigs' INTO configs FROM indices WHERE index_name = NEW.index_name;
+    IF TG_OP = 'UPDATE'
+        AND NEW.search_vector IS NOT DISTINCT FROM OLD.search_vector
+        AND NEW.materialized_vector IS NOT DISTINCT FROM OLD.materialized_vector
+        AND NOT EXISTS (
+            SELECT 1 FROM unnest(document_search_fields(configs)) AS field_name
+            WHERE NEW.content #> string_to_array(field_name, '.')
+                IS DISTINCT FROM OLD.content #> string_to_array(field_name, '.')
+        ) THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.search_vector := generate_document_search_vector(NEW.index_name, NEW.content);
+    NEW.materialized_vector := NEW.search_vector;
     RETURN NEW;
 END;
 $$ LANGUAGE plpgsql;
@@ -0,0 +1,175 @@
+import { AnalyzerRegistryService } from './analyzer-registry.service';
+
+describe('AnalyzerRegistryService', () => {
+  let registry: AnalyzerRegistryService;
+
+  beforeEach(() => {
+    registry = new AnalyzerRegistryService();
+  });
+
+  describe('registerIndexAnalyzers', () => {
+    it('should build custom analyzers from tokenizers and filters of the settings', () => {
+      registry.registerIndexAnalyzers('products', {
+        analyzer: {
+          my_analyzer: {
+            type: 'custom',
+            tokenizer: 'whitespace',
+            filter: ['lowercase', 'my_stop'],
+          },
+        },
+        filter: { my_stop: { type: 'stopword', stopwords: ['the'] } } as any,
+      });
+
+      const analyzer = registry.getAnalyzer('my_analyzer', 'products');
+      expect(analyzer.analyze('The Quick FOX')).toEqual(['quick', 'fox']);
+      expect(registry.hasIndexAnalyzers('products')).toBe(true);
+    });
+
+    it('should run char filters of the settings before the tokenizer', () => {
+      registry.registerIndexAnalyzers('listings', {
+        analyzer: {
+          descriptions: {
+            type: 'custom',
+            tokenizer: 'standard',
+            charFilter: ['html_strip', 'no_emoji'],
+            filter: ['lowercase'],
+          },
+        },
+        charFilter: {
+          no_emoji: { type: 'pattern_replace', pattern: '\\p{Extended_Pictographic}' },
+        } as any,
+      });
+
+      const analyzer = registry.getAnalyzer('descriptions', 'listings');
+      expect(analyzer.analyze('<p>Fresh🔥</p><p>Fish</p>')).toEqual(['fresh', 'fish']);
+      expect(() =>
+        registry.buildIndexAnalyzers({
+          analyzer: { plain: { type: 'keyword', charFilter: ['html_strip'] } },
+        }),
+      ).toThrow("Invalid analyzer 'plain': charFilter can only be used by custom analyzers");
+    });
+
+    it('should keep analyzers of the same name apart per index', () => {
+      registry.registerIndexAnalyzers('a', {
+        analyzer: { my_analyzer: { type: 'keyword' } },
+      });
+      registry.registerIndexAnalyzers('b', {
+        analyzer: { my_analyzer: { type: 'custom', tokenizer: 'whitespace' } },
+      });
+
+      expect(registry.getAnalyzer('my_analyzer', 'a').analyze('red shoes')).toHaveLength(1);
+      expect(registry.getAnalyzer('my_analyzer', 'b').analyze('red shoes')).toEqual([
+        'red',
+        'shoes',
+      ]);
+      expect(registry.getAnalyzer('my_analyzer')).toBeUndefined();
+      expect(registry.getAnalyzer('standard', 'a')).toBeDefined();
+    });
+
+    it('should replace and remove the analyzers of an index', () => {
+      registry.registerIndexAnalyzers('products', {
+        analyzer: { first: { type: 'keyword' } },
+      });
+      registry.registerIndexAnalyzers('products', {
+        analyzer: { second: { type: 'keyword' } },
+      });
+
+      expect(registry.hasIndexAnalyzer('products', 'first')).toBe(false);
+      expect(registry.hasIndexAnalyzer('products', 'second')).toBe(true);
+
+      registry.removeIndexAnalyzers('products');
+      expect(registry.hasIndexAnalyzers('products')).toBe(false);
+    });
+
+    it('should reject unknown tokenizers, filters and analyzer types', () => {
+      expect(() =>
+        registry.registerIndexAnalyzers('products', {
+          analyzer: { broken: { type: 'custom', tokenizer: 'missing' } },
+        }),
+      ).toThrow("Invalid analyzer 'broken': Unknown tokenizer type: missing");
+      expect(() =>
+        registry.registerIndexAnalyzers('products', {
+          analyzer: { broken: { type: 'custom', tokenizer: 'standard', filter: ['missing'] } },
+        }),
+      ).toThrow('Unknown token filter type: missing');
+      expect(() =>
+        registry.registerIndexAnalyzers('products', {
+          analyzer: { broken: { type: 'missing' } },
+        }),
+      ).toThrow("unknown analyzer type 'missing'");
+      expect(registry.hasIndexAnalyzers('products')).toBe(false);
+    });
+  });
+
+  describe('search_as_you_type analyzers', () => {
+    it('should index word shingles and the prefixes of words and shingles', () => {
+      expect(registry.getAnalyzer('search_as_you_type_2gram').analyze('First Bank Lagos')).toEqual([
+        'first bank',
+        'bank lagos',
+      ]);
+      expect(registry.getAnalyzer('search_as_you_type_3gram').analyze('First Bank Lagos')).toEqual([
+        'first bank lagos',
+      ]);
+
+      const prefixes = registry.getAnalyzer('search_as_you_type_prefix').analyze('First Bank');
+      expect(prefixes).toEqual(
+        expect.arrayContaining(['f', 'firs', 'first b', 'first bank', 'ba']),
+      );
+      expect(prefixes).not.toContain('irst');
+    });
+  });
+
+  describe('language analyzers', () => {
+    it('should analyze each language with its stemmer, stopwords and folding', () => {
+      expect(registry.getAnalyzer('english').analyze('The running shoes')).toEqual(['run', 'shoe']);
+      expect(registry.getAnalyzer('french').analyze("L'école et les marchés")).toEqual([
+        'écol',
+        'march',
+      ]);
+      expect(registry.getAnalyzer('yoruba').analyze('Ọjà àti ilé')).toEqual(['oja', 'ile']);
+      expect(registry.getAnalyzer('hausa').analyze('Ƙasa da ɗan')).toEqual(['kasa', 'dan']);
+    });
+
+    it('should map each to a PostgreSQL text search configuration', () => {
+      expect(registry.getTextSearchConfig(registry.getAnalyzer('french'))).toBe('french');
+      expect(registry.getTextSearchConfig(registry.getAnalyzer('igbo'))).toBe('simple_unaccent');
+      expect(registry.getTextSearchConfig(registry.getAnalyzer('standard'))).toBe('english');
+    });
+
+    it('should make the default language analyzer the default of the index', () => {
+      registry.registerIndexAnalyzers('products', undefined, 'fr');
+      expect(registry.getAnalyzer('default', 'products')).toBe(registry.getAnalyzer('french'));
+
+      registry.registerIndexAnalyzers(
+        'products',
+        { analyzer: { default: { type: 'keyword' } } },
+        'french',
+      );
+      expect(registry.getAnalyzer('default', 'products')).toBe(registry.getAnalyzer('keyword'));
+
+      expect(() => registry.registerIndexAnalyzers('products', undefined, 'klingon')).toThrow(
+        "Unknown default language 'klingon'",
+      );
+    });
+
+    it('should derive the configuration of custom analyzers from their stemmer', () => {
+      const analyzers = registry.buildIndexAnalyzers({
+        analyzer: {
+          spanish: { type: 'custom', tokenizer: 'standard', filter: ['spanish_stem'] },
+          folded: { type: 'custom', tokenizer: 'standard', textSearchConfig: 'simple_unaccent' },
+        },
+        filter: { spanish_stem: { type: 'stemming', language: 'spanish' } as any },
+      });
+
+      expect(registry.getTextSearchConfig(analyzers.get('spanish'))).toBe('spanish');
+      expect(registry.getTextSearchConfig(analyzers.get('folded'))).toBe('simple_unaccent');
+      expect(() =>
+        registry.buildIndexAnalyzers({
+          analyzer: {
+            bad: { type: 'custom', tokenizer: 'standard', textSearchConfig: "english'); --" },
+          },
+        }),
+      ).toThrow('textSearchConfig must name a PostgreSQL text search configuration');
+    });
+  });
+});
@@ -1,12 +1,37 @@
 import { Injectable } from '@nestjs/common';
-import { Analyzer } from './interfaces/analyzer.interface';
+import { Analyzer, AnalyzerConfig } from './interfaces/analyzer.interface';
 import { StandardAnalyzer } from './analyzers/standard.analyzer';
 import { LowercaseAnalyzer } from './analyzers/lowercase.analyzer';
 import { KeywordAnalyzer } from './analyzers/keyword.analyzer';
+import { AnalyzerRegistry } from './analyzers/analyzer-registry';
+import { CustomAnalyzer } from './analyzers/custom-analyzer';
+import {
+  DEFAULT_TEXT_SEARCH_CONFIG,
+  LANGUAGES,
+  createLanguageAnalyzer,
+  resolveLanguage,
+  stemmerTextSearchConfig,
+} from './analyzers/language-analyzers';
+import {
+  SEARCH_AS_YOU_TYPE_ANALYZER_NAMES,
+  getSearchAsYouTypeAnalyzer,
+} from './analyzers/search-as-you-type';
+import { SynonymMap } from './filters/synonym-filter';
+import { DEFAULT_SYNONYM_RULES, DEFAULT_SYNONYM_SET } from './filters/default-synonyms';
+import { Analyzer as AnalyzerDefinition, IndexSettings } from '../index/interfaces/index.interface';
+
+export type IndexAnalysisSettings = IndexSettings['analysis'];
+
+const TEXT_SEARCH_CONFIG_PATTERN = /^[a-z_][a-z0-9_]*$/;
 
 @Injectable()
 export class AnalyzerRegistryService {
   private analyzers: Map<string, Analyzer> = new Map();
+  // Custom analyzers of each index, resolved before the built-in ones
+  private indexAnalyzers: Map<string, Map<string, Analyzer>> = new Map();
+  // Managed synonym sets of each index, read by synonym filters at analysis time
+  private synonymSets: Map<string, Map<string, SynonymMap>> = new Map();
+  private defaultSynonyms?: SynonymMap;
 
   constructor() {
     this.registerDefaultAnalyzers();
@@ -16,19 +41,240 @@ export class AnalyzerRegistryService {
     this.registerAnalyzer('standard', new StandardAnalyzer());
     this.registerAnalyzer('lowercase', new LowercaseAnalyzer());
     this.registerAnalyzer('keyword', new KeywordAnalyzer());
+    for (const language of LANGUAGES) {
+      this.registerAnalyzer(language, createLanguageAnalyzer(language));
+    }
+    for (const name of SEARCH_AS_YOU_TYPE_ANALYZER_NAMES) {
+      this.registerAnalyzer(name, getSearchAsYouTypeAnalyzer(name));
+    }
   }
 
   registerAnalyzer(name: string, analyzer: Analyzer): void {
     this.analyzers.set(name, analyzer);
   }
 
-  getAnalyzer(name: string): Analyzer | undefined {
-    return this.analyzers.get(name);
+  getAnalyzer(name: string, indexName?: string): Analyzer | undefined {
+    return this.indexAnalyzers.get(indexName)?.get(name) || this.analyzers.get(name);
+  }
+
+  hasAnalyzer(name: string, indexName?: string): boolean {
+    return this.getAnalyzer(name, indexName) !== undefined;
+  }
+
+  /**
+   * Whether the index defines any analyzers of its own
+   */
+  hasIndexAnalyzers(indexName: string): boolean {
+    return this.indexAnalyzers.has(indexName);
+  }
+
+  /**
+   * Whether the index defines an analyzer of this name itself
+   */
+  hasIndexAnalyzer(indexName: string, name: string): boolean {
+    return this.indexAnalyzers.get(indexName)?.has(name) ?? false;
+  }
+
+  /**
+   * Whether the analyzer is one of the built-in language analyzers
+   */
+  isLanguageAnalyzer(name: string): boolean {
+    return LANGUAGES.includes(name);
+  }
+
+  /**
+   * The PostgreSQL text search configuration an analyzer's terms are indexed and
+   * queried with; analyzers without one use the English configuration
+   */
+  getTextSearchConfig(analyzer: Analyzer | undefined): string {
+    return (
+      (analyzer instanceof CustomAnalyzer && analyzer.getTextSearchConfig()) ||
+      DEFAULT_TEXT_SEARCH_CONFIG
+    );
+  }
+
+  /**
+   * Build the analyzers of an index's analysis settings and make them the
+   * index's analyzers, replacing any it had. Throws when the settings are invalid.
+   */
+  registerIndexAnalyzers(
+    indexName: string,
+    analysis: IndexAnalysisSettings,
+    defaultLanguage?: string,
+  ): void {
+    const analyzers = this.buildIndexAnalyzers(analysis, indexName, defaultLanguage);
+    if (analyzers.size > 0) {
+      this.indexAnalyzers.set(indexName, analyzers);
+    } else {
+      this.indexAnalyzers.delete(indexName);
+    }
+  }
+
+  removeIndexAnalyzers(indexName: string): void {
+    this.indexAnalyzers.delete(indexName);
+  }
+
+  registerSynonymSet(indexName: string, name: string, synonyms: SynonymMap): void {
+    const sets = this.synonymSets.get(indexName) || new Map<string, SynonymMap>();
+    sets.set(name, synonyms);
+    this.synonymSets.set(indexName, sets);
+  }
+
+  removeSynonymSet(indexName: string, name: string): void {
+    this.synonymSets.get(indexName)?.delete(name);
+  }
+
+  removeSynonymSets(indexName: string): void {
+    this.synonymSets.delete(indexName);
+  }
+
+  /**
+   * A synonym set of the index; the `default` set falls back to the built-in seed rules
+   */
+  getSynonymSet(indexName: string, name: string): SynonymMap | undefined {
+    const set = this.synonymSets.get(indexName)?.get(name);
+    if (set || name !== DEFAULT_SYNONYM_SET) {
+      return set;
+    }
+
+    this.defaultSynonyms = this.defaultSynonyms || SynonymMap.parse(DEFAULT_SYNONYM_RULES);
+    return this.defaultSynonyms;
   }
 
-  hasAnalyzer(name: string): boolean {
-    return this.analyzers.has(name);
+  /**
+   * Build analyzers from analysis settings without registering them.
+   *
+   * Analyzers of type `custom` (or with a tokenizer) combine char filters, a
+   * tokenizer and filters, each either defined in the settings or a built-in
+   * type; any other type names a built-in analyzer, e.g.
+   * `{ "default": { "type": "keyword" } }`.
+   * The analyzer of the index's default language is its default unless the
+   * settings define one.
+   */
+  buildIndexAnalyzers(
+    analysis: IndexAnalysisSettings,
+    indexName?: string,
+    defaultLanguage?: string,
+  ): Map<string, Analyzer> {
+    const analyzers = new Map<string, Analyzer>();
+
+    for (const [name, definition] of Object.entries(analysis?.analyzer || {})) {
+      analyzers.set(name, this.buildAnalyzer(name, definition, analysis, indexName));
+    }
+
+    if (defaultLanguage) {
+      const language = resolveLanguage(defaultLanguage);
+      if (!language) {
+        throw new Error(
+          `Unknown default language '${defaultLanguage}', expected one of ${LANGUAGES.join(', ')}`,
+        );
+      }
+      if (!analyzers.has('default')) {
+        analyzers.set('default', this.analyzers.get(language));
+      }
+    }
+
+    return analyzers;
   }
 
-  // Add other methods as needed
+  /**
+   * Build a single analyzer definition, resolving its tokenizer and filters
+   * against the given analysis settings and synonym sets of the index
+   */
+  buildAnalyzer(
+    name: string,
+    definition: AnalyzerDefinition,
+    analysis?: IndexAnalysisSettings,
+    indexName?: string,
+  ): Analyzer {
+    try {
+      if (!definition || typeof definition !== 'object') {
+        throw new Error('definition must be an object');
+      }
+      if (definition.type !== 'custom' && !definition.tokenizer) {
+        if (definition.charFilter?.length) {
+          throw new Error('charFilter can only be used by custom analyzers');
+        }
+        const builtIn = this.analyzers.get(definition.type);
+        if (!builtIn) {
+          throw new Error(`unknown analyzer type '${definition.type}'`);
+        }
+        return builtIn;
+      }
+
+      if (!definition.tokenizer) {
+        throw new Error('custom analyzers need a tokenizer');
+      }
+      if (definition.filter !== undefined && !Array.isArray(definition.filter)) {
+        throw new Error('filter must be a list of filter names');
+      }
+      if (definition.charFilter !== undefined && !Array.isArray(definition.charFilter)) {
+        throw new Error('charFilter must be a list of char filter names');
+      }
+
+      if (
+        definition.textSearchConfig !== undefined &&
+        !TEXT_SEARCH_CONFIG_PATTERN.test(definition.textSearchConfig)
+      ) {
+        throw new Error('textSearchConfig must name a PostgreSQL text search configuration');
+      }
+
+      const filters = (definition.filter || []).map(filter =>
+        this.resolveFilter(filter, analysis?.filter, indexName),
+      );
+      const stemming = filters.find(filter => filter.type === 'stemming');
+      const config: AnalyzerConfig = {
+        name,
+        charFilters: (definition.charFilter || []).map(charFilter =>
+          this.resolveComponent(charFilter, analysis?.charFilter),
+        ),
+        tokenizer: this.resolveComponent(definition.tokenizer, analysis?.tokenizer),
+        filters,
+        textSearchConfig:
+          definition.textSearchConfig ||
+          (stemming && stemmerTextSearchConfig(stemming.options?.language)),
+      };
+      return AnalyzerRegistry.createAnalyzer(config);
+    } catch (error) {
+      throw new Error(`Invalid analyzer '${name}': ${error.message}`);
+    }
+  }
+
+  /**
+   * A filter component; synonym filters read their set from the index's synonym sets
+   */
+  private resolveFilter(
+    name: string,
+    definitions: Record<string, { type: string }> | undefined,
+    indexName?: string,
+  ): { type: string; options?: Record<string, any> } {
+    const component = this.resolveComponent(name, definitions);
+    if (component.type !== 'synonym') {
+      return component;
+    }
+
+    return {
+      type: component.type,
+      options: {
+        ...component.options,
+        resolveSet: (set: string) => this.getSynonymSet(indexName, set),
+      },
+    };
+  }
+
+  /**
+   * A tokenizer, filter or char filter defined in the settings, or a built-in type by name
+   */
+  private resolveComponent(
+    name: string,
+    definitions: Record<string, { type: string }> | undefined,
+  ): { type: string; options?: Record<string, any> } {
+    const definition = definitions?.[name];
+    if (!definition) {
+      return { type: name };
+    }
+
+    const { type, ...options } = definition;
+    return { type, options };
+  }
 }
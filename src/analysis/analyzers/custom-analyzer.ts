@@ -1,16 +1,30 @@
 import { Analyzer, AnalyzerConfig } from '../interfaces/analyzer.interface';
 import { Tokenizer } from '../interfaces/tokenizer.interface';
 import { TokenFilter } from '../interfaces/token-filter.interface';
+import { CharFilter } from '../interfaces/char-filter.interface';
+import { CharFilterFactory } from '../char-filters/char-filter.factory';
+import { applyCharFilters } from '../char-filters/mapped-text';
 import { TokenizerFactory } from '../tokenizers/tokenizer.factory';
 import { TokenFilterFactory } from '../filters/token-filter.factory';
 
 export class CustomAnalyzer implements Analyzer {
   private name: string;
+  private charFilters: CharFilter[];
   private tokenizer: Tokenizer;
   private filters: TokenFilter[];
+  private textSearchConfig?: string;
 
   constructor(config: AnalyzerConfig) {
     this.name = config.name;
+    this.textSearchConfig = config.textSearchConfig;
+
+    // Create char filters from config
+    this.charFilters = (config.charFilters || []).map(charFilterConfig =>
+      CharFilterFactory.createCharFilter(
+        charFilterConfig.type as any,
+        charFilterConfig.options || {},
+      ),
+    );
 
     // Create tokenizer from config
     this.tokenizer = TokenizerFactory.createTokenizer(
@@ -36,8 +50,10 @@ export class CustomAnalyzer implements Analyzer {
       return [];
     }
 
-    // First tokenize the text
-    let tokens = this.tokenizer.tokenize(text);
+    // Filter the characters, then tokenize the text
+    const filtered =
+      this.charFilters.length > 0 ? applyCharFilters(this.charFilters, text).text : text;
+    let tokens = this.tokenizer.tokenize(filtered);
 
     // Then apply each filter in sequence
     for (const filter of this.filters) {
@@ -51,6 +67,10 @@ export class CustomAnalyzer implements Analyzer {
     return this.name;
   }
 
+  getCharFilters(): CharFilter[] {
+    return this.charFilters;
+  }
+
   getTokenizer(): Tokenizer {
     return this.tokenizer;
   }
@@ -58,4 +78,8 @@ export class CustomAnalyzer implements Analyzer {
   getFilters(): TokenFilter[] {
     return this.filters;
   }
+
+  getTextSearchConfig(): string | undefined {
+    return this.textSearchConfig;
+  }
 }
@@ -0,0 +1,130 @@
+import { Analyzer, AnalyzerConfig } from '../interfaces/analyzer.interface';
+import { CustomAnalyzer } from './custom-analyzer';
+
+// Configuration used when an analyzer does not name one, as before language analyzers
+export const DEFAULT_TEXT_SEARCH_CONFIG = 'english';
+
+// Created by scripts/complete-search-optimization.sql: simple plus the unaccent dictionary
+export const FOLDED_TEXT_SEARCH_CONFIG = 'simple_unaccent';
+
+// Snowball languages PostgreSQL ships a text search configuration for
+const POSTGRES_LANGUAGE_CONFIGS = [
+  'danish',
+  'dutch',
+  'english',
+  'finnish',
+  'french',
+  'german',
+  'hungarian',
+  'italian',
+  'norwegian',
+  'portuguese',
+  'romanian',
+  'russian',
+  'spanish',
+  'swedish',
+  'turkish',
+];
+
+interface LanguageAnalyzerDefinition {
+  filters: AnalyzerConfig['filters'];
+  // The configuration PostgreSQL builds tsvectors and tsqueries with for this language
+  textSearchConfig: string;
+}
+
+/**
+ * Built-in analyzers by language. English and French stem like PostgreSQL's
+ * configurations of the same name; Yoruba, Hausa, Igbo and Pidgin have no
+ * stemmer, so they fold diacritics and match the unaccented simple configuration.
+ */
+const LANGUAGE_ANALYZERS: Record<string, LanguageAnalyzerDefinition> = {
+  english: {
+    filters: [
+      { type: 'lowercase' },
+      { type: 'stopword', options: { language: 'english' } },
+      { type: 'stemming', options: { language: 'english' } },
+    ],
+    textSearchConfig: 'english',
+  },
+  french: {
+    filters: [
+      { type: 'elision' },
+      { type: 'lowercase' },
+      { type: 'stopword', options: { language: 'french' } },
+      { type: 'stemming', options: { language: 'french' } },
+    ],
+    textSearchConfig: 'french',
+  },
+  yoruba: {
+    filters: [
+      { type: 'lowercase' },
+      { type: 'asciifolding' },
+      { type: 'stopword', options: { language: 'yoruba' } },
+    ],
+    textSearchConfig: FOLDED_TEXT_SEARCH_CONFIG,
+  },
+  hausa: {
+    filters: [
+      { type: 'lowercase' },
+      { type: 'asciifolding' },
+      { type: 'stopword', options: { language: 'hausa' } },
+    ],
+    textSearchConfig: FOLDED_TEXT_SEARCH_CONFIG,
+  },
+  igbo: {
+    filters: [
+      { type: 'lowercase' },
+      { type: 'asciifolding' },
+      { type: 'stopword', options: { language: 'igbo' } },
+    ],
+    textSearchConfig: FOLDED_TEXT_SEARCH_CONFIG,
+  },
+  pidgin: {
+    filters: [
+      { type: 'lowercase' },
+      { type: 'asciifolding' },
+      { type: 'stopword', options: { language: 'pidgin' } },
+    ],
+    textSearchConfig: FOLDED_TEXT_SEARCH_CONFIG,
+  },
+};
+
+// ISO 639 codes accepted for Index.settings.defaultLanguage
+const LANGUAGE_CODES: Record<string, string> = {
+  en: 'english',
+  fr: 'french',
+  yo: 'yoruba',
+  ha: 'hausa',
+  ig: 'igbo',
+  pcm: 'pidgin',
+};
+
+export const LANGUAGES = Object.keys(LANGUAGE_ANALYZERS);
+
+/**
+ * The language analyzer name for a language name or ISO 639 code
+ */
+export function resolveLanguage(language: string): string | undefined {
+  const name = LANGUAGE_CODES[language?.toLowerCase()] || language?.toLowerCase();
+  return LANGUAGE_ANALYZERS[name] ? name : undefined;
+}
+
+export function createLanguageAnalyzer(language: string): Analyzer {
+  const definition = LANGUAGE_ANALYZERS[language];
+  return new CustomAnalyzer({
+    name: language,
+    tokenizer: { type: 'standard', options: { unicode: true } },
+    filters: definition.filters,
+    textSearchConfig: definition.textSearchConfig,
+  });
+}
+
+/**
+ * The PostgreSQL configuration matching a stemming filter's language, when there is one
+ */
+export function stemmerTextSearchConfig(language = 'porter'): string | undefined {
+  if (language === 'porter') {
+    return 'english';
+  }
+  return POSTGRES_LANGUAGE_CONFIGS.includes(language) ? language : undefined;
+}
@@ -0,0 +1,100 @@
+import { FieldMapping } from '../../index/interfaces/index.interface';
+import { Analyzer } from '../interfaces/analyzer.interface';
+import { ShingleFilter } from '../filters/shingle-filter';
+import { CustomAnalyzer } from './custom-analyzer';
+
+// Longest shingle indexed, and so the most trailing words a prefix lookup spans
+export const MAX_SHINGLE_SIZE = 3;
+
+// Longest prefix indexed; longer query prefixes are looked up by their first characters
+export const MAX_PREFIX_LENGTH = 20;
+
+const WORDS = { type: 'standard', options: { unicode: true } };
+
+const TRIPLES = new ShingleFilter({
+  minShingleSize: MAX_SHINGLE_SIZE,
+  maxShingleSize: MAX_SHINGLE_SIZE,
+  outputUnigrams: false,
+});
+
+/**
+ * Analyzers of a search_as_you_type field and its subfields: the words of the
+ * field, its word pairs and triples, and the leading characters of each word
+ * and shingle
+ */
+const SEARCH_AS_YOU_TYPE_ANALYZERS: Record<string, Analyzer> = {
+  search_as_you_type: new CustomAnalyzer({
+    name: 'search_as_you_type',
+    tokenizer: WORDS,
+    filters: [{ type: 'lowercase' }],
+  }),
+  search_as_you_type_2gram: new CustomAnalyzer({
+    name: 'search_as_you_type_2gram',
+    tokenizer: WORDS,
+    filters: [
+      { type: 'lowercase' },
+      { type: 'shingle', options: { minShingleSize: 2, maxShingleSize: 2, outputUnigrams: false } },
+    ],
+  }),
+  search_as_you_type_3gram: new CustomAnalyzer({
+    name: 'search_as_you_type_3gram',
+    tokenizer: WORDS,
+    filters: [
+      { type: 'lowercase' },
+      {
+        type: 'shingle',
+        options: {
+          minShingleSize: MAX_SHINGLE_SIZE,
+          maxShingleSize: MAX_SHINGLE_SIZE,
+          outputUnigrams: false,
+        },
+      },
+    ],
+  }),
+  search_as_you_type_prefix: new CustomAnalyzer({
+    name: 'search_as_you_type_prefix',
+    tokenizer: WORDS,
+    filters: [
+      { type: 'lowercase' },
+      { type: 'shingle', options: { minShingleSize: 2, maxShingleSize: MAX_SHINGLE_SIZE } },
+      { type: 'edge_ngram', options: { minGram: 1, maxGram: MAX_PREFIX_LENGTH } },
+    ],
+  }),
+};
+
+export const SEARCH_AS_YOU_TYPE_ANALYZER_NAMES = Object.keys(SEARCH_AS_YOU_TYPE_ANALYZERS);
+
+export function getSearchAsYouTypeAnalyzer(name: string): Analyzer {
+  return SEARCH_AS_YOU_TYPE_ANALYZERS[name];
+}
+
+/**
+ * The subfields a search_as_you_type field is indexed into
+ */
+export function searchAsYouTypeSubfields(): Record<string, FieldMapping> {
+  return {
+    _2gram: { type: 'text', analyzer: 'search_as_you_type_2gram' },
+    _3gram: { type: 'text', analyzer: 'search_as_you_type_3gram' },
+    _prefix: {
+      type: 'text',
+      analyzer: 'search_as_you_type_prefix',
+      searchAnalyzer: 'search_as_you_type',
+    },
+  };
+}
+
+/**
+ * The grams a search_as_you_type query looks up: its last words as the prefix of
+ * an indexed shingle, and the word triples of the complete words before them
+ */
+export function searchAsYouTypeQuery(text: string): { prefix?: string; shingles: string[] } {
+  const words = SEARCH_AS_YOU_TYPE_ANALYZERS.search_as_you_type.analyze(text);
+  if (words.length === 0) {
+    return { shingles: [] };
+  }
+
+  return {
+    prefix: words.slice(-MAX_SHINGLE_SIZE).join(' ').substring(0, MAX_PREFIX_LENGTH),
+    shingles: words.length > MAX_SHINGLE_SIZE ? TRIPLES.filter(words.slice(0, -1)) : [],
+  };
+}
@@ -0,0 +1,27 @@
+import { CharFilter, CharFilterOptions } from '../interfaces/char-filter.interface';
+import { HtmlStripCharFilter, HtmlStripCharFilterOptions } from './html-strip-char-filter';
+import {
+  PatternReplaceCharFilter,
+  PatternReplaceCharFilterOptions,
+} from './pattern-replace-char-filter';
+import { MappingCharFilter, MappingCharFilterOptions } from './mapping-char-filter';
+
+export type CharFilterType = 'html_strip' | 'pattern_replace' | 'mapping';
+
+export class CharFilterFactory {
+  /**
+   * Create a char filter based on the specified type and options
+   */
+  static createCharFilter(type: CharFilterType, options: CharFilterOptions = {}): CharFilter {
+    switch (type) {
+      case 'html_strip':
+        return new HtmlStripCharFilter(options as HtmlStripCharFilterOptions);
+      case 'pattern_replace':
+        return new PatternReplaceCharFilter(options as PatternReplaceCharFilterOptions);
+      case 'mapping':
+        return new MappingCharFilter(options as MappingCharFilterOptions);
+      default:
+        throw new Error(`Unknown char filter type: ${type}`);
+    }
+  }
+}
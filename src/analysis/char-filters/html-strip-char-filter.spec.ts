@@ -0,0 +1,33 @@
+import { HtmlStripCharFilter } from './html-strip-char-filter';
+import { mapText, originalSpan } from './mapped-text';
+
+describe('HtmlStripCharFilter', () => {
+  let filter: HtmlStripCharFilter;
+
+  beforeEach(() => {
+    filter = new HtmlStripCharFilter();
+  });
+
+  it('should drop tags, comments and scripts and decode entities', () => {
+    const html =
+      '<div>Mama&nbsp;Put<!-- promo --></div><script>track()</script><p>Jollof &amp; <b>Suya</b> &#8358;500</p>';
+    expect(filter.filter(mapText(html)).text).toBe('\nMama Put\n\nJollof & Suya ₦500\n');
+  });
+
+  it('should map filtered characters back to the original text', () => {
+    const html = '<b>Lagos</b> &amp; Abuja';
+    const mapped = filter.filter(mapText(html));
+
+    const lagos = mapped.text.indexOf('Lagos');
+    expect(originalSpan(mapped, lagos, lagos + 5)).toEqual([3, 8]);
+    const ampersand = mapped.text.indexOf('&');
+    expect(originalSpan(mapped, ampersand, ampersand + 1)).toEqual([13, 18]);
+    const abuja = mapped.text.indexOf('Abuja');
+    expect(html.slice(...originalSpan(mapped, abuja, abuja + 5))).toBe('Abuja');
+  });
+
+  it('should keep escaped tags and unknown entities', () => {
+    filter = new HtmlStripCharFilter({ escapedTags: ['B'] });
+    expect(filter.filter(mapText('<i>a</i> <b>b</b> &bogus;')).text).toBe('a <b>b</b> &bogus;');
+  });
+});
@@ -0,0 +1,128 @@
+import { CharFilter, CharFilterOptions, MappedText } from '../interfaces/char-filter.interface';
+import { MappedTextBuilder } from './mapped-text';
+
+export interface HtmlStripCharFilterOptions extends CharFilterOptions {
+  // Tags left in the text, e.g. ['b']
+  escapedTags?: string[];
+}
+
+// Tags that separate words, so "one</p><p>two" does not become "onetwo"
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'br',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'footer',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'li',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'td',
+  'th',
+  'tr',
+  'ul',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  naira: '₦',
+};
+
+const HTML_PATTERN =
+  /<!--[\s\S]*?(?:-->|$)|<(script|style)\b[^>]*>[\s\S]*?(?:<\/\1\s*>|$)|<\/?([a-zA-Z][\w:-]*)\b[^>]*>|&(#[0-9]+|#[xX][0-9a-fA-F]+|[a-zA-Z]+);/g;
+
+/**
+ * Removes HTML markup: tags, comments and script and style elements are
+ * dropped (block-level tags leave a line break) and character entities are
+ * decoded. Unknown entities are left as they are.
+ */
+export class HtmlStripCharFilter implements CharFilter {
+  private readonly escapedTags: Set<string>;
+
+  constructor(options: HtmlStripCharFilterOptions = {}) {
+    this.escapedTags = new Set((options.escapedTags || []).map(tag => tag.toLowerCase()));
+  }
+
+  filter(input: MappedText): MappedText {
+    const builder = new MappedTextBuilder(input);
+    let position = 0;
+
+    for (const match of input.text.matchAll(HTML_PATTERN)) {
+      const replacement = this.replacement(match);
+      if (replacement === null) continue;
+
+      builder.keep(position, match.index);
+      builder.replace(match.index, match.index + match[0].length, replacement);
+      position = match.index + match[0].length;
+    }
+
+    builder.keep(position, input.text.length);
+    return builder.build();
+  }
+
+  getName(): string {
+    return 'html_strip';
+  }
+
+  /**
+   * What a piece of markup is replaced with, or null to keep it
+   */
+  private replacement([, , tag, entity]: RegExpMatchArray): string | null {
+    if (entity) {
+      return this.decodeEntity(entity);
+    }
+    if (!tag) {
+      // A comment, or a script or style element with its content
+      return '';
+    }
+
+    const name = tag.toLowerCase();
+    if (this.escapedTags.has(name)) {
+      return null;
+    }
+    return BLOCK_TAGS.has(name) ? '\n' : '';
+  }
+
+  private decodeEntity(entity: string): string | null {
+    if (entity[0] !== '#') {
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? null;
+    }
+
+    const codePoint =
+      entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : null;
+  }
+}
@@ -0,0 +1,70 @@
+import { CharFilter, MappedText } from '../interfaces/char-filter.interface';
+
+/**
+ * Text no char filter has changed yet: every character stands for itself
+ */
+export function mapText(text: string): MappedText {
+  const starts = Array.from({ length: text.length }, (_, i) => i);
+  return { text, starts, ends: starts.map(start => start + 1) };
+}
+
+/**
+ * Run text through char filters in order, keeping track of the original offsets
+ */
+export function applyCharFilters(filters: CharFilter[], text: string): MappedText {
+  return filters.reduce((mapped, filter) => filter.filter(mapped), mapText(text));
+}
+
+/**
+ * The span of the original text behind characters start (inclusive) to end
+ * (exclusive) of the filtered text
+ */
+export function originalSpan(mapped: MappedText, start: number, end: number): [number, number] {
+  if (end <= start) {
+    const offset = boundary(mapped, start);
+    return [offset, offset];
+  }
+  return [mapped.starts[start], mapped.ends[end - 1]];
+}
+
+function boundary(mapped: MappedText, index: number): number {
+  if (index < mapped.starts.length) {
+    return mapped.starts[index];
+  }
+  return mapped.ends.length > 0 ? mapped.ends[mapped.ends.length - 1] : 0;
+}
+
+/**
+ * Builds the output of a char filter from kept and replaced parts of its input.
+ * Kept characters keep their spans; replacement characters all stand for the
+ * whole span they replace.
+ */
+export class MappedTextBuilder {
+  private text = '';
+  private readonly starts: number[] = [];
+  private readonly ends: number[] = [];
+
+  constructor(private readonly input: MappedText) {}
+
+  keep(from: number, to: number): void {
+    if (to <= from) return;
+    this.text += this.input.text.slice(from, to);
+    for (let i = from; i < to; i++) {
+      this.starts.push(this.input.starts[i]);
+      this.ends.push(this.input.ends[i]);
+    }
+  }
+
+  replace(from: number, to: number, replacement: string): void {
+    const [start, end] = originalSpan(this.input, from, to);
+    this.text += replacement;
+    for (let i = 0; i < replacement.length; i++) {
+      this.starts.push(start);
+      this.ends.push(end);
+    }
+  }
+
+  build(): MappedText {
+    return { text: this.text, starts: this.starts, ends: this.ends };
+  }
+}
@@ -0,0 +1,27 @@
+import { MappingCharFilter } from './mapping-char-filter';
+import { mapText, originalSpan } from './mapped-text';
+
+describe('MappingCharFilter', () => {
+  it('should replace keys with their values, preferring the longest key', () => {
+    const filter = new MappingCharFilter({
+      mappings: [':) => _happy_', ':)) => _very_happy_', '₦ => naira '],
+    });
+    expect(filter.filter(mapText('₦500 :)) :)')).text).toBe('naira 500 _very_happy_ _happy_');
+  });
+
+  it('should map replacements to the span they replace', () => {
+    const filter = new MappingCharFilter({ mappings: ['& => and'] });
+    const mapped = filter.filter(mapText('Fish & Chips'));
+
+    expect(mapped.text).toBe('Fish and Chips');
+    expect(originalSpan(mapped, 5, 8)).toEqual([5, 6]);
+    expect(originalSpan(mapped, 9, 14)).toEqual([7, 12]);
+  });
+
+  it('should reject invalid rules', () => {
+    expect(() => new MappingCharFilter({ mappings: [] })).toThrow();
+    expect(() => new MappingCharFilter({ mappings: ['no arrow'] })).toThrow(
+      'Invalid mapping rule: no arrow',
+    );
+  });
+});
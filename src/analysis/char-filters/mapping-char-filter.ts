@@ -0,0 +1,60 @@
+import { CharFilter, CharFilterOptions, MappedText } from '../interfaces/char-filter.interface';
+import { MappedTextBuilder } from './mapped-text';
+
+export interface MappingCharFilterOptions extends CharFilterOptions {
+  // Rules of the form "key => value", e.g. ":) => _happy_" or "₦ => naira "
+  mappings: string[];
+}
+
+const RULE_PATTERN = /^(.+?)\s*=>\s?(.*)$/;
+
+/**
+ * Replaces fixed strings with others. Where several keys start at the same
+ * character the longest one wins.
+ */
+export class MappingCharFilter implements CharFilter {
+  private readonly mappings = new Map<string, string>();
+  private readonly keys: string[];
+
+  constructor(options: MappingCharFilterOptions) {
+    if (!Array.isArray(options?.mappings) || options.mappings.length === 0) {
+      throw new Error('mapping needs a list of "key => value" mappings');
+    }
+
+    for (const rule of options.mappings) {
+      const match = typeof rule === 'string' ? RULE_PATTERN.exec(rule) : null;
+      if (!match) {
+        throw new Error(`Invalid mapping rule: ${rule}`);
+      }
+      this.mappings.set(match[1], match[2]);
+    }
+    this.keys = [...this.mappings.keys()].sort((a, b) => b.length - a.length);
+  }
+
+  filter(input: MappedText): MappedText {
+    const builder = new MappedTextBuilder(input);
+    const { text } = input;
+    let kept = 0;
+    let position = 0;
+
+    while (position < text.length) {
+      const key = this.keys.find(candidate => text.startsWith(candidate, position));
+      if (!key) {
+        position++;
+        continue;
+      }
+
+      builder.keep(kept, position);
+      builder.replace(position, position + key.length, this.mappings.get(key));
+      position += key.length;
+      kept = position;
+    }
+
+    builder.keep(kept, text.length);
+    return builder.build();
+  }
+
+  getName(): string {
+    return 'mapping';
+  }
+}
@@ -0,0 +1,27 @@
+import { PatternReplaceCharFilter } from './pattern-replace-char-filter';
+import { mapText, originalSpan } from './mapped-text';
+
+describe('PatternReplaceCharFilter', () => {
+  it('should replace matches, expanding capture groups', () => {
+    const filter = new PatternReplaceCharFilter({
+      pattern: '(\\d{4})-(\\d{3})',
+      replacement: '$1$2',
+    });
+    expect(filter.filter(mapText('call 0803-555 now')).text).toBe('call 0803555 now');
+  });
+
+  it('should support unicode property classes to strip emoji', () => {
+    const filter = new PatternReplaceCharFilter({ pattern: '\\p{Extended_Pictographic}' });
+    const mapped = filter.filter(mapText('Best 🔥 suya'));
+
+    expect(mapped.text).toBe('Best  suya');
+    const suya = mapped.text.indexOf('suya');
+    expect(originalSpan(mapped, suya, suya + 4)).toEqual([8, 12]);
+  });
+
+  it('should require a pattern', () => {
+    expect(() => new PatternReplaceCharFilter({} as any)).toThrow(
+      'pattern_replace needs a pattern',
+    );
+  });
+});
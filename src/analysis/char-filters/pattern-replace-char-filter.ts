@@ -0,0 +1,53 @@
+import { CharFilter, CharFilterOptions, MappedText } from '../interfaces/char-filter.interface';
+import { MappedTextBuilder } from './mapped-text';
+
+export interface PatternReplaceCharFilterOptions extends CharFilterOptions {
+  pattern: string;
+  // May refer to capture groups as $1, $2, ... and to the whole match as $&
+  replacement?: string;
+  // Regular expression flags besides g; defaults to u so \p{...} classes work
+  flags?: string;
+}
+
+/**
+ * Replaces every match of a regular expression, e.g. `\p{Extended_Pictographic}`
+ * to drop emoji or `(\d+)-(\d+)` to `$1$2` to join phone number parts
+ */
+export class PatternReplaceCharFilter implements CharFilter {
+  private readonly pattern: RegExp;
+  private readonly replacement: string;
+
+  constructor(options: PatternReplaceCharFilterOptions) {
+    if (!options?.pattern || typeof options.pattern !== 'string') {
+      throw new Error('pattern_replace needs a pattern');
+    }
+
+    const flags = (options.flags ?? 'u').replace(/g/g, '');
+    this.pattern = new RegExp(options.pattern, `${flags}g`);
+    this.replacement = options.replacement ?? '';
+  }
+
+  filter(input: MappedText): MappedText {
+    const builder = new MappedTextBuilder(input);
+    let position = 0;
+
+    for (const match of input.text.matchAll(this.pattern)) {
+      builder.keep(position, match.index);
+      builder.replace(match.index, match.index + match[0].length, this.expand(match));
+      position = match.index + match[0].length;
+    }
+
+    builder.keep(position, input.text.length);
+    return builder.build();
+  }
+
+  getName(): string {
+    return 'pattern_replace';
+  }
+
+  private expand(match: RegExpMatchArray): string {
+    return this.replacement.replace(/\$(\d+|&)/g, (_, group) =>
+      group === '&' ? match[0] : match[Number(group)] ?? '',
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { AsciiFoldingFilter } from './ascii-folding-filter';
+
+describe('AsciiFoldingFilter', () => {
+  let filter: AsciiFoldingFilter;
+
+  beforeEach(() => {
+    filter = new AsciiFoldingFilter();
+  });
+
+  it('should strip accents and tone marks', () => {
+    expect(filter.filter(['café', 'ọjà', 'ẹ̀kọ́', 'ńlá'])).toEqual(['cafe', 'oja', 'eko', 'nla']);
+  });
+
+  it('should fold letters without a decomposition', () => {
+    expect(filter.filter(['ɗan', 'ƙasa', 'ɓera', 'œuvre', 'straße'])).toEqual([
+      'dan',
+      'kasa',
+      'bera',
+      'oeuvre',
+      'strasse',
+    ]);
+  });
+
+  it('should handle null or undefined input', () => {
+    expect(filter.filter(null)).toEqual([]);
+    expect(filter.filter(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,52 @@
+import { TokenFilter } from '../interfaces/token-filter.interface';
+
+// Letters that do not decompose into a base letter and combining marks
+const FOLDED_LETTERS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  Æ: 'AE',
+  œ: 'oe',
+  Œ: 'OE',
+  ø: 'o',
+  Ø: 'O',
+  đ: 'd',
+  Đ: 'D',
+  ł: 'l',
+  Ł: 'L',
+  // Hausa hooked letters
+  ɓ: 'b',
+  Ɓ: 'B',
+  ɗ: 'd',
+  Ɗ: 'D',
+  ƙ: 'k',
+  Ƙ: 'K',
+  ƴ: 'y',
+  Ƴ: 'Y',
+};
+
+const FOLDED_LETTER_PATTERN = new RegExp(`[${Object.keys(FOLDED_LETTERS).join('')}]`, 'g');
+
+/**
+ * Strips diacritics so accented and unaccented spellings match: tone marks and
+ * underdots of Yoruba and Igbo, French accents and Hausa hooked letters
+ */
+export class AsciiFoldingFilter implements TokenFilter {
+  filter(tokens: string[]): string[] {
+    if (!tokens || !Array.isArray(tokens)) {
+      return [];
+    }
+
+    return tokens.map(token => AsciiFoldingFilter.fold(token));
+  }
+
+  static fold(token: string): string {
+    return token
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      .replace(FOLDED_LETTER_PATTERN, letter => FOLDED_LETTERS[letter]);
+  }
+
+  getName(): string {
+    return 'asciifolding';
+  }
+}
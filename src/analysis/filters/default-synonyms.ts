@@ -0,0 +1,27 @@
+/**
+ * Name of the synonym set every index has; an index can replace it with its own
+ */
+export const DEFAULT_SYNONYM_SET = 'default';
+
+/**
+ * Seed rules of the default set: business types and services, each kept
+ * alongside the terms it expands to
+ */
+export const DEFAULT_SYNONYM_RULES: string[] = [
+  // Business types
+  'restaurant => restaurant, food, dining, eatery, cafe, bistro, pub, bar, grill, kitchen',
+  'hotel => hotel, accommodation, lodging, guesthouse, inn, resort, motel, hostel',
+  'clinic => clinic, hospital, medical, healthcare, doctor, pharmacy, dental',
+  'shop => shop, store, retail, market, mall, supermarket, grocery',
+  'bank => bank, financial, credit union, atm, money, finance, banking',
+  'school => school, education, university, college, academy, institute',
+  'gym => gym, fitness, workout, exercise, sports, training',
+  'salon => salon, beauty, hair, spa, cosmetics, styling',
+
+  // Services
+  'delivery => delivery, deliver, home delivery, door delivery',
+  'takeout => takeout, take away, take-away, pickup, to go',
+  '24/7 => 24/7, 24 hours, all day, all night, always open',
+  'emergency => emergency, urgent, immediate, asap',
+  'appointment => appointment, booking, reservation, schedule',
+];
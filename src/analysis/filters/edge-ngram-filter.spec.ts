@@ -0,0 +1,12 @@
+import { EdgeNgramFilter } from './edge-ngram-filter';
+
+describe('EdgeNgramFilter', () => {
+  it('should replace each token with its leading n-grams', () => {
+    const filter = new EdgeNgramFilter({ minGram: 2, maxGram: 4 });
+    expect(filter.filter(['lagos', 'ib', 'a'])).toEqual(['la', 'lag', 'lago', 'ib']);
+  });
+
+  it('should reject a minGram greater than maxGram', () => {
+    expect(() => new EdgeNgramFilter({ minGram: 5, maxGram: 2 })).toThrow();
+  });
+});
@@ -0,0 +1,40 @@
+import { TokenFilter, TokenFilterOptions } from '../interfaces/token-filter.interface';
+
+export interface EdgeNgramFilterOptions extends TokenFilterOptions {
+  minGram?: number;
+  maxGram?: number;
+}
+
+/**
+ * Replaces each token with its leading n-grams; tokens shorter than minGram are dropped
+ */
+export class EdgeNgramFilter implements TokenFilter {
+  private readonly minGram: number;
+  private readonly maxGram: number;
+
+  constructor(options: EdgeNgramFilterOptions = {}) {
+    this.minGram = options.minGram || 1;
+    this.maxGram = options.maxGram || 20;
+    if (this.minGram > this.maxGram) {
+      throw new Error('minGram must not be greater than maxGram');
+    }
+  }
+
+  filter(tokens: string[]): string[] {
+    if (!tokens || !Array.isArray(tokens)) {
+      return [];
+    }
+
+    return tokens.flatMap(token => {
+      const grams: string[] = [];
+      for (let n = this.minGram; n <= this.maxGram && n <= token.length; n++) {
+        grams.push(token.substring(0, n));
+      }
+      return grams;
+    });
+  }
+
+  getName(): string {
+    return 'edge_ngram';
+  }
+}
@@ -0,0 +1,28 @@
+import { ElisionFilter } from './elision-filter';
+
+describe('ElisionFilter', () => {
+  let filter: ElisionFilter;
+
+  beforeEach(() => {
+    filter = new ElisionFilter();
+  });
+
+  it('should remove elided French articles', () => {
+    expect(filter.filter(["l'école", 'd’été', "Qu'il", "jusqu'ici", 'maison'])).toEqual([
+      'école',
+      'été',
+      'il',
+      'ici',
+      'maison',
+    ]);
+  });
+
+  it('should keep apostrophes that do not follow an article', () => {
+    expect(filter.filter(["aujourd'hui"])).toEqual(["aujourd'hui"]);
+  });
+
+  it('should use custom articles when provided', () => {
+    filter = new ElisionFilter({ articles: ['dell'] });
+    expect(filter.filter(["dell'arte", "l'arte"])).toEqual(['arte', "l'arte"]);
+  });
+});
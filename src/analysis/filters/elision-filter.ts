@@ -0,0 +1,47 @@
+import { TokenFilter, TokenFilterOptions } from '../interfaces/token-filter.interface';
+
+export interface ElisionFilterOptions extends TokenFilterOptions {
+  articles?: string[];
+}
+
+const FRENCH_ARTICLES = [
+  'l',
+  'm',
+  't',
+  'qu',
+  'n',
+  's',
+  'j',
+  'd',
+  'c',
+  'jusqu',
+  'quoiqu',
+  'lorsqu',
+  'puisqu',
+];
+
+/**
+ * Removes elided articles from the front of tokens, e.g. l'école becomes école.
+ * Both the straight and the typographic apostrophe are recognised.
+ */
+export class ElisionFilter implements TokenFilter {
+  private readonly pattern: RegExp;
+
+  constructor(options: ElisionFilterOptions = {}) {
+    const articles = options.articles || FRENCH_ARTICLES;
+    const alternatives = articles.map(article => article.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    this.pattern = new RegExp(`^(?:${alternatives.join('|')})['’]`, 'i');
+  }
+
+  filter(tokens: string[]): string[] {
+    if (!tokens || !Array.isArray(tokens)) {
+      return [];
+    }
+
+    return tokens.map(token => token.replace(this.pattern, '')).filter(token => token.length > 0);
+  }
+
+  getName(): string {
+    return 'elision';
+  }
+}
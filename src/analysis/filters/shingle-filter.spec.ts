@@ -0,0 +1,30 @@
+import { ShingleFilter } from './shingle-filter';
+
+describe('ShingleFilter', () => {
+  const tokens = ['first', 'bank', 'lagos'];
+
+  it('should add word pairs after each token by default', () => {
+    expect(new ShingleFilter().filter(tokens)).toEqual([
+      'first',
+      'first bank',
+      'bank',
+      'bank lagos',
+      'lagos',
+    ]);
+  });
+
+  it('should emit only shingles of the configured sizes without unigrams', () => {
+    const filter = new ShingleFilter({
+      minShingleSize: 2,
+      maxShingleSize: 3,
+      outputUnigrams: false,
+      tokenSeparator: '_',
+    });
+    expect(filter.filter(tokens)).toEqual(['first_bank', 'first_bank_lagos', 'bank_lagos']);
+  });
+
+  it('should reject shingle sizes below two', () => {
+    expect(() => new ShingleFilter({ minShingleSize: 1 })).toThrow();
+    expect(() => new ShingleFilter({ minShingleSize: 3, maxShingleSize: 2 })).toThrow();
+  });
+});
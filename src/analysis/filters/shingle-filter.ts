@@ -0,0 +1,52 @@
+import { TokenFilter, TokenFilterOptions } from '../interfaces/token-filter.interface';
+
+export interface ShingleFilterOptions extends TokenFilterOptions {
+  minShingleSize?: number;
+  maxShingleSize?: number;
+  outputUnigrams?: boolean;
+  tokenSeparator?: string;
+}
+
+/**
+ * Joins runs of consecutive tokens into word n-grams ("shingles"), e.g.
+ * "credit union" for ["credit", "union"], optionally keeping the single tokens
+ */
+export class ShingleFilter implements TokenFilter {
+  private readonly minShingleSize: number;
+  private readonly maxShingleSize: number;
+  private readonly outputUnigrams: boolean;
+  private readonly tokenSeparator: string;
+
+  constructor(options: ShingleFilterOptions = {}) {
+    this.minShingleSize = options.minShingleSize || 2;
+    this.maxShingleSize = options.maxShingleSize || 2;
+    this.outputUnigrams = options.outputUnigrams ?? true;
+    this.tokenSeparator = options.tokenSeparator ?? ' ';
+    if (this.minShingleSize < 2 || this.minShingleSize > this.maxShingleSize) {
+      throw new Error('shingle sizes must be at least 2, with minShingleSize <= maxShingleSize');
+    }
+  }
+
+  filter(tokens: string[]): string[] {
+    if (!tokens || !Array.isArray(tokens)) {
+      return [];
+    }
+
+    const shingles: string[] = [];
+    tokens.forEach((token, start) => {
+      if (this.outputUnigrams) {
+        shingles.push(token);
+      }
+      for (let size = this.minShingleSize; size <= this.maxShingleSize; size++) {
+        if (start + size > tokens.length) break;
+        shingles.push(tokens.slice(start, start + size).join(this.tokenSeparator));
+      }
+    });
+
+    return shingles;
+  }
+
+  getName(): string {
+    return 'shingle';
+  }
+}
@@ -33,4 +33,15 @@ describe('StemmingFilter', () => {
     const result = filter.filter(tokens);
     expect(result).toEqual(['run', 'jump', 'fly', 'drive']);
   });
+
+  it('should stem with the Snowball stemmer of the given language', () => {
+    filter = new StemmingFilter({ language: 'french' });
+    expect(filter.filter(['écoles', 'mangeaient'])).toEqual(['écol', 'mang']);
+  });
+
+  it('should reject languages without a stemmer', () => {
+    expect(() => new StemmingFilter({ language: 'yoruba' })).toThrow(
+      'No stemmer for language: yoruba',
+    );
+  });
 });
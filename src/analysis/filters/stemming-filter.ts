@@ -1,9 +1,26 @@
 import { TokenFilter, TokenFilterOptions } from '../interfaces/token-filter.interface';
 import * as stemmer from 'porter-stemmer';
+import * as snowball from 'snowball-stemmers';
+
+export interface StemmingFilterOptions extends TokenFilterOptions {
+  // 'porter' (the default) or a Snowball algorithm such as 'english' or 'french'
+  language?: string;
+}
 
 export class StemmingFilter implements TokenFilter {
-  constructor(options: TokenFilterOptions = {}) {
-    // No specific options needed for basic Porter stemmer
+  private readonly stem: (token: string) => string;
+
+  constructor(options: StemmingFilterOptions = {}) {
+    const language = options.language || 'porter';
+
+    if (language === 'porter') {
+      this.stem = token => stemmer.stemmer(token);
+    } else if (snowball.algorithms().includes(language)) {
+      const algorithm = snowball.newStemmer(language);
+      this.stem = token => algorithm.stem(token);
+    } else {
+      throw new Error(`No stemmer for language: ${language}`);
+    }
   }
 
   filter(tokens: string[]): string[] {
@@ -11,7 +28,7 @@ export class StemmingFilter implements TokenFilter {
       return [];
     }
 
-    return tokens.map(token => stemmer.stemmer(token));
+    return tokens.map(token => this.stem(token));
   }
 
   getName(): string {
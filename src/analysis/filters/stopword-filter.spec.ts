@@ -40,4 +40,15 @@ describe('StopwordFilter', () => {
     const result = filter.filter(tokens);
     expect(result).toEqual(['code', 'search', 'engine', 'development']);
   });
+
+  it('should use the stopword list of the given language', () => {
+    filter = new StopwordFilter({ language: 'french' });
+    expect(filter.filter(['le', 'marché', 'de', 'la', 'ville'])).toEqual(['marché', 'ville']);
+  });
+
+  it('should reject languages without a stopword list', () => {
+    expect(() => new StopwordFilter({ language: 'klingon' })).toThrow(
+      'No stopword list for language: klingon',
+    );
+  });
 });
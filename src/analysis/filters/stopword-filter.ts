@@ -1,94 +1,23 @@
 import { TokenFilter, TokenFilterOptions } from '../interfaces/token-filter.interface';
+import { STOPWORDS } from './stopwords';
 
 export interface StopwordFilterOptions extends TokenFilterOptions {
   stopwords?: string[];
+  // Use the built-in list of this language when no stopwords are given
+  language?: string;
 }
 
 export class StopwordFilter implements TokenFilter {
   private options: StopwordFilterOptions;
-  private readonly defaultStopwords = [
-    // Articles
-    'a',
-    'an',
-    'the',
-
-    // Conjunctions
-    'and',
-    'or',
-    'but',
-    'nor',
-    'yet',
-    'so',
-
-    // Prepositions
-    'in',
-    'on',
-    'at',
-    'to',
-    'for',
-    'with',
-    'by',
-    'about',
-    'of',
-    'from',
-    'as',
-
-    // Forms of "to be"
-    'is',
-    'are',
-    'am',
-    'was',
-    'were',
-    'be',
-    'been',
-    'being',
-
-    // Pronouns
-    'i',
-    'me',
-    'my',
-    'mine',
-    'you',
-    'your',
-    'yours',
-    'he',
-    'him',
-    'his',
-    'she',
-    'her',
-    'hers',
-    'it',
-    'its',
-    'we',
-    'us',
-    'our',
-    'ours',
-    'they',
-    'them',
-    'their',
-    'theirs',
-
-    // Demonstratives
-    'this',
-    'that',
-    'these',
-    'those',
-
-    // Common adverbs
-    'not',
-    'very',
-    'too',
-    'only',
-    'just',
-    'more',
-    'most',
-    'some',
-    'any',
-  ];
 
   constructor(options: StopwordFilterOptions = {}) {
+    const language = options.language || 'english';
+    if (!options.stopwords && !STOPWORDS[language]) {
+      throw new Error(`No stopword list for language: ${language}`);
+    }
+
     this.options = {
-      stopwords: options.stopwords || this.defaultStopwords,
+      stopwords: options.stopwords || STOPWORDS[language],
     };
   }
 
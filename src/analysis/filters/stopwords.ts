@@ -0,0 +1,270 @@
+/**
+ * Stopword lists by language. The lists of languages whose analyzers fold
+ * diacritics (Yoruba, Hausa, Igbo, Pidgin) are written without them.
+ */
+export const STOPWORDS: Record<string, string[]> = {
+  english: [
+    // Articles
+    'a',
+    'an',
+    'the',
+
+    // Conjunctions
+    'and',
+    'or',
+    'but',
+    'nor',
+    'yet',
+    'so',
+
+    // Prepositions
+    'in',
+    'on',
+    'at',
+    'to',
+    'for',
+    'with',
+    'by',
+    'about',
+    'of',
+    'from',
+    'as',
+
+    // Forms of "to be"
+    'is',
+    'are',
+    'am',
+    'was',
+    'were',
+    'be',
+    'been',
+    'being',
+
+    // Pronouns
+    'i',
+    'me',
+    'my',
+    'mine',
+    'you',
+    'your',
+    'yours',
+    'he',
+    'him',
+    'his',
+    'she',
+    'her',
+    'hers',
+    'it',
+    'its',
+    'we',
+    'us',
+    'our',
+    'ours',
+    'they',
+    'them',
+    'their',
+    'theirs',
+
+    // Demonstratives
+    'this',
+    'that',
+    'these',
+    'those',
+
+    // Common adverbs
+    'not',
+    'very',
+    'too',
+    'only',
+    'just',
+    'more',
+    'most',
+    'some',
+    'any',
+  ],
+  // French keeps its accents: the French analyzer stems accented words
+  french: [
+    'au',
+    'aux',
+    'avec',
+    'ce',
+    'ces',
+    'dans',
+    'de',
+    'des',
+    'du',
+    'elle',
+    'en',
+    'et',
+    'eux',
+    'il',
+    'ils',
+    'je',
+    'la',
+    'le',
+    'les',
+    'leur',
+    'lui',
+    'ma',
+    'mais',
+    'me',
+    'même',
+    'mes',
+    'moi',
+    'mon',
+    'ne',
+    'nos',
+    'notre',
+    'nous',
+    'on',
+    'ou',
+    'par',
+    'pas',
+    'pour',
+    'qu',
+    'que',
+    'qui',
+    'sa',
+    'se',
+    'ses',
+    'son',
+    'sur',
+    'ta',
+    'te',
+    'tes',
+    'toi',
+    'ton',
+    'tu',
+    'un',
+    'une',
+    'vos',
+    'votre',
+    'vous',
+    'c',
+    'd',
+    'j',
+    'l',
+    'à',
+    'm',
+    'n',
+    's',
+    't',
+    'y',
+    'été',
+    'être',
+    'est',
+    'sont',
+    'était',
+  ],
+  yoruba: [
+    'ati',
+    'ni',
+    'si',
+    'ti',
+    'fun',
+    'pelu',
+    'naa',
+    'yii',
+    'kan',
+    'awon',
+    'won',
+    'o',
+    'a',
+    'e',
+    'mo',
+    'emi',
+    'iwo',
+    'oun',
+    'awa',
+    'eyin',
+    'sugbon',
+    'tabi',
+    'bi',
+    'lati',
+    'ninu',
+    'wa',
+    'je',
+  ],
+  hausa: [
+    'da',
+    'a',
+    'na',
+    'ta',
+    'ya',
+    'ba',
+    'ga',
+    'cikin',
+    'kuma',
+    'amma',
+    'ko',
+    'wanda',
+    'wadda',
+    'wannan',
+    'wadannan',
+    'shi',
+    'ita',
+    'su',
+    'mu',
+    'ku',
+    'ne',
+    'ce',
+    'don',
+    'sai',
+    'zuwa',
+    'daga',
+    'kan',
+    'har',
+  ],
+  igbo: [
+    'na',
+    'nke',
+    'ya',
+    'o',
+    'ha',
+    'anyi',
+    'unu',
+    'm',
+    'gi',
+    'a',
+    'ka',
+    'ma',
+    'obu',
+    'ebe',
+    'maka',
+    'ndi',
+    'bu',
+    'site',
+    'ruo',
+    'mana',
+  ],
+  pidgin: [
+    'di',
+    'de',
+    'dey',
+    'na',
+    'for',
+    'wey',
+    'dem',
+    'im',
+    'una',
+    'sey',
+    'don',
+    'go',
+    'make',
+    'abi',
+    'sef',
+    'o',
+    'e',
+    'am',
+    'dis',
+    'dat',
+    'and',
+    'or',
+    'but',
+    'the',
+    'a',
+    'to',
+    'of',
+    'with',
+  ],
+};
@@ -0,0 +1,84 @@
+import { CustomAnalyzer } from '../analyzers/custom-analyzer';
+import { analyzeToGraph } from '../token-graph';
+import { SynonymFilter, SynonymMap } from './synonym-filter';
+
+describe('SynonymFilter', () => {
+  describe('SynonymMap.parse', () => {
+    it('should make the phrases of a rule equivalent', () => {
+      const map = SynonymMap.parse(['sneakers, trainers, running shoes']);
+
+      expect(map.lookup(['trainers'])).toEqual([['sneakers'], ['trainers'], ['running', 'shoes']]);
+      expect(map.lookup(['running', 'shoes'])).toEqual(map.lookup(['sneakers']));
+      expect(map.longestPhrase).toBe(2);
+    });
+
+    it('should replace the left side of explicit mappings', () => {
+      const map = SynonymMap.parse(['TV, telly => television', '# comment', '']);
+
+      expect(map.lookup(['tv'])).toEqual([['television']]);
+      expect(map.lookup(['telly'])).toEqual([['television']]);
+      expect(map.lookup(['television'])).toBeUndefined();
+    });
+
+    it('should merge the alternatives of rules sharing a phrase', () => {
+      const map = SynonymMap.parse(['car, auto', 'car, automobile']);
+
+      expect(map.lookup(['car'])).toEqual([['car'], ['auto'], ['automobile']]);
+    });
+
+    it('should reject invalid rules', () => {
+      expect(() => SynonymMap.parse(['a => b => c'])).toThrow("Invalid synonym rule 'a => b => c'");
+      expect(() => SynonymMap.parse([' => b'])).toThrow('Invalid synonym rule');
+      expect(() => SynonymMap.parse('a, b' as any)).toThrow('synonyms must be a list of rules');
+    });
+  });
+
+  describe('expand', () => {
+    it('should match the longest phrase first', () => {
+      const filter = new SynonymFilter({ synonyms: ['credit union, bank', 'credit, loan'] });
+
+      expect(filter.expand(['cheap', 'credit', 'union'])).toEqual([
+        { start: 0, length: 1, alternatives: [['cheap']] },
+        { start: 1, length: 2, alternatives: [['credit', 'union'], ['bank']] },
+      ]);
+    });
+
+    it('should flatten the alternatives into a token stream', () => {
+      const filter = new SynonymFilter({ synonyms: ['tv => television, tv'] });
+
+      expect(filter.filter(['big', 'TV'])).toEqual(['big', 'television', 'tv']);
+    });
+
+    it('should read managed sets on every call', () => {
+      let set = SynonymMap.parse(['hotel, inn']);
+      const filter = new SynonymFilter({ synonymsSet: 'places', resolveSet: () => set });
+
+      expect(filter.filter(['hotel'])).toEqual(['hotel', 'inn']);
+      set = SynonymMap.parse(['hotel, motel']);
+      expect(filter.filter(['hotel'])).toEqual(['hotel', 'motel']);
+    });
+
+    it('should require rules or a set', () => {
+      expect(() => new SynonymFilter({})).toThrow('synonym filters need synonyms or a synonymsSet');
+    });
+  });
+
+  describe('analyzeToGraph', () => {
+    it('should keep synonyms as alternatives of the position they replace', () => {
+      const analyzer = new CustomAnalyzer({
+        name: 'synonyms',
+        tokenizer: { type: 'whitespace' },
+        filters: [
+          { type: 'lowercase' },
+          { type: 'synonym', options: { synonyms: ['credit union, bank'] } },
+        ],
+      });
+
+      expect(analyzeToGraph(analyzer, 'Cheap Bank')).toEqual([
+        [['cheap']],
+        [['credit', 'union'], ['bank']],
+      ]);
+      expect(analyzer.analyze('Cheap Bank')).toEqual(['cheap', 'credit', 'union', 'bank']);
+    });
+  });
+});
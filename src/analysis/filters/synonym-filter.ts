@@ -0,0 +1,164 @@
+import { TokenFilter, TokenFilterOptions } from '../interfaces/token-filter.interface';
+
+/**
+ * Synonym rules in Solr/WordNet format, keyed by the lowercased phrase they match.
+ *
+ * - `a, b, c` makes the phrases equivalent: each one matches all of them.
+ * - `a, b => c, d` replaces `a` or `b` with `c` and `d`; list `a` on the right to keep it.
+ *
+ * Phrases may span several words, e.g. `credit union, bank`.
+ */
+export class SynonymMap {
+  private readonly phrases = new Map<string, string[][]>();
+  private longest = 0;
+
+  static parse(rules: string[]): SynonymMap {
+    if (!Array.isArray(rules)) {
+      throw new Error('synonyms must be a list of rules');
+    }
+
+    const map = new SynonymMap();
+    for (const rule of rules) {
+      if (typeof rule !== 'string') {
+        throw new Error('synonym rules must be strings');
+      }
+      const line = rule.trim();
+      if (!line || line.startsWith('#')) {
+        continue;
+      }
+
+      const sides = line.split('=>');
+      const from = SynonymMap.parsePhrases(sides[0]);
+      const to = sides.length === 2 ? SynonymMap.parsePhrases(sides[1]) : from;
+      if (sides.length > 2 || from.length === 0 || to.length === 0) {
+        throw new Error(`Invalid synonym rule '${rule}'`);
+      }
+
+      for (const phrase of from) {
+        map.add(phrase, to);
+      }
+    }
+    return map;
+  }
+
+  private static parsePhrases(side: string): string[][] {
+    return side
+      .split(',')
+      .map(phrase => phrase.trim().toLowerCase().split(/\s+/).filter(Boolean))
+      .filter(phrase => phrase.length > 0);
+  }
+
+  get size(): number {
+    return this.phrases.size;
+  }
+
+  /**
+   * Number of words of the longest phrase with synonyms
+   */
+  get longestPhrase(): number {
+    return this.longest;
+  }
+
+  /**
+   * Every phrase with synonyms and its alternatives
+   */
+  entries(): Array<[string, string[][]]> {
+    return [...this.phrases.entries()];
+  }
+
+  /**
+   * The alternatives of a phrase, each a sequence of tokens
+   */
+  lookup(phrase: string[]): string[][] | undefined {
+    return this.phrases.get(phrase.join(' '));
+  }
+
+  private add(phrase: string[], alternatives: string[][]): void {
+    const key = phrase.join(' ');
+    const existing = this.phrases.get(key) || [];
+    const seen = new Set(existing.map(alternative => alternative.join(' ')));
+    this.phrases.set(key, [
+      ...existing,
+      ...alternatives.filter(alternative => !seen.has(alternative.join(' '))),
+    ]);
+    this.longest = Math.max(this.longest, phrase.length);
+  }
+}
+
+/**
+ * A span of input tokens and the token sequences it may be read as
+ */
+export interface SynonymGraphNode {
+  start: number;
+  length: number;
+  alternatives: string[][];
+}
+
+export interface SynonymFilterOptions extends TokenFilterOptions {
+  synonyms?: string[];
+  synonymsSet?: string;
+  resolveSet?: (name: string) => SynonymMap | undefined;
+}
+
+/**
+ * Expands tokens with their synonyms from inline rules and/or a managed
+ * synonym set. The set is looked up on every call, so updates apply without
+ * rebuilding the analyzer.
+ */
+export class SynonymFilter implements TokenFilter {
+  private readonly inline?: SynonymMap;
+
+  constructor(private readonly options: SynonymFilterOptions = {}) {
+    if (!options.synonyms && !options.synonymsSet) {
+      throw new Error('synonym filters need synonyms or a synonymsSet');
+    }
+    this.inline = options.synonyms ? SynonymMap.parse(options.synonyms) : undefined;
+  }
+
+  filter(tokens: string[]): string[] {
+    if (!tokens || !Array.isArray(tokens)) {
+      return [];
+    }
+
+    return this.expand(tokens).flatMap(node => [...new Set(node.alternatives.flat())]);
+  }
+
+  /**
+   * Match the longest phrases with synonyms, left to right, and return each
+   * span of the input with its alternatives
+   */
+  expand(tokens: string[]): SynonymGraphNode[] {
+    const maps = this.getMaps();
+    const longest = Math.max(0, ...maps.map(map => map.longestPhrase));
+    const nodes: SynonymGraphNode[] = [];
+
+    let start = 0;
+    while (start < tokens.length) {
+      let node: SynonymGraphNode | undefined;
+      for (let length = Math.min(longest, tokens.length - start); length > 0 && !node; length--) {
+        const phrase = tokens.slice(start, start + length).map(token => token.toLowerCase());
+        const alternatives = maps.map(map => map.lookup(phrase)).find(Boolean);
+        if (alternatives) {
+          node = { start, length, alternatives };
+        }
+      }
+
+      node = node || { start, length: 1, alternatives: [[tokens[start]]] };
+      nodes.push(node);
+      start += node.length;
+    }
+
+    return nodes;
+  }
+
+  getName(): string {
+    return 'synonym';
+  }
+
+  private getMaps(): SynonymMap[] {
+    const set = this.options.synonymsSet
+      ? this.options.resolveSet?.(this.options.synonymsSet)
+      : undefined;
+    return [set, this.inline].filter(map => map && map.size > 0);
+  }
+}
@@ -1,9 +1,22 @@
 import { TokenFilter, TokenFilterOptions } from '../interfaces/token-filter.interface';
 import { LowercaseFilter } from './lowercase-filter';
 import { StopwordFilter, StopwordFilterOptions } from './stopword-filter';
-import { StemmingFilter } from './stemming-filter';
+import { StemmingFilter, StemmingFilterOptions } from './stemming-filter';
+import { SynonymFilter, SynonymFilterOptions } from './synonym-filter';
+import { AsciiFoldingFilter } from './ascii-folding-filter';
+import { ElisionFilter, ElisionFilterOptions } from './elision-filter';
+import { EdgeNgramFilter, EdgeNgramFilterOptions } from './edge-ngram-filter';
+import { ShingleFilter, ShingleFilterOptions } from './shingle-filter';
 
-export type TokenFilterType = 'lowercase' | 'stopword' | 'stemming';
+export type TokenFilterType =
+  | 'lowercase'
+  | 'stopword'
+  | 'stemming'
+  | 'synonym'
+  | 'asciifolding'
+  | 'elision'
+  | 'edge_ngram'
+  | 'shingle';
 
 export class TokenFilterFactory {
   /**
@@ -16,7 +29,17 @@ export class TokenFilterFactory {
       case 'stopword':
         return new StopwordFilter(options as StopwordFilterOptions);
       case 'stemming':
-        return new StemmingFilter(options);
+        return new StemmingFilter(options as StemmingFilterOptions);
+      case 'synonym':
+        return new SynonymFilter(options as SynonymFilterOptions);
+      case 'asciifolding':
+        return new AsciiFoldingFilter();
+      case 'elision':
+        return new ElisionFilter(options as ElisionFilterOptions);
+      case 'edge_ngram':
+        return new EdgeNgramFilter(options as EdgeNgramFilterOptions);
+      case 'shingle':
+        return new ShingleFilter(options as ShingleFilterOptions);
       default:
         throw new Error(`Unknown token filter type: ${type}`);
     }
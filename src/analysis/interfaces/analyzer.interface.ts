@@ -1,8 +1,13 @@
 import { Tokenizer } from './tokenizer.interface';
 import { TokenFilter } from './token-filter.interface';
+import { CharFilter } from './char-filter.interface';
 
 export interface AnalyzerConfig {
   name: string;
+  charFilters?: Array<{
+    type: string;
+    options?: Record<string, any>;
+  }>;
   tokenizer: {
     type: string;
     options?: Record<string, any>;
@@ -11,6 +16,8 @@ export interface AnalyzerConfig {
     type: string;
     options?: Record<string, any>;
   }>;
+  // PostgreSQL text search configuration the analyzed terms are indexed and queried with
+  textSearchConfig?: string;
 }
 
 export interface Analyzer {
@@ -35,4 +42,9 @@ export interface Analyzer {
    * Get the filters used by this analyzer
    */
   getFilters(): TokenFilter[];
+
+  /**
+   * Get the char filters applied before the tokenizer, if any
+   */
+  getCharFilters?(): CharFilter[];
 }
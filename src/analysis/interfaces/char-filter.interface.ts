@@ -0,0 +1,27 @@
+export interface CharFilterOptions {
+  [key: string]: any;
+}
+
+/**
+ * Text produced by char filters, with the span of the original text each of its
+ * characters stands for, so token offsets can be mapped back to the original
+ */
+export interface MappedText {
+  text: string;
+  starts: number[];
+  ends: number[];
+}
+
+export interface CharFilter {
+  /**
+   * Filter text before it is tokenized
+   * @param input The text, as left by the previous char filter
+   * @returns The filtered text, its characters mapped to the original text
+   */
+  filter(input: MappedText): MappedText;
+
+  /**
+   * Get the name of the char filter
+   */
+  getName(): string;
+}
@@ -5,6 +5,8 @@ export interface TokenizerOptions {
   stemming?: boolean;
   removeSpecialChars?: boolean;
   specialCharsPattern?: RegExp;
+  // Split on Unicode letters and digits, keeping accents and inner apostrophes
+  unicode?: boolean;
 }
 
 export interface Tokenizer {
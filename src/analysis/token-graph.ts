@@ -0,0 +1,59 @@
+import { Analyzer } from './interfaces/analyzer.interface';
+import { SynonymFilter } from './filters/synonym-filter';
+import { applyCharFilters } from './char-filters/mapped-text';
+
+/**
+ * The analyzed text as consecutive positions, each with its alternatives. An
+ * alternative is a sequence of tokens, longer than one for multi-word synonyms.
+ */
+export type TokenGraph = string[][][];
+
+/**
+ * Analyze text keeping synonyms apart from the tokens they stand for, so a
+ * query can match any one of them rather than all. Without synonym filters
+ * every position has the single token `analyze()` would return.
+ */
+export function analyzeToGraph(analyzer: Analyzer, text: string): TokenGraph {
+  if (!text || typeof text !== 'string') {
+    return [];
+  }
+
+  const charFilters = analyzer.getCharFilters?.() || [];
+  const filtered = charFilters.length > 0 ? applyCharFilters(charFilters, text).text : text;
+  let graph: TokenGraph = analyzer
+    .getTokenizer()
+    .tokenize(filtered)
+    .map(token => [[token]]);
+
+  for (const filter of analyzer.getFilters()) {
+    if (filter instanceof SynonymFilter && graph.every(position => position.length === 1)) {
+      graph = filter.expand(graph.flatMap(position => position[0])).map(node => node.alternatives);
+      continue;
+    }
+
+    graph = graph
+      .map(position =>
+        dedupe(position.map(alternative => filter.filter(alternative)).filter(a => a.length > 0)),
+      )
+      .filter(position => position.length > 0);
+  }
+
+  return graph;
+}
+
+/**
+ * Whether any position of the graph has more than a single token
+ */
+export function hasAlternatives(graph: TokenGraph): boolean {
+  return graph.some(position => position.length > 1 || position[0].length > 1);
+}
+
+function dedupe(alternatives: string[][]): string[][] {
+  const seen = new Set<string>();
+  return alternatives.filter(alternative => {
+    const key = alternative.join(' ');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,28 @@
+import { EdgeNgramTokenizer } from './edge-ngram-tokenizer';
+
+describe('EdgeNgramTokenizer', () => {
+  let tokenizer: EdgeNgramTokenizer;
+
+  beforeEach(() => {
+    tokenizer = new EdgeNgramTokenizer();
+  });
+
+  it('should emit the leading n-grams of each word', () => {
+    expect(tokenizer.tokenize('Mama Put')).toEqual(['m', 'ma', 'mam', 'mama', 'p', 'pu', 'put']);
+  });
+
+  it('should handle empty input', () => {
+    expect(tokenizer.tokenize('')).toEqual([]);
+    expect(tokenizer.tokenize(null)).toEqual([]);
+  });
+
+  it('should respect custom minGram and maxGram settings', () => {
+    tokenizer = new EdgeNgramTokenizer({ minGram: 2, maxGram: 3 });
+    expect(tokenizer.tokenize('a restaurant')).toEqual(['re', 'res']);
+  });
+
+  it('should keep accented letters inside words', () => {
+    tokenizer = new EdgeNgramTokenizer({ minGram: 3 });
+    expect(tokenizer.tokenize('ọjà')).toEqual(['ọjà']);
+  });
+});
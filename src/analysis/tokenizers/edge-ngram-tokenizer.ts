@@ -0,0 +1,52 @@
+import { Tokenizer, TokenizerOptions } from '../interfaces/tokenizer.interface';
+
+export interface EdgeNgramTokenizerOptions extends TokenizerOptions {
+  minGram?: number;
+  maxGram?: number;
+}
+
+/**
+ * Emits the leading n-grams of each word, e.g. "c", "ca", "caf", "cafe" for "cafe",
+ * so a prefix of any word matches without scanning
+ */
+export class EdgeNgramTokenizer implements Tokenizer {
+  private options: EdgeNgramTokenizerOptions;
+
+  constructor(options: EdgeNgramTokenizerOptions = {}) {
+    this.options = {
+      minGram: 1,
+      maxGram: 20,
+      lowercase: true,
+      ...options,
+    };
+  }
+
+  tokenize(text: string): string[] {
+    if (!text || typeof text !== 'string') {
+      return [];
+    }
+
+    let processedText = text;
+
+    // Apply lowercase if option is enabled
+    if (this.options.lowercase) {
+      processedText = processedText.toLowerCase();
+    }
+
+    const minGram = this.options.minGram || 1;
+    const maxGram = this.options.maxGram || 20;
+    const tokens: string[] = [];
+
+    for (const word of processedText.split(/[^\p{L}\p{M}\p{N}_]+/u)) {
+      for (let n = minGram; n <= maxGram && n <= word.length; n++) {
+        tokens.push(word.substring(0, n));
+      }
+    }
+
+    return tokens;
+  }
+
+  getName(): string {
+    return 'edge_ngram';
+  }
+}
@@ -53,4 +53,10 @@ describe('StandardTokenizer', () => {
     const tokens = tokenizer.tokenize(text);
     expect(tokens).toEqual(['hello,', 'world!']);
   });
+
+  it('should keep accented letters and inner apostrophes in unicode mode', () => {
+    tokenizer = new StandardTokenizer({ unicode: true });
+    const tokens = tokenizer.tokenize("L'École d'été: ọjà 'ɗan'");
+    expect(tokens).toEqual(["l'école", "d'été", 'ọjà', 'ɗan']);
+  });
 });
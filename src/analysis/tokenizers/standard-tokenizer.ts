@@ -108,7 +108,13 @@ export class StandardTokenizer implements Tokenizer {
 
     let tokens: string[];
 
-    if (this.options.removeSpecialChars && this.options.specialCharsPattern) {
+    if (this.options.unicode) {
+      // Word characters of any script; apostrophes stay inside words for elision
+      tokens = processedText
+        .split(/[^\p{L}\p{M}\p{N}_'’]+/u)
+        .map(token => token.replace(/^['’]+|['’]+$/g, ''))
+        .filter(token => token.length > 0);
+    } else if (this.options.removeSpecialChars && this.options.specialCharsPattern) {
       // Remove special characters and split on word boundaries
       processedText = processedText.replace(this.options.specialCharsPattern, ' ');
       tokens = processedText
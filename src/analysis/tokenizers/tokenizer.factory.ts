@@ -2,8 +2,9 @@ import { Tokenizer, TokenizerOptions } from '../interfaces/tokenizer.interface';
 import { StandardTokenizer } from './standard-tokenizer';
 import { WhitespaceTokenizer } from './whitespace-tokenizer';
 import { NgramTokenizer, NgramTokenizerOptions } from './ngram-tokenizer';
+import { EdgeNgramTokenizer, EdgeNgramTokenizerOptions } from './edge-ngram-tokenizer';
 
-export type TokenizerType = 'standard' | 'whitespace' | 'ngram';
+export type TokenizerType = 'standard' | 'whitespace' | 'ngram' | 'edge_ngram';
 
 export class TokenizerFactory {
   /**
@@ -17,6 +18,8 @@ export class TokenizerFactory {
         return new WhitespaceTokenizer(options);
       case 'ngram':
         return new NgramTokenizer(options as NgramTokenizerOptions);
+      case 'edge_ngram':
+        return new EdgeNgramTokenizer(options as EdgeNgramTokenizerOptions);
       default:
         throw new Error(`Unknown tokenizer type: ${type}`);
     }
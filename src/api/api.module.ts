@@ -19,6 +19,17 @@ import { StorageModule } from '../storage/storage.module';
 import { IndexingModule } from '../indexing/indexing.module';
 import { BulkIndexingModule } from '../indexing/bulk-indexing.module';
 import { BullModule } from '@nestjs/bull';
+import { AuthModule } from '../auth/auth.module';
+import { RateLimitModule } from '../rate-limit/rate-limit.module';
+import { ApiKeyController } from './controllers/api-key.controller';
+import { SynonymController } from './controllers/synonym.controller';
+import { SchemaViolationController } from './controllers/schema-violation.controller';
+import { SchemaMigrationController } from './controllers/schema-migration.controller';
+import { IndexAliasController } from './controllers/index-alias.controller';
+import { TaskController } from './controllers/task.controller';
+import { BulkController } from './controllers/bulk.controller';
+import { ReindexController } from './controllers/reindex.controller';
+import { SchemaModule } from '../schema/schema.module';
 
 @Module({
   imports: [
@@ -28,6 +39,9 @@ import { BullModule } from '@nestjs/bull';
     StorageModule,
     IndexingModule,
     BulkIndexingModule,
+    AuthModule,
+    RateLimitModule,
+    SchemaModule,
     BullModule.registerQueue({
       name: 'indexing',
     }),
@@ -48,6 +62,14 @@ import { BullModule } from '@nestjs/bull';
     IntelligentSearchController,
     MetricsController,
     DebugController,
+    ApiKeyController,
+    SynonymController,
+    SchemaViolationController,
+    SchemaMigrationController,
+    IndexAliasController,
+    TaskController,
+    BulkController,
+    ReindexController,
   ],
   providers: [WorkerManagementService, DatabaseOptimizationService, DatabaseOptimizationProcessor],
 })
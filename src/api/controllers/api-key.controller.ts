@@ -0,0 +1,79 @@
+import { Body, Controller, Delete, Get, Param, Post, Query } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiKeyService } from '../../auth/api-key.service';
+import { Audit, RequireScope } from '../../auth/auth.decorators';
+import { AuditLogEntry } from '../../auth/interfaces/api-key.interface';
+import { ApiKeyResponseDto, CreateApiKeyDto, IssuedApiKeyResponseDto } from '../dtos/api-key.dto';
+
+@ApiTags('API Keys')
+@ApiBearerAuth('JWT-auth')
+@RequireScope('admin')
+@Controller('api/keys')
+export class ApiKeyController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create an API key' })
+  @ApiResponse({ status: 201, type: IssuedApiKeyResponseDto })
+  async createKey(@Body() createApiKeyDto: CreateApiKeyDto): Promise<IssuedApiKeyResponseDto> {
+    const { apiKey, key } = await this.apiKeyService.createKey(createApiKeyDto);
+    return { ...apiKey, key };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List API keys' })
+  @ApiResponse({ status: 200, type: [ApiKeyResponseDto] })
+  async listKeys(): Promise<ApiKeyResponseDto[]> {
+    return this.apiKeyService.listKeys();
+  }
+
+  @Get('audit-log')
+  @ApiOperation({ summary: 'List audited destructive operations, newest first' })
+  @ApiQuery({ name: 'keyId', required: false })
+  @ApiQuery({ name: 'limit', required: false, example: 100 })
+  async getAuditLog(
+    @Query('keyId') keyId?: string,
+    @Query('limit') limit?: string,
+  ): Promise<AuditLogEntry[]> {
+    return this.apiKeyService.getAuditLog({
+      keyId,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an API key' })
+  @ApiParam({ name: 'id', description: 'API key id' })
+  @ApiResponse({ status: 200, type: ApiKeyResponseDto })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async getKey(@Param('id') id: string): Promise<ApiKeyResponseDto> {
+    return this.apiKeyService.getKey(id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiParam({ name: 'id', description: 'API key id' })
+  @ApiResponse({ status: 200, type: ApiKeyResponseDto })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async revokeKey(@Param('id') id: string): Promise<ApiKeyResponseDto> {
+    return this.apiKeyService.revokeKey(id);
+  }
+
+  @Post(':id/_rotate')
+  @Audit()
+  @ApiOperation({ summary: 'Replace the secret of an API key, invalidating the old one' })
+  @ApiParam({ name: 'id', description: 'API key id' })
+  @ApiResponse({ status: 201, type: IssuedApiKeyResponseDto })
+  @ApiResponse({ status: 404, description: 'Active API key not found' })
+  async rotateKey(@Param('id') id: string): Promise<IssuedApiKeyResponseDto> {
+    const { apiKey, key } = await this.apiKeyService.rotateKey(id);
+    return { ...apiKey, key };
+  }
+}
@@ -15,6 +15,8 @@ import {
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBody } from '@nestjs/swagger';
 import { BulkIndexingService } from '../../indexing/services/bulk-indexing.service';
 import { BulkIndexingOptions } from '../../indexing/interfaces/bulk-indexing.interface';
+import { Audit, RequireScope } from '../../auth/auth.decorators';
+import { IndexAliasService } from '../../index/index-alias.service';
 
 class QueueSingleDocumentDto {
   indexName: string;
@@ -53,7 +55,10 @@ class QueueStatsDto {
 export class BulkIndexingController {
   private readonly logger = new Logger(BulkIndexingController.name);
 
-  constructor(private readonly bulkIndexingService: BulkIndexingService) {}
+  constructor(
+    private readonly bulkIndexingService: BulkIndexingService,
+    private readonly indexAliasService: IndexAliasService,
+  ) {}
 
   @Post('queue/batch')
   @HttpCode(HttpStatus.ACCEPTED)
@@ -68,6 +73,7 @@ export class BulkIndexingController {
         batchId: { type: 'string', nullable: true },
         message: { type: 'string' },
         totalDocuments: { type: 'number' },
+        schemaViolations: { type: 'array', items: { type: 'object' } },
       },
     },
   })
@@ -88,12 +94,16 @@ export class BulkIndexingController {
       }
     }
 
+    const indexName = await this.indexAliasService.resolveWriteIndex(dto.indexName);
+
     try {
-      const { batchId } = await this.bulkIndexingService.queueBulkIndexing(
-        dto.indexName,
-        dto.documents,
-        dto.options || {},
-      );
+      const { batchId, totalDocuments, schemaViolations } =
+        await this.bulkIndexingService.queueBulkIndexing(
+          indexName,
+          dto.documents,
+          // Clients cannot opt out of the index's schema
+          { ...dto.options, skipSchemaCheck: false },
+        );
 
       if (!batchId) {
         return {
@@ -106,7 +116,8 @@ export class BulkIndexingController {
       return {
         batchId,
         message: 'Batch queued successfully',
-        totalDocuments: dto.documents.length,
+        totalDocuments,
+        ...(schemaViolations.length > 0 && { schemaViolations }),
       };
     } catch (error) {
       this.logger.error(`Failed to queue batch: ${error.message}`);
@@ -172,6 +183,7 @@ export class BulkIndexingController {
   }
 
   @Post('workers/start')
+  @RequireScope('admin')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Resume indexing queue' })
   @ApiResponse({
@@ -244,6 +256,7 @@ export class BulkIndexingController {
   }
 
   @Post('queue/pause')
+  @RequireScope('admin')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Pause the indexing queue' })
   @ApiResponse({
@@ -269,6 +282,7 @@ export class BulkIndexingController {
   }
 
   @Post('queue/resume')
+  @RequireScope('admin')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Resume the indexing queue' })
   @ApiResponse({
@@ -294,6 +308,8 @@ export class BulkIndexingController {
   }
 
   @Post('queue/clean')
+  @RequireScope('admin')
+  @Audit()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Clean completed and failed jobs from queue' })
   @ApiResponse({
@@ -0,0 +1,112 @@
+import {
+  Body,
+  Controller,
+  DefaultValuePipe,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { BulkOperationsService } from '../../document/bulk-operations.service';
+import { BulkRequestParser } from '../../document/utils/bulk-request.parser';
+import { BulkOperationsResponseDto } from '../dtos/document.dto';
+
+const NDJSON_EXAMPLE = [
+  '{ "index": { "_id": "1" } }',
+  '{ "title": "Desk lamp", "price": 25 }',
+  '{ "create": { "_id": "2" } }',
+  '{ "title": "Floor lamp", "price": 80 }',
+  '{ "update": { "_id": "3" } }',
+  '{ "doc": { "price": 19 }, "doc_as_upsert": true }',
+  '{ "delete": { "_id": "4" } }',
+  '',
+].join('\n');
+
+@ApiTags('Documents')
+@ApiBearerAuth('JWT-auth')
+@Controller('api')
+export class BulkController {
+  constructor(private readonly bulkOperationsService: BulkOperationsService) {}
+
+  @Post('indices/:index/_bulk')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Run index, create, update and delete actions on an index',
+    description:
+      'Takes an Elasticsearch-style NDJSON body. Actions may omit _index; an _index other than the one in the URL is rejected.',
+  })
+  @ApiParam({ name: 'index', description: 'Index or alias name', example: 'products' })
+  @ApiConsumes('application/x-ndjson')
+  @ApiBody({ schema: { type: 'string', example: NDJSON_EXAMPLE } })
+  @ApiQuery({
+    name: 'refresh',
+    required: false,
+    enum: ['false', 'wait_for'],
+    description: 'wait_for waits until the queued actions have run and returns their results',
+  })
+  @ApiQuery({
+    name: 'timeout',
+    required: false,
+    type: Number,
+    description: 'How long refresh=wait_for waits, in milliseconds (default 60000)',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: BulkOperationsResponseDto })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Malformed NDJSON' })
+  async bulkIndex(
+    @Param('index') index: string,
+    @Body() body: string,
+    @Query('refresh') refresh?: string,
+    @Query('timeout', new DefaultValuePipe(60000), ParseIntPipe) timeout?: number,
+  ): Promise<BulkOperationsResponseDto> {
+    return this.bulkOperationsService.submit(BulkRequestParser.parse(body, index), {
+      waitFor: refresh === 'wait_for',
+      timeout,
+    });
+  }
+
+  @Post('_bulk')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Run index, create, update and delete actions across indices',
+    description:
+      'Takes an Elasticsearch-style NDJSON body in which every action names its _index. API keys limited to specific indices cannot use this route.',
+  })
+  @ApiConsumes('application/x-ndjson')
+  @ApiBody({ schema: { type: 'string', example: NDJSON_EXAMPLE } })
+  @ApiQuery({
+    name: 'refresh',
+    required: false,
+    enum: ['false', 'wait_for'],
+    description: 'wait_for waits until the queued actions have run and returns their results',
+  })
+  @ApiQuery({
+    name: 'timeout',
+    required: false,
+    type: Number,
+    description: 'How long refresh=wait_for waits, in milliseconds (default 60000)',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: BulkOperationsResponseDto })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Malformed NDJSON' })
+  async bulk(
+    @Body() body: string,
+    @Query('refresh') refresh?: string,
+    @Query('timeout', new DefaultValuePipe(60000), ParseIntPipe) timeout?: number,
+  ): Promise<BulkOperationsResponseDto> {
+    return this.bulkOperationsService.submit(BulkRequestParser.parse(body), {
+      waitFor: refresh === 'wait_for',
+      timeout,
+    });
+  }
+}
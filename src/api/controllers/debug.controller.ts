@@ -10,12 +10,14 @@ import { PostgreSQLSearchEngine } from '../../storage/postgresql/postgresql-sear
 import { SearchService } from '../../search/search.service';
 import * as fs from 'fs';
 import * as path from 'path';
+import { Audit, RequireScope } from '../../auth/auth.decorators';
 
 /**
  * Lean Debug Controller for essential diagnostics
  * Provides only the most critical debugging endpoints
  */
 @ApiTags('debug')
+@RequireScope('admin')
 @Controller('debug')
 export class DebugController {
   constructor(
@@ -119,6 +121,7 @@ export class DebugController {
   }
 
   @Get('init-clean-database')
+  @Audit()
   @ApiOperation({
     summary: 'Initialize clean database',
     description: 'Run the clean database initialization script',
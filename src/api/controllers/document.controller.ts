@@ -12,6 +12,8 @@ import {
   ValidationPipe,
   DefaultValuePipe,
   ParseIntPipe,
+  ParseBoolPipe,
+  NotFoundException,
 } from '@nestjs/common';
 import {
   IndexDocumentDto,
@@ -20,7 +22,11 @@ import {
   BulkResponseDto,
   DeleteByQueryResponseDto,
   DeleteByQueryDto,
+  UpdateByQueryDto,
+  UpdateByQueryResponseDto,
   ListDocumentsResponseDto,
+  VersionQueryDto,
+  UpdateDocumentDto,
 } from '../dtos/document.dto';
 import {
   ApiTags,
@@ -36,9 +42,21 @@ import { DocumentService } from '../../document/document.service';
 import { BulkIndexingService } from '../../indexing/services/bulk-indexing.service';
 import { v4 as uuidv4 } from 'uuid';
 import { Logger } from '@nestjs/common';
+import { Audit } from '../../auth/auth.decorators';
+import { IndexAliasService } from '../../index/index-alias.service';
+import { ByQueryService } from '../../document/by-query.service';
+import { TaskService } from '../../indexing/services/task.service';
+import { TaskStatus } from '../../indexing/interfaces/task.interface';
+import { parseVersionPrecondition } from '../../document/utils/document-version';
 
 @ApiTags('Documents')
-@ApiExtraModels(IndexDocumentDto, BulkIndexDocumentsDto, DeleteByQueryDto)
+@ApiExtraModels(
+  IndexDocumentDto,
+  BulkIndexDocumentsDto,
+  DeleteByQueryDto,
+  UpdateByQueryDto,
+  UpdateDocumentDto,
+)
 @ApiBearerAuth('JWT-auth')
 @Controller('api/indices/:index/documents')
 export class DocumentController {
@@ -47,6 +65,9 @@ export class DocumentController {
   constructor(
     private readonly documentService: DocumentService,
     private readonly bulkIndexingService: BulkIndexingService,
+    private readonly indexAliasService: IndexAliasService,
+    private readonly byQueryService: ByQueryService,
+    private readonly taskService: TaskService,
   ) {}
 
   @Post()
@@ -110,11 +131,18 @@ export class DocumentController {
     status: HttpStatus.NOT_FOUND,
     description: 'Specified index does not exist',
   })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The document does not meet the if_version, if_seq_no or external version',
+  })
   async indexDocument(
     @Param('index') index: string,
     @Body(ValidationPipe) indexDocumentDto: IndexDocumentDto,
+    @Query() versionQuery: VersionQueryDto,
   ): Promise<DocumentResponseDto> {
-    return this.documentService.indexDocument(index, indexDocumentDto);
+    const precondition = parseVersionPrecondition(versionQuery);
+    const writeIndex = await this.indexAliasService.resolveWriteIndex(index);
+    return this.documentService.indexDocument(writeIndex, indexDocumentDto, precondition);
   }
 
   @Get(':id')
@@ -161,7 +189,16 @@ export class DocumentController {
     @Param('index') index: string,
     @Param('id') id: string,
   ): Promise<DocumentResponseDto> {
-    return this.documentService.getDocument(index, id);
+    // Through an alias, the document is looked up in each of its indices in turn
+    const indices = await this.indexAliasService.resolveReadIndices(index);
+    for (const name of indices.slice(0, -1)) {
+      try {
+        return await this.documentService.getDocument(name, id);
+      } catch (error) {
+        if (!(error instanceof NotFoundException)) throw error;
+      }
+    }
+    return this.documentService.getDocument(indices[indices.length - 1], id);
   }
 
   @Put(':id')
@@ -215,12 +252,103 @@ export class DocumentController {
     status: HttpStatus.NOT_FOUND,
     description: 'Document or index not found',
   })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The document does not meet the if_version, if_seq_no or external version',
+  })
   async updateDocument(
     @Param('index') index: string,
     @Param('id') id: string,
     @Body(ValidationPipe) indexDocumentDto: IndexDocumentDto,
+    @Query() versionQuery: VersionQueryDto,
   ): Promise<DocumentResponseDto> {
-    return this.documentService.updateDocument(index, id, indexDocumentDto.document);
+    const precondition = parseVersionPrecondition(versionQuery);
+    const writeIndex = await this.indexAliasService.resolveWriteIndex(index);
+    return this.documentService.updateDocument(
+      writeIndex,
+      id,
+      indexDocumentDto.document,
+      precondition,
+    );
+  }
+
+  @Post(':id/_update')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Partially update a document',
+    description:
+      'Merges a partial doc into the document and runs an optional script on it, e.g. to ' +
+      'increment counters or append to arrays. Concurrent updates are retried, not lost.',
+  })
+  @ApiParam({
+    name: 'index',
+    description: 'Index name',
+    example: 'businesses',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Document ID to update',
+    example: 'product-123',
+  })
+  @ApiBody({
+    type: UpdateDocumentDto,
+    examples: {
+      doc: {
+        summary: 'Merge fields',
+        value: { doc: { price: 899.99 } },
+      },
+      script: {
+        summary: 'Count a view, creating the document if missing',
+        value: {
+          script: {
+            source: 'doc.views += 1; append(doc.viewers, params.user)',
+            params: { user: 'u-42' },
+          },
+          upsert: { views: 1, viewers: ['u-42'] },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Document updated, created from the upsert, or left as it was (noop)',
+    schema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', example: 'product-123' },
+        index: { type: 'string', example: 'businesses' },
+        version: { type: 'number', example: 3 },
+        seqNo: { type: 'number', example: 42 },
+        result: { type: 'string', example: 'updated' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Neither doc nor script, or an invalid script',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Index not found, or document not found without an upsert',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The document does not meet if_version or if_seq_no, or kept changing',
+  })
+  async partialUpdateDocument(
+    @Param('index') index: string,
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateDocumentDto: UpdateDocumentDto,
+    @Query() versionQuery: VersionQueryDto,
+  ): Promise<DocumentResponseDto> {
+    const precondition = parseVersionPrecondition(versionQuery);
+    const writeIndex = await this.indexAliasService.resolveWriteIndex(index);
+    return this.documentService.partialUpdateDocument(
+      writeIndex,
+      id,
+      updateDocumentDto,
+      precondition,
+    );
   }
 
   @Delete(':id')
@@ -247,8 +375,18 @@ export class DocumentController {
     status: HttpStatus.NOT_FOUND,
     description: 'Document or index not found',
   })
-  async deleteDocument(@Param('index') index: string, @Param('id') id: string): Promise<void> {
-    await this.documentService.deleteDocument(index, id);
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The document does not meet the if_version, if_seq_no or external version',
+  })
+  async deleteDocument(
+    @Param('index') index: string,
+    @Param('id') id: string,
+    @Query() versionQuery: VersionQueryDto,
+  ): Promise<void> {
+    const precondition = parseVersionPrecondition(versionQuery);
+    const writeIndex = await this.indexAliasService.resolveWriteIndex(index);
+    await this.documentService.deleteDocument(writeIndex, id, precondition);
   }
 
   @Post('_bulk')
@@ -326,6 +464,7 @@ export class DocumentController {
     @Body(ValidationPipe) bulkIndexDocumentsDto: BulkIndexDocumentsDto,
   ): Promise<BulkResponseDto> {
     const startTime = Date.now();
+    const writeIndex = await this.indexAliasService.resolveWriteIndex(index);
 
     // Map documents to ensure required id field
     const documents = bulkIndexDocumentsDto.documents.map(doc => ({
@@ -333,8 +472,8 @@ export class DocumentController {
       document: doc.document,
     }));
 
-    const { batchId, totalBatches, totalDocuments } =
-      await this.bulkIndexingService.queueBulkIndexing(index, documents, {
+    const { batchId, totalDocuments, schemaViolations } =
+      await this.bulkIndexingService.queueBulkIndexing(writeIndex, documents, {
         batchSize: 1000,
         skipDuplicates: true,
         enableProgress: true,
@@ -343,19 +482,19 @@ export class DocumentController {
 
     return {
       took: Date.now() - startTime,
-      errors: false,
-      items: documents.map(doc => ({
-        id: doc.id,
-        index,
-        success: true,
-        status: HttpStatus.ACCEPTED,
+      errors: totalDocuments < documents.length,
+      items: this.documentService.bulkResponseItems(
+        writeIndex,
+        documents,
         batchId,
-      })),
+        schemaViolations,
+      ),
       successCount: totalDocuments,
     };
   }
 
   @Post('_delete_by_query')
+  @Audit()
   @ApiOperation({
     summary: 'Delete documents by query',
     description: 'Deletes all documents that match the specified query',
@@ -393,21 +532,16 @@ export class DocumentController {
       },
     },
   })
+  @ApiQuery({
+    name: 'wait_for_completion',
+    required: false,
+    type: Boolean,
+    description: 'Wait for the report (default), or return a task to follow at /api/_tasks/:taskId',
+  })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Documents deleted successfully',
-    schema: {
-      type: 'object',
-      properties: {
-        took: { type: 'number', example: 75 },
-        deleted: { type: 'number', example: 5 },
-        failures: {
-          type: 'array',
-          items: { type: 'object' },
-          example: [],
-        },
-      },
-    },
+    description: 'Documents deleted, or the queued task when wait_for_completion=false',
+    type: DeleteByQueryResponseDto,
   })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
@@ -420,8 +554,86 @@ export class DocumentController {
   async deleteByQuery(
     @Param('index') index: string,
     @Body(ValidationPipe) deleteByQueryDto: DeleteByQueryDto,
-  ): Promise<DeleteByQueryResponseDto> {
-    return this.documentService.deleteByQuery(index, deleteByQueryDto);
+    @Query('wait_for_completion', new DefaultValuePipe(true), ParseBoolPipe)
+    waitForCompletion: boolean,
+  ): Promise<DeleteByQueryResponseDto | TaskStatus> {
+    const writeIndex = await this.indexAliasService.resolveWriteIndex(index);
+    if (waitForCompletion) {
+      return this.byQueryService.deleteByQuery(writeIndex, deleteByQueryDto);
+    }
+
+    await this.byQueryService.assertRunnable(writeIndex);
+    return this.taskService.createTask('delete-by-query', writeIndex, deleteByQueryDto);
+  }
+
+  @Post('_update_by_query')
+  @Audit()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Update documents by query',
+    description:
+      'Sets, unsets, increments or appends to fields of all documents that match the specified query. Updated documents are validated against the schema bound to the index and reindexed.',
+  })
+  @ApiParam({
+    name: 'index',
+    description: 'Index name',
+    example: 'businesses',
+  })
+  @ApiBody({
+    type: UpdateByQueryDto,
+    description: 'Query to match documents and the changes to make',
+    examples: {
+      set: {
+        summary: 'Discontinue a category',
+        value: {
+          query: { term: { field: 'category', value: 'legacy' } },
+          set: { status: 'discontinued' },
+          unset: ['promotion'],
+        },
+      },
+      increment: {
+        summary: 'Restock and tag, throttled',
+        value: {
+          query: { range: { field: 'stock', lt: 5 } },
+          increment: { stock: 10 },
+          append: { tags: 'restocked' },
+          requests_per_second: 500,
+        },
+      },
+    },
+  })
+  @ApiQuery({
+    name: 'wait_for_completion',
+    required: false,
+    type: Boolean,
+    description: 'Wait for the report (default), or return a task to follow at /api/_tasks/:taskId',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Documents updated, or the queued task when wait_for_completion=false',
+    type: UpdateByQueryResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid query structure or no changes given',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Specified index does not exist',
+  })
+  async updateByQuery(
+    @Param('index') index: string,
+    @Body(ValidationPipe) updateByQueryDto: UpdateByQueryDto,
+    @Query('wait_for_completion', new DefaultValuePipe(true), ParseBoolPipe)
+    waitForCompletion: boolean,
+  ): Promise<UpdateByQueryResponseDto | TaskStatus> {
+    const writeIndex = await this.indexAliasService.resolveWriteIndex(index);
+    if (waitForCompletion) {
+      return this.byQueryService.updateByQuery(writeIndex, updateByQueryDto);
+    }
+
+    await this.byQueryService.assertRunnable(writeIndex, updateByQueryDto);
+    return this.taskService.createTask('update-by-query', writeIndex, updateByQueryDto);
   }
 
   @Get()
@@ -476,6 +688,8 @@ export class DocumentController {
       filter: filter ? JSON.parse(filter) : undefined,
     };
 
-    return this.documentService.listDocuments(index, options);
+    // Listing pages through a single index, so an alias lists its write index
+    const writeIndex = await this.indexAliasService.resolveWriteIndex(index);
+    return this.documentService.listDocuments(writeIndex, options);
   }
 }
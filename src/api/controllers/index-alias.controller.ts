@@ -0,0 +1,93 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Audit, IndexParam, RequireScope } from '../../auth/auth.decorators';
+import { IndexAliasService } from '../../index/index-alias.service';
+import { IndexAliasAction } from '../../index/interfaces/index-alias.interface';
+import { IndexAliasResponseDto, PutIndexAliasDto, UpdateAliasesDto } from '../dtos/index-alias.dto';
+
+@ApiTags('Aliases')
+@ApiBearerAuth('JWT-auth')
+@RequireScope('admin')
+@IndexParam('name')
+@Controller('api')
+export class IndexAliasController {
+  constructor(private readonly indexAliasService: IndexAliasService) {}
+
+  @Get('_aliases')
+  @ApiOperation({ summary: 'List all aliases' })
+  @ApiResponse({ status: 200, type: [IndexAliasResponseDto] })
+  async listAliases(): Promise<IndexAliasResponseDto[]> {
+    return this.indexAliasService.listAliases();
+  }
+
+  @Post('_aliases')
+  @HttpCode(HttpStatus.OK)
+  @Audit()
+  @ApiOperation({
+    summary: 'Add and remove aliases atomically',
+    description:
+      'E.g. remove businesses from businesses_v1 and add it to businesses_v2 in one step, so searches switch to the rebuilt index without downtime.',
+  })
+  @ApiResponse({ status: 200, description: 'Aliases touched by the actions, after the update' })
+  @ApiResponse({ status: 400, description: 'Invalid action or alias name; nothing was applied' })
+  @ApiResponse({ status: 404, description: 'Index or alias not found; nothing was applied' })
+  async updateAliases(
+    @Body(new ValidationPipe({ transform: true })) updateAliasesDto: UpdateAliasesDto,
+  ): Promise<IndexAliasResponseDto[]> {
+    return this.indexAliasService.updateAliases(updateAliasesDto.actions as IndexAliasAction[]);
+  }
+
+  @Get('_aliases/:alias')
+  @ApiOperation({ summary: 'Get the indices an alias points to' })
+  @ApiParam({ name: 'alias', example: 'businesses' })
+  @ApiResponse({ status: 200, type: [IndexAliasResponseDto] })
+  @ApiResponse({ status: 404, description: 'Alias not found' })
+  async getAlias(@Param('alias') alias: string): Promise<IndexAliasResponseDto[]> {
+    return this.indexAliasService.getAlias(alias);
+  }
+
+  @Get('indices/:name/_aliases')
+  @ApiOperation({ summary: 'List the aliases of an index' })
+  @ApiParam({ name: 'name', description: 'Index name', example: 'businesses_v2' })
+  @ApiResponse({ status: 200, type: [IndexAliasResponseDto] })
+  async listIndexAliases(@Param('name') name: string): Promise<IndexAliasResponseDto[]> {
+    return this.indexAliasService.listAliases(name);
+  }
+
+  @Put('indices/:name/_aliases/:alias')
+  @ApiOperation({ summary: 'Point an alias at an index' })
+  @ApiParam({ name: 'name', description: 'Index name', example: 'businesses_v2' })
+  @ApiParam({ name: 'alias', example: 'businesses' })
+  @ApiResponse({ status: 200, type: IndexAliasResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid alias name or the name of an index' })
+  @ApiResponse({ status: 404, description: 'Index not found' })
+  async putAlias(
+    @Param('name') name: string,
+    @Param('alias') alias: string,
+    @Body(ValidationPipe) putIndexAliasDto: PutIndexAliasDto,
+  ): Promise<IndexAliasResponseDto> {
+    return this.indexAliasService.putAlias(name, alias, putIndexAliasDto?.isWriteIndex);
+  }
+
+  @Delete('indices/:name/_aliases/:alias')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove an alias from an index' })
+  @ApiParam({ name: 'name', description: 'Index name', example: 'businesses_v1' })
+  @ApiParam({ name: 'alias', example: 'businesses' })
+  @ApiResponse({ status: 204, description: 'Alias removed' })
+  @ApiResponse({ status: 404, description: 'Alias not found on the index' })
+  async deleteAlias(@Param('name') name: string, @Param('alias') alias: string): Promise<void> {
+    await this.indexAliasService.deleteAlias(name, alias);
+  }
+}
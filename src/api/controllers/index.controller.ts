@@ -21,8 +21,10 @@ import {
   IndexResponseDto,
   IndexListResponseDto,
   MappingsDto,
+  AnalyzeRequestDto,
 } from '../dtos/index.dto';
 import { IndexService } from '../../index/index.service';
+import { AnalyzeResponse, AnalyzeService } from '../../index/analyze.service';
 import {
   ApiTags,
   ApiOperation,
@@ -38,6 +40,7 @@ import { DocumentService } from '../../document/document.service';
 import { Logger } from '@nestjs/common';
 import { TermDictionary } from '../../index/term-dictionary';
 import { SearchService } from '../../search/search.service';
+import { Audit, IndexParam, RequireScope } from '../../auth/auth.decorators';
 
 interface MigrationProgress {
   phase: string;
@@ -64,6 +67,8 @@ interface MigrationResult {
 @ApiTags('Indices')
 @ApiExtraModels(CreateIndexDto, UpdateIndexSettingsDto)
 @ApiBearerAuth('JWT-auth')
+@RequireScope('admin')
+@IndexParam('name')
 @Controller('api/indices')
 export class IndexController {
   private readonly logger = new Logger(IndexController.name);
@@ -75,6 +80,7 @@ export class IndexController {
     @Inject('TERM_DICTIONARY')
     private readonly termDictionary: TermDictionary,
     private readonly searchService: SearchService,
+    private readonly analyzeService: AnalyzeService,
   ) {}
 
   @Post()
@@ -162,6 +168,7 @@ export class IndexController {
   }
 
   @Get()
+  @RequireScope('search')
   @ApiOperation({
     summary: 'List all indices',
     description: 'Returns a list of all indices in the system. Can be filtered by status.',
@@ -203,6 +210,7 @@ export class IndexController {
   }
 
   @Get(':name')
+  @RequireScope('search')
   @ApiOperation({
     summary: 'Get index details',
     description:
@@ -349,6 +357,56 @@ export class IndexController {
     await this.indexService.deleteIndex(name);
   }
 
+  @Post(':name/_analyze')
+  @HttpCode(HttpStatus.OK)
+  @RequireScope('search')
+  @ApiOperation({
+    summary: 'Analyze text',
+    description:
+      'Runs text through an analyzer of the index, the analyzer mapped to a field or an inline tokenizer and filters, and returns the resulting tokens and PostgreSQL tsvector.',
+  })
+  @ApiParam({ name: 'name', description: 'Index name', example: 'businesses' })
+  @ApiBody({
+    type: AnalyzeRequestDto,
+    examples: {
+      analyzer: {
+        summary: 'Named analyzer',
+        value: { text: 'The Quick Brown Foxes', analyzer: 'standard' },
+      },
+      field: {
+        summary: "Field's search analyzer",
+        value: { text: 'Quick foxes', field: 'title', searchAnalyzer: true },
+      },
+      inline: {
+        summary: 'Inline tokenizer and filters with per-stage detail',
+        value: {
+          text: 'The Quick Brown Foxes',
+          tokenizer: 'whitespace',
+          filter: ['lowercase', 'stopword'],
+          explain: true,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Tokens with positions, offsets and types, and the generated tsvector',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Unknown analyzer, field, tokenizer or filter',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Index with the specified name does not exist',
+  })
+  async analyze(
+    @Param('name') name: string,
+    @Body(ValidationPipe) analyzeRequestDto: AnalyzeRequestDto,
+  ): Promise<AnalyzeResponse> {
+    return this.analyzeService.analyze(name, analyzeRequestDto);
+  }
+
   @Post(':name/_rebuild_count')
   @ApiOperation({
     summary: 'Rebuild document count',
@@ -387,6 +445,7 @@ export class IndexController {
   }
 
   @Post(':name/_rebuild_index')
+  @Audit()
   @ApiOperation({
     summary: 'Concurrent rebuild search index',
     description:
@@ -500,6 +559,7 @@ export class IndexController {
   }
 
   @Post(':name/_rebuild_all')
+  @Audit()
   @ApiOperation({
     summary: 'Rebuild entire index',
     description:
@@ -584,6 +644,7 @@ export class IndexController {
   }
 
   @Post(':name/rebuild')
+  @Audit()
   @ApiOperation({ summary: 'Rebuild an index' })
   @ApiResponse({ status: 200, description: 'Index rebuilt successfully' })
   @ApiResponse({ status: 404, description: 'Index not found' })
@@ -622,6 +683,7 @@ export class IndexController {
   }
 
   @Get(':name/mappings/detect')
+  @RequireScope('search')
   @ApiOperation({ summary: 'Auto-detect index mappings' })
   @ApiResponse({ status: 200, description: 'Mappings detected successfully' })
   @ApiResponse({ status: 404, description: 'Index not found' })
@@ -4,6 +4,7 @@ import { EntityExtractionService } from '../../search/services/entity-extraction
 import { LocationProcessorService } from '../../search/services/location-processor.service';
 import { QueryExpansionService } from '../../search/services/query-expansion.service';
 import { QueryComponents } from '../../search/interfaces/intelligent-search.interface';
+import { RequireScope } from '../../auth/auth.decorators';
 
 interface IntelligentSearchRequest {
   query: string;
@@ -22,6 +23,7 @@ interface IntelligentSearchResponse {
   };
 }
 
+@RequireScope('search')
 @Controller('intelligent-search')
 export class IntelligentSearchController {
   constructor(
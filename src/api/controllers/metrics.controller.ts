@@ -1,15 +1,21 @@
-import { Controller, Get, Query } from '@nestjs/common';
+import { BadRequestException, Controller, Get, Query } from '@nestjs/common';
 import { ApiOperation, ApiResponse, ApiTags, ApiQuery } from '@nestjs/swagger';
 import { PostgreSQLService } from '../../storage/postgresql/postgresql.service';
+import { RequireScope } from '../../auth/auth.decorators';
+import { RateLimitService } from '../../rate-limit/rate-limit.service';
 
 /**
  * Lightweight Metrics API Controller
  * Provides access to search performance data
  */
 @ApiTags('metrics')
+@RequireScope('admin')
 @Controller('metrics')
 export class MetricsController {
-  constructor(private readonly postgresqlService: PostgreSQLService) {}
+  constructor(
+    private readonly postgresqlService: PostgreSQLService,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
 
   @Get('search')
   @ApiOperation({
@@ -96,4 +102,32 @@ export class MetricsController {
       timestamp: new Date().toISOString(),
     };
   }
+
+  @Get('quotas')
+  @ApiOperation({
+    summary: 'Get daily request quota usage',
+    description:
+      'Returns the requests counted per API key and per index for a UTC day, broken down by route group',
+  })
+  @ApiQuery({
+    name: 'date',
+    required: false,
+    description: 'UTC day as YYYY-MM-DD (defaults to today)',
+    example: '2024-01-31',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Daily quota usage',
+  })
+  async getQuotaUsage(@Query('date') date?: string) {
+    if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new BadRequestException('date must be formatted as YYYY-MM-DD');
+    }
+
+    return {
+      status: 'success',
+      data: await this.rateLimitService.getQuotaUsage(date),
+      timestamp: new Date().toISOString(),
+    };
+  }
 }
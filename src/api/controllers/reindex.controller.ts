@@ -0,0 +1,99 @@
+import {
+  Body,
+  Controller,
+  DefaultValuePipe,
+  HttpCode,
+  HttpStatus,
+  ParseBoolPipe,
+  Post,
+  Query,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Audit, RequireScope } from '../../auth/auth.decorators';
+import { ReindexService } from '../../document/reindex.service';
+import { TaskService } from '../../indexing/services/task.service';
+import { TaskStatus } from '../../indexing/interfaces/task.interface';
+import { ReindexDto, ReindexResponseDto } from '../dtos/reindex.dto';
+
+@ApiTags('Documents')
+@ApiBearerAuth('JWT-auth')
+@RequireScope('admin')
+@Controller('api/_reindex')
+export class ReindexController {
+  constructor(
+    private readonly reindexService: ReindexService,
+    private readonly taskService: TaskService,
+  ) {}
+
+  @Post()
+  @Audit()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Copy documents from one index into another',
+    description:
+      'Copies the documents of the source index, optionally filtered by a query, into the destination index, ' +
+      'which keeps its own mappings and settings. Documents can be transformed on the way. ' +
+      'Copied documents are validated against the schema bound to the destination.',
+  })
+  @ApiBody({
+    type: ReindexDto,
+    examples: {
+      copy: {
+        summary: 'Copy into a new index',
+        value: { source: { index: 'products' }, dest: { index: 'products-v2' } },
+      },
+      transform: {
+        summary: 'Copy active products with renamed and dropped fields, in 4 slices',
+        value: {
+          source: { index: 'products', query: { term: { field: 'status', value: 'active' } } },
+          dest: { index: 'products-v2', op_type: 'create' },
+          pipeline: [
+            { op: 'rename', from: 'name', to: 'title' },
+            { op: 'drop', fields: ['legacy_code'] },
+            { op: 'script', source: 'if (doc.stock == 0) noop; doc.price = doc.price * 100' },
+          ],
+          slices: 4,
+          conflicts: 'proceed',
+        },
+      },
+    },
+  })
+  @ApiQuery({
+    name: 'wait_for_completion',
+    required: false,
+    type: Boolean,
+    description: 'Wait for the report (default), or return a task to follow at /api/_tasks/:taskId',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Documents copied, or the queued task when wait_for_completion=false',
+    type: ReindexResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid pipeline, or source and destination are the same index',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Source or destination does not exist',
+  })
+  async reindex(
+    @Body(ValidationPipe) reindexDto: ReindexDto,
+    @Query('wait_for_completion', new DefaultValuePipe(true), ParseBoolPipe)
+    waitForCompletion: boolean,
+  ): Promise<ReindexResponseDto | TaskStatus> {
+    const request = await this.reindexService.prepare(reindexDto);
+    if (waitForCompletion) {
+      return this.reindexService.reindex(request);
+    }
+    return this.taskService.createTask('reindex', request.dest.index, request);
+  }
+}
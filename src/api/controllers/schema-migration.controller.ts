@@ -0,0 +1,49 @@
+import { Body, Controller, Get, Param, Post, ValidationPipe } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Audit, IndexParam, RequireScope } from '../../auth/auth.decorators';
+import { SchemaMigrationService } from '../../indexing/services/schema-migration.service';
+import { SchemaMigrationStatus } from '../../indexing/interfaces/schema-migration.interface';
+import { StartSchemaMigrationDto } from '../dtos/schema-migration.dto';
+
+@ApiTags('Schema Migrations')
+@ApiBearerAuth('JWT-auth')
+@RequireScope('admin')
+@IndexParam('name')
+@Controller('api/indices/:name/_schema_migrations')
+export class SchemaMigrationController {
+  constructor(private readonly schemaMigrationService: SchemaMigrationService) {}
+
+  @Post()
+  @Audit()
+  @ApiOperation({
+    summary: "Migrate an index's documents to another version of its schema",
+    description:
+      'Applies the migration steps of the versions in between to every document in the background. An index pinned to fromVersion is pinned to toVersion once done.',
+  })
+  @ApiParam({ name: 'name', description: 'Index name', example: 'products' })
+  @ApiResponse({ status: 201, description: 'Migration queued' })
+  @ApiResponse({
+    status: 400,
+    description: 'Index is not bound to a schema or versions are invalid',
+  })
+  @ApiResponse({ status: 404, description: 'Index or schema version not found' })
+  async startMigration(
+    @Param('name') name: string,
+    @Body(new ValidationPipe({ transform: true })) body: StartSchemaMigrationDto,
+  ): Promise<SchemaMigrationStatus> {
+    return this.schemaMigrationService.startMigration(name, body);
+  }
+
+  @Get(':jobId')
+  @ApiOperation({ summary: 'Get the progress and outcome of a schema migration' })
+  @ApiParam({ name: 'name', description: 'Index name', example: 'products' })
+  @ApiParam({ name: 'jobId', description: 'Migration job id' })
+  @ApiResponse({ status: 200, description: 'Migration state, progress and result' })
+  @ApiResponse({ status: 404, description: 'Migration not found' })
+  async getMigration(
+    @Param('name') name: string,
+    @Param('jobId') jobId: string,
+  ): Promise<SchemaMigrationStatus> {
+    return this.schemaMigrationService.getMigration(name, jobId);
+  }
+}
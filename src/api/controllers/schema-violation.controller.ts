@@ -0,0 +1,49 @@
+import { Controller, Delete, Get, Param, Query, ValidationPipe } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Audit, IndexParam, RequireScope } from '../../auth/auth.decorators';
+import { SchemaEnforcementService } from '../../schema/schema-enforcement.service';
+import {
+  ListSchemaViolationsQueryDto,
+  SchemaViolationListResponseDto,
+} from '../dtos/schema-violation.dto';
+
+@ApiTags('Schema Violations')
+@ApiBearerAuth('JWT-auth')
+@RequireScope('admin')
+@IndexParam('name')
+@Controller('api/indices/:name/_schema_violations')
+export class SchemaViolationController {
+  constructor(private readonly schemaEnforcementService: SchemaEnforcementService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List the schema violations of an index',
+    description:
+      'Documents that were dead-lettered, with their content, and documents indexed in warn mode, newest first.',
+  })
+  @ApiParam({ name: 'name', description: 'Index name', example: 'products' })
+  @ApiResponse({ status: 200, type: SchemaViolationListResponseDto })
+  @ApiResponse({ status: 404, description: 'Index not found' })
+  async listViolations(
+    @Param('name') name: string,
+    @Query(new ValidationPipe({ transform: true })) query: ListSchemaViolationsQueryDto,
+  ): Promise<SchemaViolationListResponseDto> {
+    return this.schemaEnforcementService.listViolations(name, query);
+  }
+
+  @Delete()
+  @Audit()
+  @ApiOperation({
+    summary: 'Delete the schema violations of an index',
+    description: 'E.g. once dead-lettered documents were fixed and resubmitted.',
+  })
+  @ApiParam({ name: 'name', description: 'Index name', example: 'products' })
+  @ApiResponse({ status: 200, schema: { properties: { deleted: { type: 'number' } } } })
+  @ApiResponse({ status: 404, description: 'Index not found' })
+  async deleteViolations(
+    @Param('name') name: string,
+    @Query(new ValidationPipe({ transform: true })) query: ListSchemaViolationsQueryDto,
+  ): Promise<{ deleted: number }> {
+    return { deleted: await this.schemaEnforcementService.deleteViolations(name, query.mode) };
+  }
+}
@@ -29,15 +29,21 @@ import {
 } from '@nestjs/swagger';
 import { Logger } from '@nestjs/common';
 import { SearchService } from 'src/search/search.service';
+import { RequireScope } from '../../auth/auth.decorators';
+import { IndexAliasService } from '../../index/index-alias.service';
 
 @ApiTags('Search')
 @ApiExtraModels(SearchQueryDto, SuggestQueryDto)
 @ApiBearerAuth('JWT-auth')
+@RequireScope('search')
 @Controller('api/indices/:index/_search')
 export class SearchController {
   private readonly logger = new Logger(SearchController.name);
 
-  constructor(private readonly searchService: SearchService) {}
+  constructor(
+    private readonly searchService: SearchService,
+    private readonly indexAliasService: IndexAliasService,
+  ) {}
 
   @Post()
   @ApiOperation({
@@ -330,7 +336,8 @@ export class SearchController {
     }
 
     try {
-      const result = await this.searchService.search(index, searchDto);
+      const indices = await this.indexAliasService.resolveReadIndices(index);
+      const result = await this.searchService.searchIndices(indices, searchDto);
       this.logger.log(
         `Search completed for index '${index}': Found ${result.data.total} results in ${result.took}ms`,
       );
@@ -403,7 +410,8 @@ export class SearchController {
 
     try {
       const startTime = Date.now();
-      const suggestions = await this.searchService.suggest(index, suggestDto);
+      const indices = await this.indexAliasService.resolveReadIndices(index);
+      const suggestions = await this.searchService.suggestIndices(indices, suggestDto);
       const took = Date.now() - startTime;
 
       return {
@@ -0,0 +1,70 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Put } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Audit, IndexParam, RequireScope } from '../../auth/auth.decorators';
+import { SynonymSetService } from '../../index/synonym-set.service';
+import { PutSynonymSetDto, SynonymSetResponseDto } from '../dtos/synonym.dto';
+
+@ApiTags('Synonyms')
+@ApiBearerAuth('JWT-auth')
+@RequireScope('admin')
+@IndexParam('name')
+@Controller('api/indices/:name/_synonyms')
+export class SynonymController {
+  constructor(private readonly synonymSetService: SynonymSetService) {}
+
+  @Get()
+  @RequireScope('search')
+  @ApiOperation({ summary: 'List the synonym sets of an index' })
+  @ApiParam({ name: 'name', description: 'Index name', example: 'products' })
+  @ApiResponse({ status: 200, type: [SynonymSetResponseDto] })
+  @ApiResponse({ status: 404, description: 'Index not found' })
+  async listSets(@Param('name') name: string): Promise<SynonymSetResponseDto[]> {
+    return this.synonymSetService.listSets(name);
+  }
+
+  @Get(':set')
+  @RequireScope('search')
+  @ApiOperation({ summary: 'Get a synonym set' })
+  @ApiParam({ name: 'name', description: 'Index name', example: 'products' })
+  @ApiParam({ name: 'set', description: 'Synonym set name', example: 'default' })
+  @ApiResponse({ status: 200, type: SynonymSetResponseDto })
+  @ApiResponse({ status: 404, description: 'Index or synonym set not found' })
+  async getSet(
+    @Param('name') name: string,
+    @Param('set') set: string,
+  ): Promise<SynonymSetResponseDto> {
+    return this.synonymSetService.getSet(name, set);
+  }
+
+  @Put(':set')
+  @Audit()
+  @ApiOperation({
+    summary: 'Create or replace a synonym set',
+    description:
+      'Synonym filters with this synonymsSet use the new rules from the next search on; documents need not be reindexed.',
+  })
+  @ApiParam({ name: 'name', description: 'Index name', example: 'products' })
+  @ApiParam({ name: 'set', description: 'Synonym set name', example: 'default' })
+  @ApiResponse({ status: 200, type: SynonymSetResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid set name or synonym rule' })
+  @ApiResponse({ status: 404, description: 'Index not found' })
+  async putSet(
+    @Param('name') name: string,
+    @Param('set') set: string,
+    @Body() putSynonymSetDto: PutSynonymSetDto,
+  ): Promise<SynonymSetResponseDto> {
+    return this.synonymSetService.putSet(name, set, putSynonymSetDto.rules);
+  }
+
+  @Delete(':set')
+  @Audit()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a synonym set' })
+  @ApiParam({ name: 'name', description: 'Index name', example: 'products' })
+  @ApiParam({ name: 'set', description: 'Synonym set name', example: 'default' })
+  @ApiResponse({ status: 204, description: 'Synonym set deleted' })
+  @ApiResponse({ status: 404, description: 'Synonym set not found' })
+  async deleteSet(@Param('name') name: string, @Param('set') set: string): Promise<void> {
+    await this.synonymSetService.deleteSet(name, set);
+  }
+}
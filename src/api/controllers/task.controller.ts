@@ -0,0 +1,93 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Audit, ChecksIndexAccess, RequireScope } from '../../auth/auth.decorators';
+import { ApiKeyService } from '../../auth/api-key.service';
+import { ApiKey, ApiKeyScope } from '../../auth/interfaces/api-key.interface';
+import { TaskService } from '../../indexing/services/task.service';
+import { TaskStatus, TaskType } from '../../indexing/interfaces/task.interface';
+
+// Scope of the route that starts each type of task, which following it takes too
+const TASK_SCOPES: Record<TaskType, ApiKeyScope> = {
+  'delete-by-query': 'write',
+  'update-by-query': 'write',
+  reindex: 'admin',
+  'reindex-slice': 'admin',
+};
+
+/**
+ * Tasks are followed and cancelled with the scope they were started with, and keys
+ * limited to specific indices only reach the tasks of those indices
+ */
+@ApiTags('Tasks')
+@ApiBearerAuth('JWT-auth')
+@RequireScope('write')
+@ChecksIndexAccess()
+@Controller('api/_tasks')
+export class TaskController {
+  constructor(
+    private readonly taskService: TaskService,
+    private readonly apiKeyService: ApiKeyService,
+  ) {}
+
+  @Get(':taskId')
+  @ApiOperation({
+    summary: 'Get the progress and report of a task',
+    description:
+      'Tasks are started by _delete_by_query, _update_by_query and _reindex with wait_for_completion=false. A sliced reindex reports the combined progress of its slices.',
+  })
+  @ApiParam({ name: 'taskId', description: 'Task id' })
+  @ApiResponse({ status: 200, description: 'Task state, progress and final report' })
+  @ApiResponse({ status: 403, description: 'Task of another index or a higher scope' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async getTask(@Param('taskId') taskId: string, @Req() request: any): Promise<TaskStatus> {
+    return this.authorizedTask(taskId, request.apiKey);
+  }
+
+  @Post(':taskId/_cancel')
+  @Audit()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel a task',
+    description: 'The task stops before its next batch; its report shows what was done until then',
+  })
+  @ApiParam({ name: 'taskId', description: 'Task id' })
+  @ApiResponse({ status: 200, description: 'Cancellation requested' })
+  @ApiResponse({ status: 403, description: 'Task of another index or a higher scope' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  @ApiResponse({ status: 409, description: 'Task has already finished' })
+  async cancelTask(@Param('taskId') taskId: string, @Req() request: any): Promise<TaskStatus> {
+    await this.authorizedTask(taskId, request.apiKey);
+    return this.taskService.cancelTask(taskId);
+  }
+
+  /**
+   * The task, if the request's key has the scope the task was started with and
+   * access to its index. Without authentication there is no key to check.
+   */
+  private async authorizedTask(taskId: string, apiKey?: ApiKey): Promise<TaskStatus> {
+    const task = await this.taskService.getTask(taskId);
+    if (!apiKey) {
+      return task;
+    }
+
+    const scope = TASK_SCOPES[task.type];
+    if (!this.apiKeyService.hasScope(apiKey, scope)) {
+      throw new ForbiddenException(`API key '${apiKey.name}' lacks the '${scope}' scope`);
+    }
+    if (!this.apiKeyService.canAccessIndex(apiKey, task.indexName)) {
+      throw new ForbiddenException(
+        `API key '${apiKey.name}' cannot access index '${task.indexName}'`,
+      );
+    }
+    return task;
+  }
+}
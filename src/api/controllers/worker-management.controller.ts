@@ -1,8 +1,10 @@
 import { Controller, Get, Post, Body, HttpStatus, Logger, HttpCode } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { WorkerManagementService, DiagnosticsReport } from '../services/worker-management.service';
+import { RequireScope } from '../../auth/auth.decorators';
 
 @ApiTags('Worker Management')
+@RequireScope('admin')
 @Controller('workers')
 export class WorkerManagementController {
   private readonly logger = new Logger(WorkerManagementController.name);
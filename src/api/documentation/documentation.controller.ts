@@ -1,7 +1,9 @@
 import { Controller, Get, Param, Res } from '@nestjs/common';
 import { Response } from 'express';
 import { DocumentationService } from './documentation.service';
+import { Public } from '../../auth/auth.decorators';
 
+@Public()
 @Controller('docs')
 export class DocumentationController {
   constructor(private readonly documentationService: DocumentationService) {}
@@ -0,0 +1,83 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { API_KEY_SCOPES, ApiKeyScope } from '../../auth/interfaces/api-key.interface';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ description: 'Name identifying the key owner or use', example: 'storefront' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'Scopes granted to the key: search, write and/or admin',
+    example: ['search'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({
+    description: 'Index names or prefix* patterns the key is limited to (all indices when omitted)',
+    required: false,
+    example: ['businesses', 'products-*'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  indices?: string[];
+
+  @ApiProperty({
+    description: 'Expiry date of the key (never expires when omitted)',
+    required: false,
+    example: '2026-01-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class ApiKeyResponseDto {
+  @ApiProperty({ example: '5b0d7c2e-8f1a-4c55-9a43-0a4c2f8a9e11' })
+  id: string;
+
+  @ApiProperty({ example: 'storefront' })
+  name: string;
+
+  @ApiProperty({ description: 'Start of the key, for telling keys apart', example: 'ogk_x7Qe1b' })
+  prefix: string;
+
+  @ApiProperty({ example: ['search'] })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({ example: ['businesses'], nullable: true })
+  indices: string[] | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty({ nullable: true })
+  expiresAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  revokedAt: Date | null;
+}
+
+export class IssuedApiKeyResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    description: 'The API key itself. It is only shown once, when created or rotated.',
+    example: 'ogk_x7Qe1bVZ0m1rL2n4x9wq3Ykq8e0Jd5sT',
+  })
+  key: string;
+}
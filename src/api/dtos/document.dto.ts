@@ -5,9 +5,19 @@ import {
   IsArray,
   ValidateNested,
   IsObject,
+  IsNumber,
+  IsPositive,
+  IsIn,
+  IsNumberString,
+  IsBoolean,
+  IsInt,
+  Min,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { SchemaValidationError } from '../../schema/interfaces/schema.interface';
+import { BulkItemResult } from '../../document/interfaces/bulk-operation.interface';
+import { VERSION_TYPES } from '../../document/utils/document-version';
 
 export class IndexDocumentDto {
   @ApiProperty({
@@ -82,6 +92,22 @@ export class DocumentResponseDto {
   })
   version: number;
 
+  @ApiProperty({
+    name: 'seqNo',
+    required: false,
+    example: 42,
+    description: 'Sequence number of the last write to the document',
+  })
+  seqNo?: number;
+
+  @ApiProperty({
+    name: 'result',
+    required: false,
+    example: 'created',
+    description: 'Whether a write created or updated the document, or left it as it was',
+  })
+  result?: 'created' | 'updated' | 'noop';
+
   @ApiProperty({
     name: 'error',
     example: 'Document not found',
@@ -102,6 +128,124 @@ export class DocumentResponseDto {
     description: 'Document source',
   })
   source: Record<string, any>;
+
+  @ApiProperty({
+    name: 'warnings',
+    required: false,
+    example: [{ path: '/price', message: 'has invalid type, expected number' }],
+    description: 'Schema violations of a document indexed by an index in warn mode',
+  })
+  warnings?: SchemaValidationError[];
+}
+
+export class VersionQueryDto {
+  @ApiProperty({
+    required: false,
+    example: '3',
+    description: 'Only write if the document is at this version',
+  })
+  @IsOptional()
+  @IsNumberString()
+  if_version?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '42',
+    description: 'Only write if the last write to the document has this sequence number',
+  })
+  @IsOptional()
+  @IsNumberString()
+  if_seq_no?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '1718000000',
+    description: 'Version of the write with version_type=external',
+  })
+  @IsOptional()
+  @IsNumberString()
+  version?: string;
+
+  @ApiProperty({
+    required: false,
+    enum: VERSION_TYPES,
+    description:
+      'external: the caller keeps the versions, and a write only applies when its version is higher than the stored one',
+  })
+  @IsOptional()
+  @IsIn(VERSION_TYPES)
+  version_type?: string;
+}
+
+export class UpdateScriptDto {
+  @ApiProperty({
+    description:
+      'Statements separated by semicolons over doc and params: assignments (=, +=, -=, ??= to set if missing), ' +
+      'append(field, value), remove(field, value), unset(field), noop, and if (...) { ... } else { ... }',
+    example: 'doc.views += 1; append(doc.tags, params.tag); if (doc.stock == 0) noop',
+  })
+  @IsString()
+  @IsNotEmpty()
+  source: string;
+
+  @ApiProperty({
+    description: 'Values the script reads as params.<name>',
+    required: false,
+    example: { tag: 'featured' },
+  })
+  @IsOptional()
+  @IsObject()
+  params?: Record<string, any>;
+}
+
+export class UpdateDocumentDto {
+  @ApiProperty({
+    description: 'Partial document merged into the document; arrays are replaced',
+    required: false,
+    example: { price: 899.99, specs: { color: 'black' } },
+  })
+  @IsOptional()
+  @IsObject()
+  doc?: Record<string, any>;
+
+  @ApiProperty({
+    description: 'Script run after doc is merged',
+    required: false,
+    type: UpdateScriptDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UpdateScriptDto)
+  script?: UpdateScriptDto;
+
+  @ApiProperty({
+    description: 'Document created as is when the document does not exist',
+    required: false,
+    example: { title: 'Smartphone X', views: 1 },
+  })
+  @IsOptional()
+  @IsObject()
+  upsert?: Record<string, any>;
+
+  @ApiProperty({
+    description: 'Create the document from doc when it does not exist',
+    required: false,
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  doc_as_upsert?: boolean;
+
+  @ApiProperty({
+    description:
+      'Times to recompute the update when another write changed the document meanwhile (default 3)',
+    required: false,
+    example: 3,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  retry_on_conflict?: number;
 }
 
 export class BulkResponseDto {
@@ -115,8 +259,19 @@ export class BulkResponseDto {
         status: 200,
         batchId: 'batch:my-index:1234567890',
       },
+      {
+        id: '124',
+        index: 'my-index',
+        success: false,
+        status: 400,
+        error: 'Document does not match schema product v2',
+        errors: [{ path: '/price', message: 'is required' }],
+        deadLettered: false,
+      },
     ],
-    description: 'Array of document responses',
+    description:
+      'Array of document responses. Documents that violate the schema of the index carry ' +
+      'the violations in errors, or in warnings when the index is in warn mode.',
   })
   items: {
     id: string;
@@ -124,6 +279,9 @@ export class BulkResponseDto {
     success: boolean;
     status: number;
     error?: string;
+    errors?: SchemaValidationError[];
+    warnings?: SchemaValidationError[];
+    deadLettered?: boolean;
     batchId?: string;
   }[];
 
@@ -149,6 +307,45 @@ export class BulkResponseDto {
   errors: boolean;
 }
 
+export class BulkOperationsResponseDto {
+  @ApiProperty({ example: 42, description: 'Time taken in milliseconds' })
+  took: number;
+
+  @ApiProperty({ example: false, description: 'Whether any action failed' })
+  errors: boolean;
+
+  @ApiProperty({
+    example: [
+      { action: 'index', index: 'products', id: '1', status: 201, result: 'created' },
+      { action: 'update', index: 'products', id: '2', status: 200, result: 'noop' },
+      {
+        action: 'delete',
+        index: 'products',
+        id: '3',
+        status: 404,
+        result: 'not_found',
+      },
+    ],
+    description:
+      'One result per action, in order. Without refresh=wait_for, actions that were queued have status 202 and result queued.',
+  })
+  items: BulkItemResult[];
+
+  @ApiProperty({
+    required: false,
+    example: '1234',
+    description: 'Queue job running the actions',
+  })
+  jobId?: string;
+
+  @ApiProperty({
+    required: false,
+    example: false,
+    description: 'Whether refresh=wait_for gave up before the job finished',
+  })
+  timedOut?: boolean;
+}
+
 export class TermQueryDto {
   @ApiProperty({
     description: 'Field to filter on',
@@ -224,29 +421,119 @@ export class DeleteByQueryDto {
     term?: TermQueryDto;
     range?: RangeQueryDto;
   };
+
+  @ApiProperty({
+    description: 'Throttle to this many documents per second; unthrottled when omitted',
+    required: false,
+    example: 500,
+  })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  requests_per_second?: number;
 }
 
-export class DeleteByQueryResponseDto {
+export class UpdateByQueryDto extends DeleteByQueryDto {
   @ApiProperty({
-    name: 'deleted',
-    example: 10,
-    description: 'Number of documents deleted',
+    description: 'Fields to set, by dot path',
+    required: false,
+    example: { status: 'archived', 'meta.reviewed': true },
   })
-  deleted: number;
+  @IsOptional()
+  @IsObject()
+  set?: Record<string, any>;
 
+  @ApiProperty({
+    description: 'Fields to remove, by dot path',
+    required: false,
+    example: ['legacy_code'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  unset?: string[];
+
+  @ApiProperty({
+    description: 'Numeric fields to add to; a missing field counts as 0',
+    required: false,
+    example: { stock: -1 },
+  })
+  @IsOptional()
+  @IsObject()
+  increment?: Record<string, number>;
+
+  @ApiProperty({
+    description:
+      'Values to append to array fields; an array appends each of its elements, a missing field starts empty',
+    required: false,
+    example: { tags: 'clearance' },
+  })
+  @IsOptional()
+  @IsObject()
+  append?: Record<string, any>;
+}
+
+export class ByQueryFailureDto {
+  @ApiProperty({ required: false, example: 'product-123' })
+  id?: string;
+
+  @ApiProperty({ example: 'stock is not a number' })
+  error: string;
+
+  @ApiProperty({ required: false, description: 'Schema validation errors, by JSON pointer' })
+  errors?: Array<{ path: string; message: string }>;
+}
+
+export class ByQueryReportDto {
   @ApiProperty({
     name: 'took',
     example: 100,
-    description: 'Time taken to delete the documents in milliseconds',
+    description: 'Time taken in milliseconds',
   })
   took: number;
 
+  @ApiProperty({ example: 12, description: 'Matching documents when the operation started' })
+  total: number;
+
+  @ApiProperty({ example: 1, description: 'Number of batches processed' })
+  batches: number;
+
+  @ApiProperty({ example: 0, description: 'Number of documents that could not be processed' })
+  failed: number;
+
+  @ApiProperty({ example: false, description: 'Whether the task was cancelled before it finished' })
+  cancelled: boolean;
+
+  @ApiProperty({
+    example: 0,
+    description: 'Time spent waiting to honour requests_per_second, in milliseconds',
+  })
+  throttledMillis: number;
+
   @ApiProperty({
     name: 'failures',
     example: [],
-    description: 'Array of failures',
+    description: 'The first failures',
+    type: [ByQueryFailureDto],
   })
-  failures: any[];
+  failures: ByQueryFailureDto[];
+}
+
+export class DeleteByQueryResponseDto extends ByQueryReportDto {
+  @ApiProperty({
+    name: 'deleted',
+    example: 10,
+    description: 'Number of documents deleted',
+  })
+  deleted: number;
+}
+
+export class UpdateByQueryResponseDto extends ByQueryReportDto {
+  @ApiProperty({ example: 10, description: 'Number of documents updated' })
+  updated: number;
+
+  @ApiProperty({ example: 2, description: 'Matching documents the update left unchanged' })
+  noops: number;
 }
 
 export class ListDocumentsResponseDto {
@@ -0,0 +1,78 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { IndexAlias } from '../../index/interfaces/index-alias.interface';
+
+export class PutIndexAliasDto {
+  @ApiProperty({
+    description: 'Send writes through the alias to this index',
+    required: false,
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isWriteIndex?: boolean;
+}
+
+export class AliasTargetDto {
+  @ApiProperty({ example: 'businesses_v2' })
+  @IsString()
+  index: string;
+
+  @ApiProperty({ example: 'businesses' })
+  @IsString()
+  alias: string;
+
+  @ApiProperty({ required: false, example: true, description: 'add only' })
+  @IsOptional()
+  @IsBoolean()
+  isWriteIndex?: boolean;
+}
+
+export class AliasActionDto {
+  @ApiProperty({ required: false, type: AliasTargetDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AliasTargetDto)
+  add?: AliasTargetDto;
+
+  @ApiProperty({ required: false, type: AliasTargetDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AliasTargetDto)
+  remove?: AliasTargetDto;
+}
+
+export class UpdateAliasesDto {
+  @ApiProperty({
+    description: 'Applied in order in one transaction: either all succeed or none do',
+    type: [AliasActionDto],
+    example: [
+      { remove: { index: 'businesses_v1', alias: 'businesses' } },
+      { add: { index: 'businesses_v2', alias: 'businesses', isWriteIndex: true } },
+    ],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => AliasActionDto)
+  actions: AliasActionDto[];
+}
+
+export class IndexAliasResponseDto implements IndexAlias {
+  @ApiProperty({ example: 'businesses' })
+  alias: string;
+
+  @ApiProperty({ example: 'businesses_v2' })
+  index: string;
+
+  @ApiProperty({ example: true })
+  isWriteIndex: boolean;
+}
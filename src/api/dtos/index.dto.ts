@@ -1,8 +1,93 @@
-import { IsString, IsNotEmpty, IsOptional, IsObject, ValidateNested, IsIn } from 'class-validator';
-import { FieldMapping, IndexMappings } from '../../index/interfaces/index.interface';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsObject,
+  ValidateNested,
+  IsIn,
+  IsInt,
+  IsUrl,
+  IsArray,
+  IsBoolean,
+  Min,
+} from 'class-validator';
+import {
+  EmbeddingSettings,
+  FieldMapping,
+  IndexMappings,
+  IndexSettings,
+  SchemaBinding,
+} from '../../index/interfaces/index.interface';
+import { AnalyzeRequest } from '../../index/analyze.service';
 import { ApiProperty } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 
+export class EmbeddingSettingsDto implements EmbeddingSettings {
+  @ApiProperty({
+    description: 'Embedding provider: openai, http (self-hosted model server) or hashing (offline)',
+    example: 'http',
+  })
+  @IsIn(['openai', 'http', 'hashing'])
+  provider: EmbeddingSettings['provider'];
+
+  @ApiProperty({
+    description: 'Model name passed to the provider',
+    required: false,
+    example: 'nomic-embed-text',
+  })
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  @ApiProperty({
+    description: 'Vector size; must match the document_embeddings column',
+    required: false,
+    example: 768,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  dimensions?: number;
+
+  @ApiProperty({
+    description: 'Endpoint of the http provider (defaults to EMBEDDING_HTTP_URL)',
+    required: false,
+    example: 'http://embeddings.internal:8080/v1/embeddings',
+  })
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  url?: string;
+}
+
+export class SchemaBindingDto implements SchemaBinding {
+  @ApiProperty({ description: 'Name of a registered schema', example: 'product' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'Schema version to enforce; the latest version when omitted',
+    required: false,
+    example: 2,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  version?: number;
+
+  @ApiProperty({
+    description:
+      'What happens to non-conforming documents: reject (400), dead_letter (kept in the ' +
+      'schema violations of the index instead of being indexed) or warn (indexed, violations kept)',
+    required: false,
+    enum: ['reject', 'dead_letter', 'warn'],
+    example: 'reject',
+  })
+  @IsOptional()
+  @IsIn(['reject', 'dead_letter', 'warn'])
+  mode?: SchemaBinding['mode'];
+}
+
 export class IndexSettingsDto {
   @ApiProperty({
     description: 'Number of primary shards',
@@ -19,6 +104,57 @@ export class IndexSettingsDto {
   })
   @IsOptional()
   refreshInterval?: string;
+
+  @ApiProperty({
+    description:
+      'Custom analyzers of this index, referenced by name from field mappings. Analyzers ' +
+      'named default and default_search apply to fields and queries without their own.',
+    required: false,
+    example: {
+      analyzer: {
+        product_names: { type: 'custom', tokenizer: 'short_grams', filter: ['lowercase'] },
+      },
+      tokenizer: { short_grams: { type: 'ngram', minGram: 2, maxGram: 4 } },
+      filter: { product_stopwords: { type: 'stopword', stopwords: ['the', 'and'] } },
+      charFilter: { no_emoji: { type: 'pattern_replace', pattern: '\\p{Extended_Pictographic}' } },
+    },
+  })
+  @IsOptional()
+  @IsObject()
+  analysis?: IndexSettings['analysis'];
+
+  @ApiProperty({
+    description:
+      'Language of text fields without an analyzer: english, french, yoruba, hausa, igbo or ' +
+      'pidgin (or en, fr, yo, ha, ig, pcm). Its language analyzer becomes the default analyzer.',
+    required: false,
+    example: 'french',
+  })
+  @IsOptional()
+  @IsString()
+  defaultLanguage?: string;
+
+  @ApiProperty({
+    description: 'Embedding provider used for semantic search on this index',
+    required: false,
+    type: EmbeddingSettingsDto,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => EmbeddingSettingsDto)
+  embedding?: EmbeddingSettingsDto;
+
+  @ApiProperty({
+    description: 'Registered schema that documents are validated against on ingest',
+    required: false,
+    type: SchemaBindingDto,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SchemaBindingDto)
+  schema?: SchemaBindingDto;
 }
 
 export class FieldMappingDto implements FieldMapping {
@@ -28,7 +164,18 @@ export class FieldMappingDto implements FieldMapping {
   })
   @IsString()
   @IsNotEmpty()
-  @IsIn(['text', 'keyword', 'integer', 'float', 'date', 'boolean', 'object', 'nested'])
+  @IsIn([
+    'text',
+    'keyword',
+    'integer',
+    'float',
+    'date',
+    'boolean',
+    'object',
+    'nested',
+    'dense_vector',
+    'search_as_you_type',
+  ])
   type: FieldMapping['type'];
 
   @ApiProperty({
@@ -48,6 +195,26 @@ export class FieldMappingDto implements FieldMapping {
   @IsOptional()
   boost?: number;
 
+  @ApiProperty({
+    description: 'dense_vector only: number of dimensions of the vector',
+    required: false,
+    example: 768,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  dims?: number;
+
+  @ApiProperty({
+    description: 'dense_vector only: fields whose text is embedded when documents are indexed',
+    required: false,
+    example: ['name', 'description'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  source?: string[];
+
   searchAnalyzer?: string;
   store?: boolean;
   index?: boolean;
@@ -137,10 +304,82 @@ export class UpdateIndexSettingsDto {
   })
   @IsObject()
   @IsNotEmpty()
-  settings: {
-    numberOfShards?: number;
-    refreshInterval?: string;
-  };
+  @ValidateNested()
+  @Type(() => IndexSettingsDto)
+  settings: IndexSettingsDto;
+}
+
+export class AnalyzeRequestDto implements AnalyzeRequest {
+  @ApiProperty({ description: 'Text to analyze', example: 'The Quick Brown Foxes' })
+  @IsString()
+  text: string;
+
+  @ApiProperty({
+    description: 'Analyzer to use, either built-in or defined by the index',
+    required: false,
+    example: 'standard',
+  })
+  @IsOptional()
+  @IsString()
+  analyzer?: string;
+
+  @ApiProperty({
+    description: 'Field whose mapped analyzer is used',
+    required: false,
+    example: 'title',
+  })
+  @IsOptional()
+  @IsString()
+  field?: string;
+
+  @ApiProperty({
+    description: "Use the field's searchAnalyzer and the index's default_search analyzer",
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  searchAnalyzer?: boolean;
+
+  @ApiProperty({
+    description: 'Tokenizer of an inline analyzer, built-in or defined by the index',
+    required: false,
+    example: 'whitespace',
+  })
+  @IsOptional()
+  @IsString()
+  tokenizer?: string;
+
+  @ApiProperty({
+    description: 'Filters of an inline analyzer, built-in or defined by the index',
+    required: false,
+    example: ['lowercase', 'stopword'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  filter?: string[];
+
+  @ApiProperty({
+    description: 'Char filters of an inline analyzer, built-in or defined by the index',
+    required: false,
+    example: ['html_strip'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  charFilter?: string[];
+
+  @ApiProperty({
+    description:
+      'Include the text after each char filter and the tokens after the tokenizer and ' +
+      'after each filter',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  explain?: boolean;
 }
 
 export class IndexResponseDto {
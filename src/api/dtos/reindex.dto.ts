@@ -0,0 +1,138 @@
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ByQueryReportDto } from './document.dto';
+import { ReindexStep } from '../../document/interfaces/reindex.interface';
+
+export const REINDEX_OP_TYPES = ['index', 'create'];
+export const REINDEX_CONFLICTS = ['abort', 'proceed'];
+export const MAX_REINDEX_SLICES = 32;
+
+export class ReindexSourceDto {
+  @ApiProperty({ description: 'Index or alias to copy documents from', example: 'products' })
+  @IsString()
+  @IsNotEmpty()
+  index: string;
+
+  @ApiProperty({
+    description: 'Only copy the documents matching this query, as in _delete_by_query',
+    required: false,
+    example: { term: { field: 'status', value: 'active' } },
+  })
+  @IsOptional()
+  @IsObject()
+  query?: Record<string, any>;
+}
+
+export class ReindexDestDto {
+  @ApiProperty({ description: 'Index or alias to copy documents into', example: 'products-v2' })
+  @IsString()
+  @IsNotEmpty()
+  index: string;
+
+  @ApiProperty({
+    description:
+      'index overwrites documents that already exist in the destination, create leaves them and counts a version conflict',
+    required: false,
+    enum: REINDEX_OP_TYPES,
+    example: 'index',
+  })
+  @IsOptional()
+  @IsIn(REINDEX_OP_TYPES)
+  op_type?: 'index' | 'create';
+}
+
+export class ReindexDto {
+  @ApiProperty({ type: ReindexSourceDto })
+  @ValidateNested()
+  @Type(() => ReindexSourceDto)
+  source: ReindexSourceDto;
+
+  @ApiProperty({ type: ReindexDestDto })
+  @ValidateNested()
+  @Type(() => ReindexDestDto)
+  dest: ReindexDestDto;
+
+  @ApiProperty({
+    description:
+      'Steps run on every document in order: rename, set_default, split, merge and change_type as in schema migrations, ' +
+      'drop (fields) and script (source, params) as in partial updates. A script reaching noop skips the document.',
+    required: false,
+    example: [
+      { op: 'rename', from: 'name', to: 'title' },
+      { op: 'drop', fields: ['legacy_code'] },
+      { op: 'script', source: 'doc.price = doc.price * 100' },
+    ],
+  })
+  @IsOptional()
+  @IsArray()
+  pipeline?: ReindexStep[];
+
+  @ApiProperty({
+    description: 'Split the copy into this many parts, run in parallel by the workers (default 1)',
+    required: false,
+    example: 4,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_REINDEX_SLICES)
+  slices?: number;
+
+  @ApiProperty({
+    description: 'Whether a version conflict stops the reindex (abort, the default) or is counted',
+    required: false,
+    enum: REINDEX_CONFLICTS,
+    example: 'proceed',
+  })
+  @IsOptional()
+  @IsIn(REINDEX_CONFLICTS)
+  conflicts?: 'abort' | 'proceed';
+
+  @ApiProperty({
+    description: 'Throttle to this many documents per second across all slices',
+    required: false,
+    example: 1000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  requests_per_second?: number;
+}
+
+export class ReindexResponseDto extends ByQueryReportDto {
+  @ApiProperty({ example: 10, description: 'Documents created in the destination' })
+  created: number;
+
+  @ApiProperty({ example: 2, description: 'Documents overwritten in the destination' })
+  updated: number;
+
+  @ApiProperty({ example: 0, description: 'Documents a pipeline script left out' })
+  noops: number;
+
+  @ApiProperty({
+    example: 0,
+    description: 'Documents that already existed (op_type create) or changed during the copy',
+  })
+  versionConflicts: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Report of each slice when the reindex was sliced',
+    type: () => [ReindexResponseDto],
+  })
+  slices?: ReindexResponseDto[];
+}
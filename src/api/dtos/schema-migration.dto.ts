@@ -0,0 +1,24 @@
+import { IsInt, IsOptional, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class StartSchemaMigrationDto {
+  @ApiProperty({
+    description: 'Version the documents conform to; defaults to the version the index is pinned to',
+    required: false,
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  fromVersion?: number;
+
+  @ApiProperty({
+    description: 'Version to migrate the documents to; defaults to the latest version',
+    required: false,
+    example: 2,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  toVersion?: number;
+}
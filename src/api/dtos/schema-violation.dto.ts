@@ -0,0 +1,66 @@
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { SchemaEnforcementMode } from '../../index/interfaces/index.interface';
+import { SchemaValidationError, SchemaViolation } from '../../schema/interfaces/schema.interface';
+
+export class ListSchemaViolationsQueryDto {
+  @ApiProperty({
+    description: 'Only violations recorded in this mode: dead_letter or warn',
+    required: false,
+    enum: ['dead_letter', 'warn'],
+  })
+  @IsOptional()
+  @IsIn(['dead_letter', 'warn'])
+  mode?: SchemaEnforcementMode;
+
+  @ApiProperty({ required: false, example: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  from?: number;
+
+  @ApiProperty({ required: false, example: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  size?: number;
+}
+
+export class SchemaViolationDto implements SchemaViolation {
+  @ApiProperty({ example: 'product-124' })
+  documentId: string;
+
+  @ApiProperty({ example: 'product' })
+  schemaName: string;
+
+  @ApiProperty({ example: 2 })
+  schemaVersion: number;
+
+  @ApiProperty({ enum: ['dead_letter', 'warn'], example: 'dead_letter' })
+  mode: SchemaEnforcementMode;
+
+  @ApiProperty({ example: [{ path: '/price', message: 'is required' }] })
+  errors: SchemaValidationError[];
+
+  @ApiProperty({
+    description: 'The rejected document; dead-lettered documents only',
+    required: false,
+    example: { title: 'Laptop Pro' },
+  })
+  document?: Record<string, any>;
+
+  @ApiProperty()
+  createdAt?: Date;
+}
+
+export class SchemaViolationListResponseDto {
+  @ApiProperty({ example: 1 })
+  total: number;
+
+  @ApiProperty({ type: [SchemaViolationDto] })
+  violations: SchemaViolationDto[];
+}
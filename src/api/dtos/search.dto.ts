@@ -1,12 +1,4 @@
-import {
-  IsString,
-  IsNotEmpty,
-  IsOptional,
-  IsArray,
-  IsObject,
-  IsBoolean,
-  IsNumber,
-} from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsArray, IsObject, IsNumber } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { TypoCorrection } from '../../search/typo-tolerance.service';
 
@@ -152,6 +144,138 @@ export class RangeQueryDto {
   lte?: number;
 }
 
+export class KnnQueryDto {
+  @ApiProperty({
+    description: 'Field mapped as dense_vector',
+    example: 'description_vector',
+  })
+  @IsString()
+  @IsNotEmpty()
+  field: string;
+
+  @ApiProperty({
+    description: 'Query vector; must match the dimensions of the field',
+    required: false,
+    example: [0.12, -0.03, 0.48],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsNumber({}, { each: true })
+  query_vector?: number[];
+
+  @ApiProperty({
+    description: "Text to embed with the index's embedding provider instead of query_vector",
+    required: false,
+    example: 'wireless noise cancelling headphones',
+  })
+  @IsOptional()
+  @IsString()
+  query_text?: string;
+
+  @ApiProperty({
+    description: 'Number of nearest neighbours to return (max 1000)',
+    required: false,
+    example: 10,
+  })
+  @IsOptional()
+  @IsNumber()
+  k?: number;
+
+  @ApiProperty({
+    description: 'Nearest vectors considered before filters apply; at least k (max 10000)',
+    required: false,
+    example: 100,
+  })
+  @IsOptional()
+  @IsNumber()
+  num_candidates?: number;
+
+  @ApiProperty({
+    description: 'Minimum cosine similarity of a hit, between -1 and 1',
+    required: false,
+    example: 0.7,
+  })
+  @IsOptional()
+  @IsNumber()
+  similarity?: number;
+}
+
+export class PointInTimeDto {
+  @ApiProperty({
+    description: 'Id of an open point-in-time (pagination.pit.id); omit to open a new one',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  id?: string;
+
+  @ApiProperty({
+    description: 'How long to keep the point-in-time alive after this request (max 24h)',
+    required: false,
+    example: '5m',
+  })
+  @IsOptional()
+  @IsString()
+  keepAlive?: string;
+}
+
+export class HighlightOptionsDto {
+  @ApiProperty({
+    description: 'Fields to highlight (defaults to every string field that matches)',
+    required: false,
+    example: ['name', 'description'],
+  })
+  @IsOptional()
+  @IsArray()
+  fields?: string[];
+
+  @ApiProperty({ description: 'Tag inserted before each match', required: false, example: '<em>' })
+  @IsOptional()
+  @IsString()
+  preTag?: string;
+
+  @ApiProperty({ description: 'Tag inserted after each match', required: false, example: '</em>' })
+  @IsOptional()
+  @IsString()
+  postTag?: string;
+
+  @ApiProperty({
+    description: 'Tag inserted before terms introduced by typo correction',
+    required: false,
+    example: '<em class="typo-corrected">',
+  })
+  @IsOptional()
+  @IsString()
+  correctedPreTag?: string;
+
+  @ApiProperty({
+    description: 'Tag inserted after terms introduced by typo correction',
+    required: false,
+    example: '</em>',
+  })
+  @IsOptional()
+  @IsString()
+  correctedPostTag?: string;
+
+  @ApiProperty({
+    description: 'Approximate fragment length in characters',
+    required: false,
+    example: 150,
+  })
+  @IsOptional()
+  @IsNumber()
+  fragmentSize?: number;
+
+  @ApiProperty({
+    description: 'Maximum fragments per field (0 returns whole field values)',
+    required: false,
+    example: 3,
+  })
+  @IsOptional()
+  @IsNumber()
+  numberOfFragments?: number;
+}
+
 export class SearchQueryDto {
   @ApiProperty({
     description: 'Search query definition',
@@ -191,6 +315,13 @@ export class SearchQueryDto {
           lte: 1000,
         },
       },
+      knn: {
+        knn: {
+          field: 'description_vector',
+          query_text: 'wireless headphones',
+          k: 10,
+        },
+      },
       string_simple: 'smartphone',
     },
   })
@@ -203,9 +334,21 @@ export class SearchQueryDto {
         term?: Record<string, any>;
         bool?: BoolQueryDto;
         range?: RangeQueryDto;
+        knn?: KnnQueryDto;
       }
     | string;
 
+  @ApiProperty({
+    description:
+      'Vector query for hybrid search: its hits are fused with the keyword hits of query ' +
+      'using reciprocal rank fusion',
+    required: false,
+    example: { field: 'description_vector', query_text: 'wireless headphones', k: 50 },
+  })
+  @IsOptional()
+  @IsObject()
+  knn?: KnnQueryDto;
+
   @ApiProperty({
     description: 'Number of results to return',
     required: false,
@@ -224,6 +367,30 @@ export class SearchQueryDto {
   @IsNumber()
   from?: number;
 
+  @ApiProperty({
+    description:
+      'Cursor for deep pagination: the pagination.searchAfter values of the previous page. ' +
+      'Returns the hits sorting after them; from must be 0.',
+    required: false,
+    example: ['100.0', 'doc-123'],
+  })
+  @IsOptional()
+  @IsArray()
+  searchAfter?: any[];
+
+  @ApiProperty({
+    description:
+      'Point-in-time to page without documents indexed meanwhile: {} opens one, and the ' +
+      'returned pagination.pit.id keeps paging from the same snapshot. Only documents ' +
+      'created later are excluded; updates and deletes made while paging are visible, and ' +
+      'a document deleted and indexed again counts as created later.',
+    required: false,
+    example: { id: 'eyJpIjoiYnVzaW5lc3NlcyIs...', keepAlive: '5m' },
+  })
+  @IsOptional()
+  @IsObject()
+  pit?: PointInTimeDto;
+
   @ApiProperty({
     description: 'Fields to search in (for multi-field search)',
     required: false,
@@ -234,12 +401,17 @@ export class SearchQueryDto {
   fields?: string[];
 
   @ApiProperty({
-    description: 'Additional filter criteria',
+    description:
+      'Additional filter criteria: term, terms, range, prefix, exists and missing clauses, ' +
+      'combinable with bool must/should/must_not',
     required: false,
     example: {
-      term: {
-        field: 'categories',
-        value: 'electronics',
+      bool: {
+        must: [
+          { term: { field: 'categories', value: 'electronics' } },
+          { range: { price: { gte: 100, lt: 500 } } },
+        ],
+        must_not: [{ missing: { field: 'sku' } }],
       },
     },
   })
@@ -249,30 +421,54 @@ export class SearchQueryDto {
 
   @ApiProperty({
     name: 'sort',
-    example: 'title:desc',
-    description: 'Sorting criteria',
+    example: [
+      { price: { order: 'asc', missing: 'last' } },
+      { field: 'created_at', order: 'desc' },
+      '_score',
+      { _geo_distance: { order: 'asc' } },
+    ],
+    description:
+      'Sorting criteria: a "field:desc" string (comma-separated for several keys) or a list of ' +
+      'sort entries. Supports _score, _id, nested fields, missing: first|last and _geo_distance ' +
+      '(origin defaults to userLocation). Ties are broken by score, then document id.',
+    required: false,
   })
-  @IsString()
   @IsOptional()
-  sort?: string;
+  sort?: string | Array<string | Record<string, any>>;
 
   @ApiProperty({
     name: 'highlight',
-    example: false,
-    description: 'Whether to highlight the search query',
+    example: {
+      fields: ['name', 'description'],
+      preTag: '<mark>',
+      postTag: '</mark>',
+      fragmentSize: 100,
+      numberOfFragments: 2,
+    },
+    description:
+      'Highlight query terms in hits[].highlight: true for defaults, or an options object with ' +
+      'fields, preTag, postTag, correctedPreTag, correctedPostTag (typo-corrected terms), ' +
+      'fragmentSize and numberOfFragments (0 returns whole field values)',
+    required: false,
   })
-  @IsBoolean()
   @IsOptional()
-  highlight?: boolean = false;
+  highlight?: boolean | HighlightOptionsDto = false;
 
   @ApiProperty({
     name: 'facets',
-    example: ['title', 'content'],
-    description: 'Facets to return',
+    example: [
+      'category',
+      { field: 'brand', size: 20, disjunctive: true },
+      { field: 'price', type: 'range', ranges: [{ to: 100 }, { from: 100, to: 500 }] },
+      { field: 'created_at', type: 'date_histogram', interval: 'month' },
+    ],
+    description:
+      'Facets to return: field names (terms facets) or facet objects of type terms, range, ' +
+      'histogram or date_histogram. Disjunctive facets ignore the filters on their own field.',
   })
   @IsArray()
   @IsOptional()
-  facets?: string[];
+  facets?: Array<string | Record<string, any>>;
 
   @ApiProperty({
     name: 'userLocation',
@@ -291,7 +487,16 @@ export class SearchResponseDto {
     example: {
       total: 10,
       maxScore: 1.0,
-      hits: [{ id: '123', index: 'my-index', score: 1.0, source: { name: 'John Doe' } }],
+      hits: [
+        {
+          id: '123',
+          index: 'my-index',
+          score: 1.0,
+          version: 3,
+          seqNo: 42,
+          source: { name: 'John Doe' },
+        },
+      ],
       pagination: {
         currentPage: 1,
         totalPages: 5,
@@ -299,6 +504,7 @@ export class SearchResponseDto {
         hasNext: true,
         hasPrevious: false,
         totalResults: 50,
+        searchAfter: ['100.0', 'doc-123'],
       },
     },
     description: 'Search results',
@@ -310,6 +516,8 @@ export class SearchResponseDto {
       id: string;
       index: string;
       score: number;
+      version?: number;
+      seqNo?: number;
       source: Record<string, any>;
       highlight?: Record<string, string[]>;
     }>;
@@ -320,6 +528,17 @@ export class SearchResponseDto {
       hasNext: boolean;
       hasPrevious: boolean;
       totalResults: number;
+      // Present for cursor pagination (searchAfter or pit requests)
+      searchAfter?: any[] | null;
+      // consistency is always created_before_snapshot: documents created after the
+      // snapshot are excluded, other changes made while paging are visible
+      pit?: {
+        id: string;
+        keepAlive: string;
+        expiresAt: string;
+        snapshot: string;
+        consistency: 'created_before_snapshot';
+      };
     };
   };
 
@@ -334,6 +553,8 @@ export class SearchResponseDto {
       buckets: Array<{
         key: string;
         count: number;
+        from?: number | string;
+        to?: number | string;
       }>;
     }
   >;
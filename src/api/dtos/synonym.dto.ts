@@ -0,0 +1,31 @@
+import { IsArray, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { SynonymSet } from '../../index/interfaces/synonym-set.interface';
+
+export class PutSynonymSetDto {
+  @ApiProperty({
+    description:
+      'Solr/WordNet synonym rules: "a, b, c" for equivalent terms, "a => b" to replace a term',
+    example: ['sneakers, trainers, running shoes', 'tv => television'],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  rules: string[];
+}
+
+export class SynonymSetResponseDto implements SynonymSet {
+  @ApiProperty({ example: 'products' })
+  name: string;
+
+  @ApiProperty({ example: ['sneakers, trainers, running shoes', 'tv => television'] })
+  rules: string[];
+
+  @ApiProperty({
+    description: 'Whether these are the seed rules of the default set, not stored for the index',
+    example: false,
+  })
+  builtIn: boolean;
+
+  @ApiProperty({ nullable: true })
+  updatedAt: Date | null;
+}
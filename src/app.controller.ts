@@ -1,15 +1,18 @@
 import { Controller, Get, Post } from '@nestjs/common';
 import { AppService } from './app.service';
+import { Public, RequireScope } from './auth/auth.decorators';
 
 @Controller()
 export class AppController {
   constructor(private readonly appService: AppService) {}
 
+  @Public()
   @Get('health')
   getHealth() {
     return this.appService.getHealth();
   }
 
+  @Public()
   @Get('health/memory')
   getMemoryHealth() {
     const usage = process.memoryUsage();
@@ -35,6 +38,7 @@ export class AppController {
     };
   }
 
+  @RequireScope('admin')
   @Post('health/gc')
   forceGarbageCollection() {
     if (global.gc) {
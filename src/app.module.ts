@@ -13,6 +13,8 @@ import { SchemaModule } from './schema/schema.module';
 import { AnalysisModule } from './analysis/analysis.module';
 import { ApiModule } from './api/api.module';
 import { DocumentationModule } from './api/documentation/documentation.module';
+import { AuthModule } from './auth/auth.module';
+import { RateLimitModule } from './rate-limit/rate-limit.module';
 
 @Module({
   imports: [
@@ -35,6 +37,8 @@ import { DocumentationModule } from './api/documentation/documentation.module';
       inject: [ConfigService],
     }),
     StorageModule,
+    AuthModule,
+    RateLimitModule,
     IndexManagerModule,
     SearchEngineModule,
     DocumentManagerModule,
@@ -0,0 +1,170 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyGuard } from './api-key.guard';
+import { ApiKeyService } from './api-key.service';
+import { INDEX_PARAM_KEY, IS_PUBLIC_KEY, REQUIRED_SCOPE_KEY } from './auth.decorators';
+import { TaskController } from '../api/controllers/task.controller';
+
+describe('ApiKeyGuard', () => {
+  let guard: ApiKeyGuard;
+  let apiKeyService: jest.Mocked<
+    Pick<ApiKeyService, 'isEnabled' | 'authenticate' | 'hasScope' | 'canAccessIndex'>
+  >;
+  let metadata: Record<string, any>;
+  let indexAliasService: { resolveReadIndices: jest.Mock };
+
+  const context = (request: Record<string, any>) =>
+    ({
+      getType: () => 'http',
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as any);
+
+  beforeEach(() => {
+    metadata = {};
+    apiKeyService = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      authenticate: jest.fn(),
+      hasScope: jest.fn().mockReturnValue(true),
+      canAccessIndex: jest.fn().mockReturnValue(true),
+    };
+    const reflector = { getAllAndOverride: (key: string) => metadata[key] } as unknown as Reflector;
+    indexAliasService = { resolveReadIndices: jest.fn(async name => [name]) };
+    guard = new ApiKeyGuard(reflector, apiKeyService as any, indexAliasService as any);
+  });
+
+  it('should allow public routes and disabled authentication', async () => {
+    metadata[IS_PUBLIC_KEY] = true;
+    expect(await guard.canActivate(context({ headers: {} }))).toBe(true);
+
+    metadata = {};
+    apiKeyService.isEnabled.mockReturnValue(false);
+    expect(await guard.canActivate(context({ headers: {} }))).toBe(true);
+    expect(apiKeyService.authenticate).not.toHaveBeenCalled();
+  });
+
+  it('should require a valid key', async () => {
+    await expect(guard.canActivate(context({ headers: {} }))).rejects.toThrow(
+      UnauthorizedException,
+    );
+
+    apiKeyService.authenticate.mockResolvedValue(null);
+    await expect(
+      guard.canActivate(context({ headers: { authorization: 'Bearer ogk_unknown' } })),
+    ).rejects.toThrow(UnauthorizedException);
+    expect(apiKeyService.authenticate).toHaveBeenCalledWith('ogk_unknown');
+  });
+
+  it('should infer the scope from the method and attach the key to the request', async () => {
+    const apiKey = { id: 'key-1', name: 'storefront' } as any;
+    apiKeyService.authenticate.mockResolvedValue(apiKey);
+    const request = { method: 'POST', headers: { 'x-api-key': 'ogk_secret' }, params: {} };
+
+    expect(await guard.canActivate(context(request))).toBe(true);
+    expect(apiKeyService.hasScope).toHaveBeenCalledWith(apiKey, 'write');
+    expect(request).toMatchObject({ apiKey });
+
+    metadata[REQUIRED_SCOPE_KEY] = 'admin';
+    apiKeyService.hasScope.mockReturnValue(false);
+    await expect(guard.canActivate(context(request))).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should check the index named by the route', async () => {
+    apiKeyService.authenticate.mockResolvedValue({ id: 'key-1', name: 'storefront' } as any);
+    apiKeyService.canAccessIndex.mockReturnValue(false);
+    metadata[INDEX_PARAM_KEY] = 'name';
+
+    await expect(
+      guard.canActivate(
+        context({ method: 'GET', headers: { 'x-api-key': 'k' }, params: { name: 'users' } }),
+      ),
+    ).rejects.toThrow("cannot access index 'users'");
+    expect(apiKeyService.canAccessIndex).toHaveBeenCalledWith(expect.anything(), 'users');
+  });
+
+  it('should require access to every index behind an alias', async () => {
+    const apiKey = { id: 'key-1', name: 'logs', indices: ['logs-*'] } as any;
+    apiKeyService.authenticate.mockResolvedValue(apiKey);
+    apiKeyService.canAccessIndex.mockImplementation((_key, index) => index.startsWith('logs-'));
+    indexAliasService.resolveReadIndices.mockResolvedValue(['logs-2024', 'billing']);
+    const request = { method: 'GET', headers: { 'x-api-key': 'k' }, params: { index: 'logs-all' } };
+
+    await expect(guard.canActivate(context(request))).rejects.toThrow(
+      "cannot access index 'billing' behind alias 'logs-all'",
+    );
+    expect(indexAliasService.resolveReadIndices).toHaveBeenCalledWith('logs-all');
+
+    indexAliasService.resolveReadIndices.mockResolvedValue(['logs-2024', 'logs-2025']);
+    expect(await guard.canActivate(context(request))).toBe(true);
+  });
+
+  it('should not resolve aliases for keys without index limits', async () => {
+    apiKeyService.authenticate.mockResolvedValue({ id: 'key-1', name: 'admin' } as any);
+    const request = { method: 'GET', headers: { 'x-api-key': 'k' }, params: { index: 'logs-all' } };
+
+    expect(await guard.canActivate(context(request))).toBe(true);
+    expect(indexAliasService.resolveReadIndices).not.toHaveBeenCalled();
+  });
+
+  describe('task routes', () => {
+    const writeKey = { id: 'key-1', name: 'catalog', scopes: ['write'], indices: ['products'] };
+    const keys = new ApiKeyService(undefined, undefined);
+    const task = { id: 'task-1', type: 'delete-by-query', indexName: 'products' };
+    let taskService: { getTask: jest.Mock; cancelTask: jest.Mock };
+    let controller: TaskController;
+
+    const routeContext = (handler: (...args: any[]) => any, request: Record<string, any>) =>
+      ({ ...context(request), getHandler: () => handler, getClass: () => TaskController } as any);
+
+    beforeEach(() => {
+      apiKeyService.authenticate.mockResolvedValue(writeKey as any);
+      apiKeyService.hasScope.mockImplementation((key, scope) => keys.hasScope(key, scope));
+      apiKeyService.canAccessIndex.mockImplementation((key, index) =>
+        keys.canAccessIndex(key, index),
+      );
+      guard = new ApiKeyGuard(new Reflector(), apiKeyService as any, indexAliasService as any);
+      taskService = {
+        getTask: jest.fn(async () => ({ ...task })),
+        cancelTask: jest.fn(async () => ({ ...task, cancelRequested: true })),
+      };
+      controller = new TaskController(taskService as any, apiKeyService as any);
+    });
+
+    it('should let a write key get and cancel its own task', async () => {
+      const get = { method: 'GET', headers: { 'x-api-key': 'k' }, params: { taskId: 'task-1' } };
+      expect(await guard.canActivate(routeContext(TaskController.prototype.getTask, get))).toBe(
+        true,
+      );
+      expect(await controller.getTask('task-1', get)).toMatchObject(task);
+
+      const cancel = {
+        method: 'POST',
+        headers: { 'x-api-key': 'k' },
+        params: { taskId: 'task-1' },
+      };
+      expect(
+        await guard.canActivate(routeContext(TaskController.prototype.cancelTask, cancel)),
+      ).toBe(true);
+      expect(await controller.cancelTask('task-1', cancel)).toMatchObject({
+        cancelRequested: true,
+      });
+      expect(taskService.cancelTask).toHaveBeenCalledWith('task-1');
+    });
+
+    it('should refuse tasks of another index or started with a higher scope', async () => {
+      const request = { apiKey: writeKey };
+
+      taskService.getTask.mockResolvedValue({ ...task, indexName: 'users' });
+      await expect(controller.getTask('task-1', request)).rejects.toThrow(
+        "cannot access index 'users'",
+      );
+
+      taskService.getTask.mockResolvedValue({ ...task, type: 'reindex' });
+      await expect(controller.cancelTask('task-1', request)).rejects.toThrow(
+        "lacks the 'admin' scope",
+      );
+      expect(taskService.cancelTask).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyService } from './api-key.service';
+import { IndexAliasService } from '../index/index-alias.service';
+import {
+  CHECKS_INDEX_ACCESS_KEY,
+  getIndexName,
+  getRequiredScope,
+  IS_PUBLIC_KEY,
+} from './auth.decorators';
+
+/**
+ * Global guard requiring an API key with the route's scope, and access to the
+ * route's index for keys limited to specific indices. An alias needs access to
+ * every index behind it. Routes marked with @ChecksIndexAccess check the index
+ * themselves. Keys are read from the `x-api-key` header or an
+ * `Authorization: Bearer` header.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeyService: ApiKeyService,
+    private readonly indexAliasService: IndexAliasService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http' || !this.apiKeyService.isEnabled()) {
+      return true;
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const rawKey = this.extractKey(request);
+    if (!rawKey) {
+      throw new UnauthorizedException('An API key is required');
+    }
+
+    const apiKey = await this.apiKeyService.authenticate(rawKey);
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid, expired or revoked API key');
+    }
+
+    const scope = getRequiredScope(this.reflector, context);
+    if (!this.apiKeyService.hasScope(apiKey, scope)) {
+      throw new ForbiddenException(`API key '${apiKey.name}' lacks the '${scope}' scope`);
+    }
+
+    const indexName = getIndexName(this.reflector, context);
+    // Reads of an alias fan out to all of its indices, and its write index is one of them
+    const indices = this.reflector.getAllAndOverride<boolean>(CHECKS_INDEX_ACCESS_KEY, targets)
+      ? []
+      : apiKey.indices && indexName
+      ? await this.indexAliasService.resolveReadIndices(indexName)
+      : [indexName];
+    for (const index of indices) {
+      if (!this.apiKeyService.canAccessIndex(apiKey, index)) {
+        throw new ForbiddenException(
+          !index
+            ? `API key '${apiKey.name}' is limited to specific indices`
+            : index === indexName
+            ? `API key '${apiKey.name}' cannot access index '${index}'`
+            : `API key '${apiKey.name}' cannot access index '${index}' behind alias '${indexName}'`,
+        );
+      }
+    }
+
+    request.apiKey = apiKey;
+    return true;
+  }
+
+  private extractKey(request: any): string | undefined {
+    const header = request.headers?.['x-api-key'];
+    if (typeof header === 'string' && header.trim()) {
+      return header.trim();
+    }
+
+    const authorization = request.headers?.authorization;
+    const match = typeof authorization === 'string' && authorization.match(/^Bearer\s+(\S+)$/i);
+    return match ? match[1] : undefined;
+  }
+}
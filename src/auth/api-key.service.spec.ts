@@ -0,0 +1,136 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { ApiKeyService } from './api-key.service';
+import { ApiKey } from './interfaces/api-key.interface';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  let dataSource: { query: jest.Mock };
+  let config: Record<string, string>;
+
+  const row = (overrides: Record<string, any> = {}) => ({
+    id: 'key-1',
+    name: 'storefront',
+    key_prefix: 'ogk_abcdef',
+    scopes: ['search'],
+    indices: null,
+    created_at: new Date(),
+    expires_at: null,
+    last_used_at: null,
+    revoked_at: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    dataSource = { query: jest.fn() };
+    config = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        { provide: DataSource, useValue: dataSource },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string, fallback?: string) => config[key] ?? fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeyService>(ApiKeyService);
+  });
+
+  describe('createKey', () => {
+    it('should store only a hash of the issued key', async () => {
+      dataSource.query.mockImplementation(async (_sql, params) => [
+        row({ key_prefix: params[3], scopes: params[4], indices: params[5] }),
+      ]);
+
+      const { apiKey, key } = await service.createKey({
+        name: 'storefront',
+        scopes: ['search', 'search'],
+        indices: ['businesses'],
+      });
+      const params = dataSource.query.mock.calls[0][1];
+
+      expect(key).toMatch(/^ogk_[\w-]{32}$/);
+      expect(params[2]).toMatch(/^[0-9a-f]{64}$/);
+      expect(params).not.toContain(key);
+      expect(key.startsWith(apiKey.prefix)).toBe(true);
+      expect(apiKey.scopes).toEqual(['search']);
+      expect(apiKey.indices).toEqual(['businesses']);
+    });
+
+    it('should reject unknown scopes and past expiry dates', async () => {
+      await expect(
+        service.createKey({ name: 'bad', scopes: ['superuser' as any] }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.createKey({ name: 'bad', scopes: ['search'], expiresAt: '2000-01-01' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(dataSource.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve active keys and cache them', async () => {
+      dataSource.query.mockResolvedValue([row()]);
+
+      expect(await service.authenticate('ogk_secret')).toMatchObject({ id: 'key-1' });
+      expect(await service.authenticate('ogk_secret')).toMatchObject({ id: 'key-1' });
+      expect(dataSource.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse unknown, revoked and expired keys', async () => {
+      dataSource.query.mockResolvedValueOnce([]);
+      expect(await service.authenticate('ogk_unknown')).toBeNull();
+
+      dataSource.query.mockResolvedValueOnce([row({ revoked_at: new Date() })]);
+      expect(await service.authenticate('ogk_revoked')).toBeNull();
+
+      dataSource.query.mockResolvedValueOnce([row({ expires_at: new Date(Date.now() - 1000) })]);
+      expect(await service.authenticate('ogk_expired')).toBeNull();
+    });
+
+    it('should accept the bootstrap admin key without a lookup', async () => {
+      config.ADMIN_API_KEY = 'bootstrap-secret';
+
+      expect(await service.authenticate('bootstrap-secret')).toMatchObject({ scopes: ['admin'] });
+      expect(dataSource.query).not.toHaveBeenCalled();
+    });
+
+    it('should stop accepting a key once it is revoked', async () => {
+      dataSource.query.mockResolvedValueOnce([row()]);
+      await service.authenticate('ogk_secret');
+
+      dataSource.query.mockResolvedValueOnce([row({ revoked_at: new Date() })]);
+      await service.revokeKey('key-1');
+
+      dataSource.query.mockResolvedValueOnce([row({ revoked_at: new Date() })]);
+      expect(await service.authenticate('ogk_secret')).toBeNull();
+    });
+  });
+
+  describe('authorization', () => {
+    const key = (scopes: ApiKey['scopes'], indices: string[] | null = null) =>
+      ({ scopes, indices } as ApiKey);
+
+    it('should let admin keys act on every scope', () => {
+      expect(service.hasScope(key(['admin']), 'write')).toBe(true);
+      expect(service.hasScope(key(['search']), 'search')).toBe(true);
+      expect(service.hasScope(key(['search']), 'write')).toBe(false);
+      expect(service.hasScope(key(['write']), 'admin')).toBe(false);
+    });
+
+    it('should limit keys to their indices and index patterns', () => {
+      const limited = key(['search'], ['businesses', 'products-*']);
+
+      expect(service.canAccessIndex(key(['search']), undefined)).toBe(true);
+      expect(service.canAccessIndex(limited, 'businesses')).toBe(true);
+      expect(service.canAccessIndex(limited, 'products-ng')).toBe(true);
+      expect(service.canAccessIndex(limited, 'users')).toBe(false);
+      expect(service.canAccessIndex(limited, undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { DataSource } from 'typeorm';
+import {
+  API_KEY_SCOPES,
+  ApiKey,
+  ApiKeyScope,
+  AuditLogEntry,
+  CreateApiKeyInput,
+  IssuedApiKey,
+} from './interfaces/api-key.interface';
+
+const KEY_PREFIX = 'ogk_';
+const CACHE_TTL_MS = 60 * 1000;
+const BOOTSTRAP_KEY_ID = 'bootstrap';
+
+/**
+ * Issues, validates and revokes API keys.
+ *
+ * Only a SHA-256 hash of each key is stored. Validated keys are cached in memory
+ * for a minute, so a revocation can take that long to reach other instances.
+ * ADMIN_API_KEY configures a bootstrap admin key for creating the first keys.
+ */
+@Injectable()
+export class ApiKeyService implements OnModuleInit {
+  private readonly logger = new Logger(ApiKeyService.name);
+  private readonly cache = new Map<string, { apiKey: ApiKey; cachedAt: number }>();
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async onModuleInit() {
+    await this.initializeTables();
+  }
+
+  private async initializeTables(): Promise<void> {
+    try {
+      await this.dataSource.query(`
+        CREATE TABLE IF NOT EXISTS api_keys (
+          id UUID PRIMARY KEY,
+          name VARCHAR(255) NOT NULL,
+          key_hash CHAR(64) NOT NULL UNIQUE,
+          key_prefix VARCHAR(16) NOT NULL,
+          scopes TEXT[] NOT NULL,
+          indices TEXT[],
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          expires_at TIMESTAMPTZ,
+          last_used_at TIMESTAMPTZ,
+          revoked_at TIMESTAMPTZ
+        );
+
+        CREATE TABLE IF NOT EXISTS api_key_audit_log (
+          id BIGSERIAL PRIMARY KEY,
+          key_id VARCHAR(64),
+          key_name VARCHAR(255),
+          action TEXT NOT NULL,
+          index_name VARCHAR(255),
+          outcome VARCHAR(16) NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_api_key_audit_log_key
+          ON api_key_audit_log (key_id, created_at DESC);
+      `);
+    } catch (error) {
+      this.logger.error(`Failed to initialize API key tables: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether requests must carry an API key (API_AUTH_ENABLED, on by default)
+   */
+  isEnabled(): boolean {
+    return this.configService.get<string>('API_AUTH_ENABLED', 'true') !== 'false';
+  }
+
+  async createKey(input: CreateApiKeyInput): Promise<IssuedApiKey> {
+    const scopes = this.validateScopes(input.scopes);
+    const expiresAt = this.validateExpiry(input.expiresAt);
+    const key = this.generateKey();
+
+    const rows = await this.dataSource.query(
+      `INSERT INTO api_keys (id, name, key_hash, key_prefix, scopes, indices, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        randomUUID(),
+        input.name,
+        this.hash(key),
+        this.prefixOf(key),
+        scopes,
+        input.indices?.length ? input.indices : null,
+        expiresAt,
+      ],
+    );
+
+    const apiKey = this.toApiKey(rows[0]);
+    this.logger.log(`Created API key '${apiKey.name}' (${apiKey.id}) with scopes ${scopes}`);
+    return { apiKey, key };
+  }
+
+  async listKeys(): Promise<ApiKey[]> {
+    const rows = await this.dataSource.query('SELECT * FROM api_keys ORDER BY created_at DESC');
+    return rows.map(row => this.toApiKey(row));
+  }
+
+  async getKey(id: string): Promise<ApiKey> {
+    const rows = await this.dataSource.query('SELECT * FROM api_keys WHERE id::text = $1', [id]);
+    if (rows.length === 0) {
+      throw new NotFoundException(`API key '${id}' not found`);
+    }
+    return this.toApiKey(rows[0]);
+  }
+
+  async revokeKey(id: string): Promise<ApiKey> {
+    const rows = await this.dataSource.query(
+      `UPDATE api_keys SET revoked_at = COALESCE(revoked_at, NOW())
+       WHERE id::text = $1
+       RETURNING *`,
+      [id],
+    );
+    if (rows.length === 0) {
+      throw new NotFoundException(`API key '${id}' not found`);
+    }
+
+    this.evict(id);
+    return this.toApiKey(rows[0]);
+  }
+
+  /**
+   * Replace the secret of a key, keeping its id, scopes and index restrictions.
+   * The old secret stops working immediately on this instance.
+   */
+  async rotateKey(id: string): Promise<IssuedApiKey> {
+    const key = this.generateKey();
+    const rows = await this.dataSource.query(
+      `UPDATE api_keys SET key_hash = $2, key_prefix = $3
+       WHERE id::text = $1 AND revoked_at IS NULL
+       RETURNING *`,
+      [id, this.hash(key), this.prefixOf(key)],
+    );
+    if (rows.length === 0) {
+      throw new NotFoundException(`Active API key '${id}' not found`);
+    }
+
+    this.evict(id);
+    return { apiKey: this.toApiKey(rows[0]), key };
+  }
+
+  /**
+   * Resolve a presented key; returns null when it is unknown, revoked or expired
+   */
+  async authenticate(rawKey: string): Promise<ApiKey | null> {
+    const bootstrapKey = this.configService.get<string>('ADMIN_API_KEY');
+    if (bootstrapKey && this.secretsMatch(rawKey, bootstrapKey)) {
+      return this.bootstrapKey();
+    }
+
+    const hash = this.hash(rawKey);
+    const cached = this.cache.get(hash);
+    if (cached && Date.now() - cached.cachedAt < CACHE_TTL_MS) {
+      return this.isUsable(cached.apiKey) ? cached.apiKey : null;
+    }
+
+    const rows = await this.dataSource.query(
+      `UPDATE api_keys SET last_used_at = NOW()
+       WHERE key_hash = $1
+       RETURNING *`,
+      [hash],
+    );
+    if (rows.length === 0) {
+      this.cache.delete(hash);
+      return null;
+    }
+
+    const apiKey = this.toApiKey(rows[0]);
+    this.cache.set(hash, { apiKey, cachedAt: Date.now() });
+    return this.isUsable(apiKey) ? apiKey : null;
+  }
+
+  hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+    return apiKey.scopes.includes('admin') || apiKey.scopes.includes(scope);
+  }
+
+  /**
+   * Whether a key may access an index. Keys limited to indices are refused on
+   * routes that do not target a single index.
+   */
+  canAccessIndex(apiKey: ApiKey, indexName: string | undefined): boolean {
+    if (!apiKey.indices) return true;
+    if (!indexName) return false;
+
+    return apiKey.indices.some(pattern =>
+      pattern.endsWith('*') ? indexName.startsWith(pattern.slice(0, -1)) : pattern === indexName,
+    );
+  }
+
+  async recordAudit(entry: AuditLogEntry): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `INSERT INTO api_key_audit_log (key_id, key_name, action, index_name, outcome)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [entry.keyId, entry.keyName, entry.action, entry.indexName ?? null, entry.outcome],
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record audit entry '${entry.action}': ${error.message}`);
+    }
+  }
+
+  async getAuditLog(options: { keyId?: string; limit?: number } = {}): Promise<AuditLogEntry[]> {
+    const limit = Math.min(Math.max(options.limit || 100, 1), 1000);
+    const rows = await this.dataSource.query(
+      `SELECT * FROM api_key_audit_log
+       WHERE $1::text IS NULL OR key_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [options.keyId ?? null, limit],
+    );
+
+    return rows.map(row => ({
+      keyId: row.key_id,
+      keyName: row.key_name,
+      action: row.action,
+      indexName: row.index_name,
+      outcome: row.outcome,
+      createdAt: row.created_at,
+    }));
+  }
+
+  private validateScopes(scopes: any): ApiKeyScope[] {
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      scopes.some(scope => !API_KEY_SCOPES.includes(scope))
+    ) {
+      throw new BadRequestException(`scopes must be a non-empty list of ${API_KEY_SCOPES}`);
+    }
+    return [...new Set<ApiKeyScope>(scopes)];
+  }
+
+  private validateExpiry(expiresAt: CreateApiKeyInput['expiresAt']): Date | null {
+    if (expiresAt === undefined || expiresAt === null) return null;
+
+    const date = new Date(expiresAt);
+    if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be a date in the future');
+    }
+    return date;
+  }
+
+  private isUsable(apiKey: ApiKey): boolean {
+    return !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt.getTime() > Date.now());
+  }
+
+  private evict(id: string): void {
+    for (const [hash, entry] of this.cache) {
+      if (entry.apiKey.id === id) {
+        this.cache.delete(hash);
+      }
+    }
+  }
+
+  private generateKey(): string {
+    return `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  }
+
+  private prefixOf(key: string): string {
+    return key.slice(0, KEY_PREFIX.length + 6);
+  }
+
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private secretsMatch(presented: string, expected: string): boolean {
+    // Compare fixed-length digests so the comparison does not leak the key length
+    return timingSafeEqual(
+      createHash('sha256').update(presented).digest(),
+      createHash('sha256').update(expected).digest(),
+    );
+  }
+
+  private bootstrapKey(): ApiKey {
+    return {
+      id: BOOTSTRAP_KEY_ID,
+      name: 'ADMIN_API_KEY',
+      prefix: '',
+      scopes: ['admin'],
+      indices: null,
+      createdAt: null,
+      expiresAt: null,
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+  }
+
+  private toApiKey(row: any): ApiKey {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.key_prefix,
+      scopes: row.scopes,
+      indices: row.indices,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+      lastUsedAt: row.last_used_at,
+      revokedAt: row.revoked_at,
+    };
+  }
+}
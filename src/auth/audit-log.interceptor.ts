@@ -0,0 +1,58 @@
+import { CallHandler, ExecutionContext, Injectable, Logger, NestInterceptor } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, tap } from 'rxjs';
+import { ApiKeyService } from './api-key.service';
+import { AUDIT_KEY, getIndexName } from './auth.decorators';
+import { ApiKey } from './interfaces/api-key.interface';
+
+/**
+ * Records which API key performed a destructive operation: every DELETE route
+ * and every route marked with @Audit()
+ */
+@Injectable()
+export class AuditLogInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(AuditLogInterceptor.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeyService: ApiKeyService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    const request = context.switchToHttp().getRequest();
+    if (
+      request.method !== 'DELETE' &&
+      !this.reflector.getAllAndOverride<boolean>(AUDIT_KEY, targets)
+    ) {
+      return next.handle();
+    }
+
+    const apiKey: ApiKey | undefined = request.apiKey;
+    const action = `${request.method} ${request.route?.path ?? request.url}`;
+
+    const record = (outcome: 'success' | 'failure') => {
+      this.logger.log(
+        `${action} (${outcome}) by API key ${apiKey ? `'${apiKey.name}' (${apiKey.id})` : 'none'}`,
+      );
+      void this.apiKeyService.recordAudit({
+        keyId: apiKey?.id ?? null,
+        keyName: apiKey?.name ?? null,
+        action,
+        indexName: getIndexName(this.reflector, context) ?? null,
+        outcome,
+      });
+    };
+
+    return next.handle().pipe(
+      tap({
+        next: () => record('success'),
+        error: () => record('failure'),
+      }),
+    );
+  }
+}
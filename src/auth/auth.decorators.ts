@@ -0,0 +1,59 @@
+import { ExecutionContext, SetMetadata } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyScope } from './interfaces/api-key.interface';
+
+export const IS_PUBLIC_KEY = 'auth:isPublic';
+export const REQUIRED_SCOPE_KEY = 'auth:requiredScope';
+export const INDEX_PARAM_KEY = 'auth:indexParam';
+export const AUDIT_KEY = 'auth:audit';
+export const CHECKS_INDEX_ACCESS_KEY = 'auth:checksIndexAccess';
+
+/**
+ * Allow a route without an API key
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/**
+ * Scope an API key needs for a route. Without it, GET and HEAD routes need
+ * `search` and every other method needs `write`.
+ */
+export const RequireScope = (scope: ApiKeyScope) => SetMetadata(REQUIRED_SCOPE_KEY, scope);
+
+/**
+ * Route parameter holding the index name checked against per-index keys
+ * (defaults to `index`)
+ */
+export const IndexParam = (param: string) => SetMetadata(INDEX_PARAM_KEY, param);
+
+/**
+ * The route checks per-index keys itself, against the index of the resource it
+ * loads (such as a task), so the guard does not look for an index parameter
+ */
+export const ChecksIndexAccess = () => SetMetadata(CHECKS_INDEX_ACCESS_KEY, true);
+
+/**
+ * Record which API key called a route in the audit log. DELETE routes are
+ * always audited.
+ */
+export const Audit = () => SetMetadata(AUDIT_KEY, true);
+
+/**
+ * Scope a request needs: the route's @RequireScope, or the default for its method
+ */
+export function getRequiredScope(reflector: Reflector, context: ExecutionContext): ApiKeyScope {
+  const targets = [context.getHandler(), context.getClass()];
+  const method = context.switchToHttp().getRequest().method;
+  return (
+    reflector.getAllAndOverride<ApiKeyScope>(REQUIRED_SCOPE_KEY, targets) ??
+    (['GET', 'HEAD'].includes(method) ? 'search' : 'write')
+  );
+}
+
+/**
+ * Index a request targets, read from the route's @IndexParam
+ */
+export function getIndexName(reflector: Reflector, context: ExecutionContext): string | undefined {
+  const targets = [context.getHandler(), context.getClass()];
+  const param = reflector.getAllAndOverride<string>(INDEX_PARAM_KEY, targets) ?? 'index';
+  return context.switchToHttp().getRequest().params?.[param];
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
+import { ApiKeyService } from './api-key.service';
+import { ApiKeyGuard } from './api-key.guard';
+import { AuditLogInterceptor } from './audit-log.interceptor';
+import { IndexModule } from '../index/index.module';
+
+@Module({
+  imports: [IndexModule],
+  providers: [
+    ApiKeyService,
+    { provide: APP_GUARD, useClass: ApiKeyGuard },
+    { provide: APP_INTERCEPTOR, useClass: AuditLogInterceptor },
+  ],
+  exports: [ApiKeyService],
+})
+export class AuthModule {}
@@ -0,0 +1,46 @@
+export const API_KEY_SCOPES = ['search', 'write', 'admin'] as const;
+
+/**
+ * search: read-only search and document access; write: index and delete
+ * documents; admin: every operation, including index lifecycle and key management
+ */
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // First characters of the key, shown so keys can be told apart without the secret
+  prefix: string;
+  scopes: ApiKeyScope[];
+  // Index names or `prefix*` patterns the key is limited to; null allows every index
+  indices: string[] | null;
+  createdAt: Date;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  indices?: string[] | null;
+  expiresAt?: string | Date | null;
+}
+
+/**
+ * An API key together with its plaintext secret, which is only ever returned
+ * when the key is created or rotated
+ */
+export interface IssuedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
+
+export interface AuditLogEntry {
+  keyId: string | null;
+  keyName: string | null;
+  action: string;
+  indexName?: string | null;
+  outcome: 'success' | 'failure';
+  createdAt?: Date;
+}
@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { BulkOperationsService, mergeDocument } from './bulk-operations.service';
+import { DocumentService } from './document.service';
+import { IndexService } from '../index/index.service';
+import { IndexAliasService } from '../index/index-alias.service';
+import { IndexingService } from '../indexing/indexing.service';
+import { BulkIndexingService } from '../indexing/services/bulk-indexing.service';
+import { DocumentStorageService } from '../storage/document-storage/document-storage.service';
+import { DocumentEmbeddingService } from '../search/embeddings/document-embedding.service';
+import { SearchAsYouTypeService } from '../search/services/search-as-you-type.service';
+import { SchemaEnforcementService } from '../schema/schema-enforcement.service';
+
+describe('mergeDocument', () => {
+  it('merges objects field by field and replaces arrays', () => {
+    expect(
+      mergeDocument(
+        { title: 'Lamp', meta: { colour: 'red', size: 'S' }, tags: ['a', 'b'] },
+        { meta: { size: 'M' }, tags: ['c'] },
+      ),
+    ).toEqual({ title: 'Lamp', meta: { colour: 'red', size: 'M' }, tags: ['c'] });
+  });
+});
+
+describe('BulkOperationsService', () => {
+  let service: BulkOperationsService;
+  const storage = {
+    storeVersionedDocument: jest.fn(async (_index, document) => ({
+      version: document.version,
+      seqNo: 100,
+      created: false,
+    })),
+    deleteVersionedDocument: jest.fn(async () => ({ version: 1, seqNo: 11 })),
+  };
+  const bulkIndexingService = { queueBulkOperations: jest.fn() };
+  const schemaCheck = jest.fn(async (_index, documents) => ({
+    accepted: documents,
+    violations: [],
+  }));
+  const noop = { indexDocuments: jest.fn(), removeDocuments: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BulkOperationsService,
+        {
+          provide: DataSource,
+          useValue: {
+            query: jest.fn().mockResolvedValue([
+              {
+                document_id: '1',
+                content: { title: 'Lamp', price: 20 },
+                version: '3',
+                seq_no: '10',
+              },
+              { document_id: '2', content: { title: 'Desk' }, version: '1', seq_no: '11' },
+            ]),
+          },
+        },
+        {
+          provide: IndexService,
+          useValue: {
+            getIndex: jest.fn(async name => (name === 'products' ? { name } : null)),
+            rebuildDocumentCount: jest.fn(),
+          },
+        },
+        {
+          provide: IndexAliasService,
+          useValue: { resolveWriteIndex: jest.fn(async name => name) },
+        },
+        { provide: DocumentService, useValue: { ensureFieldMappings: jest.fn() } },
+        { provide: BulkIndexingService, useValue: bulkIndexingService },
+        { provide: DocumentStorageService, useValue: storage },
+        { provide: IndexingService, useValue: { indexDocument: jest.fn() } },
+        { provide: DocumentEmbeddingService, useValue: noop },
+        { provide: SearchAsYouTypeService, useValue: noop },
+        { provide: SchemaEnforcementService, useValue: { check: schemaCheck } },
+      ],
+    }).compile();
+
+    service = module.get<BulkOperationsService>(BulkOperationsService);
+  });
+
+  it('applies actions in order and reports each outcome', async () => {
+    const results = await service.execute([
+      { action: 'update', index: 'products', id: '1', document: { price: 18 } },
+      { action: 'update', index: 'products', id: '1', document: { price: 18 } },
+      { action: 'create', index: 'products', id: '2', document: { title: 'Desk' } },
+      { action: 'delete', index: 'products', id: '2' },
+      { action: 'delete', index: 'products', id: '2' },
+      { action: 'update', index: 'products', id: '3', document: { a: 1 } },
+      { action: 'update', index: 'products', id: '4', document: { a: 1 }, upsert: { a: 1 } },
+    ]);
+
+    expect(results.map(result => [result.status, result.result ?? result.error])).toEqual([
+      [200, 'updated'],
+      [200, 'noop'],
+      [409, 'Document 2 already exists'],
+      [200, 'deleted'],
+      [404, 'not_found'],
+      [404, 'Document 3 not found'],
+      [201, 'created'],
+    ]);
+    expect(storage.storeVersionedDocument).toHaveBeenCalledWith(
+      'products',
+      { documentId: '1', content: { title: 'Lamp', price: 18 }, metadata: {}, version: 4 },
+      { ifSeqNo: 10 },
+    );
+    expect(storage.storeVersionedDocument).toHaveBeenCalledWith(
+      'products',
+      { documentId: '4', content: { a: 1 }, metadata: {}, version: 1 },
+      { ifAbsent: true },
+    );
+    expect(storage.deleteVersionedDocument).toHaveBeenCalledWith('products', '2', {
+      ifSeqNo: 11,
+    });
+  });
+
+  it('checks version preconditions and reports versions', async () => {
+    const results = await service.execute([
+      {
+        action: 'index',
+        index: 'products',
+        id: '1',
+        document: { a: 1 },
+        precondition: { ifVersion: 2 },
+      },
+      {
+        action: 'index',
+        index: 'products',
+        id: '1',
+        document: { a: 1 },
+        precondition: { ifSeqNo: 10 },
+      },
+      {
+        action: 'index',
+        index: 'products',
+        id: '2',
+        document: { b: 1 },
+        precondition: { externalVersion: 1 },
+      },
+      {
+        action: 'index',
+        index: 'products',
+        id: '2',
+        document: { b: 2 },
+        precondition: { externalVersion: 9 },
+      },
+    ]);
+
+    expect(results.map(result => [result.status, result.version, result.seqNo])).toEqual([
+      [409, undefined, undefined],
+      [200, 4, 100],
+      [409, undefined, undefined],
+      [200, 9, 100],
+    ]);
+    expect(results[0].error).toBe(
+      '[1]: version conflict, current version [3] is different than the one provided [2]',
+    );
+  });
+
+  it('fails actions on documents changed by another request meanwhile', async () => {
+    storage.storeVersionedDocument.mockResolvedValueOnce(null);
+
+    const [result] = await service.execute([
+      { action: 'update', index: 'products', id: '1', document: { price: 18 } },
+    ]);
+    expect(result).toMatchObject({
+      status: 409,
+      error: '[1]: version conflict, document was changed by another request',
+    });
+  });
+
+  it('reports actions on unknown indices without queueing them', async () => {
+    const response = await service.submit([
+      { action: 'delete', index: 'missing', id: '1' },
+      { action: 'delete', index: 'products', error: { status: 400, message: 'bad' }, id: '2' },
+    ]);
+
+    expect(response.errors).toBe(true);
+    expect(response.items.map(item => [item.status, item.error])).toEqual([
+      [404, 'Index missing not found'],
+      [400, 'bad'],
+    ]);
+    expect(bulkIndexingService.queueBulkOperations).not.toHaveBeenCalled();
+  });
+
+  it('returns the results of the job with refresh=wait_for', async () => {
+    bulkIndexingService.queueBulkOperations.mockResolvedValue({
+      id: 7,
+      finished: async () => [
+        { action: 'index', index: 'products', id: '1', status: 201, result: 'created' },
+      ],
+    });
+
+    const queued = await service.submit([
+      { action: 'index', index: 'products', id: '1', document: { a: 1 } },
+    ]);
+    expect(queued.items[0]).toMatchObject({ id: '1', status: 202, result: 'queued' });
+
+    const done = await service.submit(
+      [{ action: 'index', index: 'products', id: '1', document: { a: 1 } }],
+      { waitFor: true },
+    );
+    expect(done).toMatchObject({ jobId: '7', errors: false });
+    expect(done.items[0]).toMatchObject({ id: '1', status: 201, result: 'created' });
+  });
+});
@@ -0,0 +1,466 @@
+import { Inject, Injectable, Logger, forwardRef } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { Job } from 'bull';
+import { isEqual, mergeWith, uniq } from 'lodash';
+import { BulkOperationsResponseDto } from '../api/dtos/document.dto';
+import { IndexService } from '../index/index.service';
+import { IndexAliasService } from '../index/index-alias.service';
+import { IndexingService } from '../indexing/indexing.service';
+import { BulkIndexingService } from '../indexing/services/bulk-indexing.service';
+import { DocumentStorageService } from '../storage/document-storage/document-storage.service';
+import { DocumentEmbeddingService } from '../search/embeddings/document-embedding.service';
+import { SearchAsYouTypeService } from '../search/services/search-as-you-type.service';
+import {
+  SchemaEnforcementService,
+  schemaViolationMessage,
+} from '../schema/schema-enforcement.service';
+import { SchemaViolation } from '../schema/interfaces/schema.interface';
+import { DocumentService } from './document.service';
+import { BulkItemResult, BulkOperation, BulkResult } from './interfaces/bulk-operation.interface';
+import { versionConflictMessage } from './utils/document-version';
+
+const DEFAULT_WAIT_TIMEOUT = 60000;
+
+/**
+ * A document as the actions of a job left it; seqNo is only known once stored
+ */
+interface StoredDocument {
+  content: Record<string, any>;
+  version: number;
+  seqNo?: number;
+}
+
+/**
+ * Merges a partial document into a document: objects are merged field by field,
+ * anything else (arrays included) is replaced
+ */
+export function mergeDocument(
+  document: Record<string, any>,
+  partial: Record<string, any>,
+): Record<string, any> {
+  return mergeWith({}, document, partial, (_current, value) =>
+    Array.isArray(value) ? value : undefined,
+  );
+}
+
+/**
+ * Runs the actions of bulk requests. Actions are checked and queued as one job,
+ * which applies them in order; callers can wait for the job to get the real
+ * outcome of each action.
+ */
+@Injectable()
+export class BulkOperationsService {
+  private readonly logger = new Logger(BulkOperationsService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @Inject(forwardRef(() => IndexService))
+    private readonly indexService: IndexService,
+    private readonly indexAliasService: IndexAliasService,
+    @Inject(forwardRef(() => DocumentService))
+    private readonly documentService: DocumentService,
+    @Inject(forwardRef(() => BulkIndexingService))
+    private readonly bulkIndexingService: BulkIndexingService,
+    private readonly documentStorageService: DocumentStorageService,
+    private readonly indexingService: IndexingService,
+    private readonly documentEmbeddingService: DocumentEmbeddingService,
+    private readonly searchAsYouTypeService: SearchAsYouTypeService,
+    private readonly schemaEnforcement: SchemaEnforcementService,
+  ) {}
+
+  /**
+   * Checks and queues the actions. With waitFor, resolves once the job has run them
+   * (or the timeout passed) with the result of each action.
+   */
+  async submit(
+    operations: BulkOperation[],
+    options: { waitFor?: boolean; timeout?: number } = {},
+  ): Promise<BulkOperationsResponseDto> {
+    const startTime = Date.now();
+    const items: BulkItemResult[] = new Array(operations.length);
+    const runnable: Array<{ position: number; operation: BulkOperation }> = [];
+
+    const targets = await this.resolveTargets(operations);
+    operations.forEach((operation, position) => {
+      const target = targets.get(operation.index);
+      if (operation.error) {
+        items[position] = this.failure(operation, operation.error.status, operation.error.message);
+      } else if (target instanceof Error) {
+        items[position] = this.failure(operation, (target as any).status || 400, target.message);
+      } else {
+        runnable.push({ position, operation: { ...operation, index: target } });
+      }
+    });
+
+    // Documents to index or create are checked against the index's schema before queueing,
+    // as on every other write path; updates are checked when the job merges them
+    const warnings = new Map<number, SchemaViolation>();
+    const writes = runnable.filter(
+      ({ operation }) => operation.action !== 'update' && operation.action !== 'delete',
+    );
+    for (const indexName of uniq(writes.map(({ operation }) => operation.index))) {
+      const group = writes.filter(({ operation }) => operation.index === indexName);
+      const { accepted, violations } = await this.schemaEnforcement.check(
+        indexName,
+        group.map(({ position, operation }) => ({
+          id: operation.id,
+          document: operation.document,
+          position,
+        })),
+      );
+      const acceptedPositions = new Set(accepted.map(doc => doc.position));
+      const violationsById = new Map(
+        violations.map(violation => [violation.documentId, violation]),
+      );
+
+      for (const { position, operation } of group) {
+        const violation = violationsById.get(operation.id);
+        if (!acceptedPositions.has(position)) {
+          items[position] = this.violationFailure(operation, violation);
+        } else if (violation) {
+          warnings.set(position, violation);
+        }
+      }
+      const samples = group
+        .filter(({ position }) => acceptedPositions.has(position))
+        .map(({ operation }) => operation.document);
+      if (samples.length > 0) {
+        await this.documentService.ensureFieldMappings(indexName, samples);
+      }
+    }
+
+    const queued = runnable.filter(({ position }) => !items[position]);
+    if (queued.length === 0) {
+      return this.response(items, startTime);
+    }
+
+    const job = await this.bulkIndexingService.queueBulkOperations(
+      queued.map(({ operation }) => operation),
+    );
+    this.logger.log(`Queued ${queued.length} bulk actions as job ${job.id}`);
+
+    const outcome = options.waitFor
+      ? await this.waitForJob(job, options.timeout ?? DEFAULT_WAIT_TIMEOUT)
+      : { timedOut: false };
+    const { results, error, timedOut } = outcome as {
+      results?: BulkItemResult[];
+      error?: string;
+      timedOut: boolean;
+    };
+
+    queued.forEach(({ position, operation }, i) => {
+      const warning = warnings.get(position);
+      items[position] = {
+        ...(results
+          ? results[i]
+          : error
+          ? this.failure(operation, 500, error)
+          : this.result(operation, 202, 'queued')),
+        ...(warning && { warnings: warning.errors }),
+      };
+    });
+    return {
+      ...this.response(items, startTime),
+      jobId: String(job.id),
+      ...(timedOut && { timedOut }),
+    };
+  }
+
+  /**
+   * Applies queued actions in order and returns the result of each. Runs inside the
+   * bulk queue job.
+   */
+  async execute(operations: BulkOperation[]): Promise<BulkItemResult[]> {
+    // Current state by index and id, null once deleted, so later actions see earlier ones
+    const loaded = await this.loadDocuments(operations);
+    const documents = new Map<string, StoredDocument | null>(loaded);
+    const changed = new Set<string>();
+    const results: BulkItemResult[] = [];
+
+    for (const operation of operations) {
+      const key = this.key(operation.index, operation.id);
+      const current = documents.get(key) ?? null;
+      const conflict =
+        operation.precondition &&
+        versionConflictMessage(operation.id, operation.precondition, current);
+      const externalVersion = operation.precondition?.externalVersion;
+      let result: BulkItemResult;
+
+      if (conflict) {
+        result = this.failure(operation, 409, conflict);
+      } else {
+        switch (operation.action) {
+          case 'index': {
+            const version = externalVersion ?? (current ? current.version + 1 : 1);
+            documents.set(key, { content: operation.document, version });
+            result = current
+              ? { ...this.result(operation, 200, 'updated'), version }
+              : { ...this.result(operation, 201, 'created'), version };
+            break;
+          }
+          case 'create':
+            if (current) {
+              result = this.failure(operation, 409, `Document ${operation.id} already exists`);
+            } else {
+              const version = externalVersion ?? 1;
+              documents.set(key, { content: operation.document, version });
+              result = { ...this.result(operation, 201, 'created'), version };
+            }
+            break;
+          case 'update':
+            result = await this.update(operation, current, documents);
+            break;
+          case 'delete':
+            if (current) {
+              documents.set(key, null);
+              result = {
+                ...this.result(operation, 200, 'deleted'),
+                version: externalVersion ?? current.version + 1,
+              };
+            } else {
+              result = this.result(operation, 404, 'not_found');
+            }
+            break;
+        }
+      }
+
+      if (result.status < 300 && result.result !== 'noop') {
+        changed.add(key);
+      }
+      results.push(result);
+    }
+
+    const failed = await this.persist(operations, loaded, documents, changed);
+    return results.map((result, i) => {
+      const key = this.key(operations[i].index, operations[i].id);
+      const error = failed.get(key);
+      if (error && result.status < 300) {
+        return this.failure(operations[i], error.status, error.message);
+      }
+
+      // Only the last write to a document got a sequence number
+      const stored = documents.get(key);
+      return stored && result.version === stored.version && stored.seqNo !== undefined
+        ? { ...result, seqNo: stored.seqNo }
+        : result;
+    });
+  }
+
+  private async update(
+    operation: BulkOperation,
+    current: StoredDocument | null,
+    documents: Map<string, StoredDocument | null>,
+  ): Promise<BulkItemResult> {
+    let document: Record<string, any>;
+    let result: BulkResult;
+    if (current) {
+      document = mergeDocument(current.content, operation.document);
+      if (isEqual(document, current.content)) {
+        return { ...this.result(operation, 200, 'noop'), version: current.version };
+      }
+      result = 'updated';
+    } else if (operation.upsert) {
+      document = operation.upsert;
+      result = 'created';
+    } else {
+      return this.failure(operation, 404, `Document ${operation.id} not found`);
+    }
+
+    const { accepted, violations } = await this.schemaEnforcement.check(operation.index, [
+      { id: operation.id, document },
+    ]);
+    if (accepted.length === 0) {
+      return this.violationFailure(operation, violations[0]);
+    }
+
+    const version = operation.precondition?.externalVersion ?? (current ? current.version + 1 : 1);
+    documents.set(this.key(operation.index, operation.id), { content: document, version });
+    return {
+      ...this.result(operation, result === 'created' ? 201 : 200, result),
+      version,
+      ...(violations.length > 0 && { warnings: violations[0].errors }),
+    };
+  }
+
+  /**
+   * Writes the final state of every changed document and reindexes it. Each write is
+   * conditional on the document still being as it was loaded, so a concurrent change
+   * fails the actions on that document with a 409 instead of being overwritten.
+   * Returns the documents that could not be stored, with the error.
+   */
+  private async persist(
+    operations: BulkOperation[],
+    loaded: Map<string, StoredDocument>,
+    documents: Map<string, StoredDocument | null>,
+    changed: Set<string>,
+  ): Promise<Map<string, { status: number; message: string }>> {
+    const failed = new Map<string, { status: number; message: string }>();
+    for (const indexName of uniq(operations.map(operation => operation.index))) {
+      const ids = uniq(
+        operations
+          .filter(operation => operation.index === indexName)
+          .map(operation => operation.id),
+      ).filter(id => changed.has(this.key(indexName, id)));
+      if (ids.length === 0) continue;
+
+      const indexed: Array<{ id: string; source: Record<string, any> }> = [];
+      const deleted: string[] = [];
+      for (const id of ids) {
+        const key = this.key(indexName, id);
+        const state = documents.get(key);
+        const before = loaded.get(key);
+        const precondition = before ? { ifSeqNo: before.seqNo } : { ifAbsent: true };
+        const conflict = {
+          status: 409,
+          message: `[${id}]: version conflict, document was changed by another request`,
+        };
+
+        try {
+          if (state) {
+            const stored = await this.documentStorageService.storeVersionedDocument(
+              indexName,
+              {
+                documentId: id,
+                content: state.content,
+                metadata: state.content.metadata || {},
+                version: state.version,
+              },
+              precondition,
+            );
+            if (stored) {
+              state.seqNo = stored.seqNo;
+              indexed.push({ id, source: state.content });
+            } else {
+              failed.set(key, conflict);
+            }
+          } else if (before) {
+            const removed = await this.documentStorageService.deleteVersionedDocument(
+              indexName,
+              id,
+              precondition,
+            );
+            if (removed) {
+              deleted.push(id);
+            } else {
+              failed.set(key, conflict);
+            }
+          }
+        } catch (error) {
+          failed.set(key, { status: 500, message: error.message });
+        }
+      }
+
+      for (const doc of indexed) {
+        await this.indexingService.indexDocument(indexName, doc.id, doc.source, true);
+      }
+      if (indexed.length > 0) {
+        await this.documentEmbeddingService.indexDocuments(indexName, indexed);
+        await this.searchAsYouTypeService.indexDocuments(indexName, indexed);
+      }
+      if (deleted.length > 0) {
+        await this.documentEmbeddingService.removeDocuments(indexName, deleted);
+        await this.searchAsYouTypeService.removeDocuments(indexName, deleted);
+      }
+      await this.indexService.rebuildDocumentCount(indexName);
+    }
+    return failed;
+  }
+
+  private async loadDocuments(operations: BulkOperation[]): Promise<Map<string, StoredDocument>> {
+    const documents = new Map<string, StoredDocument>();
+    for (const indexName of uniq(operations.map(operation => operation.index))) {
+      const ids = operations
+        .filter(operation => operation.index === indexName)
+        .map(operation => operation.id);
+      const rows = await this.dataSource.query(
+        `SELECT document_id, content, version, seq_no FROM documents
+         WHERE index_name = $1 AND document_id = ANY($2)`,
+        [indexName, uniq(ids)],
+      );
+      rows.forEach(row =>
+        documents.set(this.key(indexName, row.document_id), {
+          content: row.content,
+          version: Number(row.version),
+          seqNo: Number(row.seq_no),
+        }),
+      );
+    }
+    return documents;
+  }
+
+  /**
+   * Maps every index or alias named by the actions to the index to write to, or to
+   * the error that rules it out
+   */
+  private async resolveTargets(operations: BulkOperation[]): Promise<Map<string, string | Error>> {
+    const targets = new Map<string, string | Error>();
+    const names = uniq(
+      operations.filter(operation => !operation.error).map(operation => operation.index),
+    );
+
+    for (const name of names) {
+      try {
+        const indexName = await this.indexAliasService.resolveWriteIndex(name);
+        const index = await this.indexService.getIndex(indexName);
+        targets.set(
+          name,
+          index
+            ? indexName
+            : Object.assign(new Error(`Index ${indexName} not found`), { status: 404 }),
+        );
+      } catch (error) {
+        targets.set(name, error);
+      }
+    }
+    return targets;
+  }
+
+  private async waitForJob(
+    job: Job,
+    timeout: number,
+  ): Promise<{ results?: BulkItemResult[]; error?: string; timedOut: boolean }> {
+    let timer: NodeJS.Timeout;
+    const expired = new Promise<'timeout'>(resolve => {
+      timer = setTimeout(() => resolve('timeout'), timeout);
+    });
+
+    try {
+      const outcome = await Promise.race([job.finished(), expired]);
+      return outcome === 'timeout' ? { timedOut: true } : { results: outcome, timedOut: false };
+    } catch (error) {
+      // The job failed as a whole, so none of its actions can be trusted to have run
+      this.logger.error(`Bulk job ${job.id} failed: ${error.message}`);
+      return { error: error.message, timedOut: false };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private response(items: BulkItemResult[], startTime: number): BulkOperationsResponseDto {
+    return {
+      took: Date.now() - startTime,
+      errors: items.some(item => item.status >= 400),
+      items,
+    };
+  }
+
+  private result(operation: BulkOperation, status: number, result: BulkResult): BulkItemResult {
+    return { action: operation.action, index: operation.index, id: operation.id, status, result };
+  }
+
+  private failure(operation: BulkOperation, status: number, error: string): BulkItemResult {
+    return { action: operation.action, index: operation.index, id: operation.id, status, error };
+  }
+
+  private violationFailure(operation: BulkOperation, violation: SchemaViolation): BulkItemResult {
+    return {
+      ...this.failure(operation, 400, schemaViolationMessage(violation)),
+      errors: violation.errors,
+      deadLettered: violation.mode === 'dead_letter',
+    };
+  }
+
+  private key(indexName: string, id: string): string {
+    return `${indexName}\u0000${id}`;
+  }
+}
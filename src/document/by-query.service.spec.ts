@@ -0,0 +1,169 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { ByQueryService, applyUpdateOperations } from './by-query.service';
+import { IndexService } from '../index/index.service';
+import { IndexingService } from '../indexing/indexing.service';
+import { PostgreSQLService } from '../storage/postgresql/postgresql.service';
+import { DocumentEmbeddingService } from '../search/embeddings/document-embedding.service';
+import { SearchAsYouTypeService } from '../search/services/search-as-you-type.service';
+import { SchemaEnforcementService } from '../schema/schema-enforcement.service';
+
+describe('applyUpdateOperations', () => {
+  it('sets, unsets, increments and appends by dot path', () => {
+    const source = { title: 'Lamp', stock: 2, meta: { legacy: 1 }, tags: ['home'] };
+    const updated = applyUpdateOperations(
+      {
+        set: { 'meta.reviewed': true },
+        unset: ['meta.legacy'],
+        increment: { stock: 3, sold: 1 },
+        append: { tags: ['sale', 'new'], colours: 'red' },
+      },
+      source,
+    );
+
+    expect(updated).toEqual({
+      title: 'Lamp',
+      stock: 5,
+      sold: 1,
+      meta: { reviewed: true },
+      tags: ['home', 'sale', 'new'],
+      colours: ['red'],
+    });
+    expect(source).toEqual({ title: 'Lamp', stock: 2, meta: { legacy: 1 }, tags: ['home'] });
+  });
+
+  it('rejects increments of non-numbers and appends to non-arrays', () => {
+    expect(() => applyUpdateOperations({ increment: { title: 1 } }, { title: 'Lamp' })).toThrow(
+      'title is not a number',
+    );
+    expect(() => applyUpdateOperations({ append: { title: 'x' } }, { title: 'Lamp' })).toThrow(
+      'title is not an array',
+    );
+  });
+});
+
+describe('ByQueryService', () => {
+  let service: ByQueryService;
+  let documents: Array<{ document_id: string; content: Record<string, any> }>;
+  let checkedSchemas: jest.Mock;
+  const indexingService = { indexDocument: jest.fn() };
+  const embeddings = { indexDocuments: jest.fn(), removeDocuments: jest.fn() };
+  const grams = { indexDocuments: jest.fn(), removeDocuments: jest.fn() };
+  const indexService = {
+    getIndex: jest.fn(async name => (name === 'products' ? { name } : null)),
+    rebuildDocumentCount: jest.fn(),
+  };
+
+  // An in-memory documents table; every document matches the (empty) query
+  const query = jest.fn(async (sql: string, params: any[] = []) => {
+    const limit = params[params.length - 1];
+    if (sql.startsWith('SELECT COUNT(*)')) {
+      return [{ total: String(documents.length) }];
+    }
+    if (sql.startsWith('WITH batch AS')) {
+      const deleted = documents.slice(0, limit);
+      documents = documents.slice(limit);
+      return [deleted.map(({ document_id }) => ({ document_id })), deleted.length];
+    }
+    if (sql.includes('FOR UPDATE')) {
+      return documents.filter(doc => doc.document_id > params[1]).slice(0, limit);
+    }
+    if (sql.startsWith('UPDATE documents')) {
+      for (const { id, document } of JSON.parse(params[1])) {
+        documents.find(doc => doc.document_id === id).content = document;
+      }
+      return [[], 0];
+    }
+    return [];
+  });
+
+  beforeEach(async () => {
+    documents = [
+      { document_id: 'a', content: { stock: 1 } },
+      { document_id: 'b', content: { stock: 'none' } },
+      { document_id: 'c', content: { stock: 3 } },
+    ];
+    checkedSchemas = jest.fn(async (_index, docs) => ({ accepted: docs, violations: [] }));
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ByQueryService,
+        {
+          provide: DataSource,
+          useValue: { query, transaction: jest.fn(work => work({ query })) },
+        },
+        {
+          provide: PostgreSQLService,
+          useValue: { buildFilterClause: jest.fn().mockResolvedValue('') },
+        },
+        { provide: IndexService, useValue: indexService },
+        { provide: IndexingService, useValue: indexingService },
+        { provide: DocumentEmbeddingService, useValue: embeddings },
+        { provide: SearchAsYouTypeService, useValue: grams },
+        { provide: SchemaEnforcementService, useValue: { check: checkedSchemas } },
+      ],
+    }).compile();
+
+    service = module.get<ByQueryService>(ByQueryService);
+  });
+
+  it('deletes every match in batches and reports progress', async () => {
+    const progress = [];
+    const report = await service.deleteByQuery(
+      'products',
+      { query: {}, requests_per_second: 1000 },
+      {
+        onProgress: async current => {
+          progress.push(current.deleted);
+        },
+      },
+    );
+
+    expect(report).toMatchObject({ total: 3, deleted: 3, failed: 0, cancelled: false });
+    expect(documents).toHaveLength(0);
+    expect(embeddings.removeDocuments).toHaveBeenCalledWith('products', ['a', 'b', 'c']);
+    expect(indexService.rebuildDocumentCount).toHaveBeenCalledWith('products');
+    expect(progress).toEqual([3]);
+  });
+
+  it('stops before the next batch once cancelled', async () => {
+    const report = await service.deleteByQuery(
+      'products',
+      { query: {} },
+      { isCancelled: async () => true },
+    );
+
+    expect(report).toMatchObject({ deleted: 0, batches: 0, cancelled: true });
+    expect(documents).toHaveLength(3);
+  });
+
+  it('updates matches, reporting failures and reindexing what changed', async () => {
+    const report = await service.updateByQuery('products', {
+      query: {},
+      increment: { stock: 1 },
+    });
+
+    expect(report).toMatchObject({ total: 3, updated: 2, noops: 0, failed: 1 });
+    expect(report.failures).toEqual([{ id: 'b', error: 'stock is not a number' }]);
+    expect(documents.map(doc => doc.content.stock)).toEqual([2, 'none', 4]);
+    expect(indexingService.indexDocument).toHaveBeenCalledTimes(2);
+  });
+
+  it('counts documents that end up unchanged as noops', async () => {
+    const report = await service.updateByQuery('products', {
+      query: {},
+      unset: ['missing'],
+    });
+
+    expect(report).toMatchObject({ updated: 0, noops: 3 });
+    expect(indexingService.indexDocument).not.toHaveBeenCalled();
+  });
+
+  it('rejects updates without changes', async () => {
+    await expect(service.updateByQuery('products', { query: {} })).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
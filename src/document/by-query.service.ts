@@ -0,0 +1,385 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { cloneDeep, get, isEqual, set, unset } from 'lodash';
+import {
+  ByQueryFailureDto,
+  ByQueryReportDto,
+  DeleteByQueryDto,
+  DeleteByQueryResponseDto,
+  UpdateByQueryDto,
+  UpdateByQueryResponseDto,
+} from '../api/dtos/document.dto';
+import { IndexService } from '../index/index.service';
+import { IndexingService } from '../indexing/indexing.service';
+import { PostgreSQLService } from '../storage/postgresql/postgresql.service';
+import { DocumentEmbeddingService } from '../search/embeddings/document-embedding.service';
+import { SearchAsYouTypeService } from '../search/services/search-as-you-type.service';
+import {
+  SchemaEnforcementService,
+  schemaViolationMessage,
+} from '../schema/schema-enforcement.service';
+import { ByQueryHooks, UpdateOperations } from './interfaces/by-query.interface';
+
+const BATCH_SIZE = 1000;
+const MAX_REPORTED_FAILURES = 100;
+
+/**
+ * Applies update operations to a copy of a document. Throws when a field to
+ * increment is not a number or a field to append to is not an array.
+ */
+export function applyUpdateOperations(
+  operations: UpdateOperations,
+  source: Record<string, any>,
+): Record<string, any> {
+  const document = cloneDeep(source);
+
+  for (const [field, value] of Object.entries(operations.set || {})) {
+    set(document, field, cloneDeep(value));
+  }
+  for (const field of operations.unset || []) {
+    unset(document, field);
+  }
+  for (const [field, amount] of Object.entries(operations.increment || {})) {
+    const current = get(document, field) ?? 0;
+    if (typeof current !== 'number') {
+      throw new Error(`${field} is not a number`);
+    }
+    set(document, field, current + amount);
+  }
+  for (const [field, value] of Object.entries(operations.append || {})) {
+    const current = get(document, field) ?? [];
+    if (!Array.isArray(current)) {
+      throw new Error(`${field} is not an array`);
+    }
+    set(document, field, current.concat(cloneDeep(value)));
+  }
+  return document;
+}
+
+/**
+ * Keeps batches to about a second's worth of documents when throttled, so a
+ * cancellation is noticed soon
+ */
+export function batchSizeFor(requestsPerSecond?: number): number {
+  return requestsPerSecond ? Math.min(BATCH_SIZE, Math.ceil(requestsPerSecond)) : BATCH_SIZE;
+}
+
+/**
+ * Waits out the rest of the time a batch of this size is allowed at the given rate
+ */
+export async function throttleBatch(
+  report: ByQueryReportDto,
+  count: number,
+  requestsPerSecond: number | undefined,
+  batchStart: number,
+): Promise<void> {
+  if (!requestsPerSecond) return;
+
+  const wait = (count / requestsPerSecond) * 1000 - (Date.now() - batchStart);
+  if (wait > 0) {
+    await new Promise(resolve => setTimeout(resolve, wait));
+    report.throttledMillis += Math.round(wait);
+  }
+}
+
+export function addFailure(report: ByQueryReportDto, failure: ByQueryFailureDto, count = 1): void {
+  report.failed += count;
+  if (report.failures.length < MAX_REPORTED_FAILURES) {
+    report.failures.push(failure);
+  }
+}
+
+export function emptyReport(): ByQueryReportDto {
+  return {
+    took: 0,
+    total: 0,
+    batches: 0,
+    failed: 0,
+    cancelled: false,
+    throttledMillis: 0,
+    failures: [],
+  };
+}
+
+/**
+ * Deletes or updates every document matching a filter, in batches of set-based
+ * SQL. Runs inline for small jobs or as a background task with progress,
+ * throttling and cancellation.
+ */
+@Injectable()
+export class ByQueryService {
+  private readonly logger = new Logger(ByQueryService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly postgresService: PostgreSQLService,
+    @Inject(forwardRef(() => IndexService))
+    private readonly indexService: IndexService,
+    private readonly indexingService: IndexingService,
+    private readonly documentEmbeddingService: DocumentEmbeddingService,
+    private readonly searchAsYouTypeService: SearchAsYouTypeService,
+    private readonly schemaEnforcement: SchemaEnforcementService,
+  ) {}
+
+  async deleteByQuery(
+    indexName: string,
+    dto: DeleteByQueryDto,
+    hooks: ByQueryHooks = {},
+  ): Promise<DeleteByQueryResponseDto> {
+    await this.assertRunnable(indexName);
+    const startTime = Date.now();
+    const report: DeleteByQueryResponseDto = {
+      ...emptyReport(),
+      total: await this.countMatches(indexName, dto.query),
+      deleted: 0,
+    };
+    const batchSize = batchSizeFor(dto.requests_per_second);
+
+    // Documents indexed after the count are left alone, so a busy index cannot keep it going
+    while (report.deleted + report.failed < report.total) {
+      if (await hooks.isCancelled?.()) {
+        report.cancelled = true;
+        break;
+      }
+
+      const batchStart = Date.now();
+      const limit = Math.min(batchSize, report.total - report.deleted - report.failed);
+      let ids: string[];
+      try {
+        ids = await this.deleteBatch(indexName, dto.query, limit);
+      } catch (error) {
+        this.logger.error(`Delete by query on ${indexName} failed: ${error.message}`);
+        addFailure(report, { error: error.message }, limit);
+        break;
+      }
+      if (ids.length === 0) break;
+
+      await this.documentEmbeddingService.removeDocuments(indexName, ids);
+      await this.searchAsYouTypeService.removeDocuments(indexName, ids);
+      report.deleted += ids.length;
+      report.batches++;
+
+      await hooks.onProgress?.(report);
+      await throttleBatch(report, ids.length, dto.requests_per_second, batchStart);
+    }
+
+    if (report.deleted > 0) {
+      await this.indexService.rebuildDocumentCount(indexName);
+    }
+    report.took = Date.now() - startTime;
+    this.logger.log(`Deleted ${report.deleted} of ${report.total} documents from ${indexName}`);
+    return report;
+  }
+
+  async updateByQuery(
+    indexName: string,
+    dto: UpdateByQueryDto,
+    hooks: ByQueryHooks = {},
+  ): Promise<UpdateByQueryResponseDto> {
+    await this.assertRunnable(indexName, dto);
+    const startTime = Date.now();
+    const report: UpdateByQueryResponseDto = {
+      ...emptyReport(),
+      total: await this.countMatches(indexName, dto.query),
+      updated: 0,
+      noops: 0,
+    };
+    const batchSize = batchSizeFor(dto.requests_per_second);
+
+    // Pages by document id, so updated documents that still match are not visited twice
+    let lastId = '';
+    let processed = 0;
+    while (processed < report.total) {
+      if (await hooks.isCancelled?.()) {
+        report.cancelled = true;
+        break;
+      }
+
+      const batchStart = Date.now();
+      const limit = Math.min(batchSize, report.total - processed);
+      let batch: Awaited<ReturnType<ByQueryService['updateBatch']>>;
+      try {
+        batch = await this.updateBatch(indexName, dto, lastId, limit);
+      } catch (error) {
+        this.logger.error(`Update by query on ${indexName} failed: ${error.message}`);
+        addFailure(report, { error: error.message }, limit);
+        break;
+      }
+      if (batch.matched === 0) break;
+
+      await this.reindex(indexName, batch.updated);
+      batch.failures.forEach(failure => addFailure(report, failure));
+      report.updated += batch.updated.length;
+      report.noops += batch.noops;
+      report.batches++;
+      processed += batch.matched;
+      lastId = batch.lastId;
+
+      await hooks.onProgress?.(report);
+      await throttleBatch(report, batch.matched, dto.requests_per_second, batchStart);
+    }
+
+    report.took = Date.now() - startTime;
+    this.logger.log(`Updated ${report.updated} of ${report.total} documents in ${indexName}`);
+    return report;
+  }
+
+  /**
+   * Throws if the index does not exist or the update has nothing to do, so a
+   * background task can be refused before it is queued
+   */
+  async assertRunnable(indexName: string, operations?: UpdateOperations): Promise<void> {
+    if (operations) {
+      const { set: fields, unset: removed, increment, append } = operations;
+      if (!fields && !removed?.length && !increment && !append) {
+        throw new BadRequestException('Update by query needs set, unset, increment or append');
+      }
+      for (const [field, amount] of Object.entries(increment || {})) {
+        if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+          throw new BadRequestException(`increment.${field} must be a number`);
+        }
+      }
+    }
+
+    const index = await this.indexService.getIndex(indexName);
+    if (!index) {
+      throw new NotFoundException(`Index ${indexName} not found`);
+    }
+  }
+
+  private async deleteBatch(
+    indexName: string,
+    query: Record<string, any>,
+    limit: number,
+  ): Promise<string[]> {
+    const params: any[] = [indexName];
+    const filter = await this.postgresService.buildFilterClause(indexName, query, params);
+    params.push(limit);
+
+    const [rows] = await this.dataSource.query(
+      `WITH batch AS (
+         SELECT document_id FROM documents
+         WHERE index_name = $1${filter ? ` AND ${filter}` : ''}
+         ORDER BY document_id
+         LIMIT $${params.length}
+       )
+       DELETE FROM documents d USING batch
+       WHERE d.index_name = $1 AND d.document_id = batch.document_id
+       RETURNING d.document_id`,
+      params,
+    );
+    return rows.map(row => row.document_id);
+  }
+
+  /**
+   * Locks the next batch of matching documents, applies the operations and writes the
+   * changed ones back in one statement
+   */
+  private async updateBatch(
+    indexName: string,
+    operations: UpdateOperations & { query: Record<string, any> },
+    afterId: string,
+    limit: number,
+  ): Promise<{
+    matched: number;
+    lastId: string;
+    noops: number;
+    updated: Array<{ id: string; document: Record<string, any> }>;
+    failures: ByQueryFailureDto[];
+  }> {
+    return this.dataSource.transaction(async manager => {
+      const params: any[] = [indexName, afterId];
+      const filter = await this.postgresService.buildFilterClause(
+        indexName,
+        operations.query,
+        params,
+      );
+      params.push(limit);
+      const rows = await manager.query(
+        `SELECT document_id, content FROM documents
+         WHERE index_name = $1 AND document_id > $2${filter ? ` AND ${filter}` : ''}
+         ORDER BY document_id
+         LIMIT $${params.length}
+         FOR UPDATE`,
+        params,
+      );
+
+      const changed: Array<{ id: string; document: Record<string, any> }> = [];
+      const failures: ByQueryFailureDto[] = [];
+      let noops = 0;
+      for (const row of rows) {
+        try {
+          const document = applyUpdateOperations(operations, row.content);
+          if (isEqual(document, row.content)) {
+            noops++;
+          } else {
+            changed.push({ id: row.document_id, document });
+          }
+        } catch (error) {
+          failures.push({ id: row.document_id, error: error.message });
+        }
+      }
+
+      // Updated documents must still match a schema bound to the index
+      const { accepted, violations } = await this.schemaEnforcement.check(indexName, changed);
+      for (const violation of violations.filter(v => v.mode !== 'warn')) {
+        failures.push({
+          id: violation.documentId,
+          error: schemaViolationMessage(violation),
+          errors: violation.errors,
+        });
+      }
+
+      if (accepted.length > 0) {
+        await manager.query(
+          `UPDATE documents d
+           SET content = u.content, updated_at = NOW()
+           FROM jsonb_to_recordset($2::jsonb) AS u(id TEXT, content JSONB)
+           WHERE d.index_name = $1 AND d.document_id = u.id`,
+          [indexName, JSON.stringify(accepted)],
+        );
+      }
+
+      return {
+        matched: rows.length,
+        lastId: rows.length > 0 ? rows[rows.length - 1].document_id : afterId,
+        noops,
+        updated: accepted,
+        failures,
+      };
+    });
+  }
+
+  private async reindex(
+    indexName: string,
+    documents: Array<{ id: string; document: Record<string, any> }>,
+  ): Promise<void> {
+    if (documents.length === 0) return;
+
+    for (const { id, document } of documents) {
+      await this.indexingService.indexDocument(indexName, id, document, true);
+    }
+    const sources = documents.map(({ id, document }) => ({ id, source: document }));
+    await this.documentEmbeddingService.indexDocuments(indexName, sources);
+    await this.searchAsYouTypeService.indexDocuments(indexName, sources);
+  }
+
+  private async countMatches(indexName: string, query: Record<string, any>): Promise<number> {
+    const params: any[] = [indexName];
+    const filter = await this.postgresService.buildFilterClause(indexName, query, params);
+    const [row] = await this.dataSource.query(
+      `SELECT COUNT(*) AS total FROM documents WHERE index_name = $1${
+        filter ? ` AND ${filter}` : ''
+      }`,
+      params,
+    );
+    return parseInt(row?.total || '0', 10);
+  }
+}
@@ -49,7 +49,10 @@ export class DocumentProcessorService implements DocumentProcessor, OnModuleInit
       const analyzerName = fieldConfig.analyzer || this.mapping.defaultAnalyzer || 'standard';
 
       // Get the analyzer
-      const analyzer = this.analyzerRegistryService.getAnalyzer(analyzerName);
+      const analyzer = this.analyzerRegistryService.getAnalyzer(
+        analyzerName,
+        this.mapping.indexName,
+      );
       if (!analyzer) {
         throw new Error(`Analyzer "${analyzerName}" not found for field "${fieldName}"`);
       }
@@ -142,7 +145,10 @@ export class DocumentProcessorService implements DocumentProcessor, OnModuleInit
     // Validate analyzers in the mapping
     for (const [fieldName, fieldConfig] of Object.entries(this.mapping.fields)) {
       if (fieldConfig.analyzer) {
-        const analyzer = this.analyzerRegistryService.getAnalyzer(fieldConfig.analyzer);
+        const analyzer = this.analyzerRegistryService.getAnalyzer(
+          fieldConfig.analyzer,
+          this.mapping.indexName,
+        );
         if (!analyzer) {
           throw new Error(`Analyzer "${fieldConfig.analyzer}" not found for field "${fieldName}"`);
         }
@@ -153,6 +159,7 @@ export class DocumentProcessorService implements DocumentProcessor, OnModuleInit
     if (this.mapping.defaultAnalyzer) {
       const defaultAnalyzer = this.analyzerRegistryService.getAnalyzer(
         this.mapping.defaultAnalyzer,
+        this.mapping.indexName,
       );
       if (!defaultAnalyzer) {
         throw new Error(`Default analyzer "${this.mapping.defaultAnalyzer}" not found`);
@@ -10,6 +10,10 @@ import { AnalysisModule } from '../analysis/analysis.module';
 import { TermDictionary } from '../index/term-dictionary';
 import { DocumentProcessingService } from './document-processing.service';
 import { PostgreSQLModule } from 'src/storage/postgresql/postgresql.module';
+import { SchemaModule } from '../schema/schema.module';
+import { ByQueryService } from './by-query.service';
+import { BulkOperationsService } from './bulk-operations.service';
+import { ReindexService } from './reindex.service';
 
 @Module({
   imports: [
@@ -20,8 +24,23 @@ import { PostgreSQLModule } from 'src/storage/postgresql/postgresql.module';
     forwardRef(() => SearchModule),
     forwardRef(() => AnalysisModule),
     forwardRef(() => PostgreSQLModule),
+    SchemaModule,
+  ],
+  providers: [
+    DocumentService,
+    DocumentProcessorService,
+    DocumentProcessingService,
+    ByQueryService,
+    BulkOperationsService,
+    ReindexService,
+  ],
+  exports: [
+    DocumentService,
+    DocumentProcessorService,
+    DocumentProcessingService,
+    ByQueryService,
+    BulkOperationsService,
+    ReindexService,
   ],
-  providers: [DocumentService, DocumentProcessorService, DocumentProcessingService],
-  exports: [DocumentService, DocumentProcessorService, DocumentProcessingService],
 })
 export class DocumentModule {}
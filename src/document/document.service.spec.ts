@@ -5,113 +5,92 @@ import { DocumentStorageService } from '../storage/document-storage/document-sto
 import { IndexService } from '../index/index.service';
 import { IndexingService } from '../indexing/indexing.service';
 import { SearchService } from '../search/search.service';
-import { NotFoundException, BadRequestException } from '@nestjs/common';
+import { DocumentEmbeddingService } from '../search/embeddings/document-embedding.service';
+import { SearchAsYouTypeService } from '../search/services/search-as-you-type.service';
+import { SchemaEnforcementService } from '../schema/schema-enforcement.service';
+import { BulkIndexingService } from '../indexing/services/bulk-indexing.service';
+import { FieldWeightsService } from '../storage/postgresql/field-weights.service';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { IndexDocumentDto } from '../api/dtos/document.dto';
-import { InMemoryTermDictionary } from '../index/term-dictionary';
 
 describe('DocumentService', () => {
   let service: DocumentService;
-  let documentStorageService: Partial<DocumentStorageService>;
-  let indexService: Partial<IndexService>;
-  let indexingService: Partial<IndexingService>;
-  let searchService: Partial<SearchService>;
+  let documentStorageService: Record<string, jest.Mock>;
+  let indexService: Record<string, jest.Mock>;
+  let indexingService: Record<string, jest.Mock>;
+  let documentEmbeddingService: Record<string, jest.Mock>;
+  let bulkIndexingService: Record<string, jest.Mock>;
+  let searchAsYouTypeService: Record<string, jest.Mock>;
+  let schemaEnforcement: Record<string, jest.Mock>;
 
   beforeEach(async () => {
-    // Mock for IndexService
     indexService = {
-      getIndex: jest.fn().mockImplementation((name: string) => {
-        if (name === 'test-index') {
-          return {
-            name,
-            createdAt: new Date(),
-            documentCount: 10,
-            settings: {},
-            mappings: { properties: {} },
-            status: 'open',
-          };
-        }
-        throw new NotFoundException(`Index ${name} not found`);
-      }),
-      updateMappings: jest.fn().mockResolvedValue(true),
+      getIndex: jest.fn().mockImplementation(async (name: string) =>
+        name === 'test-index'
+          ? {
+              name,
+              createdAt: new Date(),
+              documentCount: 10,
+              settings: {},
+              mappings: { properties: { title: { type: 'text' } } },
+              status: 'open',
+            }
+          : null,
+      ),
+      updateIndex: jest.fn(),
     };
 
-    // Mock for DocumentStorageService
     documentStorageService = {
-      storeDocument: jest.fn().mockImplementation((indexName: string, doc: any) => ({
-        ...doc,
-        version: 1,
-      })),
-      getDocument: jest.fn().mockImplementation((indexName: string, id: string) => {
-        if (id === 'existing-doc') {
-          return {
-            id,
-            content: { title: 'Test Document' },
-            metadata: {},
-          };
-        }
-        return null;
-      }),
-      deleteDocument: jest.fn().mockImplementation((indexName: string, id: string) => {
-        return id === 'existing-doc';
-      }),
-      bulkStoreDocuments: jest.fn().mockResolvedValue(3),
-      bulkDeleteDocuments: jest.fn().mockResolvedValue(2),
-      getDocuments: jest.fn().mockImplementation((indexName: string, options: any) => {
-        if (options.filter && options.filter.title === 'Test Document') {
-          return {
-            documents: [
-              { documentId: 'doc1', content: { title: 'Test Document' } },
-              { documentId: 'doc2', content: { title: 'Test Document' } },
-            ],
-          };
-        }
-        return { documents: [] };
-      }),
+      storeVersionedDocument: jest.fn().mockResolvedValue({ version: 1, seqNo: 1, created: true }),
+      getDocument: jest.fn().mockImplementation(async (_indexName: string, id: string) =>
+        id === 'existing-doc'
+          ? {
+              documentId: id,
+              content: { title: 'Test Document' },
+              metadata: {},
+              version: 1,
+              seqNo: 1,
+            }
+          : null,
+      ),
+      deleteVersionedDocument: jest.fn().mockResolvedValue(true),
     };
 
-    // Mock for IndexingService
     indexingService = {
       indexDocument: jest.fn().mockResolvedValue(true),
+      reindexFields: jest.fn().mockResolvedValue(undefined),
       removeDocument: jest.fn().mockResolvedValue(true),
     };
 
-    // Mock for SearchService
-    searchService = {
-      search: jest.fn().mockResolvedValue({
-        data: {
-          total: 2,
-          maxScore: 1.0,
-          hits: [
-            { id: 'doc1', score: 1.0 },
-            { id: 'doc2', score: 0.5 },
-          ],
-        },
-      }),
+    documentEmbeddingService = {
+      indexDocuments: jest.fn().mockResolvedValue(undefined),
+      removeDocuments: jest.fn().mockResolvedValue(undefined),
     };
 
+    bulkIndexingService = {
+      queueBulkIndexing: jest.fn().mockResolvedValue({ batchId: 'batch-1', schemaViolations: [] }),
+    };
+
+    searchAsYouTypeService = {
+      indexDocuments: jest.fn().mockResolvedValue(undefined),
+      removeDocuments: jest.fn().mockResolvedValue(undefined),
+    };
+
+    schemaEnforcement = { enforce: jest.fn().mockResolvedValue(null) };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         DocumentService,
-        {
-          provide: DocumentStorageService,
-          useValue: documentStorageService,
-        },
-        {
-          provide: IndexService,
-          useValue: indexService,
-        },
-        {
-          provide: IndexingService,
-          useValue: indexingService,
-        },
-        {
-          provide: SearchService,
-          useValue: searchService,
-        },
-        {
-          provide: 'TERM_DICTIONARY',
-          useValue: new InMemoryTermDictionary(),
-        },
+        { provide: DocumentStorageService, useValue: documentStorageService },
+        { provide: IndexService, useValue: indexService },
+        { provide: IndexingService, useValue: indexingService },
+        { provide: SearchService, useValue: {} },
+        { provide: DocumentEmbeddingService, useValue: documentEmbeddingService },
+        { provide: SearchAsYouTypeService, useValue: searchAsYouTypeService },
+        { provide: SchemaEnforcementService, useValue: schemaEnforcement },
+        { provide: 'TERM_DICTIONARY', useValue: { size: () => 0 } },
+        { provide: BulkIndexingService, useValue: bulkIndexingService },
+        { provide: FieldWeightsService, useValue: { analyzeAndCreateFieldWeights: jest.fn() } },
       ],
     }).compile();
 
@@ -135,8 +114,15 @@ describe('DocumentService', () => {
       expect(result.id).toBe('test-doc');
       expect(result.index).toBe('test-index');
       expect(result.found).toBe(true);
-      expect(documentStorageService.storeDocument).toHaveBeenCalled();
+      expect(result.result).toBe('created');
+      expect(documentStorageService.storeVersionedDocument).toHaveBeenCalled();
       expect(indexingService.indexDocument).toHaveBeenCalled();
+      expect(documentEmbeddingService.indexDocuments).toHaveBeenCalledWith('test-index', [
+        { id: 'test-doc', source: { title: 'Test Document' } },
+      ]);
+      expect(searchAsYouTypeService.indexDocuments).toHaveBeenCalledWith('test-index', [
+        { id: 'test-doc', source: { title: 'Test Document' } },
+      ]);
     });
 
     it('should generate an ID if not provided', async () => {
@@ -162,6 +148,60 @@ describe('DocumentService', () => {
     });
   });
 
+  describe('schema enforcement', () => {
+    const violation = {
+      documentId: 'test-doc',
+      schemaName: 'products',
+      schemaVersion: 2,
+      errors: [{ path: '/price', message: 'is required' }],
+    };
+
+    it('should reject a document that does not match the schema before storing it', async () => {
+      schemaEnforcement.enforce.mockRejectedValue(new BadRequestException('does not match'));
+
+      await expect(
+        service.indexDocument('test-index', { id: 'test-doc', document: { title: 'Lamp' } }),
+      ).rejects.toThrow(BadRequestException);
+      expect(documentStorageService.storeVersionedDocument).not.toHaveBeenCalled();
+      expect(indexingService.indexDocument).not.toHaveBeenCalled();
+    });
+
+    it('should index a document in warn mode and return the warnings', async () => {
+      schemaEnforcement.enforce.mockResolvedValue({ ...violation, mode: 'warn' });
+
+      const result = await service.indexDocument('test-index', {
+        id: 'test-doc',
+        document: { title: 'Lamp' },
+      });
+
+      expect(result.warnings).toEqual(violation.errors);
+      expect(documentStorageService.storeVersionedDocument).toHaveBeenCalled();
+    });
+
+    it('should report bulk documents the schema rejected or dead-lettered', async () => {
+      bulkIndexingService.queueBulkIndexing.mockResolvedValue({
+        batchId: 'batch-1',
+        schemaViolations: [{ ...violation, mode: 'dead_letter' }],
+      });
+
+      const result = await service.bulkIndexDocuments('test-index', [
+        { id: 'test-doc', document: { title: 'Lamp' } },
+        { id: 'other-doc', document: { title: 'Desk', price: 10 } },
+      ]);
+
+      expect(result.errors).toBe(true);
+      expect(result.successCount).toBe(1);
+      expect(result.items[0]).toMatchObject({
+        id: 'test-doc',
+        success: false,
+        status: 400,
+        error: 'Document does not match schema products v2',
+        errors: violation.errors,
+        deadLettered: true,
+      });
+    });
+  });
+
   describe('getDocument', () => {
     it('should retrieve a document', async () => {
       const result = await service.getDocument('test-index', 'existing-doc');
@@ -179,8 +219,100 @@ describe('DocumentService', () => {
     });
   });
 
+  describe('updateDocument and deleteDocument', () => {
+    it('should recompute the search-as-you-type grams of an updated document', async () => {
+      await service.updateDocument('test-index', 'existing-doc', { title: 'Desk lamp' });
+
+      expect(searchAsYouTypeService.indexDocuments).toHaveBeenCalledWith('test-index', [
+        { id: 'existing-doc', source: { title: 'Desk lamp' } },
+      ]);
+    });
+
+    it('should remove the grams of a deleted document', async () => {
+      await service.deleteDocument('test-index', 'existing-doc');
+
+      expect(searchAsYouTypeService.removeDocuments).toHaveBeenCalledWith('test-index', [
+        'existing-doc',
+      ]);
+      expect(documentEmbeddingService.removeDocuments).toHaveBeenCalledWith('test-index', [
+        'existing-doc',
+      ]);
+    });
+  });
+
+  describe('partialUpdateDocument', () => {
+    it('should re-analyze only the changed fields the mappings index', async () => {
+      const result = await service.partialUpdateDocument('test-index', 'existing-doc', {
+        doc: { title: 'Desk lamp', views: 3 },
+      });
+
+      expect(result.result).toBe('updated');
+      expect(documentStorageService.storeVersionedDocument).toHaveBeenCalledWith(
+        'test-index',
+        expect.objectContaining({ content: { title: 'Desk lamp', views: 3 } }),
+        { ifSeqNo: 1 },
+      );
+      expect(indexingService.indexDocument).not.toHaveBeenCalled();
+      expect(indexingService.reindexFields).toHaveBeenCalledWith(
+        'test-index',
+        'existing-doc',
+        { title: 'Desk lamp', views: 3 },
+        { title: 'Test Document' },
+        ['title'],
+      );
+      expect(searchAsYouTypeService.indexDocuments).toHaveBeenCalledWith(
+        'test-index',
+        [{ id: 'existing-doc', source: { title: 'Desk lamp', views: 3 } }],
+        ['title', 'views'],
+      );
+    });
+
+    it('should not re-analyze the document when no indexed field changed', async () => {
+      const result = await service.partialUpdateDocument('test-index', 'existing-doc', {
+        script: { source: 'doc.views += 1' },
+      });
+
+      expect(result.result).toBe('updated');
+      expect(result.source).toEqual({ title: 'Test Document', views: 1 });
+      expect(indexingService.indexDocument).not.toHaveBeenCalled();
+      expect(indexingService.reindexFields).not.toHaveBeenCalled();
+      expect(documentEmbeddingService.indexDocuments).toHaveBeenCalledWith(
+        'test-index',
+        [{ id: 'existing-doc', source: { title: 'Test Document', views: 1 } }],
+        ['views'],
+      );
+    });
+
+    it('should write nothing for an update that changes nothing', async () => {
+      const result = await service.partialUpdateDocument('test-index', 'existing-doc', {
+        doc: { title: 'Test Document' },
+      });
+
+      expect(result.result).toBe('noop');
+      expect(documentStorageService.storeVersionedDocument).not.toHaveBeenCalled();
+      expect(indexingService.reindexFields).not.toHaveBeenCalled();
+    });
+
+    it('should index an upserted document in full', async () => {
+      const result = await service.partialUpdateDocument('test-index', 'new-doc', {
+        doc: { title: 'Desk lamp' },
+        doc_as_upsert: true,
+      });
+
+      expect(result.result).toBe('created');
+      expect(documentStorageService.storeVersionedDocument).toHaveBeenCalledWith(
+        'test-index',
+        expect.objectContaining({ documentId: 'new-doc' }),
+        { ifAbsent: true },
+      );
+      expect(indexingService.indexDocument).toHaveBeenCalledWith('test-index', 'new-doc', {
+        title: 'Desk lamp',
+      });
+    });
+  });
+
   describe('bulkIndexDocuments', () => {
-    it('should bulk index documents', async () => {
+    it('should queue documents for bulk indexing', async () => {
       const documents: IndexDocumentDto[] = [
         { id: 'doc1', document: { title: 'Doc 1' } },
         { id: 'doc2', document: { title: 'Doc 2' } },
@@ -192,26 +324,11 @@ describe('DocumentService', () => {
       expect(result).toBeDefined();
       expect(result.items).toHaveLength(3);
       expect(result.errors).toBe(false);
-      expect(documentStorageService.storeDocument).toHaveBeenCalledTimes(3);
-      expect(indexingService.indexDocument).toHaveBeenCalledTimes(3);
-    });
-  });
-
-  describe('deleteByQuery', () => {
-    it('should delete documents matching a query', async () => {
-      const result = await service.deleteByQuery('test-index', {
-        query: { term: { field: 'title', value: 'Test Document' } },
-      });
-
-      expect(result).toBeDefined();
-      expect(result.deleted).toBe(2);
-      expect(documentStorageService.getDocuments).toHaveBeenCalledWith('test-index', {
-        filter: { title: 'Test Document' },
-      });
-      expect(documentStorageService.bulkDeleteDocuments).toHaveBeenCalledWith('test-index', [
-        'doc1',
-        'doc2',
-      ]);
+      expect(bulkIndexingService.queueBulkIndexing).toHaveBeenCalledWith(
+        'test-index',
+        documents.map(({ id, document }) => ({ id, document })),
+        expect.any(Object),
+      );
     });
   });
 });
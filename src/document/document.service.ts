@@ -3,6 +3,7 @@ import {
   Logger,
   NotFoundException,
   BadRequestException,
+  ConflictException,
   Inject,
   OnModuleInit,
   forwardRef,
@@ -13,17 +14,29 @@ import {
   IndexDocumentDto,
   DocumentResponseDto,
   BulkResponseDto,
-  DeleteByQueryResponseDto,
-  DeleteByQueryDto,
   ListDocumentsResponseDto,
+  UpdateDocumentDto,
 } from '../api/dtos/document.dto';
 import { v4 as uuidv4 } from 'uuid';
 import { SearchService } from '../search/search.service';
+import { DocumentEmbeddingService } from '../search/embeddings/document-embedding.service';
+import { SearchAsYouTypeService } from '../search/services/search-as-you-type.service';
 import { IndexingService } from '../indexing/indexing.service';
 import { TermDictionary } from '../index/term-dictionary';
-import { SearchQueryDto, SearchResponseDto } from '../api/dtos/search.dto';
 import { BulkIndexingService } from '../indexing/services/bulk-indexing.service';
 import { FieldWeightsService } from 'src/storage/postgresql/field-weights.service';
+import {
+  SchemaEnforcementService,
+  schemaViolationMessage,
+} from '../schema/schema-enforcement.service';
+import { SchemaViolation } from '../schema/interfaces/schema.interface';
+import { VersionPrecondition } from '../storage/postgresql/interfaces/document-version.interface';
+import { versionConflictMessage } from './utils/document-version';
+import { UpdateScript } from './utils/update-script';
+import { mergeDocument } from './bulk-operations.service';
+import { isEqual, uniq } from 'lodash';
+
+const DEFAULT_UPDATE_RETRIES = 3;
 
 @Injectable()
 export class DocumentService implements OnModuleInit {
@@ -34,11 +47,14 @@ export class DocumentService implements OnModuleInit {
     private readonly indexService: IndexService,
     private readonly indexingService: IndexingService,
     private readonly searchService: SearchService,
+    private readonly documentEmbeddingService: DocumentEmbeddingService,
+    private readonly searchAsYouTypeService: SearchAsYouTypeService,
     @Inject('TERM_DICTIONARY') private readonly termDictionary: TermDictionary,
     @Inject(forwardRef(() => BulkIndexingService))
     private readonly bulkIndexingService: BulkIndexingService,
     @Inject(forwardRef(() => FieldWeightsService))
     private readonly fieldWeightsService: FieldWeightsService,
+    private readonly schemaEnforcement: SchemaEnforcementService,
   ) {}
 
   /**
@@ -161,6 +177,7 @@ export class DocumentService implements OnModuleInit {
           enableProgress: true,
           priority: 10, // High priority for rebuild operations
           retryAttempts: 2, // Fewer retries for rebuild to fail fast
+          skipSchemaCheck: true, // Stored documents were checked when they were ingested
         },
       );
 
@@ -183,6 +200,7 @@ export class DocumentService implements OnModuleInit {
   async indexDocument(
     indexName: string,
     documentDto: IndexDocumentDto,
+    precondition: VersionPrecondition = {},
   ): Promise<DocumentResponseDto> {
     this.logger.log(`Indexing document in ${indexName}`);
 
@@ -195,22 +213,45 @@ export class DocumentService implements OnModuleInit {
     // Generate ID if not provided
     const documentId = documentDto.id || uuidv4();
 
-    // Store document in storage
-    const storedDocument = await this.documentStorageService.storeDocument(indexName, {
+    // Throws unless the document matches the index's schema or the index is in warn mode
+    const violation = await this.schemaEnforcement.enforce(
+      indexName,
       documentId,
-      content: documentDto.document,
-      metadata: documentDto.document.metadata || {},
-    });
+      documentDto.document,
+    );
+
+    // Store document in storage, unless another write got there first
+    const stored = await this.documentStorageService.storeVersionedDocument(
+      indexName,
+      {
+        documentId,
+        content: documentDto.document,
+        metadata: documentDto.document.metadata || {},
+      },
+      precondition,
+    );
+    if (!stored) {
+      throw await this.versionConflict(indexName, documentId, precondition);
+    }
 
     // Index the document for search
     await this.indexingService.indexDocument(indexName, documentId, documentDto.document);
+    await this.documentEmbeddingService.indexDocuments(indexName, [
+      { id: documentId, source: documentDto.document },
+    ]);
+    await this.searchAsYouTypeService.indexDocuments(indexName, [
+      { id: documentId, source: documentDto.document },
+    ]);
 
     return {
       id: documentId,
       index: indexName,
-      version: 1,
+      version: stored.version,
+      seqNo: stored.seqNo,
+      result: stored.created ? 'created' : 'updated',
       found: true,
       source: documentDto.document,
+      ...(violation && { warnings: violation.errors }),
     };
   }
 
@@ -241,34 +282,30 @@ export class DocumentService implements OnModuleInit {
         documents.map(doc => doc.document),
       );
 
+      const queued = documents.map(doc => ({
+        id: doc.id || uuidv4(),
+        document: doc.document,
+      }));
+
       // Queue documents for bulk indexing
-      const { batchId, totalBatches, totalDocuments } =
-        await this.bulkIndexingService.queueBulkIndexing(
-          indexName,
-          documents.map(doc => ({
-            id: doc.id || uuidv4(),
-            document: doc.document,
-          })),
-          {
-            batchSize: 1000,
-            skipDuplicates: true,
-            enableProgress: true,
-            priority: 5,
-          },
-        );
+      const { batchId, schemaViolations } = await this.bulkIndexingService.queueBulkIndexing(
+        indexName,
+        queued,
+        {
+          batchSize: 1000,
+          skipDuplicates: true,
+          enableProgress: true,
+          priority: 5,
+        },
+      );
 
       // Return immediate response with batch info
+      const items = this.bulkResponseItems(indexName, queued, batchId, schemaViolations);
       return {
         took: Date.now() - startTime,
-        errors: false,
-        items: documents.map(doc => ({
-          id: doc.id || uuidv4(),
-          index: indexName,
-          success: true,
-          status: 202, // Accepted
-          batchId,
-        })),
-        successCount: documents.length,
+        errors: items.some(item => !item.success),
+        items,
+        successCount: items.filter(item => item.success).length,
       };
     } catch (error) {
       this.logger.error(`Error in bulk indexing: ${error.message}`);
@@ -276,6 +313,45 @@ export class DocumentService implements OnModuleInit {
     }
   }
 
+  /**
+   * Response items of queued bulk documents: accepted (202), or rejected with the errors
+   * of their schema violation
+   */
+  bulkResponseItems(
+    indexName: string,
+    documents: Array<{ id: string }>,
+    batchId: string,
+    schemaViolations: SchemaViolation[],
+  ): BulkResponseDto['items'] {
+    const violations = new Map(
+      schemaViolations.map(violation => [violation.documentId, violation]),
+    );
+
+    return documents.map(doc => {
+      const violation = violations.get(doc.id);
+      if (violation && violation.mode !== 'warn') {
+        return {
+          id: doc.id,
+          index: indexName,
+          success: false,
+          status: 400,
+          error: schemaViolationMessage(violation),
+          errors: violation.errors,
+          deadLettered: violation.mode === 'dead_letter',
+        };
+      }
+
+      return {
+        id: doc.id,
+        index: indexName,
+        success: true,
+        status: 202, // Accepted
+        batchId,
+        ...(violation && { warnings: violation.errors }),
+      };
+    });
+  }
+
   /**
    * Process small batches synchronously for immediate response
    */
@@ -298,6 +374,12 @@ export class DocumentService implements OnModuleInit {
 
         // Index for search
         await this.indexingService.indexDocument(indexName, doc.id, doc.document);
+        await this.documentEmbeddingService.indexDocuments(indexName, [
+          { id: doc.id, source: doc.document },
+        ]);
+        await this.searchAsYouTypeService.indexDocuments(indexName, [
+          { id: doc.id, source: doc.document },
+        ]);
 
         results.push({
           index: {
@@ -342,7 +424,8 @@ export class DocumentService implements OnModuleInit {
     return {
       id: document.documentId,
       index: indexName,
-      version: 1,
+      version: document.version,
+      seqNo: document.seqNo,
       found: true,
       source: document.content,
     };
@@ -352,6 +435,7 @@ export class DocumentService implements OnModuleInit {
     indexName: string,
     id: string,
     document: Record<string, any>,
+    precondition: VersionPrecondition = {},
   ): Promise<DocumentResponseDto> {
     this.logger.log(`Updating document ${id} in ${indexName}`);
 
@@ -364,86 +448,202 @@ export class DocumentService implements OnModuleInit {
       throw new NotFoundException(`Document ${id} not found in index ${indexName}`);
     }
 
-    // Store updated document
-    await this.documentStorageService.storeDocument(indexName, {
-      documentId: id,
-      content: document,
-      metadata: document.metadata || {},
-    });
+    const violation = await this.schemaEnforcement.enforce(indexName, id, document);
+
+    // Store updated document; without a precondition it must still be the one checked above
+    const stored = await this.documentStorageService.storeVersionedDocument(
+      indexName,
+      { documentId: id, content: document, metadata: document.metadata || {} },
+      Object.keys(precondition).length > 0 ? precondition : { ifSeqNo: existingDoc.seqNo },
+    );
+    if (!stored) {
+      throw await this.versionConflict(indexName, id, precondition);
+    }
 
     // Re-index the document
     await this.indexingService.indexDocument(indexName, id, document);
+    await this.documentEmbeddingService.indexDocuments(indexName, [{ id, source: document }]);
+    await this.searchAsYouTypeService.indexDocuments(indexName, [{ id, source: document }]);
 
     return {
       id,
       index: indexName,
-      version: 1,
+      version: stored.version,
+      seqNo: stored.seqNo,
+      result: 'updated',
       found: true,
       source: document,
+      ...(violation && { warnings: violation.errors }),
     };
   }
 
-  async deleteDocument(indexName: string, id: string): Promise<void> {
-    this.logger.log(`Deleting document ${id} from ${indexName}`);
+  /**
+   * Merges a partial doc into a document and runs a script on it. The result is only
+   * written if the document is still the one it was computed from, and recomputed
+   * otherwise, so concurrent updates such as counter increments are never lost.
+   */
+  async partialUpdateDocument(
+    indexName: string,
+    id: string,
+    request: UpdateDocumentDto,
+    precondition: VersionPrecondition = {},
+  ): Promise<DocumentResponseDto> {
+    this.logger.log(`Partially updating document ${id} in ${indexName}`);
 
-    // Check if index exists
     await this.checkIndexExists(indexName);
+    if (!request.doc && !request.script) {
+      throw new BadRequestException('doc or script is required');
+    }
+    if (precondition.externalVersion !== undefined) {
+      throw new BadRequestException('version_type=external is not supported by _update');
+    }
+    const script = request.script && UpdateScript.compile(request.script.source);
+
+    // With a precondition of its own, the caller decides what to do on a conflict
+    const retries =
+      Object.keys(precondition).length > 0
+        ? 0
+        : request.retry_on_conflict ?? DEFAULT_UPDATE_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      const existing = await this.documentStorageService.getDocument(indexName, id);
+      const conflict = versionConflictMessage(id, precondition, existing);
+      if (conflict) {
+        throw new ConflictException(conflict);
+      }
 
-    // Delete from storage
-    await this.documentStorageService.deleteDocument(indexName, id);
+      let document: Record<string, any>;
+      if (existing) {
+        document = request.doc ? mergeDocument(existing.content, request.doc) : existing.content;
+        const run = script && UpdateScript.run(script, document, request.script.params);
+        if (run && !run.noop) {
+          document = run.document;
+        }
+        if (run?.noop || isEqual(document, existing.content)) {
+          return {
+            id,
+            index: indexName,
+            version: existing.version,
+            seqNo: existing.seqNo,
+            result: 'noop',
+            found: true,
+            source: existing.content,
+          };
+        }
+      } else if (request.upsert || (request.doc_as_upsert && request.doc)) {
+        document = request.upsert ?? request.doc;
+      } else {
+        throw new NotFoundException(`Document ${id} not found in index ${indexName}`);
+      }
 
-    // Remove from search index
-    await this.indexingService.removeDocument(indexName, id);
+      const violation = await this.schemaEnforcement.enforce(indexName, id, document);
+      const stored = await this.documentStorageService.storeVersionedDocument(
+        indexName,
+        { documentId: id, content: document, metadata: document.metadata || {} },
+        existing ? { ifSeqNo: existing.seqNo } : { ifAbsent: true },
+      );
+      if (!stored) {
+        if (attempt < retries) continue;
+        throw await this.versionConflict(indexName, id, precondition);
+      }
+
+      await this.reindexChangedFields(indexName, id, document, existing?.content);
+      return {
+        id,
+        index: indexName,
+        version: stored.version,
+        seqNo: stored.seqNo,
+        result: existing ? 'updated' : 'created',
+        found: true,
+        source: document,
+        ...(violation && { warnings: violation.errors }),
+      };
+    }
   }
 
-  async deleteByQuery(
+  /**
+   * Reindexes an updated document. Only the changed top-level fields are re-analyzed,
+   * and only when the mappings index them; embeddings and search-as-you-type grams
+   * are likewise recomputed for the changed fields. search_vector is rebuilt by the
+   * documents trigger when one of the index's text fields changed.
+   */
+  private async reindexChangedFields(
     indexName: string,
-    query: DeleteByQueryDto,
-  ): Promise<DeleteByQueryResponseDto> {
-    this.logger.log(`Deleting documents by query in ${indexName}`);
+    id: string,
+    document: Record<string, any>,
+    previous?: Record<string, any>,
+  ): Promise<void> {
+    const changed =
+      previous &&
+      uniq([...Object.keys(previous), ...Object.keys(document)]).filter(
+        field => !isEqual(previous[field], document[field]),
+      );
 
-    // Check if index exists
-    await this.checkIndexExists(indexName);
+    if (!changed) {
+      await this.indexingService.indexDocument(indexName, id, document);
+    } else {
+      const analyzed = await this.analyzedFields(indexName, changed);
+      if (analyzed.length > 0) {
+        await this.indexingService.reindexFields(indexName, id, document, previous, analyzed);
+      }
+    }
+    await this.documentEmbeddingService.indexDocuments(
+      indexName,
+      [{ id, source: document }],
+      changed,
+    );
+    await this.searchAsYouTypeService.indexDocuments(
+      indexName,
+      [{ id, source: document }],
+      changed,
+    );
+  }
 
-    // Search for documents to delete
-    const searchResult = (await this.searchService.search(indexName, {
-      query: query.query,
-      size: 10000, // Limit for safety
-    })) as SearchResponseDto;
+  /**
+   * The top-level fields among `fields` that the index's mappings analyze, or all of
+   * them for an index without mappings, whose fields are detected from the document
+   */
+  private async analyzedFields(indexName: string, fields: string[]): Promise<string[]> {
+    const properties = (await this.indexService.getIndex(indexName))?.mappings?.properties;
+    if (!properties) {
+      return fields;
+    }
 
-    // Extract hits from search result
-    const hits = searchResult.data?.hits || [];
-    const total = hits.length;
+    const indexed = Object.entries(properties)
+      .filter(
+        ([, mapping]: [string, any]) =>
+          mapping?.type !== 'dense_vector' && mapping?.index !== false,
+      )
+      .map(([name]) => name);
+    return fields.filter(field =>
+      indexed.some(name => name === field || name.startsWith(`${field}.`)),
+    );
+  }
 
-    if (total === 0) {
-      return {
-        took: searchResult.took || 0,
-        deleted: 0,
-        failures: [],
-      };
-    }
+  async deleteDocument(
+    indexName: string,
+    id: string,
+    precondition: VersionPrecondition = {},
+  ): Promise<void> {
+    this.logger.log(`Deleting document ${id} from ${indexName}`);
 
-    // Delete found documents
-    const failures = [];
-    let deleted = 0;
+    // Check if index exists
+    await this.checkIndexExists(indexName);
 
-    for (const hit of hits) {
-      try {
-        await this.deleteDocument(indexName, hit.id);
-        deleted++;
-      } catch (error) {
-        failures.push({
-          id: hit.id,
-          error: error.message,
-        });
-      }
+    // Delete from storage
+    const deleted = await this.documentStorageService.deleteVersionedDocument(
+      indexName,
+      id,
+      precondition,
+    );
+    if (!deleted && Object.keys(precondition).length > 0) {
+      throw await this.versionConflict(indexName, id, precondition);
     }
 
-    return {
-      took: searchResult.took || 0,
-      deleted,
-      failures,
-    };
+    // Remove from search index
+    await this.indexingService.removeDocument(indexName, id);
+    await this.documentEmbeddingService.removeDocuments(indexName, [id]);
+    await this.searchAsYouTypeService.removeDocuments(indexName, [id]);
   }
 
   async listDocuments(
@@ -469,13 +669,29 @@ export class DocumentService implements OnModuleInit {
       documents: result.documents.map(doc => ({
         id: doc.documentId,
         index: indexName,
-        version: 1,
+        version: doc.version,
+        seqNo: doc.seqNo,
         found: true,
         source: doc.content,
       })),
     };
   }
 
+  /**
+   * The 409 of a write whose precondition failed, against the document as it is now
+   */
+  private async versionConflict(
+    indexName: string,
+    id: string,
+    precondition: VersionPrecondition,
+  ): Promise<ConflictException> {
+    const current = await this.documentStorageService.getDocumentVersion(indexName, id);
+    return new ConflictException(
+      versionConflictMessage(id, precondition, current) ??
+        `[${id}]: version conflict, document was changed by another request`,
+    );
+  }
+
   private async checkIndexExists(indexName: string): Promise<void> {
     const index = await this.indexService.getIndex(indexName);
     if (!index) {
@@ -493,7 +709,7 @@ export class DocumentService implements OnModuleInit {
    * @param indexName - The index to check/configure
    * @param sampleDocuments - Documents to use for field type detection
    */
-  private async ensureFieldMappings(
+  async ensureFieldMappings(
     indexName: string,
     sampleDocuments: Record<string, any>[],
   ): Promise<void> {
@@ -768,6 +984,14 @@ export class DocumentService implements OnModuleInit {
 
           // Process for search indexing
           await this.indexingService.bulkIndexDocuments(indexName, subBatch);
+          await this.documentEmbeddingService.indexDocuments(
+            indexName,
+            subBatch.map(doc => ({ id: doc.id, source: doc.document })),
+          );
+          await this.searchAsYouTypeService.indexDocuments(
+            indexName,
+            subBatch.map(doc => ({ id: doc.id, source: doc.document })),
+          );
         } catch (error) {
           this.logger.error(`Error processing sub-batch: ${error.message}`);
           failureCount += subBatch.length;
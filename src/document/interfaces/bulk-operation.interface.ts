@@ -0,0 +1,49 @@
+import { SchemaValidationError } from '../../schema/interfaces/schema.interface';
+import { VersionPrecondition } from '../../storage/postgresql/interfaces/document-version.interface';
+
+export type BulkAction = 'index' | 'create' | 'update' | 'delete';
+
+export type BulkResult = 'created' | 'updated' | 'deleted' | 'noop' | 'not_found' | 'queued';
+
+/**
+ * One action of a bulk request, with its source line
+ */
+export interface BulkOperation {
+  action: BulkAction;
+  index: string;
+  id: string;
+
+  /**
+   * The document to index or create, or the partial document of an update
+   */
+  document?: Record<string, any>;
+
+  /**
+   * Document an update creates when the target does not exist (doc_as_upsert or upsert)
+   */
+  upsert?: Record<string, any>;
+
+  /**
+   * if_version, if_seq_no or external version of the action
+   */
+  precondition?: VersionPrecondition;
+
+  /**
+   * Why the action cannot run, e.g. an update without _id; it is reported and skipped
+   */
+  error?: { status: number; message: string };
+}
+
+export interface BulkItemResult {
+  action: BulkAction;
+  index: string;
+  id: string;
+  status: number;
+  result?: BulkResult;
+  version?: number;
+  seqNo?: number;
+  error?: string;
+  errors?: SchemaValidationError[];
+  warnings?: SchemaValidationError[];
+  deadLettered?: boolean;
+}
@@ -0,0 +1,24 @@
+/**
+ * Changes an update-by-query makes to each matching document, by dot path
+ */
+export interface UpdateOperations {
+  set?: Record<string, any>;
+  unset?: string[];
+  increment?: Record<string, number>;
+  append?: Record<string, any>;
+}
+
+/**
+ * Lets a background task follow and stop a by-query operation between batches
+ */
+export interface ByQueryHooks {
+  /**
+   * Called after every batch with the report so far
+   */
+  onProgress?: (report: Record<string, any>) => Promise<void>;
+
+  /**
+   * Checked before every batch; the operation stops when it returns true
+   */
+  isCancelled?: () => Promise<boolean>;
+}
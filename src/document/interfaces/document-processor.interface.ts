@@ -36,6 +36,11 @@ export interface DocumentMapping {
    * Default analyzer to use for fields without a specific analyzer
    */
   defaultAnalyzer?: string;
+
+  /**
+   * Index whose custom analyzers take precedence over the built-in ones
+   */
+  indexName?: string;
 }
 
 /**
@@ -0,0 +1,43 @@
+import { MigrationStep } from '../../schema/interfaces/schema.interface';
+import { ReindexResponseDto } from '../../api/dtos/reindex.dto';
+import { ByQueryHooks } from './by-query.interface';
+import { ScriptStatement } from './update-script.interface';
+
+/**
+ * A step of the pipeline a reindex runs on every document: the schema migration
+ * steps, drop to remove fields, or a script as used by partial updates. A script
+ * that reaches noop leaves the document out of the destination.
+ */
+export type ReindexStep =
+  | MigrationStep
+  | { op: 'drop'; fields: string[] }
+  | { op: 'script'; source: string; params?: Record<string, any> };
+
+export type CompiledReindexStep =
+  | MigrationStep
+  | { op: 'drop'; fields: string[] }
+  | { op: 'script'; statements: ScriptStatement[]; params: Record<string, any> };
+
+/**
+ * Part of the source a reindex copies: the documents whose id hashes to id out of max
+ */
+export interface ReindexSlice {
+  id: number;
+  max: number;
+}
+
+/**
+ * Where a slice stopped, so it can carry on after a crash: the last document id it
+ * copied and its report so far
+ */
+export interface ReindexCheckpoint {
+  afterId: string;
+  report: ReindexResponseDto;
+}
+
+export interface ReindexHooks extends ByQueryHooks {
+  /**
+   * Called after every batch, once its documents are written
+   */
+  onCheckpoint?: (checkpoint: ReindexCheckpoint) => Promise<void>;
+}
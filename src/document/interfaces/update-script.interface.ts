@@ -0,0 +1,37 @@
+/**
+ * A script of a partial update, e.g.
+ * `doc.views += 1; append(doc.tags, params.tag); if (doc.stock == 0) noop`
+ */
+export interface UpdateScriptSource {
+  source: string;
+  params?: Record<string, any>;
+}
+
+export type ScriptExpression =
+  | { type: 'literal'; value: any }
+  | { type: 'path'; root: 'doc' | 'params'; keys: Array<string | number> }
+  | { type: 'array'; items: ScriptExpression[] }
+  | { type: 'unary'; operator: '!' | '-'; operand: ScriptExpression }
+  | { type: 'binary'; operator: string; left: ScriptExpression; right: ScriptExpression }
+  | { type: 'function'; name: 'exists' | 'contains' | 'size'; args: ScriptExpression[] };
+
+export type ScriptStatement =
+  | { type: 'noop' }
+  | {
+      type: 'assign';
+      operator: '=' | '+=' | '-=' | '??=';
+      target: Array<string | number>;
+      value: ScriptExpression;
+    }
+  | {
+      type: 'call';
+      name: 'append' | 'remove' | 'unset';
+      target: Array<string | number>;
+      value?: ScriptExpression;
+    }
+  | {
+      type: 'if';
+      condition: ScriptExpression;
+      then: ScriptStatement[];
+      otherwise: ScriptStatement[];
+    };
@@ -0,0 +1,160 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { ReindexService } from './reindex.service';
+import { BulkOperationsService } from './bulk-operations.service';
+import { DocumentService } from './document.service';
+import { IndexService } from '../index/index.service';
+import { IndexAliasService } from '../index/index-alias.service';
+import { PostgreSQLService } from '../storage/postgresql/postgresql.service';
+import { SchemaEnforcementService } from '../schema/schema-enforcement.service';
+import { BulkOperation } from './interfaces/bulk-operation.interface';
+
+describe('ReindexService', () => {
+  let service: ReindexService;
+  let source: Array<{ document_id: string; content: Record<string, any> }>;
+  let dest: Map<string, Record<string, any>>;
+  const documentService = { ensureFieldMappings: jest.fn() };
+
+  // The source index in memory; every document matches the (empty) query and slice
+  const query = jest.fn(async (sql: string, params: any[] = []) => {
+    if (sql.startsWith('SELECT COUNT(*)')) {
+      return [{ total: String(source.length) }];
+    }
+    return source.filter(doc => doc.document_id > params[1]).slice(0, params[params.length - 1]);
+  });
+
+  // Writes into the destination as the bulk job would
+  const execute = jest.fn(async (operations: BulkOperation[]) =>
+    operations.map(({ action, index, id, document }) => {
+      if (dest.has(id) && action === 'create') {
+        return { action, index, id, status: 409, error: `Document ${id} already exists` };
+      }
+      const result = dest.has(id) ? 'updated' : 'created';
+      dest.set(id, document);
+      return { action, index, id, status: result === 'created' ? 201 : 200, result };
+    }),
+  );
+
+  beforeEach(async () => {
+    source = [
+      { document_id: 'a', content: { name: 'Desk', stock: 1 } },
+      { document_id: 'b', content: { name: 'Lamp', stock: 0 } },
+      { document_id: 'c', content: { name: 'Chair', stock: 3 } },
+    ];
+    dest = new Map([['c', { title: 'Old chair' }]]);
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReindexService,
+        { provide: DataSource, useValue: { query } },
+        {
+          provide: PostgreSQLService,
+          useValue: { buildFilterClause: jest.fn().mockResolvedValue('') },
+        },
+        {
+          provide: IndexService,
+          useValue: { getIndex: jest.fn(async name => (name === 'missing' ? null : { name })) },
+        },
+        {
+          provide: IndexAliasService,
+          useValue: {
+            resolveReadIndices: jest.fn(async name => (name === 'all' ? ['a', 'b'] : [name])),
+            resolveWriteIndex: jest.fn(async name => name),
+          },
+        },
+        { provide: DocumentService, useValue: documentService },
+        { provide: BulkOperationsService, useValue: { execute } },
+        {
+          provide: SchemaEnforcementService,
+          useValue: {
+            check: jest.fn(async (_index, docs) => ({ accepted: docs, violations: [] })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReindexService>(ReindexService);
+  });
+
+  const request = (overrides = {}) => ({
+    source: { index: 'products' },
+    dest: { index: 'products-v2' },
+    pipeline: [
+      { op: 'rename' as const, from: 'name', to: 'title' },
+      { op: 'script' as const, source: 'if (doc.stock == 0) noop' },
+    ],
+    ...overrides,
+  });
+
+  it('copies transformed documents and reports what it did', async () => {
+    const checkpoints = [];
+    const report = await service.reindexSlice(request(), { id: 0, max: 1 }, undefined, {
+      onCheckpoint: async checkpoint => {
+        checkpoints.push(checkpoint.afterId);
+      },
+    });
+
+    expect(report).toMatchObject({ total: 3, created: 1, updated: 1, noops: 1, failed: 0 });
+    expect(dest.get('a')).toEqual({ title: 'Desk', stock: 1 });
+    expect(dest.has('b')).toBe(false);
+    expect(checkpoints).toEqual(['c']);
+    expect(documentService.ensureFieldMappings).toHaveBeenCalledWith('products-v2', [
+      { title: 'Desk', stock: 1 },
+      { title: 'Chair', stock: 3 },
+    ]);
+  });
+
+  it('resumes after the checkpoint with the report so far', async () => {
+    const report = await service.reindexSlice(request(), { id: 0, max: 1 }, undefined);
+    source.push({ document_id: 'd', content: { name: 'Sofa', stock: 1 } });
+
+    const resumed = await service.reindexSlice(
+      request(),
+      { id: 0, max: 1 },
+      { afterId: 'c', report },
+    );
+
+    expect(resumed).toMatchObject({ created: 2, updated: 1, noops: 1, batches: 2 });
+    expect(execute).toHaveBeenLastCalledWith([
+      { action: 'index', index: 'products-v2', id: 'd', document: { title: 'Sofa', stock: 1 } },
+    ]);
+  });
+
+  it('stops at a version conflict unless told to proceed', async () => {
+    const abort = await service.reindex(
+      request({ dest: { index: 'products-v2', op_type: 'create' } }),
+    );
+    expect(abort).toMatchObject({ created: 1, versionConflicts: 1, failed: 1 });
+
+    dest = new Map([['c', {}]]);
+    const proceed = await service.reindex(
+      request({ dest: { index: 'products-v2', op_type: 'create' }, conflicts: 'proceed' }),
+    );
+    expect(proceed).toMatchObject({ created: 1, versionConflicts: 1, failed: 0 });
+  });
+
+  it('merges the reports of slices', async () => {
+    const report = await service.reindex(request({ slices: 2 }));
+
+    // The in-memory source ignores the slice, so each slice copies everything
+    expect(report).toMatchObject({ total: 6, noops: 2, batches: 2 });
+    expect(report.slices).toHaveLength(2);
+  });
+
+  it('refuses requests it cannot run before queueing them', async () => {
+    await expect(service.prepare(request({ source: { index: 'all' } }))).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.prepare(request({ dest: { index: 'products' } }))).rejects.toThrow(
+      'Source and destination must be different indices',
+    );
+    await expect(service.prepare(request({ dest: { index: 'missing' } }))).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(
+      service.prepare(request({ pipeline: [{ op: 'drop', fields: [] }] })),
+    ).rejects.toThrow('pipeline[0]: drop needs at least one field');
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { cloneDeep } from 'lodash';
+import { ReindexDto, ReindexResponseDto } from '../api/dtos/reindex.dto';
+import { IndexService } from '../index/index.service';
+import { IndexAliasService } from '../index/index-alias.service';
+import { PostgreSQLService } from '../storage/postgresql/postgresql.service';
+import {
+  SchemaEnforcementService,
+  schemaViolationMessage,
+} from '../schema/schema-enforcement.service';
+import { BulkOperationsService } from './bulk-operations.service';
+import { DocumentService } from './document.service';
+import { addFailure, batchSizeFor, emptyReport, throttleBatch } from './by-query.service';
+import {
+  CompiledReindexStep,
+  ReindexCheckpoint,
+  ReindexHooks,
+  ReindexSlice,
+} from './interfaces/reindex.interface';
+import { ReindexPipeline } from './utils/reindex-pipeline';
+
+/**
+ * Copies the documents of one index into another, through a pipeline of field
+ * transformations. The copy can be split into slices by document id hash, each read
+ * in id order so that it can resume from the last id it wrote.
+ */
+@Injectable()
+export class ReindexService {
+  private readonly logger = new Logger(ReindexService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly postgresService: PostgreSQLService,
+    @Inject(forwardRef(() => IndexService))
+    private readonly indexService: IndexService,
+    private readonly indexAliasService: IndexAliasService,
+    @Inject(forwardRef(() => DocumentService))
+    private readonly documentService: DocumentService,
+    @Inject(forwardRef(() => BulkOperationsService))
+    private readonly bulkOperationsService: BulkOperationsService,
+    private readonly schemaEnforcement: SchemaEnforcementService,
+  ) {}
+
+  /**
+   * Checks the request and resolves aliases to the indices to read and write, so a
+   * background task can be refused before it is queued and is not affected by
+   * alias changes while it runs
+   */
+  async prepare(dto: ReindexDto): Promise<ReindexDto> {
+    const sources = await this.indexAliasService.resolveReadIndices(dto.source.index);
+    if (sources.length !== 1) {
+      throw new BadRequestException(
+        `Source ${dto.source.index} must resolve to a single index, not ${sources.length}`,
+      );
+    }
+    const [source] = sources;
+    const dest = await this.indexAliasService.resolveWriteIndex(dto.dest.index);
+    if (source === dest) {
+      throw new BadRequestException('Source and destination must be different indices');
+    }
+
+    for (const indexName of [source, dest]) {
+      if (!(await this.indexService.getIndex(indexName))) {
+        throw new NotFoundException(`Index ${indexName} not found`);
+      }
+    }
+    ReindexPipeline.compile(dto.pipeline);
+
+    return { ...dto, source: { ...dto.source, index: source }, dest: { ...dto.dest, index: dest } };
+  }
+
+  /**
+   * Runs every slice of a prepared request in this process
+   */
+  async reindex(dto: ReindexDto, hooks: ReindexHooks = {}): Promise<ReindexResponseDto> {
+    const max = dto.slices ?? 1;
+    if (max === 1) {
+      return this.reindexSlice(dto, { id: 0, max }, undefined, hooks);
+    }
+
+    const reports = await Promise.all(
+      Array.from({ length: max }, (_, id) =>
+        this.reindexSlice(dto, { id, max }, undefined, { isCancelled: hooks.isCancelled }),
+      ),
+    );
+    return this.mergeReports(reports);
+  }
+
+  /**
+   * Copies one slice of a prepared request, from the checkpoint when given
+   */
+  async reindexSlice(
+    dto: ReindexDto,
+    slice: ReindexSlice,
+    checkpoint: ReindexCheckpoint | undefined,
+    hooks: ReindexHooks = {},
+  ): Promise<ReindexResponseDto> {
+    const steps = ReindexPipeline.compile(dto.pipeline);
+    const { index: source, query } = dto.source;
+    const startTime = Date.now() - (checkpoint?.report.took ?? 0);
+    const report: ReindexResponseDto = checkpoint
+      ? cloneDeep(checkpoint.report)
+      : {
+          ...emptyReport(),
+          total: await this.countMatches(source, query, slice),
+          created: 0,
+          updated: 0,
+          noops: 0,
+          versionConflicts: 0,
+        };
+    // The rate is shared by the slices
+    const requestsPerSecond = dto.requests_per_second && dto.requests_per_second / slice.max;
+    const batchSize = batchSizeFor(requestsPerSecond);
+
+    let afterId = checkpoint?.afterId ?? '';
+    // A slice resumed after a crash writes the batch it was writing again, so conflicts
+    // with its own earlier attempt must not abort it
+    let resuming = Boolean(checkpoint);
+    for (;;) {
+      if (await hooks.isCancelled?.()) {
+        report.cancelled = true;
+        break;
+      }
+
+      const batchStart = Date.now();
+      let rows: Array<{ document_id: string; content: Record<string, any> }>;
+      let aborted: boolean;
+      try {
+        rows = await this.readBatch(source, query, slice, afterId, batchSize);
+        if (rows.length === 0) break;
+        aborted = await this.copyBatch(dto, steps, rows, report, resuming);
+      } catch (error) {
+        this.logger.error(`Reindex of ${source} into ${dto.dest.index} failed: ${error.message}`);
+        addFailure(report, { error: error.message }, rows?.length ?? 0);
+        break;
+      }
+      afterId = rows[rows.length - 1].document_id;
+      resuming = false;
+      report.batches++;
+      report.took = Date.now() - startTime;
+
+      await hooks.onCheckpoint?.({ afterId, report });
+      await hooks.onProgress?.(report);
+      if (aborted) break;
+      await throttleBatch(report, rows.length, requestsPerSecond, batchStart);
+    }
+
+    report.took = Date.now() - startTime;
+    this.logger.log(
+      `Reindexed ${report.created + report.updated} of ${
+        report.total
+      } documents from ${source} into ${dto.dest.index}${
+        slice.max > 1 ? ` (slice ${slice.id + 1} of ${slice.max})` : ''
+      }`,
+    );
+    return report;
+  }
+
+  /**
+   * Sums the reports of the slices of a reindex, keeping each one under slices
+   */
+  mergeReports(reports: ReindexResponseDto[]): ReindexResponseDto {
+    const merged: ReindexResponseDto = {
+      ...emptyReport(),
+      created: 0,
+      updated: 0,
+      noops: 0,
+      versionConflicts: 0,
+      slices: reports,
+    };
+    for (const report of reports) {
+      for (const field of [
+        'total',
+        'batches',
+        'failed',
+        'throttledMillis',
+        'created',
+        'updated',
+        'noops',
+        'versionConflicts',
+      ]) {
+        merged[field] += report[field];
+      }
+      merged.took = Math.max(merged.took, report.took);
+      merged.cancelled = merged.cancelled || report.cancelled;
+      report.failures.forEach(failure => addFailure(merged, failure, 0));
+    }
+    return merged;
+  }
+
+  /**
+   * Transforms and writes a batch, counting the outcome of each document. Returns
+   * true when a version conflict should stop the reindex.
+   */
+  private async copyBatch(
+    dto: ReindexDto,
+    steps: CompiledReindexStep[],
+    rows: Array<{ document_id: string; content: Record<string, any> }>,
+    report: ReindexResponseDto,
+    resuming: boolean,
+  ): Promise<boolean> {
+    const dest = dto.dest.index;
+    const documents: Array<{ id: string; document: Record<string, any> }> = [];
+    for (const row of rows) {
+      try {
+        const { document, noop } = ReindexPipeline.apply(steps, row.content);
+        if (noop) {
+          report.noops++;
+        } else {
+          documents.push({ id: row.document_id, document });
+        }
+      } catch (error) {
+        addFailure(report, { id: row.document_id, error: error.message });
+      }
+    }
+
+    // Copied documents must match a schema bound to the destination
+    const { accepted, violations } = await this.schemaEnforcement.check(dest, documents);
+    for (const violation of violations.filter(v => v.mode !== 'warn')) {
+      addFailure(report, {
+        id: violation.documentId,
+        error: schemaViolationMessage(violation),
+        errors: violation.errors,
+      });
+    }
+    if (accepted.length === 0) return false;
+
+    await this.documentService.ensureFieldMappings(
+      dest,
+      accepted.map(({ document }) => document),
+    );
+    const results = await this.bulkOperationsService.execute(
+      accepted.map(({ id, document }) => ({
+        action: dto.dest.op_type ?? 'index',
+        index: dest,
+        id,
+        document,
+      })),
+    );
+
+    const proceed = dto.conflicts === 'proceed' || resuming;
+    let aborted = false;
+    for (const result of results) {
+      if (result.result === 'created') {
+        report.created++;
+      } else if (result.result === 'updated') {
+        report.updated++;
+      } else if (result.status === 409) {
+        report.versionConflicts++;
+        if (!proceed) {
+          addFailure(report, { id: result.id, error: result.error });
+          aborted = true;
+        }
+      } else {
+        addFailure(report, { id: result.id, error: result.error, errors: result.errors });
+      }
+    }
+    return aborted;
+  }
+
+  private async readBatch(
+    indexName: string,
+    query: Record<string, any> | undefined,
+    slice: ReindexSlice,
+    afterId: string,
+    limit: number,
+  ): Promise<Array<{ document_id: string; content: Record<string, any> }>> {
+    const params: any[] = [indexName, afterId];
+    const conditions = await this.conditions(indexName, query, slice, params);
+    params.push(limit);
+    return this.dataSource.query(
+      `SELECT document_id, content FROM documents
+       WHERE index_name = $1 AND document_id > $2${conditions}
+       ORDER BY document_id
+       LIMIT $${params.length}`,
+      params,
+    );
+  }
+
+  private async countMatches(
+    indexName: string,
+    query: Record<string, any> | undefined,
+    slice: ReindexSlice,
+  ): Promise<number> {
+    const params: any[] = [indexName];
+    const conditions = await this.conditions(indexName, query, slice, params);
+    const [row] = await this.dataSource.query(
+      `SELECT COUNT(*) AS total FROM documents WHERE index_name = $1${conditions}`,
+      params,
+    );
+    return parseInt(row?.total || '0', 10);
+  }
+
+  /**
+   * The query filter and the slice, as conditions to append to a WHERE clause
+   */
+  private async conditions(
+    indexName: string,
+    query: Record<string, any> | undefined,
+    slice: ReindexSlice,
+    params: any[],
+  ): Promise<string> {
+    let conditions = '';
+    if (slice.max > 1) {
+      params.push(slice.max, slice.id);
+      // Masking the sign bit keeps the hash non-negative, which abs() cannot do for INT_MIN
+      conditions += ` AND (hashtext(document_id) & 2147483647) % $${params.length - 1} = $${
+        params.length
+      }`;
+    }
+    const filter = await this.postgresService.buildFilterClause(indexName, query, params);
+    return filter ? `${conditions} AND ${filter}` : conditions;
+  }
+}
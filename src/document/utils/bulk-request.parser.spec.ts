@@ -0,0 +1,89 @@
+import { BadRequestException } from '@nestjs/common';
+import { BulkRequestParser } from './bulk-request.parser';
+
+describe('BulkRequestParser', () => {
+  const ndjson = (...lines: object[]) => lines.map(line => JSON.stringify(line)).join('\n') + '\n';
+
+  it('reads every action with its source line', () => {
+    const operations = BulkRequestParser.parse(
+      ndjson(
+        { index: { _id: 1 } },
+        { title: 'Desk lamp' },
+        { create: { _index: 'products', _id: '2' } },
+        { title: 'Floor lamp' },
+        { update: { _id: '3' } },
+        { doc: { price: 19 }, doc_as_upsert: true },
+        { delete: { _id: '4' } },
+      ),
+      'products',
+    );
+
+    expect(operations).toEqual([
+      { action: 'index', index: 'products', id: '1', document: { title: 'Desk lamp' } },
+      { action: 'create', index: 'products', id: '2', document: { title: 'Floor lamp' } },
+      {
+        action: 'update',
+        index: 'products',
+        id: '3',
+        document: { price: 19 },
+        upsert: { price: 19 },
+      },
+      { action: 'delete', index: 'products', id: '4' },
+    ]);
+  });
+
+  it('generates ids for index and create and keeps them', () => {
+    const [operation] = BulkRequestParser.parse(ndjson({ index: {} }, { a: 1 }), 'products');
+    expect(operation.id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('marks actions that cannot run instead of failing the request', () => {
+    const operations = BulkRequestParser.parse(
+      ndjson({ delete: {} }, { delete: { _index: 'orders', _id: '1' } }),
+      'products',
+    );
+
+    expect(operations.map(operation => operation.error)).toEqual([
+      { status: 400, message: '_id is required to delete' },
+      { status: 400, message: '_index must be products on this route' },
+    ]);
+    expect(BulkRequestParser.parse(ndjson({ delete: { _id: '1' } }))[0].error).toEqual({
+      status: 400,
+      message: '_index is required',
+    });
+  });
+
+  it('reads version preconditions from the action metadata', () => {
+    const operations = BulkRequestParser.parse(
+      ndjson(
+        { delete: { _id: '1', if_seq_no: 12 } },
+        { delete: { _id: '2', version: 5, version_type: 'external' } },
+        { delete: { _id: '3', version: 5 } },
+      ),
+      'products',
+    );
+
+    expect(operations[0].precondition).toEqual({ ifSeqNo: 12 });
+    expect(operations[1].precondition).toEqual({ externalVersion: 5 });
+    expect(operations[2].error).toEqual({
+      status: 400,
+      message: 'version is only accepted with version_type=external, use if_version instead',
+    });
+  });
+
+  it('rejects malformed lines', () => {
+    expect(() => BulkRequestParser.parse('{"index":{}}\n{oops}\n', 'products')).toThrow(
+      BadRequestException,
+    );
+    expect(() => BulkRequestParser.parse(ndjson({ upsert: {} }), 'products')).toThrow(
+      'Line 1: expected an action',
+    );
+    expect(() => BulkRequestParser.parse(ndjson({ index: {} }), 'products')).toThrow(
+      'must be followed by a source line',
+    );
+    expect(() =>
+      BulkRequestParser.parse(ndjson({ update: { _id: '1' } }, { price: 1 }), 'products'),
+    ).toThrow('update needs a doc object');
+    expect(() => BulkRequestParser.parse({} as any, 'products')).toThrow('must be NDJSON');
+  });
+});
@@ -0,0 +1,136 @@
+import { BadRequestException } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { BulkAction, BulkOperation } from '../interfaces/bulk-operation.interface';
+import { parseVersionPrecondition } from './document-version';
+
+export const BULK_ACTIONS: BulkAction[] = ['index', 'create', 'update', 'delete'];
+
+/**
+ * Reads an Elasticsearch-style NDJSON bulk body: an action line, followed by a
+ * source line for index, create and update
+ */
+export class BulkRequestParser {
+  /**
+   * Throws on malformed lines. Problems that only concern one action, such as a
+   * missing _id, are set on the operation instead so the rest still runs.
+   *
+   * @param index - Index of the URL, if any; actions may only name this one
+   */
+  static parse(body: string, index?: string): BulkOperation[] {
+    if (typeof body !== 'string') {
+      throw new BadRequestException(
+        'The bulk body must be NDJSON (Content-Type: application/x-ndjson)',
+      );
+    }
+
+    const lines = body
+      .split(/\r?\n/)
+      .map((text, number) => ({ text: text.trim(), number: number + 1 }))
+      .filter(line => line.text !== '');
+    const operations: BulkOperation[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const actionLine = this.parseLine(lines[i].text, lines[i].number);
+      const keys = Object.keys(actionLine);
+      const action = keys[0] as BulkAction;
+      if (
+        keys.length !== 1 ||
+        !BULK_ACTIONS.includes(action) ||
+        !this.isObject(actionLine[action])
+      ) {
+        throw new BadRequestException(
+          `Line ${lines[i].number}: expected an action (${BULK_ACTIONS.join(
+            ', ',
+          )}) with its metadata`,
+        );
+      }
+
+      const metadata = actionLine[action];
+      const operation: BulkOperation = {
+        action,
+        index: metadata._index ?? index,
+        id: metadata._id !== undefined ? String(metadata._id) : undefined,
+      };
+
+      if (action !== 'delete') {
+        const line = lines[++i];
+        if (!line) {
+          throw new BadRequestException(
+            `Line ${lines[i - 1].number}: ${action} must be followed by a source line`,
+          );
+        }
+        const source = this.parseLine(line.text, line.number);
+        if (action === 'update') {
+          if (!this.isObject(source.doc)) {
+            throw new BadRequestException(`Line ${line.number}: update needs a doc object`);
+          }
+          operation.document = source.doc;
+          if (source.doc_as_upsert === true) operation.upsert = source.doc;
+          if (this.isObject(source.upsert)) operation.upsert = source.upsert;
+        } else {
+          operation.document = source;
+        }
+      }
+
+      operation.error =
+        this.checkOperation(operation, index) ?? this.readPrecondition(operation, metadata);
+      if (!operation.id && (action === 'index' || action === 'create')) {
+        operation.id = uuidv4();
+      }
+      if (!operation.error) delete operation.error;
+      operations.push(operation);
+    }
+    return operations;
+  }
+
+  private static checkOperation(
+    operation: BulkOperation,
+    index?: string,
+  ): BulkOperation['error'] | undefined {
+    if (!operation.index || typeof operation.index !== 'string') {
+      return { status: 400, message: '_index is required' };
+    }
+    // Keeps per-index API keys to the index in the URL
+    if (index && operation.index !== index) {
+      return { status: 400, message: `_index must be ${index} on this route` };
+    }
+    if (!operation.id && (operation.action === 'update' || operation.action === 'delete')) {
+      return { status: 400, message: `_id is required to ${operation.action}` };
+    }
+    return undefined;
+  }
+
+  /**
+   * Sets the precondition of if_version, if_seq_no or version_type=external metadata,
+   * or returns why it is invalid
+   */
+  private static readPrecondition(
+    operation: BulkOperation,
+    metadata: Record<string, any>,
+  ): BulkOperation['error'] | undefined {
+    try {
+      const precondition = parseVersionPrecondition(metadata);
+      if (Object.keys(precondition).length > 0) operation.precondition = precondition;
+      return undefined;
+    } catch (error) {
+      return { status: 400, message: error.message };
+    }
+  }
+
+  private static parseLine(text: string, number: number): Record<string, any> {
+    let value: any;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      throw new BadRequestException(`Line ${number}: ${error.message}`);
+    }
+    if (!this.isObject(value)) {
+      throw new BadRequestException(`Line ${number}: must be a JSON object`);
+    }
+    return value;
+  }
+
+  private static isObject(value: any): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
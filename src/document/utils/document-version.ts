@@ -0,0 +1,90 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  DocumentVersion,
+  VersionPrecondition,
+} from '../../storage/postgresql/interfaces/document-version.interface';
+
+export const VERSION_TYPES = ['internal', 'external'];
+
+/**
+ * Versioning parameters of a write, from the query string or the metadata of a bulk action
+ */
+export interface VersionParams {
+  if_version?: string | number;
+  if_seq_no?: string | number;
+  version?: string | number;
+  version_type?: string;
+}
+
+/**
+ * Reads the precondition of a write. With version_type=external the caller keeps the
+ * versions, e.g. a timestamp from the source system, and a write only applies when
+ * its version is higher than the stored one.
+ */
+export function parseVersionPrecondition(params: VersionParams): VersionPrecondition {
+  const versionType = params.version_type ?? 'internal';
+  if (!VERSION_TYPES.includes(versionType)) {
+    throw new BadRequestException(`version_type must be one of: ${VERSION_TYPES.join(', ')}`);
+  }
+
+  const precondition: VersionPrecondition = {
+    ifVersion: toVersionNumber(params.if_version, 'if_version'),
+    ifSeqNo: toVersionNumber(params.if_seq_no, 'if_seq_no'),
+  };
+  const version = toVersionNumber(params.version, 'version');
+
+  if (versionType === 'external') {
+    if (version === undefined) {
+      throw new BadRequestException('version is required with version_type=external');
+    }
+    if (precondition.ifVersion !== undefined || precondition.ifSeqNo !== undefined) {
+      throw new BadRequestException(
+        'if_version and if_seq_no cannot be combined with version_type=external',
+      );
+    }
+    precondition.externalVersion = version;
+  } else if (version !== undefined) {
+    throw new BadRequestException(
+      'version is only accepted with version_type=external, use if_version instead',
+    );
+  }
+
+  Object.keys(precondition).forEach(
+    key => precondition[key] === undefined && delete precondition[key],
+  );
+  return precondition;
+}
+
+/**
+ * Message of the 409 a write gets when the stored document does not meet its
+ * precondition, or null when it does
+ */
+export function versionConflictMessage(
+  id: string,
+  precondition: VersionPrecondition,
+  current: Partial<DocumentVersion> | null,
+): string | null {
+  const { ifVersion, ifSeqNo, externalVersion } = precondition;
+  if ((ifVersion !== undefined || ifSeqNo !== undefined) && !current) {
+    return `[${id}]: version conflict, document does not exist`;
+  }
+  if (ifVersion !== undefined && current.version !== ifVersion) {
+    return `[${id}]: version conflict, current version [${current.version}] is different than the one provided [${ifVersion}]`;
+  }
+  if (ifSeqNo !== undefined && current.seqNo !== ifSeqNo) {
+    return `[${id}]: version conflict, current seq_no [${current.seqNo}] is different than the one provided [${ifSeqNo}]`;
+  }
+  if (externalVersion !== undefined && current && current.version >= externalVersion) {
+    return `[${id}]: version conflict, current version [${current.version}] is higher or equal to the one provided [${externalVersion}]`;
+  }
+  return null;
+}
+
+function toVersionNumber(value: string | number | undefined, name: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isSafeInteger(number) || number < 0) {
+    throw new BadRequestException(`${name} must be a non-negative integer`);
+  }
+  return number;
+}
@@ -0,0 +1,56 @@
+import { BadRequestException } from '@nestjs/common';
+import { ReindexPipeline } from './reindex-pipeline';
+
+describe('ReindexPipeline', () => {
+  it('renames, drops, converts and scripts fields in order', () => {
+    const steps = ReindexPipeline.compile([
+      { op: 'rename', from: 'name', to: 'title' },
+      { op: 'drop', fields: ['legacy_code', 'meta.internal'] },
+      { op: 'change_type', field: 'price', to: 'number' },
+      { op: 'script', source: 'doc.price = doc.price * params.rate', params: { rate: 100 } },
+    ]);
+    const source = { name: 'Lamp', legacy_code: 'X1', price: '2.5', meta: { internal: true } };
+
+    expect(ReindexPipeline.apply(steps, source)).toEqual({
+      document: { title: 'Lamp', price: 250, meta: {} },
+      noop: false,
+    });
+    expect(source.name).toBe('Lamp');
+  });
+
+  it('skips documents a script leaves out', () => {
+    const steps = ReindexPipeline.compile([
+      { op: 'script', source: 'if (doc.stock == 0) noop' },
+      { op: 'drop', fields: ['stock'] },
+    ]);
+
+    expect(ReindexPipeline.apply(steps, { stock: 0 }).noop).toBe(true);
+    expect(ReindexPipeline.apply(steps, { stock: 2 })).toEqual({ document: {}, noop: false });
+  });
+
+  it('throws for documents a step cannot be applied to', () => {
+    const steps = ReindexPipeline.compile([
+      { op: 'split', field: 'name', into: ['first', 'last'] },
+    ]);
+
+    expect(() => ReindexPipeline.apply(steps, { name: 42 })).toThrow(
+      '/name must be a string to be split',
+    );
+  });
+
+  it.each([
+    [[{ op: 'explode' }], 'pipeline[0]: op must be one of'],
+    [[{ op: 'drop', fields: [] }], 'pipeline[0]: drop needs at least one field'],
+    [[{ op: 'rename', from: 'a' }], 'pipeline[0]: rename needs from and to fields'],
+    [
+      [
+        { op: 'drop', fields: ['a'] },
+        { op: 'script', source: 'doc.a +' },
+      ],
+      'pipeline[1]: Script syntax error',
+    ],
+  ])('rejects %j', (steps, message) => {
+    expect(() => ReindexPipeline.compile(steps as any)).toThrow(BadRequestException);
+    expect(() => ReindexPipeline.compile(steps as any)).toThrow(message);
+  });
+});
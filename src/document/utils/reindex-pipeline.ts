@@ -0,0 +1,98 @@
+import { BadRequestException } from '@nestjs/common';
+import { cloneDeep, unset } from 'lodash';
+import { MigrationStep } from '../../schema/interfaces/schema.interface';
+import { MIGRATION_OPS, SchemaMigrator } from '../../schema/utils/schema-migrator';
+import { CompiledReindexStep, ReindexStep } from '../interfaces/reindex.interface';
+import { UpdateScript } from './update-script';
+
+export const REINDEX_OPS = [...MIGRATION_OPS, 'drop', 'script'];
+
+/**
+ * Transforms documents on their way from the source to the destination of a reindex
+ */
+export class ReindexPipeline {
+  /**
+   * Checks the steps and parses their scripts once, before any document is read
+   */
+  static compile(steps: ReindexStep[] = []): CompiledReindexStep[] {
+    if (!Array.isArray(steps)) {
+      throw new BadRequestException('pipeline must be an array of steps');
+    }
+
+    return steps.map((step, index): CompiledReindexStep => {
+      const fail = (message: string) => new BadRequestException(`pipeline[${index}]: ${message}`);
+
+      switch (step?.op) {
+        case 'drop':
+          if (
+            !Array.isArray(step.fields) ||
+            step.fields.length === 0 ||
+            !step.fields.every(field => typeof field === 'string' && field.length > 0)
+          ) {
+            throw fail('drop needs at least one field');
+          }
+          return { op: 'drop', fields: step.fields };
+
+        case 'script': {
+          if (step.params !== undefined && (typeof step.params !== 'object' || !step.params)) {
+            throw fail('script params must be an object');
+          }
+          try {
+            return {
+              op: 'script',
+              statements: UpdateScript.compile(step.source),
+              params: step.params || {},
+            };
+          } catch (error) {
+            throw fail(error.message);
+          }
+        }
+
+        default: {
+          if (!MIGRATION_OPS.includes(step?.op)) {
+            throw fail(`op must be one of: ${REINDEX_OPS.join(', ')}`);
+          }
+          const [error] = SchemaMigrator.validateSteps([step as MigrationStep]);
+          if (error) throw fail(error.message);
+          return step as MigrationStep;
+        }
+      }
+    });
+  }
+
+  /**
+   * Runs the steps on a copy of the document. noop is set when a script left the
+   * document out; a step that cannot be applied throws.
+   */
+  static apply(
+    steps: CompiledReindexStep[],
+    source: Record<string, any>,
+  ): { document: Record<string, any>; noop: boolean } {
+    let document = cloneDeep(source);
+
+    for (const step of steps) {
+      switch (step.op) {
+        case 'drop':
+          step.fields.forEach(field => unset(document, field));
+          break;
+
+        case 'script': {
+          const result = UpdateScript.run(step.statements, document, step.params);
+          if (result.noop) return { document, noop: true };
+          document = result.document;
+          break;
+        }
+
+        default: {
+          const result = SchemaMigrator.migrateDocument([step], document);
+          if (result.errors.length > 0) {
+            const [{ path, message }] = result.errors;
+            throw new Error(`${path} ${message}`);
+          }
+          document = result.document;
+        }
+      }
+    }
+    return { document, noop: false };
+  }
+}
@@ -0,0 +1,87 @@
+import { BadRequestException } from '@nestjs/common';
+import { UpdateScript } from './update-script';
+
+describe('UpdateScript', () => {
+  const run = (source: string, document: Record<string, any>, params = {}) =>
+    UpdateScript.run(UpdateScript.compile(source), document, params);
+
+  it('increments counters, appends, removes and sets missing fields', () => {
+    const { document, noop } = run(
+      `doc.views += params.count; doc.stock -= 1; append(doc.tags, 'sale');
+       remove(doc.colors, ['red', 'blue']); doc.owner ??= 'ada'; doc.title ??= 'Lamp';
+       unset(doc.draft); doc['first name'] = 'Ada' + ' ' + 'King'`,
+      { stock: 5, colors: ['red', 'green', 'blue'], title: 'Desk', draft: true },
+      { count: 2 },
+    );
+
+    expect(noop).toBe(false);
+    expect(document).toEqual({
+      views: 2,
+      stock: 4,
+      tags: ['sale'],
+      colors: ['green'],
+      owner: 'ada',
+      title: 'Desk',
+      'first name': 'Ada King',
+    });
+  });
+
+  it('runs branches and stops on noop', () => {
+    const source = `if (doc.stock == 0 || !exists(doc.stock)) noop; else doc.stock -= 1;
+      if (contains(doc.tags, 'new') && size(doc.tags) > 1) { doc.featured = true }`;
+
+    expect(run(source, { stock: 0 }).noop).toBe(true);
+    expect(run(source, { stock: 3, tags: ['new', 'sale'] })).toEqual({
+      document: { stock: 2, tags: ['new', 'sale'], featured: true },
+      noop: false,
+    });
+  });
+
+  it('leaves the original document untouched', () => {
+    const document = { nested: { count: 1 } };
+    run('doc.nested.count += 1', document);
+    expect(document).toEqual({ nested: { count: 1 } });
+  });
+
+  it.each([
+    ['doc.views + 1', 'expected =, +=, -= or ??='],
+    ['doc.a = 1 doc.b = 2', 'expected ;'],
+    ['doc.__proto__.polluted = true', '__proto__ cannot be accessed'],
+    ['params.x = 1', 'expected a statement'],
+    ['doc = 1', 'not doc itself'],
+    ['doc.a = "open', 'unterminated string'],
+    ['doc.a = exists(1)', 'exists takes a field'],
+  ])('rejects %s', (source, message) => {
+    expect(() => UpdateScript.compile(source)).toThrow(message);
+  });
+
+  it('reports runtime errors as bad requests', () => {
+    expect(() => run('doc.title += 1', { title: 'Lamp' })).toThrow(BadRequestException);
+    expect(() => run('append(doc.title, 1)', { title: 'Lamp' })).toThrow(
+      'Script error: doc.title is not an array',
+    );
+    expect(() => run('doc.ratio = 1 / doc.zero', { zero: 0 })).toThrow('division by zero');
+  });
+
+  it('bounds the size of what a script writes', () => {
+    const doubling = Array(30).fill('doc.a = [doc.a, doc.a]').join('; ');
+    expect(() => run(doubling, { a: 'x'.repeat(100) })).toThrow(
+      'Script error: a script can write at most 10000000 characters',
+    );
+    expect(() => run('append(doc.tags, params.tags)', {}, { tags: Array(100001).fill(1) })).toThrow(
+      'Script error: arrays are limited to 100000 elements',
+    );
+
+    let nested: any = 1;
+    for (let i = 0; i < 64; i++) nested = [nested];
+    expect(() => run('doc.a.b = params.nested', {}, { nested })).toThrow(
+      'Script error: values are limited to 64 levels of nesting',
+    );
+  });
+
+  it('rejects a resulting document over the size limit', () => {
+    expect(() => run('doc.views += 1', { body: 'x'.repeat(10000000) })).toThrow(
+      'Script error: documents are limited to 10000000 characters',
+    );
+  });
+});
@@ -0,0 +1,687 @@
+import { BadRequestException } from '@nestjs/common';
+import { cloneDeep, isEqual, set, unset } from 'lodash';
+import { ScriptExpression, ScriptStatement } from '../interfaces/update-script.interface';
+
+// Scripts have no loops or user functions; these bound what is left
+const MAX_SOURCE_LENGTH = 10000;
+const MAX_NESTING = 32;
+const MAX_STRING_LENGTH = 1000000;
+const MAX_ARRAY_LENGTH = 100000;
+const MAX_VALUE_DEPTH = 64;
+// Serialized characters, of the result and of all values a script writes together
+const MAX_DOCUMENT_SIZE = 10000000;
+
+const FORBIDDEN_KEYS = ['__proto__', 'constructor', 'prototype'];
+const ASSIGNMENTS = ['=', '+=', '-=', '??='];
+
+// Longest first, so that ??= is not read as ?? followed by =
+// prettier-ignore
+const OPERATORS = [
+  '??=', '+=', '-=', '==', '!=', '<=', '>=', '&&', '||',
+  '=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '{', '}', '[', ']', '.', ',', ';',
+];
+
+// Binary operators by precedence, loosest first
+const PRECEDENCE = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'end';
+  value: any;
+  position: number;
+}
+
+/**
+ * A small expression language for partial updates. A script is a list of
+ * statements separated by semicolons, over the document (`doc`) and the request
+ * parameters (`params`):
+ *
+ * - `doc.views += 1`, `doc.stock -= params.sold`, `doc.status = 'sold'`
+ * - `doc.createdBy ??= params.user` sets a field only if it is missing
+ * - `append(doc.tags, 'new')`, `remove(doc.tags, 'old')`, `unset(doc.draft)`
+ * - `if (doc.stock == 0) noop` leaves the document untouched
+ * - `if (exists(doc.price) && doc.price > 100) { ... } else { ... }`
+ *
+ * Expressions support literals, arrays, arithmetic, comparisons, `!`, `&&`, `||`
+ * and the functions exists, contains and size. There are no loops and no access to
+ * anything but the document and the parameters.
+ */
+export class UpdateScript {
+  /**
+   * Parses a script once, so it can run against many documents
+   */
+  static compile(source: string): ScriptStatement[] {
+    if (typeof source !== 'string' || source.trim() === '') {
+      throw new BadRequestException('script.source must be a non-empty string');
+    }
+    if (source.length > MAX_SOURCE_LENGTH) {
+      throw new BadRequestException(
+        `script.source must be at most ${MAX_SOURCE_LENGTH} characters`,
+      );
+    }
+    return new ScriptParser(tokenize(source)).parse();
+  }
+
+  /**
+   * Runs a script against a copy of the document. noop is set when the script asked
+   * to leave the document as it is.
+   */
+  static run(
+    statements: ScriptStatement[],
+    document: Record<string, any>,
+    params: Record<string, any> = {},
+  ): { document: Record<string, any>; noop: boolean } {
+    const runner = new ScriptRunner(cloneDeep(document), params || {});
+    const noop = runner.run(statements);
+    runner.checkDocument();
+    return { document: runner.document, noop };
+  }
+}
+
+function syntaxError(position: number, message: string): BadRequestException {
+  return new BadRequestException(`Script syntax error at position ${position}: ${message}`);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(source.slice(i));
+    const identifier = /^[A-Za-z_$][\w$]*/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]), position: i });
+      i += number[0].length;
+    } else if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], position: i });
+      i += identifier[0].length;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      for (; j < source.length && source[j] !== char; j++) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          j++;
+          value += { n: '\n', t: '\t' }[source[j]] ?? source[j];
+        } else {
+          value += source[j];
+        }
+      }
+      if (j >= source.length) {
+        throw syntaxError(i, 'unterminated string');
+      }
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+    } else {
+      const operator = OPERATORS.find(candidate => source.startsWith(candidate, i));
+      if (!operator) {
+        throw syntaxError(i, `unexpected character ${char}`);
+      }
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+    }
+  }
+
+  tokens.push({ type: 'end', value: undefined, position: source.length });
+  return tokens;
+}
+
+class ScriptParser {
+  private index = 0;
+  private nesting = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ScriptStatement[] {
+    const statements = this.parseStatements();
+    if (this.peek().type !== 'end') {
+      throw this.error(`unexpected ${this.describe(this.peek())}`);
+    }
+    return statements;
+  }
+
+  private parseStatements(): ScriptStatement[] {
+    const statements: ScriptStatement[] = [];
+    while (this.peek().type !== 'end' && !this.isOperator('}')) {
+      if (this.acceptOperator(';')) continue;
+
+      const statement = this.parseStatement();
+      statements.push(statement);
+      // A statement ends with a semicolon, unless it ends with a block
+      const last = this.tokens[this.index - 1];
+      const endsWithBlock = last.type === 'operator' && last.value === '}';
+      if (!endsWithBlock && !this.isOperator(';') && !this.isOperator('}')) {
+        if (this.peek().type !== 'end') throw this.error('expected ;');
+      }
+    }
+    return statements;
+  }
+
+  private parseStatement(): ScriptStatement {
+    return this.nested(() => {
+      const token = this.peek();
+      if (this.acceptIdentifier('noop')) {
+        return { type: 'noop' };
+      }
+      if (this.acceptIdentifier('if')) {
+        this.expectOperator('(');
+        const condition = this.parseExpression();
+        this.expectOperator(')');
+        const then = this.parseBranch();
+        // if (a) b; else c;
+        if (this.isOperator(';') && this.tokens[this.index + 1].value === 'else') {
+          this.index++;
+        }
+        const otherwise = this.acceptIdentifier('else') ? this.parseBranch() : [];
+        return { type: 'if', condition, then, otherwise };
+      }
+      if (token.type === 'identifier' && ['append', 'remove', 'unset'].includes(token.value)) {
+        this.index++;
+        this.expectOperator('(');
+        const target = this.parseTarget();
+        let value: ScriptExpression;
+        if (token.value !== 'unset') {
+          this.expectOperator(',');
+          value = this.parseExpression();
+        }
+        this.expectOperator(')');
+        return { type: 'call', name: token.value, target, ...(value && { value }) };
+      }
+
+      if (token.type === 'identifier' && token.value === 'doc') {
+        const target = this.parseTarget();
+        const operator = this.peek();
+        if (operator.type === 'operator' && ASSIGNMENTS.includes(operator.value)) {
+          this.index++;
+          return {
+            type: 'assign',
+            operator: operator.value,
+            target,
+            value: this.parseExpression(),
+          };
+        }
+        throw this.error('expected =, +=, -= or ??=');
+      }
+      throw this.error(
+        `expected a statement (assignment, if, noop, append, remove or unset), not ${this.describe(
+          token,
+        )}`,
+      );
+    });
+  }
+
+  private parseBranch(): ScriptStatement[] {
+    if (!this.acceptOperator('{')) {
+      return [this.parseStatement()];
+    }
+    const statements = this.nested(() => this.parseStatements());
+    this.expectOperator('}');
+    return statements;
+  }
+
+  /**
+   * A field of the document, e.g. doc.stats.views or doc['first name']
+   */
+  private parseTarget(): Array<string | number> {
+    if (!this.acceptIdentifier('doc')) {
+      throw this.error(`expected a field of doc, not ${this.describe(this.peek())}`);
+    }
+    const keys = this.parseKeys();
+    if (keys.length === 0) {
+      throw this.error('expected a field of doc, not doc itself');
+    }
+    return keys;
+  }
+
+  private parseKeys(): Array<string | number> {
+    const keys: Array<string | number> = [];
+    for (;;) {
+      let key: Token;
+      if (this.acceptOperator('.')) {
+        key = this.next();
+        if (key.type !== 'identifier') throw this.error('expected a field name', key);
+      } else if (this.acceptOperator('[')) {
+        key = this.next();
+        if (key.type !== 'string' && key.type !== 'number') {
+          throw this.error('expected a field name or array position', key);
+        }
+        this.expectOperator(']');
+      } else {
+        return keys;
+      }
+
+      if (FORBIDDEN_KEYS.includes(key.value)) {
+        throw this.error(`${key.value} cannot be accessed`, key);
+      }
+      keys.push(key.value);
+    }
+  }
+
+  private parseExpression(level = 0): ScriptExpression {
+    if (level === PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseExpression(level + 1);
+    while (this.peek().type === 'operator' && PRECEDENCE[level].includes(this.peek().value)) {
+      const operator = this.next().value;
+      left = { type: 'binary', operator, left, right: this.parseExpression(level + 1) };
+    }
+    return left;
+  }
+
+  private parseUnary(): ScriptExpression {
+    return this.nested(() => {
+      if (this.isOperator('!') || this.isOperator('-')) {
+        const operator = this.next().value;
+        return { type: 'unary', operator, operand: this.parseUnary() };
+      }
+      return this.parsePrimary();
+    });
+  }
+
+  private parsePrimary(): ScriptExpression {
+    const token = this.next();
+
+    if (token.type === 'number' || token.type === 'string') {
+      return { type: 'literal', value: token.value };
+    }
+    if (token.type === 'identifier') {
+      switch (token.value) {
+        case 'true':
+        case 'false':
+          return { type: 'literal', value: token.value === 'true' };
+        case 'null':
+          return { type: 'literal', value: null };
+        case 'doc':
+        case 'params':
+          return { type: 'path', root: token.value, keys: this.parseKeys() };
+        case 'exists':
+        case 'contains':
+        case 'size':
+          return this.parseFunction(token);
+      }
+    }
+    if (token.type === 'operator' && token.value === '(') {
+      const expression = this.parseExpression();
+      this.expectOperator(')');
+      return expression;
+    }
+    if (token.type === 'operator' && token.value === '[') {
+      const items = this.isOperator(']') ? [] : this.parseArguments();
+      this.expectOperator(']');
+      return { type: 'array', items };
+    }
+    throw this.error(`unexpected ${this.describe(token)}`, token);
+  }
+
+  private parseFunction(token: Token): ScriptExpression {
+    const name = token.value;
+    this.expectOperator('(');
+    const args = this.isOperator(')') ? [] : this.parseArguments();
+    this.expectOperator(')');
+
+    const arity = { exists: 1, contains: 2, size: 1 }[name];
+    if (args.length !== arity) {
+      throw this.error(`${name} takes ${arity} argument${arity > 1 ? 's' : ''}`, token);
+    }
+    if (name === 'exists' && args[0].type !== 'path') {
+      throw this.error('exists takes a field of doc or params', token);
+    }
+    return { type: 'function', name, args };
+  }
+
+  private parseArguments(): ScriptExpression[] {
+    const args = [this.parseExpression()];
+    while (this.acceptOperator(',')) {
+      args.push(this.parseExpression());
+    }
+    return args;
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.nesting > MAX_NESTING) {
+      throw this.error(`nested more than ${MAX_NESTING} levels deep`);
+    }
+    try {
+      return parse();
+    } finally {
+      this.nesting--;
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private acceptOperator(value: string): boolean {
+    if (!this.isOperator(value)) return false;
+    this.index++;
+    return true;
+  }
+
+  private acceptIdentifier(value: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'identifier' || token.value !== value) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.acceptOperator(value)) {
+      throw this.error(`expected ${value}, not ${this.describe(this.peek())}`);
+    }
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'end of script' : JSON.stringify(token.value);
+  }
+
+  private error(message: string, token = this.peek()): BadRequestException {
+    return syntaxError(token.position, message);
+  }
+}
+
+class ScriptRunner {
+  private noop = false;
+  // Serialized size of the values written so far, which bounds how far a script can
+  // grow a document by assigning it copies of itself
+  private written = 0;
+
+  constructor(
+    readonly document: Record<string, any>,
+    private readonly params: Record<string, any>,
+  ) {}
+
+  /**
+   * Returns whether the script asked for a noop
+   */
+  run(statements: ScriptStatement[]): boolean {
+    for (const statement of statements) {
+      this.execute(statement);
+      if (this.noop) break;
+    }
+    return this.noop;
+  }
+
+  private execute(statement: ScriptStatement): void {
+    switch (statement.type) {
+      case 'noop':
+        this.noop = true;
+        return;
+
+      case 'if': {
+        const branch = this.truthy(this.evaluate(statement.condition))
+          ? statement.then
+          : statement.otherwise;
+        this.run(branch);
+        return;
+      }
+
+      case 'assign': {
+        const { target, operator } = statement;
+        const value = this.evaluate(statement.value);
+        const current = this.read(this.document, target);
+        if (operator === '=' || (operator === '??=' && current === null)) {
+          this.checkWrite(target, value);
+          set(this.document, target, cloneDeep(value));
+        } else if (operator === '+=' || operator === '-=') {
+          // A missing counter starts at 0
+          const start = current ?? (typeof value === 'string' ? '' : 0);
+          const result = this.arithmetic(operator[0], start, value, target);
+          this.checkWrite(target, result);
+          set(this.document, target, result);
+        }
+        return;
+      }
+
+      case 'call': {
+        const { name, target } = statement;
+        const current = this.read(this.document, target);
+        if (name === 'unset') {
+          unset(this.document, target);
+          return;
+        }
+        if (current !== null && !Array.isArray(current)) {
+          throw this.error(`${this.name(target)} is not an array`);
+        }
+
+        // An array value appends or removes each of its elements
+        const value = this.evaluate(statement.value);
+        const values = Array.isArray(value) ? value : [value];
+        if (name === 'append') {
+          if ((current?.length || 0) + values.length > MAX_ARRAY_LENGTH) {
+            throw this.error(`arrays are limited to ${MAX_ARRAY_LENGTH} elements`);
+          }
+          this.checkWrite(target, values);
+          set(this.document, target, (current || []).concat(cloneDeep(values)));
+        } else if (current) {
+          set(
+            this.document,
+            target,
+            current.filter(element => !values.some(removed => isEqual(element, removed))),
+          );
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Fails once the document is too large, too deeply nested or has too long arrays
+   */
+  checkDocument(): void {
+    this.measure(this.document, 0, MAX_DOCUMENT_SIZE, 'documents are limited to');
+  }
+
+  private checkWrite(target: Array<string | number>, value: any): void {
+    this.written += this.measure(
+      value,
+      target.length,
+      MAX_DOCUMENT_SIZE - this.written,
+      'a script can write at most',
+    );
+  }
+
+  /**
+   * Serialized size of a value at the given depth. The walk stops as soon as the size
+   * passes the budget, so measuring a value that shares its parts many times costs
+   * no more than the limit.
+   */
+  private measure(value: any, depth: number, budget: number, limit: string): number {
+    if (depth > MAX_VALUE_DEPTH) {
+      throw this.error(`values are limited to ${MAX_VALUE_DEPTH} levels of nesting`);
+    }
+
+    let size = 2;
+    if (typeof value === 'string') {
+      size += value.length;
+    } else if (value === null || typeof value !== 'object') {
+      size = String(value).length;
+    } else if (Array.isArray(value)) {
+      if (value.length > MAX_ARRAY_LENGTH) {
+        throw this.error(`arrays are limited to ${MAX_ARRAY_LENGTH} elements`);
+      }
+      for (const element of value) {
+        size += this.measure(element, depth + 1, budget - size, limit) + 1;
+      }
+    } else {
+      for (const key of Object.keys(value)) {
+        size += key.length + 4 + this.measure(value[key], depth + 1, budget - size, limit);
+      }
+    }
+
+    if (size > budget) {
+      throw this.error(`${limit} ${MAX_DOCUMENT_SIZE} characters`);
+    }
+    return size;
+  }
+
+  private evaluate(expression: ScriptExpression): any {
+    switch (expression.type) {
+      case 'literal':
+        return expression.value;
+      case 'path':
+        return this.read(expression.root === 'doc' ? this.document : this.params, expression.keys);
+      case 'array':
+        return expression.items.map(item => this.evaluate(item));
+      case 'unary': {
+        const operand = this.evaluate(expression.operand);
+        if (expression.operator === '!') return !this.truthy(operand);
+        if (typeof operand !== 'number') {
+          throw this.error(`cannot negate ${this.typeOf(operand)}`);
+        }
+        return -operand;
+      }
+      case 'binary':
+        return this.binary(expression.operator, expression.left, expression.right);
+      case 'function':
+        return this.callFunction(expression.name, expression.args);
+    }
+  }
+
+  private binary(operator: string, leftExpression: ScriptExpression, right: ScriptExpression) {
+    const left = this.evaluate(leftExpression);
+    switch (operator) {
+      case '&&':
+        return this.truthy(left) && this.truthy(this.evaluate(right));
+      case '||':
+        return this.truthy(left) || this.truthy(this.evaluate(right));
+      case '==':
+        return isEqual(left, this.evaluate(right));
+      case '!=':
+        return !isEqual(left, this.evaluate(right));
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        return this.compare(operator, left, this.evaluate(right));
+      default:
+        return this.arithmetic(operator, left, this.evaluate(right));
+    }
+  }
+
+  private compare(operator: string, left: any, right: any): boolean {
+    const comparable =
+      (typeof left === 'number' && typeof right === 'number') ||
+      (typeof left === 'string' && typeof right === 'string');
+    if (!comparable) {
+      throw this.error(`cannot compare ${this.typeOf(left)} and ${this.typeOf(right)}`);
+    }
+    switch (operator) {
+      case '<':
+        return left < right;
+      case '<=':
+        return left <= right;
+      case '>':
+        return left > right;
+      default:
+        return left >= right;
+    }
+  }
+
+  private arithmetic(
+    operator: string,
+    left: any,
+    right: any,
+    target?: Array<string | number>,
+  ): number | string {
+    if (operator === '+' && typeof left === 'string' && typeof right === 'string') {
+      if (left.length + right.length > MAX_STRING_LENGTH) {
+        throw this.error(`strings are limited to ${MAX_STRING_LENGTH} characters`);
+      }
+      return left + right;
+    }
+    if (typeof left !== 'number' || typeof right !== 'number') {
+      const subject = target ? `${this.name(target)} is ${this.typeOf(left)}, and ` : '';
+      throw this.error(
+        `${subject}${operator} needs two numbers${operator === '+' ? ' or two strings' : ''}`,
+      );
+    }
+    if ((operator === '/' || operator === '%') && right === 0) {
+      throw this.error('division by zero');
+    }
+    switch (operator) {
+      case '+':
+        return left + right;
+      case '-':
+        return left - right;
+      case '*':
+        return left * right;
+      case '/':
+        return left / right;
+      default:
+        return left % right;
+    }
+  }
+
+  private callFunction(name: string, args: ScriptExpression[]): any {
+    if (name === 'exists') {
+      return this.evaluate(args[0]) !== null;
+    }
+
+    const value = this.evaluate(args[0]);
+    if (name === 'contains') {
+      const element = this.evaluate(args[1]);
+      if (Array.isArray(value)) return value.some(item => isEqual(item, element));
+      return typeof value === 'string' && typeof element === 'string' && value.includes(element);
+    }
+
+    if (value === null) return 0;
+    if (Array.isArray(value) || typeof value === 'string') return value.length;
+    if (typeof value === 'object') return Object.keys(value).length;
+    throw this.error(`size needs an array, string or object, not ${this.typeOf(value)}`);
+  }
+
+  /**
+   * Reads own properties only, so a script never sees prototypes; missing is null
+   */
+  private read(root: any, keys: Array<string | number>): any {
+    let value = root;
+    for (const key of keys) {
+      if (value === null || typeof value !== 'object') return null;
+      if (!Object.prototype.hasOwnProperty.call(value, key)) return null;
+      value = value[key];
+    }
+    return value === undefined ? null : value;
+  }
+
+  private truthy(value: any): boolean {
+    return value !== null && value !== false && value !== 0 && value !== '';
+  }
+
+  private typeOf(value: any): string {
+    if (value === null) return 'null';
+    return Array.isArray(value) ? 'an array' : `a ${typeof value}`;
+  }
+
+  private name(target: Array<string | number>): string {
+    return `doc.${target.join('.')}`;
+  }
+
+  private error(message: string): BadRequestException {
+    return new BadRequestException(`Script error: ${message}`);
+  }
+}
@@ -0,0 +1,157 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AnalyzerRegistryService } from '../analysis/analyzer-registry.service';
+import { PostgreSQLAnalysisAdapter } from '../storage/postgresql/postgresql-analysis.adapter';
+import { PostgreSQLService } from '../storage/postgresql/postgresql.service';
+import { AnalyzeService } from './analyze.service';
+import { IndexService } from './index.service';
+
+describe('AnalyzeService', () => {
+  let service: AnalyzeService;
+  let registry: AnalyzerRegistryService;
+  let indexService: { getIndex: jest.Mock };
+  let postgresService: { query: jest.Mock };
+
+  const analysis = {
+    analyzer: {
+      my_analyzer: { type: 'custom', tokenizer: 'whitespace', filter: ['lowercase', 'my_stop'] },
+    },
+    filter: { my_stop: { type: 'stopword', stopwords: ['the'] } } as any,
+  };
+
+  beforeEach(async () => {
+    indexService = {
+      getIndex: jest.fn().mockResolvedValue({
+        name: 'products',
+        settings: { analysis },
+        mappings: {
+          properties: {
+            title: { type: 'text', analyzer: 'my_analyzer', searchAnalyzer: 'keyword' },
+          },
+        },
+      }),
+    };
+    postgresService = {
+      query: jest.fn().mockResolvedValue([{ tsvector: "'brown':2 'quick':1" }]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalyzeService,
+        AnalyzerRegistryService,
+        PostgreSQLAnalysisAdapter,
+        { provide: IndexService, useValue: indexService },
+        { provide: PostgreSQLService, useValue: postgresService },
+      ],
+    }).compile();
+
+    service = module.get<AnalyzeService>(AnalyzeService);
+    registry = module.get<AnalyzerRegistryService>(AnalyzerRegistryService);
+    registry.registerIndexAnalyzers('products', analysis);
+  });
+
+  it('should return tokens with positions and offsets of the source text', async () => {
+    const result = await service.analyze('products', {
+      text: 'The Quick Brown',
+      analyzer: 'my_analyzer',
+    });
+
+    expect(result.analyzer).toBe('my_analyzer');
+    expect(result.tokens).toEqual([
+      { token: 'quick', start_offset: 4, end_offset: 9, type: '<ALPHANUM>', position: 1 },
+      { token: 'brown', start_offset: 10, end_offset: 15, type: '<ALPHANUM>', position: 2 },
+    ]);
+    expect(result.detail).toBeUndefined();
+  });
+
+  it('should break the analysis down per stage when explaining', async () => {
+    const result = await service.analyze('products', {
+      text: 'The Quick',
+      analyzer: 'my_analyzer',
+      explain: true,
+    });
+
+    expect(result.detail.tokenizer.name).toBe('whitespace');
+    expect(result.detail.tokenizer.tokens.map(token => token.token)).toEqual(['The', 'Quick']);
+    expect(result.detail.tokenfilters.map(stage => stage.name)).toEqual(['lowercase', 'stopword']);
+    expect(result.detail.tokenfilters[0].tokens.map(token => token.token)).toEqual([
+      'the',
+      'quick',
+    ]);
+  });
+
+  it('should use the analyzers mapped to a field', async () => {
+    const indexed = await service.analyze('products', { text: 'The Quick', field: 'title' });
+    const searched = await service.analyze('products', {
+      text: 'The Quick',
+      field: 'title',
+      searchAnalyzer: true,
+    });
+
+    expect(indexed.analyzer).toBe('my_analyzer');
+    expect(searched.analyzer).toBe('keyword');
+    expect(searched.tokens.map(token => token.token)).toEqual(['the quick']);
+  });
+
+  it('should build inline analyzers from the tokenizers and filters of the index', async () => {
+    const result = await service.analyze('products', {
+      text: 'the quick',
+      tokenizer: 'whitespace',
+      filter: ['my_stop'],
+    });
+
+    expect(result.analyzer).toBe('_custom');
+    expect(result.tokens.map(token => token.token)).toEqual(['quick']);
+  });
+
+  it('should report offsets in the original text when char filters change it', async () => {
+    const result = await service.analyze('products', {
+      text: '<p>Suya &amp; <b>Grill</b></p>',
+      tokenizer: 'standard',
+      charFilter: ['html_strip'],
+      explain: true,
+    });
+
+    expect(result.detail.charfilters).toEqual([
+      { name: 'html_strip', filtered_text: '\nSuya & Grill\n' },
+    ]);
+    const grill = result.tokens.find(token => token.token === 'grill');
+    expect(grill).toMatchObject({ start_offset: 17, end_offset: 22 });
+  });
+
+  it('should evaluate the tsvector generated by the analysis adapter', async () => {
+    const result = await service.analyze('products', {
+      text: 'Quick Brown',
+      analyzer: 'my_analyzer',
+    });
+
+    expect(result.tsvector.expression).toBe(
+      "setweight(to_tsvector('english', 'quick brown'), 'D')",
+    );
+    expect(result.tsvector.value).toBe("'brown':2 'quick':1");
+    expect(postgresService.query).toHaveBeenCalledWith(
+      `SELECT (${result.tsvector.expression})::text AS tsvector`,
+    );
+  });
+
+  it('should reject conflicting, unknown and unmapped analyzer sources', async () => {
+    await expect(
+      service.analyze('products', { text: 'x', analyzer: 'standard', field: 'title' }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(service.analyze('products', { text: 'x', analyzer: 'missing' })).rejects.toThrow(
+      "Unknown analyzer 'missing'",
+    );
+    await expect(service.analyze('products', { text: 'x', field: 'price' })).rejects.toThrow(
+      "Field 'price' is not mapped",
+    );
+    await expect(service.analyze('products', { text: 'x', tokenizer: 'missing' })).rejects.toThrow(
+      'Unknown tokenizer type: missing',
+    );
+  });
+
+  it('should reject unknown indices', async () => {
+    indexService.getIndex.mockResolvedValue(null);
+
+    await expect(service.analyze('missing', { text: 'x' })).rejects.toThrow(NotFoundException);
+  });
+});
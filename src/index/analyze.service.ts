@@ -0,0 +1,295 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { AnalyzerRegistryService } from '../analysis/analyzer-registry.service';
+import { SynonymFilter } from '../analysis/filters/synonym-filter';
+import { Analyzer } from '../analysis/interfaces/analyzer.interface';
+import { Tokenizer } from '../analysis/interfaces/tokenizer.interface';
+import { MappedText } from '../analysis/interfaces/char-filter.interface';
+import { mapText, originalSpan } from '../analysis/char-filters/mapped-text';
+import { IndexResponseDto } from '../api/dtos/index.dto';
+import { PostgreSQLAnalysisAdapter } from '../storage/postgresql/postgresql-analysis.adapter';
+import { PostgreSQLService } from '../storage/postgresql/postgresql.service';
+import { IndexService } from './index.service';
+
+export interface AnalyzeRequest {
+  text: string;
+  analyzer?: string;
+  field?: string;
+  searchAnalyzer?: boolean;
+  tokenizer?: string;
+  filter?: string[];
+  charFilter?: string[];
+  explain?: boolean;
+}
+
+export interface AnalyzeToken {
+  token: string;
+  start_offset: number | null;
+  end_offset: number | null;
+  type: string;
+  position: number;
+}
+
+export interface AnalyzeStage {
+  name: string;
+  tokens: AnalyzeToken[];
+}
+
+export interface AnalyzeCharFilterStage {
+  name: string;
+  filtered_text: string;
+}
+
+export interface AnalyzeResponse {
+  analyzer: string;
+  tokens: AnalyzeToken[];
+  detail?: {
+    charfilters?: AnalyzeCharFilterStage[];
+    tokenizer: AnalyzeStage;
+    tokenfilters: AnalyzeStage[];
+  };
+  tsvector: {
+    expression: string;
+    value: string | null;
+  };
+}
+
+const INLINE_ANALYZER = '_custom';
+
+/**
+ * Runs text through the analyzers of an index to show what gets indexed or
+ * searched: the tokens with their positions and offsets, optionally each
+ * stage of the analysis, and the tsvector the PostgreSQL adapter builds.
+ */
+@Injectable()
+export class AnalyzeService {
+  private readonly logger = new Logger(AnalyzeService.name);
+
+  constructor(
+    private readonly indexService: IndexService,
+    private readonly analyzerRegistry: AnalyzerRegistryService,
+    private readonly analysisAdapter: PostgreSQLAnalysisAdapter,
+    private readonly postgresService: PostgreSQLService,
+  ) {}
+
+  async analyze(indexName: string, request: AnalyzeRequest): Promise<AnalyzeResponse> {
+    const index = await this.indexService.getIndex(indexName);
+    if (!index) {
+      throw new NotFoundException(`Index with name ${indexName} not found`);
+    }
+
+    const { name, analyzer } = this.resolveAnalyzer(indexName, index, request);
+    const charFilterStages = this.runCharFilters(analyzer, request.text);
+    const filtered = charFilterStages.length
+      ? charFilterStages[charFilterStages.length - 1].mapped
+      : mapText(request.text);
+    const stages = this.runStages(analyzer, filtered);
+    const tokens = stages[stages.length - 1].tokens;
+
+    return {
+      analyzer: name,
+      tokens,
+      ...(request.explain && {
+        detail: {
+          ...(charFilterStages.length > 0 && {
+            charfilters: charFilterStages.map(stage => ({
+              name: stage.name,
+              filtered_text: stage.mapped.text,
+            })),
+          }),
+          tokenizer: stages[0],
+          tokenfilters: stages.slice(1),
+        },
+      }),
+      tsvector: await this.buildTsVector(
+        request.field || 'content',
+        tokens,
+        this.analyzerRegistry.getTextSearchConfig(analyzer),
+      ),
+    };
+  }
+
+  /**
+   * The analyzer named in the request, mapped to its field or defined inline,
+   * falling back to the index's default analyzer
+   */
+  private resolveAnalyzer(
+    indexName: string,
+    index: IndexResponseDto,
+    request: AnalyzeRequest,
+  ): { name: string; analyzer: Analyzer } {
+    const sources = [request.analyzer, request.field, request.tokenizer].filter(
+      source => source !== undefined,
+    );
+    if (sources.length > 1) {
+      throw new BadRequestException('Specify only one of analyzer, field and tokenizer');
+    }
+    if ((request.filter || request.charFilter) && !request.tokenizer) {
+      throw new BadRequestException(
+        'filter and charFilter can only be used with an inline tokenizer',
+      );
+    }
+
+    if (request.tokenizer) {
+      try {
+        const analyzer = this.analyzerRegistry.buildAnalyzer(
+          INLINE_ANALYZER,
+          {
+            type: 'custom',
+            tokenizer: request.tokenizer,
+            filter: request.filter,
+            charFilter: request.charFilter,
+          },
+          index.settings?.analysis,
+          indexName,
+        );
+        return { name: INLINE_ANALYZER, analyzer };
+      } catch (error) {
+        throw new BadRequestException(error.message);
+      }
+    }
+
+    let name = request.analyzer;
+    if (request.field) {
+      const mapping = index.mappings?.properties?.[request.field];
+      if (!mapping) {
+        throw new BadRequestException(
+          `Field '${request.field}' is not mapped in index ${indexName}`,
+        );
+      }
+      name = (request.searchAnalyzer && mapping.searchAnalyzer) || mapping.analyzer;
+    }
+
+    const defaults = request.searchAnalyzer ? ['default_search', 'default'] : ['default'];
+    name =
+      name ||
+      defaults.find(analyzer => this.analyzerRegistry.hasIndexAnalyzer(indexName, analyzer)) ||
+      'standard';
+
+    const analyzer = this.analyzerRegistry.getAnalyzer(name, indexName);
+    if (!analyzer) {
+      throw new BadRequestException(`Unknown analyzer '${name}'`);
+    }
+    return { name, analyzer };
+  }
+
+  /**
+   * The text after each char filter, still mapped to the offsets of the original
+   */
+  private runCharFilters(
+    analyzer: Analyzer,
+    text: string,
+  ): Array<{ name: string; mapped: MappedText }> {
+    const stages: Array<{ name: string; mapped: MappedText }> = [];
+    let mapped = mapText(text);
+    for (const charFilter of analyzer.getCharFilters?.() || []) {
+      mapped = charFilter.filter(mapped);
+      stages.push({ name: charFilter.getName(), mapped });
+    }
+    return stages;
+  }
+
+  /**
+   * The tokens after the tokenizer and after each filter. Filters run token by
+   * token so every output keeps the position and offsets of the token it came from.
+   */
+  private runStages(analyzer: Analyzer, text: MappedText): AnalyzeStage[] {
+    const tokenizer = analyzer.getTokenizer();
+    const stages: AnalyzeStage[] = [
+      { name: tokenizer.getName(), tokens: this.tokenize(tokenizer, text) },
+    ];
+
+    for (const filter of analyzer.getFilters()) {
+      const previous = stages[stages.length - 1].tokens;
+      if (filter instanceof SynonymFilter) {
+        stages.push({ name: filter.getName(), tokens: this.expandSynonyms(filter, previous) });
+        continue;
+      }
+      stages.push({
+        name: filter.getName(),
+        tokens: previous.flatMap(token =>
+          filter.filter([token.token]).map(output => ({ ...token, token: output })),
+        ),
+      });
+    }
+
+    return stages;
+  }
+
+  /**
+   * Synonyms take the offsets of the tokens they replace, and the words of a
+   * multi-word synonym take consecutive positions from there
+   */
+  private expandSynonyms(filter: SynonymFilter, tokens: AnalyzeToken[]): AnalyzeToken[] {
+    return filter.expand(tokens.map(token => token.token)).flatMap(node => {
+      const span = tokens.slice(node.start, node.start + node.length);
+      const original = span.map(token => token.token.toLowerCase()).join(' ');
+      const first = span[0];
+      const last = span[span.length - 1];
+
+      return node.alternatives.flatMap(alternative =>
+        alternative.map((token, i) => ({
+          token,
+          start_offset: first.start_offset,
+          end_offset: last.end_offset,
+          type: alternative.join(' ') === original ? first.type : 'SYNONYM',
+          position: first.position + i,
+        })),
+      );
+    });
+  }
+
+  /**
+   * Tokens with their offsets in the original text, before any char filter
+   */
+  private tokenize(tokenizer: Tokenizer, mapped: MappedText): AnalyzeToken[] {
+    const haystack = mapped.text.toLowerCase();
+    let start = 0;
+    let end = 0;
+
+    return tokenizer.tokenize(mapped.text).map((token, position) => {
+      const needle = token.toLowerCase();
+      // Overlapping tokens such as n-grams can begin before the previous one ends
+      let offset = haystack.indexOf(needle, end);
+      if (offset < 0) {
+        offset = haystack.indexOf(needle, start);
+      }
+      if (offset >= 0) {
+        start = offset;
+        end = offset + needle.length;
+      }
+      const [startOffset, endOffset] =
+        offset >= 0 ? originalSpan(mapped, offset, offset + needle.length) : [null, null];
+
+      return {
+        token,
+        start_offset: startOffset,
+        end_offset: endOffset,
+        type: /^\d+$/.test(token) ? '<NUM>' : '<ALPHANUM>',
+        position,
+      };
+    });
+  }
+
+  private async buildTsVector(
+    field: string,
+    tokens: AnalyzeToken[],
+    config: string,
+  ): Promise<AnalyzeResponse['tsvector']> {
+    const expression = this.analysisAdapter.generateFieldTsVector(
+      field,
+      tokens.map(token => token.token),
+      config,
+    );
+    if (!expression) {
+      return { expression, value: '' };
+    }
+
+    try {
+      const [row] = await this.postgresService.query(`SELECT (${expression})::text AS tsvector`);
+      return { expression, value: row?.tsvector ?? '' };
+    } catch (error) {
+      this.logger.warn(`Failed to evaluate tsvector ${expression}: ${error.message}`);
+      return { expression, value: null };
+    }
+  }
+}
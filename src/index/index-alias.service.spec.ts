@@ -0,0 +1,125 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { IndexAliasService } from './index-alias.service';
+
+describe('IndexAliasService', () => {
+  let service: IndexAliasService;
+  let indices: string[];
+  let rows: Array<{ alias: string; index_name: string; is_write_index: boolean }>;
+
+  // A tiny in-memory stand-in for the index_aliases table
+  const query = jest.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('FROM indices')) {
+      return indices.filter(name => params[0].includes(name)).map(index_name => ({ index_name }));
+    }
+    if (sql.startsWith('UPDATE index_aliases')) {
+      rows
+        .filter(row => row.alias === params[0] && row.index_name !== params[1])
+        .forEach(row => (row.is_write_index = false));
+      return [[], 0];
+    }
+    if (sql.includes('INSERT INTO index_aliases')) {
+      rows = rows.filter(row => !(row.alias === params[0] && row.index_name === params[1]));
+      rows.push({ alias: params[0], index_name: params[1], is_write_index: params[2] });
+      return [];
+    }
+    if (sql.startsWith('DELETE FROM index_aliases')) {
+      const before = rows.length;
+      rows = rows.filter(row => !(row.alias === params[0] && row.index_name === params[1]));
+      return [[], before - rows.length];
+    }
+    if (sql.includes('WHERE alias = ANY')) {
+      return rows.filter(row => params[0].includes(row.alias));
+    }
+    if (sql.includes('WHERE alias = $1')) {
+      return rows.filter(row => row.alias === params[0]);
+    }
+    return [];
+  });
+
+  beforeEach(async () => {
+    indices = ['businesses_v1', 'businesses_v2'];
+    rows = [{ alias: 'businesses', index_name: 'businesses_v1', is_write_index: false }];
+    query.mockClear();
+
+    // Actions run against a copy that is only kept when the whole transaction succeeds
+    const dataSource = {
+      query,
+      manager: { query },
+      transaction: jest.fn(async (work: (manager: any) => Promise<void>) => {
+        const snapshot = rows.map(row => ({ ...row }));
+        try {
+          await work({ query });
+        } catch (error) {
+          rows = snapshot;
+          throw error;
+        }
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [IndexAliasService, { provide: DataSource, useValue: dataSource }],
+    }).compile();
+
+    service = module.get<IndexAliasService>(IndexAliasService);
+  });
+
+  it('should resolve indices and aliases for reads and writes', async () => {
+    expect(await service.resolveReadIndices('businesses')).toEqual(['businesses_v1']);
+    expect(await service.resolveWriteIndex('businesses')).toBe('businesses_v1');
+    expect(await service.resolveReadIndices('businesses_v2')).toEqual(['businesses_v2']);
+    expect(await service.resolveWriteIndex('businesses_v2')).toBe('businesses_v2');
+  });
+
+  it('should swap an alias to another index atomically', async () => {
+    const aliases = await service.updateAliases([
+      { remove: { index: 'businesses_v1', alias: 'businesses' } },
+      { add: { index: 'businesses_v2', alias: 'businesses' } },
+    ]);
+
+    expect(aliases).toEqual([{ alias: 'businesses', index: 'businesses_v2', isWriteIndex: false }]);
+    expect(await service.resolveReadIndices('businesses')).toEqual(['businesses_v2']);
+  });
+
+  it('should apply none of the actions when one fails', async () => {
+    await expect(
+      service.updateAliases([
+        { remove: { index: 'businesses_v1', alias: 'businesses' } },
+        { add: { index: 'businesses_v3', alias: 'businesses' } },
+      ]),
+    ).rejects.toThrow(NotFoundException);
+
+    expect(await service.resolveReadIndices('businesses')).toEqual(['businesses_v1']);
+  });
+
+  it('should fan reads out and send writes to the single write index', async () => {
+    await service.putAlias('businesses_v2', 'businesses');
+    await expect(service.resolveWriteIndex('businesses')).rejects.toThrow(BadRequestException);
+
+    await service.putAlias('businesses_v2', 'businesses', true);
+    await service.putAlias('businesses_v1', 'businesses', true);
+
+    expect((await service.resolveReadIndices('businesses')).sort()).toEqual([
+      'businesses_v1',
+      'businesses_v2',
+    ]);
+    expect(await service.resolveWriteIndex('businesses')).toBe('businesses_v1');
+    expect(rows.filter(row => row.is_write_index)).toHaveLength(1);
+  });
+
+  it('should reject aliases named like an index or with invalid characters', async () => {
+    await expect(service.putAlias('businesses_v1', 'businesses_v2')).rejects.toThrow(
+      'conflicts with an index',
+    );
+    await expect(service.putAlias('businesses_v1', 'Businesses!')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should report removing an alias the index does not have', async () => {
+    await expect(service.deleteAlias('businesses_v2', 'businesses')).rejects.toThrow(
+      'Alias businesses not found on index businesses_v2',
+    );
+  });
+});
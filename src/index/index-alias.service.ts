@@ -0,0 +1,217 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import { IndexAlias, IndexAliasAction } from './interfaces/index-alias.interface';
+
+const ALIAS_NAME_PATTERN = /^[a-z0-9][a-z0-9_.-]{0,254}$/;
+
+/**
+ * Stores index aliases. Reads through an alias fan out to every index it points
+ * at, writes go to its write index. All actions of an update are applied in one
+ * transaction, so an alias can be moved from one index to another without a
+ * moment where it resolves to neither or both.
+ */
+@Injectable()
+export class IndexAliasService implements OnModuleInit {
+  private readonly logger = new Logger(IndexAliasService.name);
+
+  constructor(private readonly dataSource: DataSource) {}
+
+  async onModuleInit() {
+    try {
+      await this.dataSource.query(`
+        CREATE TABLE IF NOT EXISTS index_aliases (
+          alias VARCHAR(255) NOT NULL,
+          index_name VARCHAR(255) NOT NULL,
+          is_write_index BOOLEAN NOT NULL DEFAULT FALSE,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (alias, index_name)
+        );
+        CREATE INDEX IF NOT EXISTS idx_index_aliases_index_name ON index_aliases (index_name);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_index_aliases_write_index
+          ON index_aliases (alias) WHERE is_write_index;
+      `);
+    } catch (error) {
+      this.logger.error(`Failed to initialize index_aliases table: ${error.message}`);
+      throw error;
+    }
+  }
+
+  async listAliases(indexName?: string): Promise<IndexAlias[]> {
+    const rows = indexName
+      ? await this.dataSource.query(
+          'SELECT alias, index_name, is_write_index FROM index_aliases WHERE index_name = $1 ORDER BY alias',
+          [indexName],
+        )
+      : await this.dataSource.query(
+          'SELECT alias, index_name, is_write_index FROM index_aliases ORDER BY alias, index_name',
+        );
+    return rows.map(row => this.mapRow(row));
+  }
+
+  async getAlias(alias: string): Promise<IndexAlias[]> {
+    const aliases = await this.findAlias(this.dataSource.manager, alias);
+    if (aliases.length === 0) {
+      throw new NotFoundException(`Alias ${alias} not found`);
+    }
+    return aliases;
+  }
+
+  async putAlias(indexName: string, alias: string, isWriteIndex = false): Promise<IndexAlias> {
+    await this.updateAliases([{ add: { index: indexName, alias, isWriteIndex } }]);
+    return { alias, index: indexName, isWriteIndex };
+  }
+
+  async deleteAlias(indexName: string, alias: string): Promise<void> {
+    await this.updateAliases([{ remove: { index: indexName, alias } }]);
+  }
+
+  /**
+   * Applies add and remove actions atomically: either all of them or none
+   */
+  async updateAliases(actions: IndexAliasAction[]): Promise<IndexAlias[]> {
+    if (!Array.isArray(actions) || actions.length === 0) {
+      throw new BadRequestException('At least one alias action is required');
+    }
+
+    const touched = new Set<string>();
+    await this.dataSource.transaction(async manager => {
+      for (const action of actions) {
+        if ('add' in action && action.add) {
+          await this.addAlias(manager, action.add);
+          touched.add(action.add.alias);
+        } else if ('remove' in action && action.remove) {
+          await this.removeAlias(manager, action.remove);
+          touched.add(action.remove.alias);
+        } else {
+          throw new BadRequestException('Alias actions must be either add or remove');
+        }
+      }
+    });
+
+    this.logger.log(`Applied ${actions.length} alias actions to ${[...touched].join(', ')}`);
+    const rows = await this.dataSource.query(
+      'SELECT alias, index_name, is_write_index FROM index_aliases WHERE alias = ANY($1) ORDER BY alias, index_name',
+      [[...touched]],
+    );
+    return rows.map(row => this.mapRow(row));
+  }
+
+  /**
+   * Indices a read of the name covers: the index itself, or every index of the alias.
+   * Unknown names resolve to themselves so the caller reports the missing index.
+   */
+  async resolveReadIndices(name: string): Promise<string[]> {
+    const aliases = await this.findAlias(this.dataSource.manager, name);
+    return aliases.length > 0 ? aliases.map(alias => alias.index) : [name];
+  }
+
+  /**
+   * Index a write to the name goes to: the index itself, the alias's write index, or
+   * the only index of the alias
+   */
+  async resolveWriteIndex(name: string): Promise<string> {
+    const aliases = await this.findAlias(this.dataSource.manager, name);
+    if (aliases.length === 0) {
+      return name;
+    }
+
+    const writeIndex =
+      aliases.find(alias => alias.isWriteIndex) ?? (aliases.length === 1 && aliases[0]);
+    if (!writeIndex) {
+      throw new BadRequestException(
+        `Alias ${name} points to ${aliases.length} indices and has no write index`,
+      );
+    }
+    return writeIndex.index;
+  }
+
+  async isAlias(name: string): Promise<boolean> {
+    const rows = await this.dataSource.query(
+      'SELECT 1 FROM index_aliases WHERE alias = $1 LIMIT 1',
+      [name],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Drop every alias of a deleted index
+   */
+  async removeIndexAliases(indexName: string): Promise<void> {
+    await this.dataSource.query('DELETE FROM index_aliases WHERE index_name = $1', [indexName]);
+  }
+
+  private async addAlias(
+    manager: EntityManager,
+    {
+      index,
+      alias,
+      isWriteIndex = false,
+    }: { index: string; alias: string; isWriteIndex?: boolean },
+  ): Promise<void> {
+    if (!ALIAS_NAME_PATTERN.test(alias || '')) {
+      throw new BadRequestException(
+        `Invalid alias name ${alias}: use lowercase letters, digits, "_", "-" and "."`,
+      );
+    }
+
+    const indices = await manager.query(
+      'SELECT index_name FROM indices WHERE index_name = ANY($1)',
+      [[index, alias]],
+    );
+    if (indices.some(row => row.index_name === alias)) {
+      throw new BadRequestException(`Alias ${alias} conflicts with an index of the same name`);
+    }
+    if (indices.length === 0) {
+      throw new NotFoundException(`Index with name ${index} not found`);
+    }
+
+    // An alias has at most one write index, so setting a new one demotes the previous one
+    if (isWriteIndex) {
+      await manager.query(
+        'UPDATE index_aliases SET is_write_index = FALSE WHERE alias = $1 AND index_name <> $2',
+        [alias, index],
+      );
+    }
+    await manager.query(
+      `INSERT INTO index_aliases (alias, index_name, is_write_index)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (alias, index_name) DO UPDATE SET is_write_index = EXCLUDED.is_write_index`,
+      [alias, index, isWriteIndex],
+    );
+  }
+
+  private async removeAlias(
+    manager: EntityManager,
+    { index, alias }: { index: string; alias: string },
+  ): Promise<void> {
+    const [, removed] = await manager.query(
+      'DELETE FROM index_aliases WHERE alias = $1 AND index_name = $2',
+      [alias, index],
+    );
+    if (!removed) {
+      throw new NotFoundException(`Alias ${alias} not found on index ${index}`);
+    }
+  }
+
+  private async findAlias(manager: EntityManager, alias: string): Promise<IndexAlias[]> {
+    const rows = await manager.query(
+      'SELECT alias, index_name, is_write_index FROM index_aliases WHERE alias = $1 ORDER BY index_name',
+      [alias],
+    );
+    return rows.map(row => this.mapRow(row));
+  }
+
+  private mapRow(row: any): IndexAlias {
+    return {
+      alias: row.alias,
+      index: row.index_name,
+      isWriteIndex: row.is_write_index,
+    };
+  }
+}
@@ -1,5 +1,8 @@
 import { forwardRef, Module } from '@nestjs/common';
 import { IndexService } from './index.service';
+import { AnalyzeService } from './analyze.service';
+import { SynonymSetService } from './synonym-set.service';
+import { IndexAliasService } from './index-alias.service';
 import { IndexStatsService } from './index-stats.service';
 import { BM25Scorer } from './bm25-scorer';
 import { TermDictionary } from './term-dictionary';
@@ -8,11 +11,22 @@ import { PostgreSQLService } from '../storage/postgresql/postgresql.service';
 import { DocumentCountVerifierService } from './document-count-verifier.service';
 import { ScheduleModule } from '@nestjs/schedule';
 import { IndexingModule } from '../indexing/indexing.module';
+import { AnalysisModule } from '../analysis/analysis.module';
+import { SchemaModule } from '../schema/schema.module';
 
 @Module({
-  imports: [StorageModule, ScheduleModule.forRoot(), forwardRef(() => IndexingModule)],
+  imports: [
+    StorageModule,
+    AnalysisModule,
+    SchemaModule,
+    ScheduleModule.forRoot(),
+    forwardRef(() => IndexingModule),
+  ],
   providers: [
     IndexService,
+    AnalyzeService,
+    SynonymSetService,
+    IndexAliasService,
     IndexStatsService,
     DocumentCountVerifierService,
     PostgreSQLService,
@@ -29,6 +43,13 @@ import { IndexingModule } from '../indexing/indexing.module';
       inject: [IndexStatsService],
     },
   ],
-  exports: [IndexService, IndexStatsService, 'TERM_DICTIONARY'],
+  exports: [
+    IndexService,
+    AnalyzeService,
+    SynonymSetService,
+    IndexAliasService,
+    IndexStatsService,
+    'TERM_DICTIONARY',
+  ],
 })
 export class IndexModule {}
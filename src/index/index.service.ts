@@ -1,4 +1,12 @@
-import { Injectable, Logger, NotFoundException, ConflictException, Inject } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Inject,
+  OnModuleInit,
+} from '@nestjs/common';
 import { CreateIndexDto, IndexResponseDto } from '../api/dtos/index.dto';
 import { DocumentStorageService } from '../storage/document-storage/document-storage.service';
 import { IndexStatsService } from './index-stats.service';
@@ -7,9 +15,16 @@ import { BM25Scorer } from './bm25-scorer';
 import { TermDictionary } from './term-dictionary';
 import { DocumentCountVerifierService } from './document-count-verifier.service';
 import { PostgreSQLService } from '../storage/postgresql/postgresql.service';
+import { AnalyzerRegistryService } from '../analysis/analyzer-registry.service';
+import { Analyzer } from '../analysis/interfaces/analyzer.interface';
+import { searchAsYouTypeSubfields } from '../analysis/analyzers/search-as-you-type';
+import { SynonymSetService } from './synonym-set.service';
+import { IndexAliasService } from './index-alias.service';
+import { SchemaEnforcementService } from '../schema/schema-enforcement.service';
+import { FieldMapping, IndexMappings, IndexSettings } from './interfaces/index.interface';
 
 @Injectable()
-export class IndexService {
+export class IndexService implements OnModuleInit {
   private readonly logger = new Logger(IndexService.name);
 
   constructor(
@@ -20,8 +35,42 @@ export class IndexService {
     @Inject('TERM_DICTIONARY') private readonly termDictionary: TermDictionary,
     private readonly documentCountVerifier: DocumentCountVerifierService,
     private readonly postgresService: PostgreSQLService,
+    private readonly analyzerRegistry: AnalyzerRegistryService,
+    private readonly synonymSets: SynonymSetService,
+    private readonly schemaEnforcement: SchemaEnforcementService,
+    private readonly indexAliases: IndexAliasService,
   ) {}
 
+  /**
+   * Restore the custom and default language analyzers of every index
+   */
+  async onModuleInit() {
+    try {
+      const indices = await this.postgresService.query(
+        `SELECT index_name, settings->'analysis' AS analysis,
+                settings->>'defaultLanguage' AS default_language
+         FROM indices
+         WHERE settings->'analysis' IS NOT NULL OR settings->>'defaultLanguage' IS NOT NULL`,
+      );
+      for (const index of indices) {
+        try {
+          this.analyzerRegistry.registerIndexAnalyzers(
+            index.index_name,
+            index.analysis,
+            index.default_language,
+          );
+        } catch (error) {
+          this.logger.error(`Skipping analyzers of index ${index.index_name}: ${error.message}`);
+        }
+      }
+      if (indices.length > 0) {
+        this.logger.log(`Restored custom analyzers of ${indices.length} indices`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to restore custom analyzers: ${error.message}`);
+    }
+  }
+
   async createIndex(createIndexDto: CreateIndexDto): Promise<IndexResponseDto> {
     this.logger.log(`Creating index: ${createIndexDto.name}`);
 
@@ -30,19 +79,36 @@ export class IndexService {
     if (existingIndex) {
       throw new ConflictException(`Index ${createIndexDto.name} already exists`);
     }
+    if (await this.indexAliases.isAlias(createIndexDto.name)) {
+      throw new ConflictException(`${createIndexDto.name} is already an alias`);
+    }
+
+    const mappings = this.expandSearchAsYouType(createIndexDto.mappings);
+    const analyzers = this.validateAnalysis(createIndexDto.settings, mappings);
+    await this.schemaEnforcement.assertValidBinding(createIndexDto.settings?.schema);
 
-    // Create index in PostgreSQL
+    // Create index in PostgreSQL; mappings are stored with the settings
+    const indexSettings = {
+      ...createIndexDto.settings,
+      textSearchConfigs: this.textSearchConfigs(analyzers, mappings),
+    };
+    const settings = mappings ? { ...indexSettings, mappings } : indexSettings;
     const result = await this.postgresService.query(
       'INSERT INTO indices (index_name, settings) VALUES ($1, $2) RETURNING *',
-      [createIndexDto.name, JSON.stringify(createIndexDto.settings || {})],
+      [createIndexDto.name, JSON.stringify(settings)],
+    );
+    this.analyzerRegistry.registerIndexAnalyzers(
+      createIndexDto.name,
+      createIndexDto.settings?.analysis,
+      createIndexDto.settings?.defaultLanguage,
     );
 
     return {
       name: createIndexDto.name,
       documentCount: 0,
       status: 'open',
-      mappings: createIndexDto.mappings,
-      settings: createIndexDto.settings || {},
+      mappings,
+      settings: indexSettings,
       createdAt: result[0].created_at,
       updatedAt: result[0].updated_at,
     };
@@ -97,10 +163,23 @@ export class IndexService {
       throw new NotFoundException(`Index with name ${name} not found`);
     }
 
+    if (settings?.mappings) {
+      settings = { ...settings, mappings: this.expandSearchAsYouType(settings.mappings) };
+    }
+    const analyzers = this.validateAnalysis(settings, settings?.mappings);
+    if (JSON.stringify(settings?.schema) !== JSON.stringify(index.settings.schema)) {
+      await this.schemaEnforcement.assertValidBinding(settings?.schema);
+    }
+    settings = {
+      ...settings,
+      textSearchConfigs: this.textSearchConfigs(analyzers, settings?.mappings),
+    };
+
     const result = await this.postgresService.query(
       'UPDATE indices SET settings = $2, updated_at = NOW() WHERE index_name = $1 RETURNING *',
       [name, settings],
     );
+    this.analyzerRegistry.registerIndexAnalyzers(name, settings.analysis, settings.defaultLanguage);
 
     return this.mapToIndexResponse(result[0]);
   }
@@ -115,6 +194,9 @@ export class IndexService {
       await this.postgresService.query('DELETE FROM indices WHERE index_name = $1', [name]);
 
       await this.postgresService.query('COMMIT');
+      this.analyzerRegistry.removeIndexAnalyzers(name);
+      await this.synonymSets.removeIndexSets(name);
+      await this.indexAliases.removeIndexAliases(name);
       this.logger.log(`Successfully deleted index ${name}`);
     } catch (error) {
       await this.postgresService.query('ROLLBACK');
@@ -167,6 +249,78 @@ export class IndexService {
     this.logger.log(`Updated document count for index ${indexName} to ${actualCount}`);
   }
 
+  /**
+   * Give each search_as_you_type field its _2gram, _3gram and _prefix subfields,
+   * keeping any subfields the mapping defines itself
+   */
+  private expandSearchAsYouType(mappings?: IndexMappings): IndexMappings | undefined {
+    if (!mappings?.properties) {
+      return mappings;
+    }
+
+    const properties: Record<string, FieldMapping> = {};
+    for (const [field, mapping] of Object.entries(mappings.properties)) {
+      properties[field] =
+        mapping?.type === 'search_as_you_type'
+          ? { ...mapping, fields: { ...searchAsYouTypeSubfields(), ...mapping.fields } }
+          : mapping;
+    }
+    return { ...mappings, properties };
+  }
+
+  /**
+   * Reject invalid analysis settings, an unknown default language and field
+   * mappings naming unknown analyzers. Returns the analyzers of the index.
+   */
+  private validateAnalysis(
+    settings: IndexSettings | undefined,
+    mappings?: IndexMappings,
+  ): Map<string, Analyzer> {
+    let analyzers: Map<string, Analyzer>;
+    try {
+      analyzers = this.analyzerRegistry.buildIndexAnalyzers(
+        settings?.analysis,
+        undefined,
+        settings?.defaultLanguage,
+      );
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    for (const [field, mapping] of Object.entries(mappings?.properties || {})) {
+      for (const analyzer of [mapping?.analyzer, mapping?.searchAnalyzer]) {
+        if (analyzer && !analyzers.has(analyzer) && !this.analyzerRegistry.hasAnalyzer(analyzer)) {
+          throw new BadRequestException(`Field '${field}' uses unknown analyzer '${analyzer}'`);
+        }
+      }
+    }
+
+    return analyzers;
+  }
+
+  /**
+   * The PostgreSQL text search configuration of each text field's analyzer and of
+   * the default analyzer, so the search vector trigger indexes each field the way
+   * its queries are parsed
+   */
+  private textSearchConfigs(
+    analyzers: Map<string, Analyzer>,
+    mappings?: IndexMappings,
+  ): Record<string, string> {
+    const configOf = (name: string) =>
+      this.analyzerRegistry.getTextSearchConfig(
+        analyzers.get(name) || this.analyzerRegistry.getAnalyzer(name),
+      );
+
+    const configs: Record<string, string> = { _default: configOf('default') };
+    for (const [field, mapping] of Object.entries(mappings?.properties || {})) {
+      if (mapping?.type === 'text') {
+        configs[field] = configOf(mapping.analyzer || 'default');
+      }
+    }
+    return configs;
+  }
+
   private mapToIndexResponse(index: any): IndexResponseDto {
     const settings = { ...(index.settings || {}) };
     // Remove mappings from settings if present
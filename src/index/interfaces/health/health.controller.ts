@@ -1,6 +1,8 @@
 import { Controller, Get } from '@nestjs/common';
 import { PostgreSQLService } from '../../../storage/postgresql/postgresql.service';
+import { Public } from '../../../auth/auth.decorators';
 
+@Public()
 @Controller('health')
 export class HealthController {
   constructor(private readonly postgresqlService: PostgreSQLService) {}
@@ -0,0 +1,10 @@
+export interface IndexAlias {
+  alias: string;
+  index: string;
+  // Writes through the alias go to this index; an alias of a single index writes to it anyway
+  isWriteIndex: boolean;
+}
+
+export type IndexAliasAction =
+  | { add: { index: string; alias: string; isWriteIndex?: boolean } }
+  | { remove: { index: string; alias: string } };
@@ -6,8 +6,16 @@ export interface IndexSettings {
     analyzer?: Record<string, Analyzer>;
     tokenizer?: Record<string, Tokenizer>;
     filter?: Record<string, TokenFilter>;
+    charFilter?: Record<string, CharFilter>;
   };
 
+  // Language of fields without an analyzer: english, french, yoruba, hausa, igbo or
+  // pidgin, or its ISO 639 code. Its analyzer is the index's default analyzer.
+  defaultLanguage?: string;
+  // Derived when the index is saved: the PostgreSQL text search configuration of each
+  // text field and of `_default`, read by the search vector trigger
+  textSearchConfigs?: Record<string, string>;
+
   // Search settings
   similarity?: string; // e.g., 'bm25', 'tfidf', 'boolean'
   searchableFields?: string[];
@@ -20,16 +28,36 @@ export interface IndexSettings {
   // Caching settings
   cacheEnabled?: boolean;
   cacheTtl?: number; // in seconds
+
+  // Semantic search settings
+  embedding?: EmbeddingSettings;
+
+  // Registered schema that documents must conform to on ingest
+  schema?: SchemaBinding;
 }
 
 export interface FieldMapping {
-  type: 'text' | 'keyword' | 'integer' | 'float' | 'date' | 'boolean' | 'object' | 'nested';
+  type:
+    | 'text'
+    | 'keyword'
+    | 'integer'
+    | 'float'
+    | 'date'
+    | 'boolean'
+    | 'object'
+    | 'nested'
+    | 'dense_vector'
+    | 'search_as_you_type';
   analyzer?: string;
   searchAnalyzer?: string;
   store?: boolean;
   index?: boolean;
   boost?: number;
   fields?: Record<string, FieldMapping>; // For multi-fields
+  properties?: Record<string, FieldMapping>; // Subfields of object and nested fields
+  // dense_vector only: vector size, and the fields whose text is embedded at index time
+  dims?: number;
+  source?: string[];
 }
 
 export interface IndexMappings {
@@ -71,6 +99,9 @@ export interface Analyzer {
   tokenizer?: string;
   filter?: string[];
   charFilter?: string[];
+  // PostgreSQL text search configuration, e.g. 'french'; by default that of the
+  // stemming filter's language, else english
+  textSearchConfig?: string;
 }
 
 export interface Tokenizer {
@@ -84,3 +115,23 @@ export interface TokenFilter {
   type: string;
   // Filter-specific options
 }
+
+export interface CharFilter {
+  type: string;
+  // e.g. pattern and replacement for pattern_replace, mappings for mapping
+}
+
+export interface EmbeddingSettings {
+  provider: 'openai' | 'http' | 'hashing';
+  model?: string;
+  dimensions?: number;
+  url?: string; // Endpoint of the http provider
+}
+
+export type SchemaEnforcementMode = 'reject' | 'dead_letter' | 'warn';
+
+export interface SchemaBinding {
+  name: string;
+  version?: number; // Latest version when not pinned
+  mode?: SchemaEnforcementMode; // Defaults to reject
+}
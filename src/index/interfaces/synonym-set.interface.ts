@@ -0,0 +1,8 @@
+export interface SynonymSet {
+  name: string;
+  // Solr/WordNet rules: `a, b, c` for equivalents, `a => b` for replacements
+  rules: string[];
+  // The default set's seed rules, in use until the index stores its own
+  builtIn: boolean;
+  updatedAt: Date | null;
+}
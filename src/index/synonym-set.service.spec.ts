@@ -0,0 +1,107 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { AnalyzerRegistryService } from '../analysis/analyzer-registry.service';
+import { RedisCacheService } from '../storage/postgresql/redis-cache.service';
+import { SynonymSetService } from './synonym-set.service';
+
+describe('SynonymSetService', () => {
+  let service: SynonymSetService;
+  let registry: AnalyzerRegistryService;
+  let dataSource: { query: jest.Mock };
+  let redisCache: { clearSearchCache: jest.Mock };
+  let storedRows: any[];
+
+  beforeEach(async () => {
+    storedRows = [];
+    dataSource = {
+      query: jest.fn().mockImplementation((sql: string, params: any[]) => {
+        if (sql.includes('FROM indices'))
+          return params[0] === 'products' ? [{ '?column?': 1 }] : [];
+        if (sql.includes('INSERT INTO synonym_sets')) {
+          return [{ name: params[1], rules: JSON.parse(params[2]), updated_at: new Date(0) }];
+        }
+        if (sql.includes('DELETE FROM synonym_sets') && sql.includes('RETURNING')) {
+          return params[1] === 'places' ? [{ name: 'places' }] : [];
+        }
+        if (sql.includes('FROM synonym_sets')) return storedRows;
+        return [];
+      }),
+    };
+    redisCache = { clearSearchCache: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SynonymSetService,
+        AnalyzerRegistryService,
+        { provide: DataSource, useValue: dataSource },
+        { provide: RedisCacheService, useValue: redisCache },
+      ],
+    }).compile();
+
+    service = module.get<SynonymSetService>(SynonymSetService);
+    registry = module.get<AnalyzerRegistryService>(AnalyzerRegistryService);
+  });
+
+  it('should restore stored sets into the analyzer registry on startup', async () => {
+    storedRows = [{ index_name: 'products', name: 'places', rules: ['hotel, inn'] }];
+
+    await service.onModuleInit();
+
+    expect(dataSource.query.mock.calls[0][0]).toContain('CREATE TABLE IF NOT EXISTS synonym_sets');
+    expect(registry.getSynonymSet('products', 'places').lookup(['inn'])).toEqual([
+      ['hotel'],
+      ['inn'],
+    ]);
+  });
+
+  it('should store a set and apply it to synonym filters right away', async () => {
+    registry.registerIndexAnalyzers('products', {
+      analyzer: { search: { type: 'custom', tokenizer: 'whitespace', filter: ['places'] } },
+      filter: { places: { type: 'synonym', synonymsSet: 'places' } } as any,
+    });
+    const analyzer = registry.getAnalyzer('search', 'products');
+    expect(analyzer.analyze('hotel')).toEqual(['hotel']);
+
+    const set = await service.putSet('products', 'places', ['hotel, inn']);
+
+    expect(set).toEqual({
+      name: 'places',
+      rules: ['hotel, inn'],
+      builtIn: false,
+      updatedAt: new Date(0),
+    });
+    expect(analyzer.analyze('hotel')).toEqual(['hotel', 'inn']);
+    expect(redisCache.clearSearchCache).toHaveBeenCalled();
+  });
+
+  it('should reject invalid rules and set names', async () => {
+    await expect(service.putSet('products', 'places', ['a => b => c'])).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.putSet('products', 'bad name', ['a, b'])).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.putSet('missing', 'places', ['a, b'])).rejects.toThrow(NotFoundException);
+  });
+
+  it('should fall back to the seed rules for the default set', async () => {
+    const set = await service.getSet('products', 'default');
+
+    expect(set.builtIn).toBe(true);
+    expect(set.rules).toContain(
+      'hotel => hotel, accommodation, lodging, guesthouse, inn, resort, motel, hostel',
+    );
+    expect(registry.getSynonymSet('products', 'default').lookup(['hotel'])).toContainEqual(['inn']);
+    await expect(service.getSet('products', 'places')).rejects.toThrow(NotFoundException);
+  });
+
+  it('should delete sets from storage and the registry', async () => {
+    await service.putSet('products', 'places', ['hotel, inn']);
+
+    await service.deleteSet('products', 'places');
+
+    expect(registry.getSynonymSet('products', 'places')).toBeUndefined();
+    await expect(service.deleteSet('products', 'other')).rejects.toThrow(NotFoundException);
+  });
+});
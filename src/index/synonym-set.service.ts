@@ -0,0 +1,182 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { AnalyzerRegistryService } from '../analysis/analyzer-registry.service';
+import { DEFAULT_SYNONYM_RULES, DEFAULT_SYNONYM_SET } from '../analysis/filters/default-synonyms';
+import { SynonymMap } from '../analysis/filters/synonym-filter';
+import { RedisCacheService } from '../storage/postgresql/redis-cache.service';
+import { SynonymSet } from './interfaces/synonym-set.interface';
+
+const SET_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,255}$/;
+
+/**
+ * Stores the named synonym sets of each index and keeps the analyzer registry's
+ * copy current. Synonym filters read the registry on every search, so a changed
+ * set applies to the next query without reindexing; other instances pick it up
+ * when they restart.
+ */
+@Injectable()
+export class SynonymSetService implements OnModuleInit {
+  private readonly logger = new Logger(SynonymSetService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly analyzerRegistry: AnalyzerRegistryService,
+    private readonly redisCache: RedisCacheService,
+  ) {}
+
+  async onModuleInit() {
+    await this.initializeTable();
+    await this.loadSets();
+  }
+
+  private async initializeTable(): Promise<void> {
+    try {
+      await this.dataSource.query(`
+        CREATE TABLE IF NOT EXISTS synonym_sets (
+          index_name VARCHAR(255) NOT NULL,
+          name VARCHAR(255) NOT NULL,
+          rules JSONB NOT NULL,
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (index_name, name)
+        );
+      `);
+    } catch (error) {
+      this.logger.error(`Failed to initialize synonym_sets table: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private async loadSets(): Promise<void> {
+    const rows = await this.dataSource.query('SELECT index_name, name, rules FROM synonym_sets');
+    for (const row of rows) {
+      try {
+        this.analyzerRegistry.registerSynonymSet(
+          row.index_name,
+          row.name,
+          SynonymMap.parse(row.rules),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Skipping synonym set ${row.name} of index ${row.index_name}: ${error.message}`,
+        );
+      }
+    }
+    this.logger.log(`Loaded ${rows.length} synonym sets`);
+  }
+
+  async listSets(indexName: string): Promise<SynonymSet[]> {
+    await this.assertIndexExists(indexName);
+    const rows = await this.dataSource.query(
+      'SELECT name, rules, updated_at FROM synonym_sets WHERE index_name = $1 ORDER BY name',
+      [indexName],
+    );
+
+    const sets = rows.map(row => this.mapRow(row));
+    if (!sets.some(set => set.name === DEFAULT_SYNONYM_SET)) {
+      sets.unshift(this.defaultSet());
+    }
+    return sets;
+  }
+
+  async getSet(indexName: string, name: string): Promise<SynonymSet> {
+    await this.assertIndexExists(indexName);
+    const rows = await this.dataSource.query(
+      'SELECT name, rules, updated_at FROM synonym_sets WHERE index_name = $1 AND name = $2',
+      [indexName, name],
+    );
+
+    if (rows.length > 0) {
+      return this.mapRow(rows[0]);
+    }
+    if (name === DEFAULT_SYNONYM_SET) {
+      return this.defaultSet();
+    }
+    throw new NotFoundException(`Synonym set ${name} not found in index ${indexName}`);
+  }
+
+  /**
+   * Create or replace a synonym set
+   */
+  async putSet(indexName: string, name: string, rules: string[]): Promise<SynonymSet> {
+    if (!SET_NAME_PATTERN.test(name)) {
+      throw new BadRequestException(
+        'Synonym set names may only contain letters, digits, "_" and "-"',
+      );
+    }
+    await this.assertIndexExists(indexName);
+
+    let synonyms: SynonymMap;
+    try {
+      synonyms = SynonymMap.parse(rules);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    const rows = await this.dataSource.query(
+      `INSERT INTO synonym_sets (index_name, name, rules, updated_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (index_name, name) DO UPDATE SET rules = EXCLUDED.rules, updated_at = NOW()
+       RETURNING name, rules, updated_at`,
+      [indexName, name, JSON.stringify(rules)],
+    );
+    this.analyzerRegistry.registerSynonymSet(indexName, name, synonyms);
+    await this.redisCache.clearSearchCache();
+
+    this.logger.log(`Stored synonym set ${name} of index ${indexName} (${synonyms.size} phrases)`);
+    return this.mapRow(rows[0]);
+  }
+
+  async deleteSet(indexName: string, name: string): Promise<void> {
+    const rows = await this.dataSource.query(
+      'DELETE FROM synonym_sets WHERE index_name = $1 AND name = $2 RETURNING name',
+      [indexName, name],
+    );
+    if (rows.length === 0) {
+      throw new NotFoundException(`Synonym set ${name} not found in index ${indexName}`);
+    }
+
+    this.analyzerRegistry.removeSynonymSet(indexName, name);
+    await this.redisCache.clearSearchCache();
+  }
+
+  /**
+   * Drop every synonym set of a deleted index
+   */
+  async removeIndexSets(indexName: string): Promise<void> {
+    await this.dataSource.query('DELETE FROM synonym_sets WHERE index_name = $1', [indexName]);
+    this.analyzerRegistry.removeSynonymSets(indexName);
+  }
+
+  private async assertIndexExists(indexName: string): Promise<void> {
+    const rows = await this.dataSource.query('SELECT 1 FROM indices WHERE index_name = $1', [
+      indexName,
+    ]);
+    if (rows.length === 0) {
+      throw new NotFoundException(`Index with name ${indexName} not found`);
+    }
+  }
+
+  private defaultSet(): SynonymSet {
+    return {
+      name: DEFAULT_SYNONYM_SET,
+      rules: DEFAULT_SYNONYM_RULES,
+      builtIn: true,
+      updatedAt: null,
+    };
+  }
+
+  private mapRow(row: any): SynonymSet {
+    return {
+      name: row.name,
+      rules: row.rules,
+      builtIn: false,
+      updatedAt: row.updated_at,
+    };
+  }
+}
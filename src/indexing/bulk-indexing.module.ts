@@ -6,7 +6,14 @@ import { DocumentModule } from '../document/document.module';
 import { StorageModule } from '../storage/storage.module';
 import { IndexModule } from '../index/index.module';
 import { IndexingQueueProcessor } from './queue/indexing-queue.processor';
+import { SchemaMigrationProcessor } from './queue/schema-migration.processor';
+import { SchemaMigrationService } from './services/schema-migration.service';
+import { ByQueryProcessor } from './queue/by-query.processor';
+import { ReindexProcessor } from './queue/reindex.processor';
+import { TaskService } from './services/task.service';
 import { IndexingModule } from './indexing.module';
+import { SearchModule } from '../search/search.module';
+import { SchemaModule } from '../schema/schema.module';
 
 @Module({
   imports: [
@@ -50,9 +57,19 @@ import { IndexingModule } from './indexing.module';
     forwardRef(() => StorageModule),
     forwardRef(() => IndexModule),
     forwardRef(() => IndexingModule),
+    forwardRef(() => SearchModule),
+    SchemaModule,
     ConfigModule,
   ],
-  providers: [BulkIndexingService, IndexingQueueProcessor],
-  exports: [BulkIndexingService],
+  providers: [
+    BulkIndexingService,
+    IndexingQueueProcessor,
+    SchemaMigrationService,
+    SchemaMigrationProcessor,
+    TaskService,
+    ByQueryProcessor,
+    ReindexProcessor,
+  ],
+  exports: [BulkIndexingService, SchemaMigrationService, TaskService],
 })
 export class BulkIndexingModule {}
@@ -4,10 +4,11 @@ import { IndexStatsService } from '../index/index-stats.service';
 import { ProcessedDocument } from '../document/interfaces/document-processor.interface';
 import { TermDictionary } from '../index/term-dictionary';
 import { DocumentMapping } from '../document/interfaces/document-processor.interface';
-import { IndexMappings } from '../index/interfaces/index.interface';
+import { IndexMappings, IndexSettings } from '../index/interfaces/index.interface';
 import { IndexStorage } from '../index/interfaces/index-storage.interface';
 import { SimplePostingList } from '../index/posting-list';
 import { BulkIndexingService } from './services/bulk-indexing.service';
+import { pick } from 'lodash';
 
 @Injectable()
 export class IndexingService {
@@ -32,18 +33,7 @@ export class IndexingService {
     }
 
     // 0. Get index configuration and set up document processor mapping
-    const indexConfig = await this.indexStorage.getIndex(indexName);
-    if (indexConfig && indexConfig.mappings && indexConfig.mappings.properties) {
-      // Convert index mappings to document processor mapping format
-      const documentMapping = this.convertIndexMappingsToDocumentMapping(indexConfig.mappings);
-      this.documentProcessor.setMapping(documentMapping);
-    } else {
-      // Use automatic field detection if no mappings are configured
-      this.documentProcessor.initializeDefaultMapping();
-      // Also detect fields from the current document and add them to mapping
-      const detectedMapping = this.detectFieldsFromDocument(document);
-      this.documentProcessor.setMapping(detectedMapping);
-    }
+    await this.setMapping(indexName, document);
 
     // 1. Process the document (tokenization, normalization)
     const processedDoc = this.documentProcessor.processDocument({
@@ -91,6 +81,50 @@ export class IndexingService {
     }
   }
 
+  /**
+   * Re-analyzes the given top-level fields of an updated document: the postings of
+   * terms the fields no longer have are removed and those of their new terms added.
+   * The documents trigger rebuilds the search vector, and the document count and
+   * statistics are left alone.
+   */
+  async reindexFields(
+    indexName: string,
+    documentId: string,
+    document: any,
+    previous: any,
+    fields: string[],
+  ): Promise<void> {
+    this.logger.debug(
+      `Re-analyzing ${fields.join(', ')} of document ${documentId} in index ${indexName}`,
+    );
+
+    // Detected mappings also cover the fields the update removed
+    await this.setMapping(indexName, { ...previous, ...document });
+    const analyze = (source: any) =>
+      this.documentProcessor.processDocument({ id: documentId, source: pick(source, fields) })
+        .fields;
+    const before = analyze(previous);
+    const after = analyze(document);
+
+    for (const field of Object.keys({ ...before, ...after })) {
+      const terms = new Set(after[field]?.terms || []);
+      for (const term of before[field]?.terms || []) {
+        if (!terms.has(term)) {
+          await this.termDictionary.removePosting(`${indexName}:${field}:${term}`, documentId);
+        }
+      }
+      for (const term of terms) {
+        const positions = after[field].positions?.[term] || [];
+        await this.termDictionary.addPosting(
+          `${indexName}:${field}:${term}`,
+          documentId,
+          positions,
+        );
+        await this.termDictionary.addPosting(`${indexName}:_all:${term}`, documentId, []);
+      }
+    }
+  }
+
   async removeDocument(indexName: string, documentId: string): Promise<void> {
     this.logger.debug(`Removing document ${documentId} from index ${indexName}`);
 
@@ -204,6 +238,29 @@ export class IndexingService {
     this.logger.log(`Completed rebuilding index ${indexName}`);
   }
 
+  /**
+   * Sets the document processor up with the index's mappings, or with fields
+   * detected from the document when the index has none
+   */
+  private async setMapping(indexName: string, document: any): Promise<void> {
+    const indexConfig = await this.indexStorage.getIndex(indexName);
+    if (indexConfig && indexConfig.mappings && indexConfig.mappings.properties) {
+      // Convert index mappings to document processor mapping format
+      const documentMapping = this.convertIndexMappingsToDocumentMapping(
+        indexConfig.mappings,
+        indexName,
+        indexConfig.settings,
+      );
+      this.documentProcessor.setMapping(documentMapping);
+    } else {
+      // Use automatic field detection if no mappings are configured
+      this.documentProcessor.initializeDefaultMapping();
+      // Also detect fields from the current document and add them to mapping
+      const detectedMapping = this.detectFieldsFromDocument(document);
+      this.documentProcessor.setMapping({ ...detectedMapping, indexName });
+    }
+  }
+
   private async updateIndexStats(
     indexName: string,
     processedDoc: ProcessedDocument,
@@ -223,15 +280,27 @@ export class IndexingService {
   /**
    * Convert index mappings to document processor mapping format
    */
-  private convertIndexMappingsToDocumentMapping(indexMappings: IndexMappings): DocumentMapping {
+  private convertIndexMappingsToDocumentMapping(
+    indexMappings: IndexMappings,
+    indexName?: string,
+    settings?: IndexSettings,
+  ): DocumentMapping {
+    // An index analyzer named "default", or the analyzer of the index's default
+    // language, replaces the standard analyzer
+    const defaultAnalyzer =
+      settings?.analysis?.analyzer?.default || settings?.defaultLanguage ? 'default' : 'standard';
     const documentMapping: DocumentMapping = {
-      defaultAnalyzer: 'standard',
+      defaultAnalyzer,
+      indexName,
       fields: {},
     };
 
     for (const [fieldName, fieldMapping] of Object.entries(indexMappings.properties)) {
+      // Vectors are stored as embeddings, not as terms
+      if (fieldMapping.type === 'dense_vector') continue;
+
       documentMapping.fields[fieldName] = {
-        analyzer: fieldMapping.analyzer || 'standard',
+        analyzer: fieldMapping.analyzer || defaultAnalyzer,
         indexed: fieldMapping.index !== false,
         stored: fieldMapping.store !== false,
         weight: fieldMapping.boost || 1.0,
@@ -317,11 +386,13 @@ export class IndexingService {
       `Queueing ${documents.length} documents for bulk indexing in index ${indexName}`,
     );
 
+    // Callers pass documents that are already stored, so they were checked against the schema
     await this.bulkIndexingService.queueBulkIndexing(indexName, documents, {
       batchSize: 1000,
       skipDuplicates: true,
       enableProgress: true,
       priority: 5,
+      skipSchemaCheck: true,
     });
   }
 
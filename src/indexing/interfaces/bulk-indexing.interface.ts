@@ -31,4 +31,10 @@ export interface BulkIndexingOptions {
    * Delay between retry attempts (in milliseconds)
    */
   retryDelay?: number;
+
+  /**
+   * Whether to skip validation against the schema bound to the index, e.g. when
+   * rebuilding from documents that were already stored
+   */
+  skipSchemaCheck?: boolean;
 }
@@ -0,0 +1,35 @@
+import { SchemaValidationError } from '../../schema/interfaces/schema.interface';
+
+export interface SchemaMigrationJob {
+  indexName: string;
+  schemaName: string;
+  fromVersion: number;
+  toVersion: number;
+}
+
+export interface SchemaMigrationProgress {
+  processed: number;
+  total: number;
+  migrated: number;
+  unchanged: number;
+  failed: number;
+}
+
+export interface SchemaMigrationResult extends SchemaMigrationProgress {
+  indexName: string;
+  schemaName: string;
+  fromVersion: number;
+  toVersion: number;
+  took: number;
+  // The first failures only, so a badly broken index does not bloat the job
+  failures: Array<{ documentId: string; errors: SchemaValidationError[] }>;
+}
+
+export interface SchemaMigrationStatus {
+  id: string;
+  state: string;
+  data: SchemaMigrationJob;
+  progress: SchemaMigrationProgress | null;
+  result?: SchemaMigrationResult;
+  failedReason?: string;
+}
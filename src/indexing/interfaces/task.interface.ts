@@ -0,0 +1,34 @@
+import { ReindexCheckpoint, ReindexSlice } from '../../document/interfaces/reindex.interface';
+
+export type TaskType = 'delete-by-query' | 'update-by-query' | 'reindex' | 'reindex-slice';
+
+export type TaskState = 'waiting' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface TaskJob {
+  indexName: string;
+  request: Record<string, any>;
+  // Set by a cancel request; the task stops before its next batch
+  cancelRequested?: boolean;
+}
+
+/**
+ * A slice of a reindex task, run as a task of its own
+ */
+export interface ReindexSliceJob extends TaskJob {
+  parentTaskId: string;
+  slice: ReindexSlice;
+  // Saved after every batch, so a slice picked up again after a crash carries on from there
+  checkpoint?: ReindexCheckpoint;
+}
+
+export interface TaskStatus {
+  id: string;
+  type: TaskType;
+  state: TaskState;
+  indexName: string;
+  request: Record<string, any>;
+  cancelRequested: boolean;
+  progress: Record<string, any> | null;
+  result?: Record<string, any>;
+  failedReason?: string;
+}
@@ -0,0 +1,50 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Injectable, Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { ByQueryService } from '../../document/by-query.service';
+import { ByQueryHooks } from '../../document/interfaces/by-query.interface';
+import { DeleteByQueryResponseDto, UpdateByQueryResponseDto } from '../../api/dtos/document.dto';
+import { TaskService } from '../services/task.service';
+import { TaskJob } from '../interfaces/task.interface';
+
+/**
+ * Runs delete-by-query and update-by-query tasks, reporting progress after every
+ * batch and stopping when the task is cancelled
+ */
+@Injectable()
+@Processor('bulk-indexing')
+export class ByQueryProcessor {
+  private readonly logger = new Logger(ByQueryProcessor.name);
+
+  constructor(
+    private readonly byQueryService: ByQueryService,
+    private readonly taskService: TaskService,
+  ) {}
+
+  @Process('delete-by-query')
+  async deleteByQuery(job: Job<TaskJob>): Promise<DeleteByQueryResponseDto> {
+    this.logger.log(`Running delete by query task ${job.id} on ${job.data.indexName}`);
+    return this.byQueryService.deleteByQuery(
+      job.data.indexName,
+      job.data.request as any,
+      this.hooks(job),
+    );
+  }
+
+  @Process('update-by-query')
+  async updateByQuery(job: Job<TaskJob>): Promise<UpdateByQueryResponseDto> {
+    this.logger.log(`Running update by query task ${job.id} on ${job.data.indexName}`);
+    return this.byQueryService.updateByQuery(
+      job.data.indexName,
+      job.data.request as any,
+      this.hooks(job),
+    );
+  }
+
+  private hooks(job: Job<TaskJob>): ByQueryHooks {
+    return {
+      onProgress: async report => job.progress({ ...report }),
+      isCancelled: () => this.taskService.isCancelRequested(job.id),
+    };
+  }
+}
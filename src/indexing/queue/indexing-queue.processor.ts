@@ -6,6 +6,10 @@ import { IndexService } from '../../index/index.service';
 import { ConfigService } from '@nestjs/config';
 import { DocumentStorageService } from '../../storage/document-storage/document-storage.service';
 import { IndexingService } from '../indexing.service';
+import { DocumentEmbeddingService } from '../../search/embeddings/document-embedding.service';
+import { SearchAsYouTypeService } from '../../search/services/search-as-you-type.service';
+import { BulkOperationsService } from '../../document/bulk-operations.service';
+import { BulkItemResult, BulkOperation } from '../../document/interfaces/bulk-operation.interface';
 
 export interface SingleIndexingJob {
   indexName: string;
@@ -28,6 +32,10 @@ export interface BatchIndexingJob {
   metadata?: Record<string, any>;
 }
 
+export interface BulkOperationsJob {
+  operations: BulkOperation[];
+}
+
 @Injectable()
 @Processor('bulk-indexing')
 export class IndexingQueueProcessor {
@@ -39,6 +47,9 @@ export class IndexingQueueProcessor {
     private readonly configService: ConfigService,
     private readonly documentStorageService: DocumentStorageService,
     private readonly indexingService: IndexingService,
+    private readonly documentEmbeddingService: DocumentEmbeddingService,
+    private readonly searchAsYouTypeService: SearchAsYouTypeService,
+    private readonly bulkOperationsService: BulkOperationsService,
   ) {
     this.logger.log('IndexingQueueProcessor initialized and ready to process jobs');
   }
@@ -144,6 +155,14 @@ export class IndexingQueueProcessor {
               this.indexingService.indexDocument(indexName, doc.id, doc.document, true),
             ),
           );
+          await this.documentEmbeddingService.indexDocuments(
+            indexName,
+            subBatch.map(doc => ({ id: doc.id, source: doc.document })),
+          );
+          await this.searchAsYouTypeService.indexDocuments(
+            indexName,
+            subBatch.map(doc => ({ id: doc.id, source: doc.document })),
+          );
           processedCount += subBatch.length;
 
           // Report progress
@@ -190,6 +209,20 @@ export class IndexingQueueProcessor {
     }
   }
 
+  @Process('bulk')
+  async processBulkOperations(job: Job<BulkOperationsJob>): Promise<BulkItemResult[]> {
+    const startTime = Date.now();
+    this.logger.log(`🔄 Processing bulk job ${job.id} (${job.data.operations.length} actions)`);
+
+    const results = await this.bulkOperationsService.execute(job.data.operations);
+    this.logger.log(
+      `✅ Bulk job ${job.id} completed in ${Date.now() - startTime}ms. Failures: ${
+        results.filter(result => result.status >= 400).length
+      }`,
+    );
+    return results;
+  }
+
   @OnQueueActive()
   onActive(job: Job) {
     this.logger.log(`🚀 Job ${job.id} of type '${job.name}' is now ACTIVE`);
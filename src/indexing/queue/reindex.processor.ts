@@ -0,0 +1,85 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Injectable, Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { ReindexService } from '../../document/reindex.service';
+import { ReindexDto, ReindexResponseDto } from '../../api/dtos/reindex.dto';
+import { emptyReport } from '../../document/by-query.service';
+import { TaskService } from '../services/task.service';
+import { ReindexSliceJob, TaskJob, TaskStatus } from '../interfaces/task.interface';
+
+const SLICE_POLL_INTERVAL = 1000;
+const SLICE_CONCURRENCY = parseInt(process.env.REINDEX_SLICE_CONCURRENCY, 10) || 4;
+
+/**
+ * Runs reindex tasks. A task queues its slices, which any worker can pick up, and
+ * follows them until they are done, reporting their combined progress.
+ */
+@Injectable()
+@Processor('bulk-indexing')
+export class ReindexProcessor {
+  private readonly logger = new Logger(ReindexProcessor.name);
+
+  constructor(
+    private readonly reindexService: ReindexService,
+    private readonly taskService: TaskService,
+  ) {}
+
+  @Process('reindex')
+  async reindex(job: Job<TaskJob>): Promise<ReindexResponseDto> {
+    const request = job.data.request as ReindexDto;
+    this.logger.log(`Running reindex task ${job.id} into ${job.data.indexName}`);
+    const slices = await this.taskService.createSliceTasks(job, request.slices ?? 1);
+
+    let statuses: TaskStatus[];
+    for (;;) {
+      statuses = await Promise.all(slices.map(slice => this.taskService.getTask(String(slice.id))));
+      const report = this.combine(statuses);
+      await job.progress({ ...report });
+      if (statuses.every(status => ['completed', 'cancelled', 'failed'].includes(status.state))) {
+        await Promise.all(slices.map(slice => slice.remove()));
+        return report;
+      }
+      await new Promise(resolve => setTimeout(resolve, SLICE_POLL_INTERVAL));
+    }
+  }
+
+  @Process({ name: 'reindex-slice', concurrency: SLICE_CONCURRENCY })
+  async reindexSlice(job: Job<ReindexSliceJob>): Promise<ReindexResponseDto> {
+    const { request, slice, checkpoint, parentTaskId } = job.data;
+    if (checkpoint) {
+      this.logger.log(`Resuming slice ${job.id} after document ${checkpoint.afterId}`);
+    }
+
+    return this.reindexService.reindexSlice(request as ReindexDto, slice, checkpoint, {
+      onCheckpoint: async next => this.taskService.saveCheckpoint(job.id, next),
+      onProgress: async report => job.progress({ ...report }),
+      isCancelled: async () =>
+        (await this.taskService.isCancelRequested(job.id)) ||
+        this.taskService.isCancelRequested(parentTaskId),
+    });
+  }
+
+  /**
+   * The report of a task so far, from the reports of its slices
+   */
+  private combine(statuses: TaskStatus[]): ReindexResponseDto {
+    const reports = statuses.map(status => {
+      const report: ReindexResponseDto = {
+        ...emptyReport(),
+        created: 0,
+        updated: 0,
+        noops: 0,
+        versionConflicts: 0,
+        ...(status.result || status.progress),
+      };
+      if (status.state === 'failed') {
+        report.failures = [
+          ...report.failures,
+          { error: `Slice ${status.id} failed: ${status.failedReason}` },
+        ];
+      }
+      return report;
+    });
+    return reports.length === 1 ? reports[0] : this.reindexService.mergeReports(reports);
+  }
+}
@@ -0,0 +1,143 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Injectable, Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { DocumentStorageService } from '../../storage/document-storage/document-storage.service';
+import { PostgreSQLService } from '../../storage/postgresql/postgresql.service';
+import { SchemaVersionManagerService } from '../../schema/schema-version-manager.service';
+import { SchemaMigrator } from '../../schema/utils/schema-migrator';
+import { SchemaValidator } from '../../schema/utils/schema-validator';
+import { IndexingService } from '../indexing.service';
+import { DocumentEmbeddingService } from '../../search/embeddings/document-embedding.service';
+import { SearchAsYouTypeService } from '../../search/services/search-as-you-type.service';
+import {
+  SchemaMigrationJob,
+  SchemaMigrationProgress,
+  SchemaMigrationResult,
+} from '../interfaces/schema-migration.interface';
+
+const PAGE_SIZE = 500;
+const MAX_REPORTED_FAILURES = 100;
+
+/**
+ * Rewrites the documents of an index with the migration steps between two schema
+ * versions. Documents that still do not match the target version are left as they
+ * are and reported.
+ */
+@Injectable()
+@Processor('bulk-indexing')
+export class SchemaMigrationProcessor {
+  private readonly logger = new Logger(SchemaMigrationProcessor.name);
+
+  constructor(
+    private readonly documentStorageService: DocumentStorageService,
+    private readonly postgresService: PostgreSQLService,
+    private readonly schemaVersionManager: SchemaVersionManagerService,
+    private readonly indexingService: IndexingService,
+    private readonly documentEmbeddingService: DocumentEmbeddingService,
+    private readonly searchAsYouTypeService: SearchAsYouTypeService,
+  ) {}
+
+  @Process('schema-migration')
+  async migrate(job: Job<SchemaMigrationJob>): Promise<SchemaMigrationResult> {
+    const { indexName, schemaName, fromVersion, toVersion } = job.data;
+    const startTime = Date.now();
+
+    const target = await this.schemaVersionManager.getSchema(schemaName, toVersion);
+    if (!target) {
+      throw new Error(`Schema '${schemaName}' version ${toVersion} not found`);
+    }
+    const steps = await this.schemaVersionManager.getMigrationSteps(
+      schemaName,
+      fromVersion,
+      toVersion,
+    );
+
+    const { total } = await this.documentStorageService.getDocuments(indexName, { limit: 0 });
+    const progress: SchemaMigrationProgress = {
+      processed: 0,
+      total,
+      migrated: 0,
+      unchanged: 0,
+      failed: 0,
+    };
+    const failures: SchemaMigrationResult['failures'] = [];
+    await job.progress({ ...progress });
+
+    // Pages are ordered by document id, so rewriting a page does not shift the next one
+    for (let offset = 0; offset < total; offset += PAGE_SIZE) {
+      const { documents } = await this.documentStorageService.getDocuments(indexName, {
+        limit: PAGE_SIZE,
+        offset,
+      });
+      if (documents.length === 0) break;
+
+      const changed: Array<{ id: string; source: Record<string, any> }> = [];
+      for (const stored of documents) {
+        const { document, errors } = SchemaMigrator.migrateDocument(steps, stored.content);
+        const validation = SchemaValidator.validateDocument(target, document);
+        const allErrors = [...errors, ...(validation.errors || [])];
+
+        if (allErrors.length > 0) {
+          progress.failed++;
+          if (failures.length < MAX_REPORTED_FAILURES) {
+            failures.push({ documentId: stored.documentId, errors: allErrors });
+          }
+        } else if (JSON.stringify(document) === JSON.stringify(stored.content)) {
+          progress.unchanged++;
+        } else {
+          await this.documentStorageService.storeDocument(indexName, {
+            documentId: stored.documentId,
+            content: document,
+            metadata: stored.metadata || {},
+          });
+          await this.indexingService.indexDocument(indexName, stored.documentId, document);
+          changed.push({ id: stored.documentId, source: document });
+          progress.migrated++;
+        }
+      }
+
+      if (changed.length > 0) {
+        await this.documentEmbeddingService.indexDocuments(indexName, changed);
+        await this.searchAsYouTypeService.indexDocuments(indexName, changed);
+      }
+      progress.processed += documents.length;
+      await job.progress({ ...progress });
+    }
+
+    await this.pinVersion(indexName, schemaName, fromVersion, toVersion);
+
+    const result: SchemaMigrationResult = {
+      indexName,
+      schemaName,
+      fromVersion,
+      toVersion,
+      ...progress,
+      took: Date.now() - startTime,
+      failures,
+    };
+    this.logger.log(
+      `Migrated ${indexName} to '${schemaName}' v${toVersion} in ${result.took}ms: ${progress.migrated} migrated, ${progress.unchanged} unchanged, ${progress.failed} failed`,
+    );
+    return result;
+  }
+
+  /**
+   * An index pinned to the version it was migrated from is pinned to the target
+   * version; an index that follows the latest version is left alone
+   */
+  private async pinVersion(
+    indexName: string,
+    schemaName: string,
+    fromVersion: number,
+    toVersion: number,
+  ): Promise<void> {
+    await this.postgresService.query(
+      `UPDATE indices
+       SET settings = jsonb_set(settings, '{schema,version}', to_jsonb($2::int)), updated_at = NOW()
+       WHERE index_name = $1
+         AND settings->'schema'->>'name' = $3
+         AND (settings->'schema'->>'version')::int = $4`,
+      [indexName, toVersion, schemaName, fromVersion],
+    );
+  }
+}
@@ -4,6 +4,9 @@ import { InjectQueue } from '@nestjs/bull';
 import { BulkIndexingOptions } from '../interfaces/bulk-indexing.interface';
 import { IndexService } from '../../index/index.service';
 import { chunk } from 'lodash';
+import { SchemaEnforcementService } from '../../schema/schema-enforcement.service';
+import { SchemaViolation } from '../../schema/interfaces/schema.interface';
+import { BulkOperation } from '../../document/interfaces/bulk-operation.interface';
 
 @Injectable()
 export class BulkIndexingService {
@@ -13,6 +16,7 @@ export class BulkIndexingService {
     @InjectQueue('bulk-indexing') private readonly bulkIndexingQueue: Queue,
     @Inject(forwardRef(() => IndexService))
     private readonly indexService: IndexService,
+    private readonly schemaEnforcement: SchemaEnforcementService,
   ) {}
 
   async queueBulkIndexing(
@@ -24,12 +28,14 @@ export class BulkIndexingService {
     totalBatches: number;
     totalDocuments: number;
     status: string;
+    schemaViolations: SchemaViolation[];
   }> {
     const {
       batchSize = 1000,
       skipDuplicates = true,
       enableProgress = false,
       priority = 5,
+      skipSchemaCheck = false,
     } = options;
 
     // Check if index exists
@@ -38,6 +44,14 @@ export class BulkIndexingService {
       throw new Error(`Index ${indexName} does not exist`);
     }
 
+    // Only documents that pass the index's schema (or are let through in warn mode) are queued
+    let schemaViolations: SchemaViolation[] = [];
+    if (!skipSchemaCheck) {
+      const schemaCheck = await this.schemaEnforcement.check(indexName, documents);
+      documents = schemaCheck.accepted;
+      schemaViolations = schemaCheck.violations;
+    }
+
     // Split documents into batches
     const batches = chunk(documents, batchSize);
     const totalBatches = batches.length;
@@ -79,9 +93,18 @@ export class BulkIndexingService {
       totalBatches,
       totalDocuments: documents.length,
       status: 'completed',
+      schemaViolations,
     };
   }
 
+  /**
+   * Queues the actions of a bulk request as a single job, so they are applied in order
+   */
+  async queueBulkOperations(operations: BulkOperation[]): Promise<Bull.Job> {
+    // A retry would repeat creates and report them as conflicts, so the job runs once
+    return this.bulkIndexingQueue.add('bulk', { operations }, { attempts: 1 });
+  }
+
   /**
    * Get detailed queue statistics by job type
    */
@@ -0,0 +1,100 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { IndexService } from '../../index/index.service';
+import { SchemaVersionManagerService } from '../../schema/schema-version-manager.service';
+import {
+  SchemaMigrationJob,
+  SchemaMigrationStatus,
+} from '../interfaces/schema-migration.interface';
+
+/**
+ * Queues the migration of an index's documents from one version of its schema to
+ * another and reports on it
+ */
+@Injectable()
+export class SchemaMigrationService {
+  private readonly logger = new Logger(SchemaMigrationService.name);
+
+  constructor(
+    @InjectQueue('bulk-indexing') private readonly bulkIndexingQueue: Queue,
+    @Inject(forwardRef(() => IndexService))
+    private readonly indexService: IndexService,
+    private readonly schemaVersionManager: SchemaVersionManagerService,
+  ) {}
+
+  /**
+   * Starts a migration. fromVersion defaults to the version the index is pinned to
+   * and toVersion to the latest version of the schema.
+   */
+  async startMigration(
+    indexName: string,
+    options: { fromVersion?: number; toVersion?: number } = {},
+  ): Promise<SchemaMigrationStatus> {
+    const index = await this.indexService.getIndex(indexName);
+    if (!index) {
+      throw new NotFoundException(`Index ${indexName} not found`);
+    }
+    const binding = index.settings?.schema;
+    if (!binding) {
+      throw new BadRequestException(`Index ${indexName} is not bound to a schema`);
+    }
+
+    const latest = await this.schemaVersionManager.getSchema(binding.name);
+    if (!latest) {
+      throw new NotFoundException(`Schema '${binding.name}' not found`);
+    }
+
+    const fromVersion = options.fromVersion ?? binding.version;
+    const toVersion = options.toVersion ?? latest.version;
+    if (fromVersion === undefined) {
+      throw new BadRequestException(
+        `Index ${indexName} follows the latest version of '${binding.name}', so fromVersion is required`,
+      );
+    }
+    if (fromVersion >= toVersion) {
+      throw new BadRequestException(`fromVersion must be below toVersion (${toVersion})`);
+    }
+
+    // Fails early on missing versions instead of in the job
+    await this.schemaVersionManager.getMigrationSteps(binding.name, fromVersion, toVersion);
+
+    const data: SchemaMigrationJob = {
+      indexName,
+      schemaName: binding.name,
+      fromVersion,
+      toVersion,
+    };
+    // A retry would redo documents that were already migrated, so the job runs once
+    const job = await this.bulkIndexingQueue.add('schema-migration', data, { attempts: 1 });
+    this.logger.log(
+      `Queued migration ${job.id} of ${indexName} from '${binding.name}' v${fromVersion} to v${toVersion}`,
+    );
+
+    return { id: String(job.id), state: 'waiting', data, progress: null };
+  }
+
+  async getMigration(indexName: string, jobId: string): Promise<SchemaMigrationStatus> {
+    const job = await this.bulkIndexingQueue.getJob(jobId);
+    if (!job || job.name !== 'schema-migration' || job.data.indexName !== indexName) {
+      throw new NotFoundException(`Schema migration ${jobId} not found for index ${indexName}`);
+    }
+
+    const progress = job.progress();
+    return {
+      id: String(job.id),
+      state: await job.getState(),
+      data: job.data,
+      progress: typeof progress === 'object' ? progress : null,
+      ...(job.returnvalue && { result: job.returnvalue }),
+      ...(job.failedReason && { failedReason: job.failedReason }),
+    };
+  }
+}
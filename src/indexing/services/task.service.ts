@@ -0,0 +1,143 @@
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Job, Queue } from 'bull';
+import {
+  ReindexSliceJob,
+  TaskJob,
+  TaskState,
+  TaskStatus,
+  TaskType,
+} from '../interfaces/task.interface';
+import { ReindexCheckpoint } from '../../document/interfaces/reindex.interface';
+
+export const TASK_TYPES: TaskType[] = [
+  'delete-by-query',
+  'update-by-query',
+  'reindex',
+  'reindex-slice',
+];
+
+// A slice resumes from its checkpoint, so unlike a whole task it can be retried
+const SLICE_ATTEMPTS = 3;
+
+/**
+ * Queues long running operations on the documents of an index as tasks that can
+ * be followed and cancelled
+ */
+@Injectable()
+export class TaskService {
+  private readonly logger = new Logger(TaskService.name);
+
+  constructor(@InjectQueue('bulk-indexing') private readonly bulkIndexingQueue: Queue) {}
+
+  async createTask(
+    type: TaskType,
+    indexName: string,
+    request: Record<string, any>,
+  ): Promise<TaskStatus> {
+    const data: TaskJob = { indexName, request };
+    // A retry would redo batches that were already written, so a task runs once
+    const job = await this.bulkIndexingQueue.add(type, data, { attempts: 1 });
+    this.logger.log(`Queued ${type} task ${job.id} on ${indexName}`);
+    return this.toStatus(job, 'waiting');
+  }
+
+  async getTask(taskId: string): Promise<TaskStatus> {
+    const job = await this.findJob(taskId);
+    return this.toStatus(job, await this.stateOf(job));
+  }
+
+  /**
+   * Asks a task to stop. A running task finishes its current batch first and
+   * reports what it did.
+   */
+  async cancelTask(taskId: string): Promise<TaskStatus> {
+    const job = await this.findJob(taskId);
+    const state = await this.stateOf(job);
+    if (!['waiting', 'running'].includes(state)) {
+      throw new ConflictException(`Task ${taskId} has already ${state}`);
+    }
+
+    await job.update({ ...job.data, cancelRequested: true });
+    this.logger.log(`Cancellation requested for task ${taskId}`);
+    return this.toStatus(job, state);
+  }
+
+  /**
+   * Queues the slices of a reindex task. Slice ids derive from the task id, so when a
+   * task picked up again after a crash queues them again it gets the existing ones.
+   */
+  async createSliceTasks(parent: Job<TaskJob>, max: number): Promise<Job<ReindexSliceJob>[]> {
+    const slices: Job<ReindexSliceJob>[] = [];
+    for (let id = 0; id < max; id++) {
+      const data: ReindexSliceJob = {
+        indexName: parent.data.indexName,
+        request: parent.data.request,
+        parentTaskId: String(parent.id),
+        slice: { id, max },
+      };
+      // Kept until the parent task has collected their reports
+      const job = await this.bulkIndexingQueue.add('reindex-slice', data, {
+        jobId: `${parent.id}-slice-${id}`,
+        attempts: SLICE_ATTEMPTS,
+        removeOnComplete: false,
+        removeOnFail: false,
+      });
+      slices.push(job);
+    }
+    this.logger.log(`Queued ${max} slices of task ${parent.id}`);
+    return slices;
+  }
+
+  /**
+   * Saves where a slice got to, keeping a cancellation requested meanwhile
+   */
+  async saveCheckpoint(taskId: string | number, checkpoint: ReindexCheckpoint): Promise<void> {
+    const job = await this.bulkIndexingQueue.getJob(taskId);
+    if (job) {
+      await job.update({ ...job.data, checkpoint });
+    }
+  }
+
+  async isCancelRequested(taskId: string | number): Promise<boolean> {
+    const job = await this.bulkIndexingQueue.getJob(taskId);
+    return Boolean(job?.data?.cancelRequested);
+  }
+
+  private async findJob(taskId: string): Promise<Job<TaskJob>> {
+    const job = await this.bulkIndexingQueue.getJob(taskId);
+    if (!job || !TASK_TYPES.includes(job.name as TaskType)) {
+      throw new NotFoundException(`Task ${taskId} not found`);
+    }
+    return job;
+  }
+
+  private async stateOf(job: Job<TaskJob>): Promise<TaskState> {
+    const state = await job.getState();
+    switch (state) {
+      case 'active':
+        return 'running';
+      case 'completed':
+        return job.returnvalue?.cancelled ? 'cancelled' : 'completed';
+      case 'failed':
+        return 'failed';
+      default:
+        return 'waiting';
+    }
+  }
+
+  private toStatus(job: Job<TaskJob>, state: TaskState): TaskStatus {
+    const progress = job.progress();
+    return {
+      id: String(job.id),
+      type: job.name as TaskType,
+      state,
+      indexName: job.data.indexName,
+      request: job.data.request,
+      cancelRequested: Boolean(job.data.cancelRequested),
+      progress: typeof progress === 'object' ? progress : null,
+      ...(job.returnvalue && { result: job.returnvalue }),
+      ...(job.failedReason && { failedReason: job.failedReason }),
+    };
+  }
+}
@@ -13,6 +13,8 @@ async function bootstrap() {
   const expressApp = app.getHttpAdapter().getInstance();
   expressApp.use(express.json({ limit: '500mb' }));
   expressApp.use(express.urlencoded({ limit: '500mb', extended: true }));
+  // NDJSON bodies of _bulk requests are parsed line by line by the route
+  expressApp.use(express.text({ type: 'application/x-ndjson', limit: '500mb' }));
 
   // Enable CORS
   app.enableCors({
@@ -28,6 +30,7 @@ async function bootstrap() {
       .setTitle('Ogini API')
       .setDescription('The Ogini Search Engine API documentation')
       .setVersion('1.0')
+      .addBearerAuth({ type: 'http', scheme: 'bearer', description: 'API key' }, 'JWT-auth')
       .build();
     const document = SwaggerModule.createDocument(app, config);
     SwaggerModule.setup(configService.get('DOCS_PATH', 'api'), app, document);
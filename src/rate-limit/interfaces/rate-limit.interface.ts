@@ -0,0 +1,46 @@
+/**
+ * Routes are limited in groups: searches and reads, indexing writes, and
+ * administrative operations each have their own budget.
+ */
+export const RATE_LIMIT_GROUPS = ['search', 'bulk', 'admin'] as const;
+
+export type RateLimitGroup = (typeof RATE_LIMIT_GROUPS)[number];
+
+/**
+ * Token bucket holding `capacity` requests that refills completely every `windowMs`
+ */
+export interface TokenBucketLimit {
+  capacity: number;
+  windowMs: number;
+}
+
+export interface RateLimitRequest {
+  // API key id, or the client address when authentication is disabled
+  subject: string;
+  indexName?: string;
+  group: RateLimitGroup;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Which limit refused the request
+  reason?: 'rate' | 'quota';
+  // Capacity and remaining tokens of the most exhausted bucket
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  retryAfterSeconds: number;
+}
+
+export interface QuotaUsage {
+  total: number;
+  limit: number | null;
+  groups: Partial<Record<RateLimitGroup, number>>;
+}
+
+export interface DailyQuotaReport {
+  // UTC day the counters belong to, as YYYY-MM-DD
+  date: string;
+  keys: Record<string, QuotaUsage>;
+  indices: Record<string, QuotaUsage>;
+}
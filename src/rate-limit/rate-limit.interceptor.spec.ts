@@ -0,0 +1,98 @@
+import { HttpException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { of } from 'rxjs';
+import { INDEX_PARAM_KEY, IS_PUBLIC_KEY, REQUIRED_SCOPE_KEY } from '../auth/auth.decorators';
+import { RateLimitInterceptor } from './rate-limit.interceptor';
+import { RateLimitService } from './rate-limit.service';
+
+describe('RateLimitInterceptor', () => {
+  let interceptor: RateLimitInterceptor;
+  let rateLimitService: jest.Mocked<Pick<RateLimitService, 'isEnabled' | 'consume'>>;
+  let metadata: Record<string, any>;
+  let headers: Record<string, any>;
+  const next = { handle: jest.fn(() => of('ok')) };
+
+  const context = (request: Record<string, any>) =>
+    ({
+      getType: () => 'http',
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => ({ setHeader: (name: string, value: any) => (headers[name] = value) }),
+      }),
+    } as any);
+
+  beforeEach(() => {
+    metadata = {};
+    headers = {};
+    next.handle.mockClear();
+    rateLimitService = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      consume: jest.fn(),
+    };
+    const reflector = { getAllAndOverride: (key: string) => metadata[key] } as unknown as Reflector;
+    interceptor = new RateLimitInterceptor(reflector, rateLimitService as any);
+  });
+
+  it('should skip public routes', async () => {
+    metadata[IS_PUBLIC_KEY] = true;
+
+    await interceptor.intercept(context({ method: 'GET' }), next);
+
+    expect(rateLimitService.consume).not.toHaveBeenCalled();
+    expect(next.handle).toHaveBeenCalled();
+  });
+
+  it('should limit the caller within the route group and report the budget', async () => {
+    rateLimitService.consume.mockResolvedValue({
+      allowed: true,
+      limit: 60,
+      remaining: 59,
+      resetSeconds: 1,
+      retryAfterSeconds: 1,
+    });
+    metadata[INDEX_PARAM_KEY] = 'name';
+
+    await interceptor.intercept(
+      context({ method: 'POST', apiKey: { id: 'key-1' }, params: { name: 'businesses' } }),
+      next,
+    );
+
+    expect(rateLimitService.consume).toHaveBeenCalledWith({
+      subject: 'key-1',
+      indexName: 'businesses',
+      group: 'bulk',
+    });
+    expect(headers).toEqual({
+      'X-RateLimit-Limit': 60,
+      'X-RateLimit-Remaining': 59,
+      'X-RateLimit-Reset': 1,
+    });
+    expect(next.handle).toHaveBeenCalled();
+  });
+
+  it('should reject limited requests with 429 and Retry-After', async () => {
+    rateLimitService.consume.mockResolvedValue({
+      allowed: false,
+      reason: 'rate',
+      limit: 60,
+      remaining: 0,
+      resetSeconds: 60,
+      retryAfterSeconds: 2,
+    });
+    metadata[REQUIRED_SCOPE_KEY] = 'admin';
+
+    const error = await interceptor
+      .intercept(context({ method: 'GET', ip: '10.0.0.1', params: {} }), next)
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error.getStatus()).toBe(429);
+    expect(headers['Retry-After']).toBe(2);
+    expect(rateLimitService.consume).toHaveBeenCalledWith(
+      expect.objectContaining({ subject: 'ip:10.0.0.1', group: 'admin' }),
+    );
+    expect(next.handle).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable } from 'rxjs';
+import { getIndexName, getRequiredScope, IS_PUBLIC_KEY } from '../auth/auth.decorators';
+import { RateLimitGroup } from './interfaces/rate-limit.interface';
+import { RateLimitService } from './rate-limit.service';
+
+const SCOPE_GROUPS: Record<string, RateLimitGroup> = {
+  search: 'search',
+  write: 'bulk',
+  admin: 'admin',
+};
+
+/**
+ * Applies rate limits and daily quotas to every non-public route. It runs as an
+ * interceptor so the API key guard has already identified the caller; the
+ * route group follows the scope the route requires.
+ */
+@Injectable()
+export class RateLimitInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
+    if (context.getType() !== 'http' || !this.rateLimitService.isEnabled()) {
+      return next.handle();
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+    const group = SCOPE_GROUPS[getRequiredScope(this.reflector, context)];
+    const result = await this.rateLimitService.consume({
+      subject: request.apiKey?.id ?? `ip:${request.ip}`,
+      indexName: getIndexName(this.reflector, context),
+      group,
+    });
+    if (!result) {
+      return next.handle();
+    }
+
+    if (result.limit > 0) {
+      response.setHeader('X-RateLimit-Limit', result.limit);
+      response.setHeader('X-RateLimit-Remaining', result.remaining);
+      response.setHeader('X-RateLimit-Reset', result.resetSeconds);
+    }
+
+    if (!result.allowed) {
+      response.setHeader('Retry-After', result.retryAfterSeconds);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          error: 'Too Many Requests',
+          message:
+            result.reason === 'quota'
+              ? 'Daily request quota exceeded'
+              : `Rate limit exceeded for ${group} requests`,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    return next.handle();
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { PostgreSQLModule } from '../storage/postgresql/postgresql.module';
+import { RateLimitService } from './rate-limit.service';
+import { RateLimitInterceptor } from './rate-limit.interceptor';
+
+@Module({
+  imports: [PostgreSQLModule],
+  providers: [RateLimitService, { provide: APP_INTERCEPTOR, useClass: RateLimitInterceptor }],
+  exports: [RateLimitService],
+})
+export class RateLimitModule {}
@@ -0,0 +1,131 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RedisCacheService } from '../storage/postgresql/redis-cache.service';
+import { RateLimitService } from './rate-limit.service';
+
+describe('RateLimitService', () => {
+  let service: RateLimitService;
+  let redis: { status: string; eval: jest.Mock; hgetall: jest.Mock };
+  let config: Record<string, string>;
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitService,
+        { provide: RedisCacheService, useValue: { getClient: () => redis } },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string, fallback?: string) => config[key] ?? fallback },
+        },
+      ],
+    }).compile();
+
+    return module.get<RateLimitService>(RateLimitService);
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-01-31T23:00:00Z'));
+    redis = { status: 'ready', eval: jest.fn(), hgetall: jest.fn() };
+    config = { RATE_LIMIT_SEARCH_PER_INDEX: '100/10s', RATE_LIMIT_DAILY_QUOTA_PER_KEY: '5000' };
+    service = await createService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('consume', () => {
+    it('should check the key and index buckets in one script call', async () => {
+      redis.eval.mockResolvedValue([1, '', 100, 42, 6000, 0]);
+
+      const result = await service.consume({
+        subject: 'key-1',
+        indexName: 'businesses',
+        group: 'search',
+      });
+      const [, numKeys, ...rest] = redis.eval.mock.calls[0];
+
+      expect(numKeys).toBe(3);
+      expect(rest.slice(0, 3)).toEqual([
+        'ratelimit:bucket:key:key-1:search',
+        'ratelimit:bucket:index:businesses:search',
+        'ratelimit:quota:2024-01-31',
+      ]);
+      expect(rest.slice(4, 9)).toEqual([2, 600, 60000, 100, 10000]);
+      expect(rest.slice(9, 14)).toEqual(['key:key-1', 'index:businesses', 'search', 5000, 0]);
+      expect(result).toEqual({
+        allowed: true,
+        reason: undefined,
+        limit: 100,
+        remaining: 42,
+        resetSeconds: 6,
+        retryAfterSeconds: 1,
+      });
+    });
+
+    it('should only use the key bucket for routes without an index', async () => {
+      redis.eval.mockResolvedValue([0, 'rate', 60, 0, 60000, 2500]);
+
+      const result = await service.consume({ subject: 'ip:127.0.0.1', group: 'bulk' });
+
+      expect(redis.eval.mock.calls[0][1]).toBe(2);
+      expect(result).toMatchObject({ allowed: false, reason: 'rate', retryAfterSeconds: 3 });
+    });
+
+    it('should ask clients over their quota to retry the next UTC day', async () => {
+      redis.eval.mockResolvedValue([0, 'quota', 600, 599, 100, 0]);
+
+      const result = await service.consume({ subject: 'key-1', group: 'search' });
+
+      expect(result).toMatchObject({ allowed: false, reason: 'quota', retryAfterSeconds: 3600 });
+    });
+
+    it('should let requests through when Redis is unavailable', async () => {
+      redis.eval.mockRejectedValue(new Error('connection lost'));
+      expect(await service.consume({ subject: 'key-1', group: 'search' })).toBeNull();
+
+      redis.status = 'reconnecting';
+      expect(await service.consume({ subject: 'key-1', group: 'search' })).toBeNull();
+      expect(redis.eval).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the default for invalid limits and skip disabled ones', async () => {
+      config = { RATE_LIMIT_ADMIN_PER_KEY: 'lots', RATE_LIMIT_ADMIN_PER_INDEX: '0' };
+      service = await createService();
+      redis.eval.mockResolvedValue([1, '', 60, 59, 1000, 0]);
+
+      await service.consume({ subject: 'key-1', indexName: 'businesses', group: 'admin' });
+      const [, numKeys, , , , buckets, capacity, windowMs] = redis.eval.mock.calls[0];
+
+      expect([numKeys, buckets, capacity, windowMs]).toEqual([2, 1, 60, 60000]);
+    });
+  });
+
+  describe('getQuotaUsage', () => {
+    it('should group the daily counters by key and index', async () => {
+      redis.hgetall.mockResolvedValue({
+        'key:key-1': '12',
+        'key:key-1|search': '10',
+        'key:key-1|bulk': '2',
+        'key:ip:::1': '3',
+        'key:ip:::1|admin': '3',
+        'index:businesses': '10',
+        'index:businesses|search': '10',
+      });
+
+      const report = await service.getQuotaUsage('2024-01-30');
+
+      expect(redis.hgetall).toHaveBeenCalledWith('ratelimit:quota:2024-01-30');
+      expect(report).toEqual({
+        date: '2024-01-30',
+        keys: {
+          'key-1': { total: 12, limit: 5000, groups: { search: 10, bulk: 2 } },
+          'ip:::1': { total: 3, limit: 5000, groups: { admin: 3 } },
+        },
+        indices: {
+          businesses: { total: 10, limit: null, groups: { search: 10 } },
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisCacheService } from '../storage/postgresql/redis-cache.service';
+import {
+  DailyQuotaReport,
+  QuotaUsage,
+  RATE_LIMIT_GROUPS,
+  RateLimitGroup,
+  RateLimitRequest,
+  RateLimitResult,
+  TokenBucketLimit,
+} from './interfaces/rate-limit.interface';
+
+const KEY_PREFIX = 'ratelimit';
+const QUOTA_TTL_SECONDS = 2 * 24 * 60 * 60;
+const WINDOW_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+const DEFAULT_LIMITS: Record<RateLimitGroup, { perKey: string; perIndex: string }> = {
+  search: { perKey: '600/1m', perIndex: '3000/1m' },
+  bulk: { perKey: '60/1m', perIndex: '120/1m' },
+  admin: { perKey: '60/1m', perIndex: '60/1m' },
+};
+
+/**
+ * Checks every bucket and the daily quotas first and only then takes a token
+ * from each, so a request refused by one limit does not drain the others.
+ *
+ * KEYS: bucket 1..n, quota hash
+ * ARGV: now, n, (capacity, windowMs) per bucket, key field, index field, group,
+ *       key quota, index quota, quota TTL
+ */
+const CONSUME_SCRIPT = `
+local now = tonumber(ARGV[1])
+local n = tonumber(ARGV[2])
+local base = 3 + 2 * n
+local keyField, indexField, group = ARGV[base], ARGV[base + 1], ARGV[base + 2]
+local keyQuota, indexQuota = tonumber(ARGV[base + 3]), tonumber(ARGV[base + 4])
+local quotaKey = KEYS[n + 1]
+
+local buckets = {}
+local allowed, reason, retry = 1, '', 0
+for i = 1, n do
+  local capacity, window = tonumber(ARGV[1 + 2 * i]), tonumber(ARGV[2 + 2 * i])
+  local rate = capacity / window
+  local state = redis.call('HMGET', KEYS[i], 'tokens', 'ts')
+  local tokens = tonumber(state[1]) or capacity
+  local ts = tonumber(state[2]) or now
+  tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+  buckets[i] = { tokens = tokens, capacity = capacity, window = window, rate = rate }
+  if tokens < 1 then
+    allowed, reason = 0, 'rate'
+    retry = math.max(retry, (1 - tokens) / rate)
+  end
+end
+
+if allowed == 1 then
+  if keyQuota > 0 and tonumber(redis.call('HGET', quotaKey, keyField) or '0') >= keyQuota then
+    allowed, reason = 0, 'quota'
+  elseif indexField ~= '' and indexQuota > 0
+    and tonumber(redis.call('HGET', quotaKey, indexField) or '0') >= indexQuota then
+    allowed, reason = 0, 'quota'
+  end
+end
+
+if allowed == 1 then
+  for i = 1, n do
+    buckets[i].tokens = buckets[i].tokens - 1
+    redis.call('HSET', KEYS[i], 'tokens', tostring(buckets[i].tokens), 'ts', now)
+    redis.call('PEXPIRE', KEYS[i], buckets[i].window)
+  end
+  redis.call('HINCRBY', quotaKey, keyField, 1)
+  redis.call('HINCRBY', quotaKey, keyField .. '|' .. group, 1)
+  if indexField ~= '' then
+    redis.call('HINCRBY', quotaKey, indexField, 1)
+    redis.call('HINCRBY', quotaKey, indexField .. '|' .. group, 1)
+  end
+  redis.call('EXPIRE', quotaKey, tonumber(ARGV[base + 5]))
+end
+
+local worst = buckets[1]
+for i = 2, n do
+  if buckets[i].tokens < worst.tokens then worst = buckets[i] end
+end
+if worst == nil then
+  return { allowed, reason, 0, 0, 0, 0 }
+end
+return {
+  allowed, reason, worst.capacity, math.floor(math.max(worst.tokens, 0)),
+  math.ceil((worst.capacity - worst.tokens) / worst.rate), math.ceil(retry)
+}
+`;
+
+/**
+ * Token-bucket rate limits per API key and per index for each route group,
+ * plus daily request quotas, kept in Redis so every instance shares them.
+ *
+ * Limits are configured as `<requests>/<window>`, e.g. RATE_LIMIT_SEARCH_PER_KEY=600/1m;
+ * `0` disables a bucket. When Redis is unavailable requests are let through.
+ */
+@Injectable()
+export class RateLimitService {
+  private readonly logger = new Logger(RateLimitService.name);
+  private readonly limits: Record<
+    RateLimitGroup,
+    { perKey: TokenBucketLimit | null; perIndex: TokenBucketLimit | null }
+  >;
+  private readonly keyQuota: number;
+  private readonly indexQuota: number;
+
+  constructor(
+    private readonly redisCache: RedisCacheService,
+    private readonly configService: ConfigService,
+  ) {
+    this.limits = {} as RateLimitService['limits'];
+    for (const group of RATE_LIMIT_GROUPS) {
+      const prefix = `RATE_LIMIT_${group.toUpperCase()}`;
+      this.limits[group] = {
+        perKey: this.readLimit(`${prefix}_PER_KEY`, DEFAULT_LIMITS[group].perKey),
+        perIndex: this.readLimit(`${prefix}_PER_INDEX`, DEFAULT_LIMITS[group].perIndex),
+      };
+    }
+    this.keyQuota = this.readQuota('RATE_LIMIT_DAILY_QUOTA_PER_KEY');
+    this.indexQuota = this.readQuota('RATE_LIMIT_DAILY_QUOTA_PER_INDEX');
+  }
+
+  /**
+   * Whether requests are rate limited (RATE_LIMIT_ENABLED, on by default)
+   */
+  isEnabled(): boolean {
+    return this.configService.get<string>('RATE_LIMIT_ENABLED', 'true') !== 'false';
+  }
+
+  /**
+   * Take a token for a request. Returns null when the limits could not be
+   * checked, in which case the request should proceed.
+   */
+  async consume(request: RateLimitRequest): Promise<RateLimitResult | null> {
+    const redis = this.redisCache.getClient();
+    if (redis.status !== 'ready') {
+      return null;
+    }
+
+    const { perKey, perIndex } = this.limits[request.group];
+    const buckets: Array<{ key: string; limit: TokenBucketLimit }> = [];
+    if (perKey) {
+      buckets.push({ key: this.bucketKey('key', request.subject, request.group), limit: perKey });
+    }
+    if (perIndex && request.indexName) {
+      buckets.push({
+        key: this.bucketKey('index', request.indexName, request.group),
+        limit: perIndex,
+      });
+    }
+
+    const now = Date.now();
+    try {
+      const [allowed, reason, limit, remaining, resetMs, retryMs] = (await redis.eval(
+        CONSUME_SCRIPT,
+        buckets.length + 1,
+        ...buckets.map(bucket => bucket.key),
+        this.quotaKey(this.day(now)),
+        now,
+        buckets.length,
+        ...buckets.flatMap(bucket => [bucket.limit.capacity, bucket.limit.windowMs]),
+        `key:${request.subject}`,
+        request.indexName ? `index:${request.indexName}` : '',
+        request.group,
+        this.keyQuota,
+        request.indexName ? this.indexQuota : 0,
+        QUOTA_TTL_SECONDS,
+      )) as [number, string, number, number, number, number];
+
+      return {
+        allowed: allowed === 1,
+        reason: reason ? (reason as RateLimitResult['reason']) : undefined,
+        limit,
+        remaining,
+        resetSeconds: Math.ceil(resetMs / 1000),
+        retryAfterSeconds:
+          reason === 'quota'
+            ? Math.ceil((this.nextDay(now) - now) / 1000)
+            : Math.max(1, Math.ceil(retryMs / 1000)),
+      };
+    } catch (error) {
+      this.logger.warn(`Rate limit check failed, allowing request: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Requests counted against the daily quotas, per API key and per index
+   */
+  async getQuotaUsage(date?: string): Promise<DailyQuotaReport> {
+    const day = date ?? this.day(Date.now());
+    const counters: Record<string, string> = await this.redisCache
+      .getClient()
+      .hgetall(this.quotaKey(day));
+
+    const report: DailyQuotaReport = { date: day, keys: {}, indices: {} };
+    for (const [field, value] of Object.entries(counters)) {
+      const [target, ...rest] = field.split(':');
+      const name = rest.join(':');
+      const separator = name.lastIndexOf('|');
+      const subject = separator === -1 ? name : name.slice(0, separator);
+      const usages = target === 'key' ? report.keys : report.indices;
+      const quota = target === 'key' ? this.keyQuota : this.indexQuota;
+      const usage: QuotaUsage = (usages[subject] ??= {
+        total: 0,
+        limit: quota > 0 ? quota : null,
+        groups: {},
+      });
+
+      if (separator === -1) {
+        usage.total = Number(value);
+      } else {
+        usage.groups[name.slice(separator + 1) as RateLimitGroup] = Number(value);
+      }
+    }
+    return report;
+  }
+
+  private bucketKey(target: 'key' | 'index', name: string, group: RateLimitGroup): string {
+    return `${KEY_PREFIX}:bucket:${target}:${name}:${group}`;
+  }
+
+  private quotaKey(day: string): string {
+    return `${KEY_PREFIX}:quota:${day}`;
+  }
+
+  private day(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+  }
+
+  private nextDay(timestamp: number): number {
+    const date = new Date(timestamp);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+  }
+
+  private readLimit(name: string, fallback: string): TokenBucketLimit | null {
+    const value = String(this.configService.get<string>(name, fallback)).trim();
+    if (value === '0') return null;
+
+    const limit = this.parseLimit(value);
+    if (!limit) {
+      this.logger.warn(`Invalid ${name} '${value}', using ${fallback}`);
+      return this.parseLimit(fallback);
+    }
+    return limit;
+  }
+
+  private parseLimit(value: string): TokenBucketLimit | null {
+    const match = value.match(/^(\d+)\/(\d*)([smh])$/);
+    const capacity = match ? parseInt(match[1], 10) : 0;
+    const windowMs = match ? parseInt(match[2] || '1', 10) * WINDOW_UNITS[match[3]] : 0;
+    return capacity > 0 && windowMs > 0 ? { capacity, windowMs } : null;
+  }
+
+  private readQuota(name: string): number {
+    const value = Number(this.configService.get<string>(name, '0'));
+    if (!Number.isInteger(value) || value < 0) {
+      this.logger.warn(`Invalid ${name}, daily quota disabled`);
+      return 0;
+    }
+    return value;
+  }
+}
@@ -1,20 +1,84 @@
+import { SchemaEnforcementMode } from '../../index/interfaces/index.interface';
+
 export interface Schema {
   name: string;
   version: number;
   fields: SchemaField[];
+  // Checked when the next version is registered; carried over from the previous version
+  compatibility?: SchemaCompatibility;
+  // Steps that turn a document of the previous version into one of this version
+  migrations?: MigrationStep[];
   created: Date;
   updated?: Date;
 }
 
-export interface SchemaField {
+export type SchemaCompatibility = 'backward' | 'forward' | 'full' | 'none';
+
+/**
+ * A declarative change to a document. Fields are dot paths such as address.city;
+ * steps whose source fields are absent leave the document as it is.
+ */
+export type MigrationStep =
+  | { op: 'rename'; from: string; to: string }
+  | { op: 'set_default'; field: string; value: any }
+  | { op: 'split'; field: string; into: string[]; separator?: string }
+  | { op: 'merge'; fields: string[]; into: string; separator?: string }
+  | { op: 'change_type'; field: string; to: SchemaFieldType };
+
+export interface SchemaChange {
+  // Dot path of the field; [] stands for the items of an array
+  field: string;
+  change:
+    | 'field_added'
+    | 'field_removed'
+    | 'type_changed'
+    | 'requirement_changed'
+    | 'format_changed'
+    | 'validator_changed';
+  from?: any;
+  to?: any;
+  // Whether documents of the previous version still pass the new one
+  backward: boolean;
+  // Whether documents of the new version still pass the previous one
+  forward: boolean;
+  // Index of the migration step that makes this change backward compatible
+  migratedBy?: number;
+}
+
+export interface CompatibilityReport {
+  compatibility: SchemaCompatibility;
+  fromVersion: number;
+  toVersion: number;
+  compatible: boolean;
+  changes: SchemaChange[];
+}
+
+export type SchemaFieldType = 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array';
+
+export type SchemaFieldFormat = 'email' | 'url' | 'uuid' | 'geo_point';
+
+/**
+ * The shape of a value: of a field, or of the items of an array field
+ */
+export interface SchemaItem {
+  type: SchemaFieldType;
+  format?: SchemaFieldFormat;
+  // Properties of an object
+  fields?: SchemaField[];
+  // Type of the items of an array
+  items?: SchemaItem;
+  validators?: FieldValidator[];
+}
+
+export interface SchemaField extends SchemaItem {
   name: string;
-  type: 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array';
   required: boolean;
+  // Required only when a sibling field is present, or has the given value
+  requiredWhen?: { field: string; equals?: any };
   searchable?: boolean;
   filterable?: boolean;
   facetable?: boolean;
   boost?: number;
-  validators?: FieldValidator[];
 }
 
 export interface FieldValidator {
@@ -22,9 +86,26 @@ export interface FieldValidator {
   params?: Record<string, any>;
 }
 
+export interface SchemaValidationError {
+  // JSON pointer to the offending value, e.g. /variants/0/price
+  path: string;
+  message: string;
+}
+
 export interface ValidationResult {
   valid: boolean;
-  errors?: string[];
+  errors?: SchemaValidationError[];
+}
+
+export interface SchemaViolation {
+  documentId: string;
+  schemaName: string;
+  schemaVersion: number;
+  mode: SchemaEnforcementMode;
+  errors: SchemaValidationError[];
+  // Kept for dead-lettered documents only, which were not indexed
+  document?: Record<string, any>;
+  createdAt?: Date;
 }
 
 export interface SchemaRegistry {
@@ -0,0 +1,185 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PostgreSQLService } from '../storage/postgresql/postgresql.service';
+import { SchemaEnforcementService } from './schema-enforcement.service';
+import { SchemaVersionManagerService } from './schema-version-manager.service';
+import { Schema } from './interfaces/schema.interface';
+
+describe('SchemaEnforcementService', () => {
+  let service: SchemaEnforcementService;
+  let postgresqlService: { query: jest.Mock };
+  let schemaVersionManager: { getSchema: jest.Mock };
+  let binding: any;
+
+  const productSchema: Schema = {
+    name: 'product',
+    version: 2,
+    created: new Date(0),
+    fields: [
+      { name: 'title', type: 'string', required: true },
+      { name: 'price', type: 'number', required: false },
+    ],
+  };
+
+  const documents = [
+    { id: 'good', document: { title: 'Laptop', price: 1500 } },
+    { id: 'bad', document: { price: 'cheap' } },
+  ];
+
+  const insertedViolations = () =>
+    postgresqlService.query.mock.calls
+      .filter(([sql]) => sql.includes('INSERT INTO schema_violations'))
+      .flatMap(([, params]) => JSON.parse(params[1]));
+
+  beforeEach(async () => {
+    binding = { name: 'product' };
+    postgresqlService = {
+      query: jest.fn().mockImplementation((sql: string, params: any[]) => {
+        if (sql.includes("settings->'schema'")) return [{ schema: binding }];
+        if (sql.includes('FROM indices')) return params[0] === 'products' ? [{}] : [];
+        if (sql.includes('COUNT(*)::int AS total')) return [{ total: 1 }];
+        if (sql.includes('SELECT COUNT(*)::int AS deleted')) return [{ deleted: 3 }];
+        return [];
+      }),
+    };
+    schemaVersionManager = {
+      getSchema: jest
+        .fn()
+        .mockImplementation(async (name: string, version?: number) =>
+          name === 'product' && (!version || version === 2) ? productSchema : null,
+        ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchemaEnforcementService,
+        { provide: PostgreSQLService, useValue: postgresqlService },
+        { provide: SchemaVersionManagerService, useValue: schemaVersionManager },
+      ],
+    }).compile();
+
+    service = module.get<SchemaEnforcementService>(SchemaEnforcementService);
+  });
+
+  it('should accept every document of an index without a schema', async () => {
+    binding = null;
+
+    const result = await service.check('products', documents);
+
+    expect(result).toEqual({ accepted: documents, violations: [] });
+    expect(schemaVersionManager.getSchema).not.toHaveBeenCalled();
+  });
+
+  it('should reject non-conforming documents without recording them', async () => {
+    const result = await service.check('products', documents);
+
+    expect(result.accepted.map(doc => doc.id)).toEqual(['good']);
+    expect(result.violations).toEqual([
+      {
+        documentId: 'bad',
+        schemaName: 'product',
+        schemaVersion: 2,
+        mode: 'reject',
+        errors: [
+          { path: '/title', message: 'is required' },
+          { path: '/price', message: 'has invalid type, expected number' },
+        ],
+      },
+    ]);
+    expect(insertedViolations()).toEqual([]);
+  });
+
+  it('should dead-letter non-conforming documents with their content', async () => {
+    binding = { name: 'product', version: 2, mode: 'dead_letter' };
+
+    const result = await service.check('products', documents);
+
+    expect(result.accepted.map(doc => doc.id)).toEqual(['good']);
+    expect(insertedViolations()).toEqual([
+      expect.objectContaining({
+        document_id: 'bad',
+        mode: 'dead_letter',
+        document: { price: 'cheap' },
+      }),
+    ]);
+  });
+
+  it('should index non-conforming documents in warn mode and record the violations', async () => {
+    binding = { name: 'product', mode: 'warn' };
+
+    const result = await service.check('products', documents);
+
+    expect(result.accepted.map(doc => doc.id)).toEqual(['good', 'bad']);
+    expect(result.violations.map(violation => violation.mode)).toEqual(['warn']);
+    expect(insertedViolations()).toEqual([
+      expect.objectContaining({ document_id: 'bad', mode: 'warn', document: null }),
+    ]);
+  });
+
+  it('should fail the request when dead letters cannot be recorded', async () => {
+    binding = { name: 'product', mode: 'dead_letter' };
+    postgresqlService.query.mockImplementation((sql: string) => {
+      if (sql.includes("settings->'schema'")) return [{ schema: binding }];
+      if (sql.includes('INSERT INTO schema_violations')) throw new Error('connection lost');
+      return [];
+    });
+
+    await expect(service.check('products', documents)).rejects.toThrow('connection lost');
+  });
+
+  it('should throw the violations of a single rejected document', async () => {
+    binding = { name: 'product', mode: 'dead_letter' };
+
+    const error = await service.enforce('products', 'bad', { price: 'cheap' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(BadRequestException);
+    expect(error.getResponse()).toEqual({
+      message: 'Document does not match schema product v2',
+      errors: expect.arrayContaining([{ path: '/title', message: 'is required' }]),
+      deadLettered: true,
+    });
+  });
+
+  it('should return the violation of a single document in warn mode', async () => {
+    binding = { name: 'product', mode: 'warn' };
+
+    await expect(service.enforce('products', 'good', { title: 'Laptop' })).resolves.toBeNull();
+    await expect(service.enforce('products', 'bad', { title: 7 })).resolves.toMatchObject({
+      mode: 'warn',
+      errors: [{ path: '/title', message: 'has invalid type, expected string' }],
+    });
+  });
+
+  it('should refuse to check against a schema that is no longer registered', async () => {
+    binding = { name: 'product', version: 5 };
+
+    await expect(service.check('products', documents)).rejects.toThrow(
+      'Index products is bound to schema product v5, which is not registered',
+    );
+  });
+
+  it('should validate bindings', async () => {
+    await expect(service.assertValidBinding(undefined)).resolves.toBeUndefined();
+    await expect(service.assertValidBinding({ name: 'product', mode: 'warn' })).resolves.toBe(
+      undefined,
+    );
+    await expect(
+      service.assertValidBinding({ name: 'product', mode: 'ignore' as any }),
+    ).rejects.toThrow('Unknown schema mode ignore');
+    await expect(service.assertValidBinding({ name: 'order' })).rejects.toThrow(
+      'Schema order is not registered',
+    );
+  });
+
+  it('should list and delete the violations of an index', async () => {
+    await expect(service.listViolations('products', { mode: 'dead_letter' })).resolves.toEqual({
+      total: 1,
+      violations: [],
+    });
+    const [, params] = postgresqlService.query.mock.calls.find(([sql]) => sql.includes('LIMIT'));
+    expect(params).toEqual(['products', 'dead_letter', 20, 0]);
+
+    await expect(service.deleteViolations('products')).resolves.toBe(3);
+    await expect(service.listViolations('missing')).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,270 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { PostgreSQLService } from '../storage/postgresql/postgresql.service';
+import { SchemaBinding, SchemaEnforcementMode } from '../index/interfaces/index.interface';
+import { SchemaViolation } from './interfaces/schema.interface';
+import { SchemaVersionManagerService } from './schema-version-manager.service';
+import { SchemaValidator } from './utils/schema-validator';
+
+const ENFORCEMENT_MODES: SchemaEnforcementMode[] = ['reject', 'dead_letter', 'warn'];
+
+export interface SchemaCheckResult<T extends { id: string; document: any }> {
+  // Documents to index: the conforming ones, plus the others in warn mode
+  accepted: T[];
+  violations: SchemaViolation[];
+}
+
+export function schemaViolationMessage(violation: SchemaViolation): string {
+  return `Document does not match schema ${violation.schemaName} v${violation.schemaVersion}`;
+}
+
+/**
+ * Validates documents against the registered schema an index is bound to
+ * (`settings.schema`) before they are stored. Depending on the binding's mode
+ * non-conforming documents are rejected, set aside in schema_violations
+ * (dead_letter) or indexed with their violations recorded there (warn).
+ */
+@Injectable()
+export class SchemaEnforcementService implements OnModuleInit {
+  private readonly logger = new Logger(SchemaEnforcementService.name);
+
+  constructor(
+    private readonly postgresqlService: PostgreSQLService,
+    private readonly schemaVersionManager: SchemaVersionManagerService,
+  ) {}
+
+  async onModuleInit() {
+    await this.initializeTable();
+  }
+
+  private async initializeTable(): Promise<void> {
+    try {
+      await this.postgresqlService.query(`
+        CREATE TABLE IF NOT EXISTS schema_violations (
+          id BIGSERIAL PRIMARY KEY,
+          index_name VARCHAR(255) NOT NULL,
+          document_id VARCHAR(255) NOT NULL,
+          schema_name VARCHAR(255) NOT NULL,
+          schema_version INTEGER NOT NULL,
+          mode VARCHAR(20) NOT NULL,
+          errors JSONB NOT NULL,
+          document JSONB,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+        CREATE INDEX IF NOT EXISTS idx_schema_violations_index
+          ON schema_violations (index_name, mode, created_at DESC);
+      `);
+    } catch (error) {
+      this.logger.error(`Failed to initialize schema_violations table: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Throws if a binding names an unknown mode or a schema (version) that is not registered
+   */
+  async assertValidBinding(binding?: SchemaBinding): Promise<void> {
+    if (!binding) return;
+
+    if (!binding.name || typeof binding.name !== 'string') {
+      throw new BadRequestException('schema.name is required');
+    }
+    if (binding.mode && !ENFORCEMENT_MODES.includes(binding.mode)) {
+      throw new BadRequestException(
+        `Unknown schema mode ${binding.mode}, expected one of: ${ENFORCEMENT_MODES.join(', ')}`,
+      );
+    }
+
+    const schema = await this.schemaVersionManager.getSchema(binding.name, binding.version);
+    if (!schema) {
+      throw new BadRequestException(`Schema ${this.describe(binding)} is not registered`);
+    }
+  }
+
+  /**
+   * Splits documents into those to index and those that violate the index's schema
+   */
+  async check<T extends { id: string; document: any }>(
+    indexName: string,
+    documents: T[],
+  ): Promise<SchemaCheckResult<T>> {
+    const binding = await this.getBinding(indexName);
+    if (!binding || documents.length === 0) {
+      return { accepted: documents, violations: [] };
+    }
+
+    const schema = await this.schemaVersionManager.getSchema(binding.name, binding.version);
+    if (!schema) {
+      throw new BadRequestException(
+        `Index ${indexName} is bound to schema ${this.describe(binding)}, which is not registered`,
+      );
+    }
+
+    const mode = binding.mode || 'reject';
+    const accepted: T[] = [];
+    const violations: SchemaViolation[] = [];
+
+    for (const doc of documents) {
+      const result = SchemaValidator.validateDocument(schema, doc.document || {});
+      if (result.valid) {
+        accepted.push(doc);
+        continue;
+      }
+
+      violations.push({
+        documentId: doc.id,
+        schemaName: schema.name,
+        schemaVersion: schema.version,
+        mode,
+        errors: result.errors,
+        ...(mode === 'dead_letter' && { document: doc.document }),
+      });
+      if (mode === 'warn') {
+        accepted.push(doc);
+      }
+    }
+
+    if (mode !== 'reject') {
+      await this.recordViolations(indexName, violations);
+    }
+    return { accepted, violations };
+  }
+
+  /**
+   * Checks a single document, throwing a 400 with the violations unless the index is in
+   * warn mode. Returns the recorded violation in warn mode.
+   */
+  async enforce(indexName: string, id: string, document: any): Promise<SchemaViolation | null> {
+    const { violations } = await this.check(indexName, [{ id, document }]);
+    const violation = violations[0];
+    if (!violation) return null;
+
+    if (violation.mode !== 'warn') {
+      throw new BadRequestException({
+        message: schemaViolationMessage(violation),
+        errors: violation.errors,
+        deadLettered: violation.mode === 'dead_letter',
+      });
+    }
+    return violation;
+  }
+
+  async listViolations(
+    indexName: string,
+    options: { mode?: SchemaEnforcementMode; from?: number; size?: number } = {},
+  ): Promise<{ total: number; violations: SchemaViolation[] }> {
+    await this.assertIndexExists(indexName);
+    const { mode, from = 0, size = 20 } = options;
+
+    const modeClause = mode ? 'AND mode = $2' : '';
+    const params: any[] = mode ? [indexName, mode] : [indexName];
+    const [countRows, rows] = await Promise.all([
+      this.postgresqlService.query(
+        `SELECT COUNT(*)::int AS total FROM schema_violations WHERE index_name = $1 ${modeClause}`,
+        params,
+      ),
+      this.postgresqlService.query(
+        `SELECT document_id, schema_name, schema_version, mode, errors, document, created_at
+         FROM schema_violations WHERE index_name = $1 ${modeClause}
+         ORDER BY created_at DESC, id DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, size, from],
+      ),
+    ]);
+
+    return {
+      total: countRows[0]?.total || 0,
+      violations: rows.map(row => this.mapRow(row)),
+    };
+  }
+
+  /**
+   * Deletes the recorded violations of an index, e.g. once dead-lettered documents were
+   * fixed and resubmitted. Returns how many were deleted.
+   */
+  async deleteViolations(indexName: string, mode?: SchemaEnforcementMode): Promise<number> {
+    await this.assertIndexExists(indexName);
+    const rows = await this.postgresqlService.query(
+      `WITH deleted AS (
+         DELETE FROM schema_violations WHERE index_name = $1 ${mode ? 'AND mode = $2' : ''}
+         RETURNING 1
+       )
+       SELECT COUNT(*)::int AS deleted FROM deleted`,
+      mode ? [indexName, mode] : [indexName],
+    );
+    return rows[0]?.deleted || 0;
+  }
+
+  private async getBinding(indexName: string): Promise<SchemaBinding | null> {
+    const rows = await this.postgresqlService.query(
+      "SELECT settings->'schema' AS schema FROM indices WHERE index_name = $1",
+      [indexName],
+    );
+    return rows[0]?.schema || null;
+  }
+
+  private async recordViolations(indexName: string, violations: SchemaViolation[]): Promise<void> {
+    if (violations.length === 0) return;
+
+    try {
+      await this.postgresqlService.query(
+        `INSERT INTO schema_violations
+           (index_name, document_id, schema_name, schema_version, mode, errors, document)
+         SELECT $1, v.document_id, v.schema_name, v.schema_version, v.mode, v.errors, v.document
+         FROM jsonb_to_recordset($2::jsonb) AS v(
+           document_id TEXT, schema_name TEXT, schema_version INTEGER, mode TEXT,
+           errors JSONB, document JSONB
+         )`,
+        [
+          indexName,
+          JSON.stringify(
+            violations.map(violation => ({
+              document_id: violation.documentId,
+              schema_name: violation.schemaName,
+              schema_version: violation.schemaVersion,
+              mode: violation.mode,
+              errors: violation.errors,
+              document: violation.document ?? null,
+            })),
+          ),
+        ],
+      );
+    } catch (error) {
+      // Dead-lettered documents exist nowhere else, so losing them must fail the request
+      if (violations.some(violation => violation.mode === 'dead_letter')) {
+        throw error;
+      }
+      this.logger.error(`Failed to record schema violations for ${indexName}: ${error.message}`);
+    }
+  }
+
+  private async assertIndexExists(indexName: string): Promise<void> {
+    const rows = await this.postgresqlService.query('SELECT 1 FROM indices WHERE index_name = $1', [
+      indexName,
+    ]);
+    if (rows.length === 0) {
+      throw new NotFoundException(`Index with name ${indexName} not found`);
+    }
+  }
+
+  private describe(binding: SchemaBinding): string {
+    return binding.version ? `${binding.name} v${binding.version}` : binding.name;
+  }
+
+  private mapRow(row: any): SchemaViolation {
+    return {
+      documentId: row.document_id,
+      schemaName: row.schema_name,
+      schemaVersion: row.schema_version,
+      mode: row.mode,
+      errors: row.errors,
+      ...(row.document && { document: row.document }),
+      createdAt: row.created_at,
+    };
+  }
+}
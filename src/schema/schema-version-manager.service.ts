@@ -1,7 +1,21 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { PostgreSQLService } from '../storage/postgresql/postgresql.service';
-import { Schema, ValidationResult } from './interfaces/schema.interface';
+import {
+  CompatibilityReport,
+  MigrationStep,
+  Schema,
+  ValidationResult,
+} from './interfaces/schema.interface';
 import { SchemaValidator } from './utils/schema-validator';
+import { JsonSchemaConverter } from './utils/json-schema';
+import { SCHEMA_COMPATIBILITIES, SchemaCompatibilityChecker } from './utils/schema-compatibility';
+import { SchemaMigrator } from './utils/schema-migrator';
 
 @Injectable()
 export class SchemaVersionManagerService {
@@ -28,13 +42,31 @@ export class SchemaVersionManagerService {
     }
   }
 
+  /**
+   * Registers the next version of a schema. Unless its compatibility is none, a new
+   * version must be compatible with the latest one; its migration steps count towards
+   * backward compatibility.
+   */
   async registerSchema(schema: Omit<Schema, 'created' | 'version'>): Promise<Schema> {
-    const existingVersions = await this.getSchemaVersions(schema.name);
-    const newVersion =
-      existingVersions.length > 0 ? Math.max(...existingVersions.map(s => s.version)) + 1 : 1;
+    this.assertValidDefinition(schema);
+
+    const [latest] = await this.getSchemaVersions(schema.name);
+    const newVersion = latest ? latest.version + 1 : 1;
+    const compatibility = schema.compatibility || latest?.compatibility || 'backward';
+
+    if (latest) {
+      const report = SchemaCompatibilityChecker.check(latest, schema, compatibility);
+      if (!report.compatible) {
+        throw new ConflictException({
+          message: `Schema '${schema.name}' v${newVersion} is not ${compatibility} compatible with v${latest.version}`,
+          report,
+        });
+      }
+    }
 
     const newSchema: Schema = {
       ...schema,
+      compatibility,
       version: newVersion,
       created: new Date(),
     };
@@ -57,7 +89,7 @@ export class SchemaVersionManagerService {
         'SELECT schema FROM schema_versions WHERE name = $1 AND version = $2',
         [name, version],
       );
-      return result.rows[0]?.schema || null;
+      return result[0]?.schema || null;
     }
 
     // If no version specified, get the latest
@@ -65,7 +97,7 @@ export class SchemaVersionManagerService {
       'SELECT schema FROM schema_versions WHERE name = $1 ORDER BY version DESC LIMIT 1',
       [name],
     );
-    return result.rows[0]?.schema || null;
+    return result[0]?.schema || null;
   }
 
   async getSchemaVersions(name: string): Promise<Schema[]> {
@@ -73,7 +105,7 @@ export class SchemaVersionManagerService {
       'SELECT schema FROM schema_versions WHERE name = $1 ORDER BY version DESC',
       [name],
     );
-    return result.rows.map(row => row.schema);
+    return result.map(row => row.schema);
   }
 
   async validateDocument(
@@ -83,12 +115,31 @@ export class SchemaVersionManagerService {
   ): Promise<ValidationResult> {
     const schema = await this.getSchema(schemaName, version);
     if (!schema) {
-      return { valid: false, errors: [`Schema ${schemaName} not found`] };
+      return { valid: false, errors: [{ path: '', message: `Schema ${schemaName} not found` }] };
     }
 
     return SchemaValidator.validateDocument(schema, document);
   }
 
+  /**
+   * Registers a JSON Schema (draft 2020-12) as the next version of a schema
+   */
+  async importJsonSchema(name: string, jsonSchema: Record<string, any>): Promise<Schema> {
+    const { fields, errors } = JsonSchemaConverter.fromJsonSchema(jsonSchema);
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Unsupported JSON Schema', errors });
+    }
+    return this.registerSchema({ name, fields });
+  }
+
+  async exportJsonSchema(name: string, version?: number): Promise<Record<string, any>> {
+    const schema = await this.getSchema(name, version);
+    if (!schema) {
+      throw new NotFoundException(`Schema '${name}' not found`);
+    }
+    return JsonSchemaConverter.toJsonSchema(schema);
+  }
+
   async updateSchema(
     name: string,
     update: Partial<Omit<Schema, 'name' | 'version' | 'created'>>,
@@ -98,29 +149,93 @@ export class SchemaVersionManagerService {
       throw new NotFoundException(`Schema '${name}' not found`);
     }
 
-    return this.registerSchema({
-      name,
-      fields: update.fields || currentSchema.fields,
-    });
+    return this.registerSchema(this.nextVersion(currentSchema, update));
+  }
+
+  /**
+   * Reports how an update differs from the latest version without registering it
+   */
+  async checkCompatibility(
+    name: string,
+    update: Partial<Omit<Schema, 'name' | 'version' | 'created'>>,
+  ): Promise<CompatibilityReport> {
+    const currentSchema = await this.getSchema(name);
+    if (!currentSchema) {
+      throw new NotFoundException(`Schema '${name}' not found`);
+    }
+
+    const next = this.nextVersion(currentSchema, update);
+    this.assertValidDefinition(next);
+    return SchemaCompatibilityChecker.check(currentSchema, next, next.compatibility);
+  }
+
+  /**
+   * The migration steps of the versions after fromVersion up to toVersion, in order
+   */
+  async getMigrationSteps(
+    name: string,
+    fromVersion: number,
+    toVersion: number,
+  ): Promise<MigrationStep[]> {
+    const versions = await this.getSchemaVersions(name);
+    const steps: MigrationStep[] = [];
+
+    for (let version = fromVersion + 1; version <= toVersion; version++) {
+      const schema = versions.find(candidate => candidate.version === version);
+      if (!schema) {
+        throw new NotFoundException(`Schema '${name}' version ${version} not found`);
+      }
+      steps.push(...(schema.migrations || []));
+    }
+    return steps;
+  }
+
+  private nextVersion(
+    current: Schema,
+    update: Partial<Omit<Schema, 'name' | 'version' | 'created'>>,
+  ): Omit<Schema, 'created' | 'version'> {
+    return {
+      name: current.name,
+      fields: update.fields || current.fields,
+      compatibility: update.compatibility || current.compatibility || 'backward',
+      ...(update.migrations && { migrations: update.migrations }),
+    };
+  }
+
+  private assertValidDefinition(schema: Omit<Schema, 'created' | 'version'>): void {
+    const errors = [...(SchemaValidator.validateSchema(schema).errors || [])];
+    if (schema.compatibility && !SCHEMA_COMPATIBILITIES.includes(schema.compatibility)) {
+      errors.push({
+        path: '/compatibility',
+        message: `must be one of: ${SCHEMA_COMPATIBILITIES.join(', ')}`,
+      });
+    }
+    if (schema.migrations !== undefined) {
+      errors.push(...SchemaMigrator.validateSteps(schema.migrations));
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid schema', errors });
+    }
   }
 
   async deleteSchema(name: string, version?: number): Promise<boolean> {
     if (version) {
       const result = await this.postgresqlService.query(
-        'DELETE FROM schema_versions WHERE name = $1 AND version = $2',
+        'DELETE FROM schema_versions WHERE name = $1 AND version = $2 RETURNING version',
         [name, version],
       );
       this.logger.log(`Deleted schema '${name}' version ${version}`);
-      return result.rowCount > 0;
+      return result[0].length > 0;
     }
 
     // Delete all versions
     const result = await this.postgresqlService.query(
-      'DELETE FROM schema_versions WHERE name = $1',
+      'DELETE FROM schema_versions WHERE name = $1 RETURNING version',
       [name],
     );
     this.logger.log(`Deleted all versions of schema '${name}'`);
-    return result.rowCount > 0;
+    return result[0].length > 0;
   }
 
   async getAllSchemas(): Promise<Schema[]> {
@@ -129,6 +244,6 @@ export class SchemaVersionManagerService {
       FROM schema_versions
       ORDER BY name, version DESC
     `);
-    return result.rows.map(row => row.schema);
+    return result.map(row => row.schema);
   }
 }
@@ -12,10 +12,12 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { SchemaVersionManagerService } from './schema-version-manager.service';
-import { Schema, ValidationResult } from './interfaces/schema.interface';
+import { CompatibilityReport, Schema, ValidationResult } from './interfaces/schema.interface';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { RequireScope } from '../auth/auth.decorators';
 
 @ApiTags('schemas')
+@RequireScope('admin')
 @Controller('schemas')
 export class SchemaController {
   constructor(private readonly schemaService: SchemaVersionManagerService) {}
@@ -23,6 +25,7 @@ export class SchemaController {
   @Post()
   @ApiOperation({ summary: 'Create a new schema' })
   @ApiResponse({ status: 201, description: 'Schema created successfully' })
+  @ApiResponse({ status: 409, description: 'Schema is not compatible with its latest version' })
   async createSchema(@Body() schema: Omit<Schema, 'created' | 'version'>): Promise<Schema> {
     return this.schemaService.registerSchema(schema);
   }
@@ -52,11 +55,39 @@ export class SchemaController {
     return this.schemaService.getSchemaVersions(name);
   }
 
+  @Get(':name/json-schema')
+  @ApiOperation({ summary: 'Export a schema as JSON Schema (draft 2020-12)' })
+  @ApiParam({ name: 'name', description: 'Schema name' })
+  @ApiQuery({ name: 'version', description: 'Schema version', required: false })
+  @ApiResponse({ status: 200, description: 'JSON Schema of the schema' })
+  @ApiResponse({ status: 404, description: 'Schema not found' })
+  async exportJsonSchema(
+    @Param('name') name: string,
+    @Query('version') version?: number,
+  ): Promise<Record<string, any>> {
+    return this.schemaService.exportJsonSchema(name, version);
+  }
+
+  @Post(':name/json-schema')
+  @ApiOperation({
+    summary: 'Import a JSON Schema (draft 2020-12) as a new version of a schema',
+  })
+  @ApiParam({ name: 'name', description: 'Schema name' })
+  @ApiResponse({ status: 201, description: 'Schema created successfully' })
+  @ApiResponse({ status: 400, description: 'JSON Schema uses unsupported keywords' })
+  async importJsonSchema(
+    @Param('name') name: string,
+    @Body() jsonSchema: Record<string, any>,
+  ): Promise<Schema> {
+    return this.schemaService.importJsonSchema(name, jsonSchema);
+  }
+
   @Put(':name')
   @ApiOperation({ summary: 'Update a schema (creates a new version)' })
   @ApiParam({ name: 'name', description: 'Schema name' })
   @ApiResponse({ status: 200, description: 'Schema updated' })
   @ApiResponse({ status: 404, description: 'Schema not found' })
+  @ApiResponse({ status: 409, description: 'Update is not compatible with the latest version' })
   async updateSchema(
     @Param('name') name: string,
     @Body() update: Partial<Omit<Schema, 'name' | 'version' | 'created'>>,
@@ -64,6 +95,19 @@ export class SchemaController {
     return this.schemaService.updateSchema(name, update);
   }
 
+  @Post(':name/compatibility')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Check an update against the latest version without registering it' })
+  @ApiParam({ name: 'name', description: 'Schema name' })
+  @ApiResponse({ status: 200, description: 'Compatibility report with the changes' })
+  @ApiResponse({ status: 404, description: 'Schema not found' })
+  async checkCompatibility(
+    @Param('name') name: string,
+    @Body() update: Partial<Omit<Schema, 'name' | 'version' | 'created'>>,
+  ): Promise<CompatibilityReport> {
+    return this.schemaService.checkCompatibility(name, update);
+  }
+
   @Delete(':name')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete a schema or a specific version' })
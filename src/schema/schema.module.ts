@@ -1,12 +1,13 @@
 import { forwardRef, Module } from '@nestjs/common';
 import { SchemaVersionManagerService } from './schema-version-manager.service';
+import { SchemaEnforcementService } from './schema-enforcement.service';
 import { SchemaController } from './schema.controller';
 import { PostgreSQLModule } from '../storage/postgresql/postgresql.module';
 
 @Module({
   imports: [forwardRef(() => PostgreSQLModule)],
   controllers: [SchemaController],
-  providers: [SchemaVersionManagerService],
-  exports: [SchemaVersionManagerService],
+  providers: [SchemaVersionManagerService, SchemaEnforcementService],
+  exports: [SchemaVersionManagerService, SchemaEnforcementService],
 })
 export class SchemaModule {}
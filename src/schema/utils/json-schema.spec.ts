@@ -0,0 +1,178 @@
+import { Schema } from '../interfaces/schema.interface';
+import { JSON_SCHEMA_DIALECT, JsonSchemaConverter } from './json-schema';
+
+describe('JsonSchemaConverter', () => {
+  const productSchema: Schema = {
+    name: 'product',
+    version: 3,
+    created: new Date(0),
+    fields: [
+      {
+        name: 'title',
+        type: 'string',
+        required: true,
+        searchable: true,
+        boost: 2,
+        validators: [{ type: 'max', params: { value: 120 } }],
+      },
+      {
+        name: 'price',
+        type: 'number',
+        required: true,
+        validators: [{ type: 'min', params: { value: 0 } }],
+      },
+      { name: 'releasedAt', type: 'date', required: false },
+      {
+        name: 'status',
+        type: 'string',
+        required: false,
+        validators: [{ type: 'enum', params: { values: ['draft', 'live'] } }],
+      },
+      {
+        name: 'url',
+        type: 'string',
+        required: false,
+        format: 'url',
+        requiredWhen: { field: 'status', equals: 'live' },
+      },
+      { name: 'salePrice', type: 'number', required: false },
+      { name: 'saleEnds', type: 'date', required: false, requiredWhen: { field: 'salePrice' } },
+      {
+        name: 'variants',
+        type: 'array',
+        required: false,
+        items: {
+          type: 'object',
+          fields: [
+            {
+              name: 'sku',
+              type: 'string',
+              required: true,
+              validators: [{ type: 'pattern', params: { pattern: '^[A-Z0-9-]+$' } }],
+            },
+          ],
+        },
+      },
+    ],
+  };
+
+  it('should export draft 2020-12 JSON Schema', () => {
+    const jsonSchema = JsonSchemaConverter.toJsonSchema(productSchema);
+
+    expect(jsonSchema).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      title: 'product',
+      'x-version': 3,
+      type: 'object',
+      properties: {
+        title: { type: 'string', maxLength: 120, 'x-searchable': true, 'x-boost': 2 },
+        price: { type: 'number', minimum: 0 },
+        releasedAt: { type: 'string', format: 'date-time' },
+        status: { type: 'string', enum: ['draft', 'live'] },
+        url: { type: 'string', format: 'uri' },
+        salePrice: { type: 'number' },
+        saleEnds: { type: 'string', format: 'date-time' },
+        variants: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { sku: { type: 'string', pattern: '^[A-Z0-9-]+$' } },
+            required: ['sku'],
+          },
+        },
+      },
+      required: ['title', 'price'],
+      dependentRequired: { salePrice: ['saleEnds'] },
+      allOf: [
+        {
+          if: { properties: { status: { const: 'live' } }, required: ['status'] },
+          then: { required: ['url'] },
+        },
+      ],
+    });
+  });
+
+  it('should import what it exports', () => {
+    const { fields, errors } = JsonSchemaConverter.fromJsonSchema(
+      JsonSchemaConverter.toJsonSchema(productSchema),
+    );
+
+    expect(errors).toEqual([]);
+    expect(fields).toEqual(productSchema.fields);
+  });
+
+  it('should import common JSON Schema constructs', () => {
+    const { fields, errors } = JsonSchemaConverter.fromJsonSchema({
+      $schema: JSON_SCHEMA_DIALECT,
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        count: { type: 'integer', minimum: 1 },
+        note: { type: ['string', 'null'], minLength: 2 },
+        location: { properties: { lat: { type: 'number' }, lon: { type: 'number' } } },
+        tags: { items: { type: 'string' }, maxItems: 5 },
+      },
+      required: ['id'],
+    });
+
+    expect(errors).toEqual([]);
+    expect(fields).toEqual([
+      { name: 'id', required: true, type: 'string', format: 'uuid' },
+      {
+        name: 'count',
+        required: false,
+        type: 'number',
+        validators: [{ type: 'min', params: { value: 1 } }],
+      },
+      {
+        name: 'note',
+        required: false,
+        type: 'string',
+        validators: [{ type: 'min', params: { value: 2 } }],
+      },
+      {
+        name: 'location',
+        required: false,
+        type: 'object',
+        fields: [
+          { name: 'lat', required: false, type: 'number' },
+          { name: 'lon', required: false, type: 'number' },
+        ],
+      },
+      {
+        name: 'tags',
+        required: false,
+        type: 'array',
+        items: { type: 'string' },
+        validators: [{ type: 'max', params: { value: 5 } }],
+      },
+    ]);
+  });
+
+  it('should report constructs it cannot express', () => {
+    const { errors } = JsonSchemaConverter.fromJsonSchema({
+      type: 'object',
+      properties: {
+        owner: { $ref: '#/$defs/person' },
+        code: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+        weight: { type: 'null' },
+      },
+      allOf: [{ anyOf: [{ required: ['owner'] }] }],
+    });
+
+    expect(errors).toEqual([
+      { path: '/properties/owner/$ref', message: 'is not supported' },
+      { path: '/properties/owner/type', message: 'must name a single type' },
+      { path: '/properties/code/oneOf', message: 'is not supported' },
+      { path: '/properties/code/type', message: 'must name a single type' },
+      { path: '/properties/weight/type', message: 'must name a single type' },
+      {
+        path: '/allOf/0',
+        message: 'only if/then conditions on the const value of a property are supported',
+      },
+    ]);
+    expect(JsonSchemaConverter.fromJsonSchema({ type: 'array' }).errors).toEqual([
+      { path: '', message: 'must be a JSON Schema of an object' },
+    ]);
+  });
+});
@@ -0,0 +1,284 @@
+import {
+  FieldValidator,
+  Schema,
+  SchemaField,
+  SchemaFieldFormat,
+  SchemaFieldType,
+  SchemaItem,
+  SchemaValidationError,
+} from '../interfaces/schema.interface';
+import { jsonPointer } from './schema-validator';
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+// Keywords we cannot express; anything else unknown is treated as an annotation
+const UNSUPPORTED_KEYWORDS = ['$ref', '$dynamicRef', 'oneOf', 'anyOf', 'not', 'prefixItems'];
+
+const FORMATS_FROM_JSON: Record<string, SchemaFieldFormat> = {
+  email: 'email',
+  uri: 'url',
+  url: 'url',
+  uuid: 'uuid',
+  geo_point: 'geo_point',
+};
+
+// Annotations that carry the search options of a field through a round trip
+const SEARCH_OPTIONS = ['searchable', 'filterable', 'facetable', 'boost'];
+
+/**
+ * Converts schemas to and from JSON Schema (draft 2020-12), so producers can
+ * validate documents against the same contract before sending them
+ */
+export class JsonSchemaConverter {
+  static toJsonSchema(schema: Schema): Record<string, any> {
+    return {
+      $schema: JSON_SCHEMA_DIALECT,
+      title: schema.name,
+      'x-version': schema.version,
+      ...this.objectToJson(schema.fields),
+    };
+  }
+
+  /**
+   * Reads the fields of a schema from a JSON Schema document. Constructs that have
+   * no equivalent, such as $ref or oneOf, are reported as errors.
+   */
+  static fromJsonSchema(jsonSchema: Record<string, any>): {
+    fields: SchemaField[];
+    errors: SchemaValidationError[];
+  } {
+    const errors: SchemaValidationError[] = [];
+    if (!this.isObject(jsonSchema) || this.typeOf(jsonSchema, '', errors) !== 'object') {
+      return {
+        fields: [],
+        errors: [{ path: '', message: 'must be a JSON Schema of an object' }],
+      };
+    }
+
+    this.checkKeywords(jsonSchema, '', errors);
+    return { fields: this.fieldsFromJson(jsonSchema, '', errors), errors };
+  }
+
+  private static objectToJson(fields: SchemaField[]): Record<string, any> {
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+    const dependentRequired: Record<string, string[]> = {};
+    const conditions: Record<string, any>[] = [];
+
+    for (const field of fields) {
+      properties[field.name] = this.itemToJson(field);
+      for (const option of SEARCH_OPTIONS) {
+        if (field[option] !== undefined) {
+          properties[field.name][`x-${option}`] = field[option];
+        }
+      }
+
+      if (field.required) {
+        required.push(field.name);
+      } else if (field.requiredWhen && 'equals' in field.requiredWhen) {
+        const { field: other, equals } = field.requiredWhen;
+        conditions.push({
+          if: { properties: { [other]: { const: equals } }, required: [other] },
+          then: { required: [field.name] },
+        });
+      } else if (field.requiredWhen) {
+        (dependentRequired[field.requiredWhen.field] ||= []).push(field.name);
+      }
+    }
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required }),
+      ...(Object.keys(dependentRequired).length > 0 && { dependentRequired }),
+      ...(conditions.length > 0 && { allOf: conditions }),
+    };
+  }
+
+  private static itemToJson(item: SchemaItem): Record<string, any> {
+    const json: Record<string, any> =
+      item.type === 'date' ? { type: 'string', format: 'date-time' } : { type: item.type };
+
+    if (item.format) {
+      json.format = item.format === 'url' ? 'uri' : item.format;
+    }
+    for (const validator of item.validators || []) {
+      Object.assign(json, this.validatorToJson(item, validator));
+    }
+    if (item.type === 'object' && item.fields) {
+      Object.assign(json, this.objectToJson(item.fields));
+    }
+    if (item.type === 'array' && item.items) {
+      json.items = this.itemToJson(item.items);
+    }
+    return json;
+  }
+
+  private static validatorToJson(item: SchemaItem, validator: FieldValidator) {
+    switch (validator.type) {
+      case 'min':
+      case 'max': {
+        // min and max bound the length of strings and arrays
+        const suffix = { string: 'Length', array: 'Items' }[item.type] || 'imum';
+        return { [`${validator.type}${suffix}`]: validator.params.value };
+      }
+      case 'pattern':
+        return { pattern: validator.params.pattern };
+      case 'enum':
+        return { enum: validator.params.values };
+      default:
+        return {};
+    }
+  }
+
+  private static fieldsFromJson(
+    node: Record<string, any>,
+    path: string,
+    errors: SchemaValidationError[],
+  ): SchemaField[] {
+    const properties = node.properties || {};
+    const required: string[] = Array.isArray(node.required) ? node.required : [];
+    const fields: SchemaField[] = Object.entries(properties).map(([name, property]) => {
+      const propertyPath = jsonPointer(jsonPointer(path, 'properties'), name);
+      const field: SchemaField = {
+        name,
+        required: required.includes(name),
+        ...this.itemFromJson(property, propertyPath, errors),
+      };
+      for (const option of SEARCH_OPTIONS) {
+        if (this.isObject(property) && property[`x-${option}`] !== undefined) {
+          field[option] = property[`x-${option}`];
+        }
+      }
+      return field;
+    });
+
+    const byName = new Map(fields.map(field => [field.name, field]));
+    for (const [other, dependents] of Object.entries(node.dependentRequired || {})) {
+      for (const name of Array.isArray(dependents) ? dependents : []) {
+        const field = byName.get(name);
+        if (field && !field.required) field.requiredWhen = { field: other };
+      }
+    }
+
+    (Array.isArray(node.allOf) ? node.allOf : []).forEach((condition, index) => {
+      const when = this.conditionFromJson(condition);
+      if (!when) {
+        errors.push({
+          path: jsonPointer(jsonPointer(path, 'allOf'), index),
+          message: 'only if/then conditions on the const value of a property are supported',
+        });
+        return;
+      }
+      for (const name of when.then) {
+        const field = byName.get(name);
+        if (field && !field.required) field.requiredWhen = when.requiredWhen;
+      }
+    });
+
+    return fields;
+  }
+
+  private static conditionFromJson(
+    condition: any,
+  ): { requiredWhen: SchemaField['requiredWhen']; then: string[] } | null {
+    const entries = Object.entries(condition?.if?.properties || {});
+    if (entries.length !== 1 || !Array.isArray(condition?.then?.required)) return null;
+
+    const [other, constraint] = entries[0] as [string, any];
+    if (!this.isObject(constraint) || !('const' in constraint)) return null;
+    return {
+      requiredWhen: { field: other, equals: constraint.const },
+      then: condition.then.required,
+    };
+  }
+
+  private static itemFromJson(
+    node: any,
+    path: string,
+    errors: SchemaValidationError[],
+  ): SchemaItem {
+    if (!this.isObject(node)) {
+      errors.push({ path, message: 'must be a schema object' });
+      return { type: 'string' };
+    }
+    this.checkKeywords(node, path, errors);
+
+    let type = this.typeOf(node, path, errors);
+    if (type === 'string' && (node.format === 'date-time' || node.format === 'date')) {
+      type = 'date';
+    }
+
+    const item: SchemaItem = { type };
+    const format = FORMATS_FROM_JSON[node.format];
+    if (format) item.format = format;
+
+    const validators = this.validatorsFromJson(node);
+    if (validators.length > 0) item.validators = validators;
+
+    if (type === 'object' && node.properties) {
+      item.fields = this.fieldsFromJson(node, path, errors);
+    }
+    if (type === 'array' && node.items !== undefined) {
+      item.items = this.itemFromJson(node.items, jsonPointer(path, 'items'), errors);
+    }
+    return item;
+  }
+
+  private static typeOf(node: any, path: string, errors: SchemaValidationError[]): SchemaFieldType {
+    // A nullable type such as ["string", "null"] is the type itself, as fields may be null
+    const types = (Array.isArray(node.type) ? node.type : [node.type]).filter(
+      type => type !== undefined && type !== 'null',
+    );
+
+    if (types.length === 0) {
+      if (node.properties) return 'object';
+      if (node.items) return 'array';
+    }
+    if (types.length !== 1) {
+      errors.push({ path: jsonPointer(path, 'type'), message: 'must name a single type' });
+      return 'string';
+    }
+
+    const [type] = types;
+    if (type === 'integer') return 'number';
+    if (['string', 'number', 'boolean', 'object', 'array'].includes(type)) {
+      return type as SchemaFieldType;
+    }
+
+    errors.push({ path: jsonPointer(path, 'type'), message: `${type} is not supported` });
+    return 'string';
+  }
+
+  private static validatorsFromJson(node: Record<string, any>): FieldValidator[] {
+    const validators: FieldValidator[] = [];
+    const min = node.minimum ?? node.minLength ?? node.minItems;
+    const max = node.maximum ?? node.maxLength ?? node.maxItems;
+
+    if (typeof min === 'number') validators.push({ type: 'min', params: { value: min } });
+    if (typeof max === 'number') validators.push({ type: 'max', params: { value: max } });
+    if (typeof node.pattern === 'string') {
+      validators.push({ type: 'pattern', params: { pattern: node.pattern } });
+    }
+    if (Array.isArray(node.enum)) {
+      validators.push({ type: 'enum', params: { values: node.enum } });
+    }
+    return validators;
+  }
+
+  private static checkKeywords(
+    node: Record<string, any>,
+    path: string,
+    errors: SchemaValidationError[],
+  ): void {
+    for (const keyword of UNSUPPORTED_KEYWORDS) {
+      if (keyword in node) {
+        errors.push({ path: jsonPointer(path, keyword), message: 'is not supported' });
+      }
+    }
+  }
+
+  private static isObject(value: any): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,159 @@
+import { Schema } from '../interfaces/schema.interface';
+import { SchemaCompatibilityChecker } from './schema-compatibility';
+
+describe('SchemaCompatibilityChecker', () => {
+  const v1: Schema = {
+    name: 'product',
+    version: 1,
+    created: new Date(0),
+    fields: [
+      { name: 'title', type: 'string', required: true },
+      {
+        name: 'price',
+        type: 'number',
+        required: true,
+        validators: [{ type: 'min', params: { value: 0 } }],
+      },
+      {
+        name: 'status',
+        type: 'string',
+        required: false,
+        validators: [{ type: 'enum', params: { values: ['draft', 'live'] } }],
+      },
+      {
+        name: 'specs',
+        type: 'object',
+        required: false,
+        fields: [{ name: 'weight', type: 'string', required: false }],
+      },
+    ],
+  };
+
+  const withFields = (fields: Schema['fields']) => ({ fields });
+
+  it('should allow adding an optional field in every mode', () => {
+    const next = withFields([...v1.fields, { name: 'brand', type: 'string', required: false }]);
+
+    for (const mode of ['backward', 'forward', 'full'] as const) {
+      expect(SchemaCompatibilityChecker.check(v1, next, mode).compatible).toBe(true);
+    }
+  });
+
+  it('should reject adding a required field in backward mode', () => {
+    const report = SchemaCompatibilityChecker.check(
+      v1,
+      withFields([...v1.fields, { name: 'sku', type: 'string', required: true }]),
+      'backward',
+    );
+
+    expect(report).toEqual({
+      compatibility: 'backward',
+      fromVersion: 1,
+      toVersion: 2,
+      compatible: false,
+      changes: [
+        { field: 'sku', change: 'field_added', to: 'string', backward: false, forward: true },
+      ],
+    });
+    expect(
+      SchemaCompatibilityChecker.check(
+        v1,
+        withFields([...v1.fields, { name: 'sku', type: 'string', required: true }]),
+        'forward',
+      ).compatible,
+    ).toBe(true);
+  });
+
+  it('should accept a required field added with a default value', () => {
+    const report = SchemaCompatibilityChecker.check(
+      v1,
+      {
+        fields: [...v1.fields, { name: 'currency', type: 'string', required: true }],
+        migrations: [{ op: 'set_default', field: 'currency', value: 'USD' }],
+      },
+      'backward',
+    );
+
+    expect(report.compatible).toBe(true);
+    expect(report.changes[0].migratedBy).toBe(0);
+  });
+
+  it('should treat removing a required field as forward incompatible', () => {
+    const next = withFields(v1.fields.filter(field => field.name !== 'title'));
+
+    expect(SchemaCompatibilityChecker.check(v1, next, 'backward').compatible).toBe(true);
+    expect(SchemaCompatibilityChecker.check(v1, next, 'forward').compatible).toBe(false);
+  });
+
+  it('should judge validators by whether they were relaxed or tightened', () => {
+    const relaxed = withFields(
+      v1.fields.map(field =>
+        field.name === 'status'
+          ? {
+              ...field,
+              validators: [{ type: 'enum', params: { values: ['draft', 'live', 'archived'] } }],
+            }
+          : field,
+      ),
+    );
+    const tightened = withFields(
+      v1.fields.map(field =>
+        field.name === 'price'
+          ? { ...field, validators: [{ type: 'min', params: { value: 1 } }] }
+          : field,
+      ),
+    );
+
+    expect(SchemaCompatibilityChecker.check(v1, relaxed, 'backward').compatible).toBe(true);
+    expect(SchemaCompatibilityChecker.check(v1, relaxed, 'forward').compatible).toBe(false);
+    expect(SchemaCompatibilityChecker.check(v1, tightened, 'backward').compatible).toBe(false);
+    expect(SchemaCompatibilityChecker.check(v1, tightened, 'forward').compatible).toBe(true);
+  });
+
+  it('should report nested type changes and accept them with a change_type step', () => {
+    const fields = v1.fields.map(field =>
+      field.name === 'specs'
+        ? { ...field, fields: [{ name: 'weight', type: 'number' as const, required: false }] }
+        : field,
+    );
+
+    const unmigrated = SchemaCompatibilityChecker.check(v1, { fields }, 'backward');
+    const migrated = SchemaCompatibilityChecker.check(
+      v1,
+      { fields, migrations: [{ op: 'change_type', field: 'specs.weight', to: 'number' }] },
+      'backward',
+    );
+
+    expect(unmigrated.changes).toEqual([
+      {
+        field: 'specs.weight',
+        change: 'type_changed',
+        from: 'string',
+        to: 'number',
+        backward: false,
+        forward: false,
+      },
+    ]);
+    expect(unmigrated.compatible).toBe(false);
+    expect(migrated.compatible).toBe(true);
+    expect(SchemaCompatibilityChecker.check(v1, { fields }, 'none').compatible).toBe(true);
+  });
+
+  it('should accept a rename covered by a migration step', () => {
+    const fields = v1.fields.map(field =>
+      field.name === 'title' ? { ...field, name: 'name' } : field,
+    );
+
+    const report = SchemaCompatibilityChecker.check(
+      v1,
+      { fields, migrations: [{ op: 'rename', from: 'title', to: 'name' }] },
+      'backward',
+    );
+
+    expect(report.compatible).toBe(true);
+    expect(report.changes.map(change => [change.field, change.change, change.migratedBy])).toEqual([
+      ['title', 'field_removed', 0],
+      ['name', 'field_added', 0],
+    ]);
+  });
+});
@@ -0,0 +1,271 @@
+import { isEqual } from 'lodash';
+import {
+  CompatibilityReport,
+  FieldValidator,
+  MigrationStep,
+  Schema,
+  SchemaChange,
+  SchemaCompatibility,
+  SchemaField,
+  SchemaItem,
+} from '../interfaces/schema.interface';
+
+export const SCHEMA_COMPATIBILITIES: SchemaCompatibility[] = [
+  'backward',
+  'forward',
+  'full',
+  'none',
+];
+
+type Requirement = 'optional' | 'conditional' | 'required';
+const REQUIREMENT_LEVELS: Record<Requirement, number> = {
+  optional: 0,
+  conditional: 1,
+  required: 2,
+};
+
+/**
+ * Compares two versions of a schema field by field. A change is backward compatible
+ * when documents of the previous version still pass the new one (or a migration step
+ * rewrites them to), and forward compatible when documents of the new version still
+ * pass the previous one.
+ */
+export class SchemaCompatibilityChecker {
+  static check(
+    previous: Schema,
+    next: Pick<Schema, 'fields' | 'migrations'>,
+    compatibility: SchemaCompatibility,
+  ): CompatibilityReport {
+    const changes: SchemaChange[] = [];
+    this.diffFields(previous.fields, next.fields, '', changes);
+    (next.migrations || []).forEach((step, index) => this.markMigrated(changes, step, index));
+
+    return {
+      compatibility,
+      fromVersion: previous.version,
+      toVersion: previous.version + 1,
+      compatible: changes.every(change => this.allowed(change, compatibility)),
+      changes,
+    };
+  }
+
+  private static allowed(change: SchemaChange, compatibility: SchemaCompatibility): boolean {
+    const backward = change.backward || change.migratedBy !== undefined;
+    switch (compatibility) {
+      case 'backward':
+        return backward;
+      case 'forward':
+        return change.forward;
+      case 'full':
+        return backward && change.forward;
+      default:
+        return true;
+    }
+  }
+
+  private static diffFields(
+    previous: SchemaField[],
+    next: SchemaField[],
+    prefix: string,
+    changes: SchemaChange[],
+  ): void {
+    const previousByName = new Map(previous.map(field => [field.name, field]));
+    const nextByName = new Map(next.map(field => [field.name, field]));
+    const names = [...new Set([...previousByName.keys(), ...nextByName.keys()])];
+
+    for (const name of names) {
+      const field = prefix ? `${prefix}.${name}` : name;
+      const before = previousByName.get(name);
+      const after = nextByName.get(name);
+
+      if (!before) {
+        const requirement = this.requirement(after);
+        changes.push({
+          field,
+          change: 'field_added',
+          to: after.type,
+          backward: requirement === 'optional',
+          forward: true,
+        });
+      } else if (!after) {
+        changes.push({
+          field,
+          change: 'field_removed',
+          from: before.type,
+          backward: true,
+          forward: this.requirement(before) === 'optional',
+        });
+      } else {
+        this.diffRequirement(before, after, field, changes);
+        this.diffItem(before, after, field, changes);
+      }
+    }
+  }
+
+  private static diffRequirement(
+    before: SchemaField,
+    after: SchemaField,
+    field: string,
+    changes: SchemaChange[],
+  ): void {
+    const from = this.requirement(before);
+    const to = this.requirement(after);
+    if (from === to && isEqual(before.requiredWhen, after.requiredWhen)) return;
+
+    // Two different conditions cannot be ordered, so they break both ways
+    const tighter = from === to || REQUIREMENT_LEVELS[to] > REQUIREMENT_LEVELS[from];
+    const looser = from === to || REQUIREMENT_LEVELS[to] < REQUIREMENT_LEVELS[from];
+    changes.push({
+      field,
+      change: 'requirement_changed',
+      from: from === 'conditional' ? { requiredWhen: before.requiredWhen } : from,
+      to: to === 'conditional' ? { requiredWhen: after.requiredWhen } : to,
+      backward: !tighter,
+      forward: !looser,
+    });
+  }
+
+  private static diffItem(
+    before: SchemaItem,
+    after: SchemaItem,
+    field: string,
+    changes: SchemaChange[],
+  ): void {
+    if (before.type !== after.type) {
+      changes.push({
+        field,
+        change: 'type_changed',
+        from: before.type,
+        to: after.type,
+        backward: false,
+        forward: false,
+      });
+      return;
+    }
+
+    if (before.format !== after.format) {
+      changes.push({
+        field,
+        change: 'format_changed',
+        from: before.format,
+        to: after.format,
+        backward: !after.format,
+        forward: !before.format,
+      });
+    }
+
+    this.diffValidators(before.validators || [], after.validators || [], field, changes);
+
+    if (before.type === 'object') {
+      this.diffFields(before.fields || [], after.fields || [], field, changes);
+    }
+    if (before.type === 'array' && (before.items || after.items)) {
+      const items = `${field}[]`;
+      if (before.items && after.items) {
+        this.diffItem(before.items, after.items, items, changes);
+      } else {
+        // Typing the items of an untyped array restricts it, dropping the type relaxes it
+        changes.push({
+          field: items,
+          change: 'type_changed',
+          from: before.items?.type,
+          to: after.items?.type,
+          backward: !after.items,
+          forward: !before.items,
+        });
+      }
+    }
+  }
+
+  private static diffValidators(
+    previous: FieldValidator[],
+    next: FieldValidator[],
+    field: string,
+    changes: SchemaChange[],
+  ): void {
+    const types = [...new Set([...previous, ...next].map(validator => validator.type))];
+
+    for (const type of types) {
+      const before = previous.filter(validator => validator.type === type);
+      const after = next.filter(validator => validator.type === type);
+      if (isEqual(before, after)) continue;
+
+      const { backward, forward } = this.compareValidators(before, after);
+      changes.push({
+        field,
+        change: 'validator_changed',
+        from: before.length === 1 ? before[0] : before.length > 0 ? before : undefined,
+        to: after.length === 1 ? after[0] : after.length > 0 ? after : undefined,
+        backward,
+        forward,
+      });
+    }
+  }
+
+  /**
+   * Whether a validator was relaxed (backward compatible) or tightened (forward compatible)
+   */
+  private static compareValidators(
+    before: FieldValidator[],
+    after: FieldValidator[],
+  ): { backward: boolean; forward: boolean } {
+    if (before.length === 0) return { backward: false, forward: true };
+    if (after.length === 0) return { backward: true, forward: false };
+    if (before.length > 1 || after.length > 1) return { backward: false, forward: false };
+
+    const [{ type, params: from }] = before;
+    const [{ params: to }] = after;
+    let relaxed: boolean;
+    switch (type) {
+      case 'min':
+        relaxed = to.value < from.value;
+        break;
+      case 'max':
+        relaxed = to.value > from.value;
+        break;
+      case 'enum': {
+        const widened = from.values.every(value => to.values.includes(value));
+        const narrowed = to.values.every(value => from.values.includes(value));
+        if (widened === narrowed) return { backward: false, forward: false };
+        relaxed = widened;
+        break;
+      }
+      default:
+        return { backward: false, forward: false };
+    }
+    return { backward: relaxed, forward: !relaxed };
+  }
+
+  private static markMigrated(changes: SchemaChange[], step: MigrationStep, index: number): void {
+    const mark = (field: string, kinds: SchemaChange['change'][]) =>
+      changes
+        .filter(change => change.field === field && kinds.includes(change.change))
+        .forEach(change => (change.migratedBy ??= index));
+
+    switch (step.op) {
+      case 'rename':
+        mark(step.from, ['field_removed']);
+        mark(step.to, ['field_added']);
+        break;
+      case 'set_default':
+        mark(step.field, ['field_added', 'requirement_changed']);
+        break;
+      case 'split':
+        mark(step.field, ['field_removed']);
+        step.into.forEach(field => mark(field, ['field_added']));
+        break;
+      case 'merge':
+        step.fields.forEach(field => mark(field, ['field_removed']));
+        mark(step.into, ['field_added']);
+        break;
+      case 'change_type':
+        mark(step.field, ['type_changed']);
+        break;
+    }
+  }
+
+  private static requirement(field: SchemaField): Requirement {
+    if (field.required) return 'required';
+    return field.requiredWhen ? 'conditional' : 'optional';
+  }
+}
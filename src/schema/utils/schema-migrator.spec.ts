@@ -0,0 +1,106 @@
+import { SchemaMigrator } from './schema-migrator';
+
+describe('SchemaMigrator', () => {
+  describe('migrateDocument', () => {
+    it('should rename nested fields and leave the original untouched', () => {
+      const original = { title: 'Laptop', specs: { ram: 16 } };
+
+      const { document, errors } = SchemaMigrator.migrateDocument(
+        [
+          { op: 'rename', from: 'title', to: 'name' },
+          { op: 'rename', from: 'specs.ram', to: 'specs.memory' },
+        ],
+        original,
+      );
+
+      expect(errors).toEqual([]);
+      expect(document).toEqual({ name: 'Laptop', specs: { memory: 16 } });
+      expect(original).toEqual({ title: 'Laptop', specs: { ram: 16 } });
+    });
+
+    it('should only set defaults on missing or null fields', () => {
+      const steps = [{ op: 'set_default' as const, field: 'currency', value: 'USD' }];
+
+      expect(SchemaMigrator.migrateDocument(steps, { currency: null }).document).toEqual({
+        currency: 'USD',
+      });
+      expect(SchemaMigrator.migrateDocument(steps, { currency: 'EUR' }).document).toEqual({
+        currency: 'EUR',
+      });
+    });
+
+    it('should split a field, giving the remainder to the last field', () => {
+      const { document } = SchemaMigrator.migrateDocument(
+        [{ op: 'split', field: 'name', into: ['firstName', 'lastName'] }],
+        { name: 'Ada King Lovelace' },
+      );
+
+      expect(document).toEqual({ firstName: 'Ada', lastName: 'King Lovelace' });
+    });
+
+    it('should merge fields, skipping empty ones', () => {
+      const { document } = SchemaMigrator.migrateDocument(
+        [{ op: 'merge', fields: ['street', 'unit', 'city'], into: 'address', separator: ', ' }],
+        { street: '1 Main St', unit: '', city: 'Springfield' },
+      );
+
+      expect(document).toEqual({ address: '1 Main St, Springfield' });
+    });
+
+    it('should coerce values when changing their type', () => {
+      const { document, errors } = SchemaMigrator.migrateDocument(
+        [
+          { op: 'change_type', field: 'price', to: 'number' },
+          { op: 'change_type', field: 'inStock', to: 'boolean' },
+          { op: 'change_type', field: 'tags', to: 'array' },
+        ],
+        { price: '12.50', inStock: 'yes', tags: 'sale' },
+      );
+
+      expect(errors).toEqual([]);
+      expect(document).toEqual({ price: 12.5, inStock: true, tags: ['sale'] });
+    });
+
+    it('should report values that cannot be coerced and keep applying later steps', () => {
+      const { document, errors } = SchemaMigrator.migrateDocument(
+        [
+          { op: 'change_type', field: 'specs.weight', to: 'number' },
+          { op: 'set_default', field: 'currency', value: 'USD' },
+        ],
+        { specs: { weight: 'heavy' } },
+      );
+
+      expect(errors).toEqual([
+        { path: '/specs/weight', message: 'cannot convert "heavy" to number' },
+      ]);
+      expect(document).toEqual({ specs: { weight: 'heavy' }, currency: 'USD' });
+    });
+  });
+
+  describe('validateSteps', () => {
+    it('should report malformed steps by index', () => {
+      const errors = SchemaMigrator.validateSteps([
+        { op: 'rename', from: 'title', to: 'name' },
+        { op: 'split', field: 'name', into: ['firstName'] },
+        { op: 'change_type', field: 'price', to: 'money' },
+        { op: 'drop', field: 'price' },
+      ] as any);
+
+      expect(errors).toEqual([
+        {
+          path: '/migrations/1',
+          message: 'split needs a field and at least two fields to split into',
+        },
+        {
+          path: '/migrations/2',
+          message:
+            'change_type needs a field and a type: string, number, boolean, date, object, array',
+        },
+        {
+          path: '/migrations/3',
+          message: 'op must be one of: rename, set_default, split, merge, change_type',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { cloneDeep, get, has, set, unset } from 'lodash';
+import {
+  MigrationStep,
+  SchemaFieldType,
+  SchemaValidationError,
+} from '../interfaces/schema.interface';
+import { SCHEMA_FIELD_TYPES, jsonPointer } from './schema-validator';
+
+export const MIGRATION_OPS = ['rename', 'set_default', 'split', 'merge', 'change_type'];
+
+/**
+ * Applies the declarative migration steps of schema versions to documents
+ */
+export class SchemaMigrator {
+  /**
+   * Returns a migrated copy of the document and the steps that could not be applied
+   */
+  static migrateDocument(
+    steps: MigrationStep[],
+    document: Record<string, any>,
+  ): { document: Record<string, any>; errors: SchemaValidationError[] } {
+    const migrated = cloneDeep(document);
+    const errors: SchemaValidationError[] = [];
+
+    for (const step of steps) {
+      try {
+        this.applyStep(step, migrated);
+      } catch (error) {
+        errors.push({ path: this.pointer(this.sourceField(step)), message: error.message });
+      }
+    }
+    return { document: migrated, errors };
+  }
+
+  /**
+   * Checks the shape of migration steps before a schema version is registered
+   */
+  static validateSteps(steps: MigrationStep[]): SchemaValidationError[] {
+    if (!Array.isArray(steps)) {
+      return [{ path: '/migrations', message: 'must be an array of steps' }];
+    }
+
+    const errors: SchemaValidationError[] = [];
+    steps.forEach((step, index) => {
+      const message = this.checkStep(step);
+      if (message) {
+        errors.push({ path: jsonPointer('/migrations', index), message });
+      }
+    });
+    return errors;
+  }
+
+  /**
+   * Converts a value to another field type, e.g. "12.5" to 12.5 or "yes" to true
+   */
+  static coerce(value: any, type: SchemaFieldType): any {
+    switch (type) {
+      case 'string':
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+      case 'number': {
+        if (typeof value === 'number') return value;
+        if (typeof value === 'boolean') return value ? 1 : 0;
+        const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+        if (Number.isFinite(number)) return number;
+        break;
+      }
+      case 'boolean': {
+        if (typeof value === 'boolean') return value;
+        const text = String(value).trim().toLowerCase();
+        if (['true', 'yes', '1'].includes(text)) return true;
+        if (['false', 'no', '0'].includes(text)) return false;
+        break;
+      }
+      case 'date': {
+        const date = value instanceof Date ? value : new Date(value);
+        if (typeof value !== 'boolean' && !isNaN(date.getTime())) return date.toISOString();
+        break;
+      }
+      case 'array':
+        return Array.isArray(value) ? value : [value];
+      case 'object': {
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) return value;
+        if (typeof value === 'string') {
+          try {
+            const parsed = JSON.parse(value);
+            if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+              return parsed;
+            }
+          } catch {
+            // Reported below
+          }
+        }
+        break;
+      }
+    }
+    throw new Error(`cannot convert ${JSON.stringify(value)} to ${type}`);
+  }
+
+  private static applyStep(step: MigrationStep, document: Record<string, any>): void {
+    switch (step.op) {
+      case 'rename':
+        if (has(document, step.from)) {
+          const value = get(document, step.from);
+          unset(document, step.from);
+          set(document, step.to, value);
+        }
+        break;
+
+      case 'set_default': {
+        const value = get(document, step.field);
+        if (value === undefined || value === null) {
+          set(document, step.field, cloneDeep(step.value));
+        }
+        break;
+      }
+
+      case 'split': {
+        const value = get(document, step.field);
+        if (value === undefined || value === null) break;
+        if (typeof value !== 'string') {
+          throw new Error('must be a string to be split');
+        }
+
+        // The last field gets the remainder, so "Ada King Lovelace" splits into "Ada" and "King Lovelace"
+        const separator = step.separator ?? ' ';
+        const parts = value.split(separator);
+        const head = parts.slice(0, step.into.length - 1);
+        const tail = parts.slice(step.into.length - 1).join(separator);
+        if (!step.into.includes(step.field)) unset(document, step.field);
+        [...head, tail].forEach((part, index) => {
+          if (part !== '' && part !== undefined) set(document, step.into[index], part);
+        });
+        break;
+      }
+
+      case 'merge': {
+        const values = step.fields
+          .map(field => get(document, field))
+          .filter(value => value !== undefined && value !== null && value !== '');
+        if (values.length === 0) break;
+
+        step.fields.filter(field => field !== step.into).forEach(field => unset(document, field));
+        set(
+          document,
+          step.into,
+          values.map(value => this.coerce(value, 'string')).join(step.separator ?? ' '),
+        );
+        break;
+      }
+
+      case 'change_type': {
+        const value = get(document, step.field);
+        if (value !== undefined && value !== null) {
+          set(document, step.field, this.coerce(value, step.to));
+        }
+        break;
+      }
+    }
+  }
+
+  private static checkStep(step: any): string | null {
+    const isPath = (value: any) => typeof value === 'string' && value.length > 0;
+    const arePaths = (value: any, min: number) =>
+      Array.isArray(value) && value.length >= min && value.every(isPath);
+
+    switch (step?.op) {
+      case 'rename':
+        return isPath(step.from) && isPath(step.to) ? null : 'rename needs from and to fields';
+      case 'set_default':
+        return isPath(step.field) && step.value !== undefined
+          ? null
+          : 'set_default needs a field and a value';
+      case 'split':
+        return isPath(step.field) && arePaths(step.into, 2)
+          ? null
+          : 'split needs a field and at least two fields to split into';
+      case 'merge':
+        return arePaths(step.fields, 2) && isPath(step.into)
+          ? null
+          : 'merge needs at least two fields and a field to merge into';
+      case 'change_type':
+        return isPath(step.field) && SCHEMA_FIELD_TYPES.includes(step.to)
+          ? null
+          : `change_type needs a field and a type: ${SCHEMA_FIELD_TYPES.join(', ')}`;
+      default:
+        return `op must be one of: ${MIGRATION_OPS.join(', ')}`;
+    }
+  }
+
+  private static sourceField(step: MigrationStep): string {
+    switch (step.op) {
+      case 'rename':
+        return step.from;
+      case 'merge':
+        return step.into;
+      default:
+        return step.field;
+    }
+  }
+
+  private static pointer(field: string): string {
+    return field.split('.').reduce((path, key) => jsonPointer(path, key), '');
+  }
+}
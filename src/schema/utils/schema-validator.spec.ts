@@ -0,0 +1,181 @@
+import { Schema, SchemaFieldType } from '../interfaces/schema.interface';
+import { SchemaValidator, jsonPointer } from './schema-validator';
+
+describe('SchemaValidator', () => {
+  const orderSchema: Schema = {
+    name: 'order',
+    version: 1,
+    created: new Date(0),
+    fields: [
+      { name: 'id', type: 'string', required: true, format: 'uuid' },
+      { name: 'email', type: 'string', required: true, format: 'email' },
+      { name: 'status', type: 'string', required: false },
+      {
+        name: 'trackingUrl',
+        type: 'string',
+        required: false,
+        format: 'url',
+        requiredWhen: { field: 'status', equals: 'shipped' },
+      },
+      { name: 'giftMessage', type: 'string', required: false },
+      {
+        name: 'giftWrap',
+        type: 'boolean',
+        required: false,
+        requiredWhen: { field: 'giftMessage' },
+      },
+      {
+        name: 'store',
+        type: 'object',
+        required: false,
+        fields: [
+          { name: 'name', type: 'string', required: true },
+          { name: 'location', type: 'object', required: true, format: 'geo_point' },
+        ],
+      },
+      {
+        name: 'lines',
+        type: 'array',
+        required: true,
+        validators: [{ type: 'min', params: { value: 1 } }],
+        items: {
+          type: 'object',
+          fields: [
+            { name: 'sku', type: 'string', required: true },
+            {
+              name: 'quantity',
+              type: 'number',
+              required: true,
+              validators: [{ type: 'min', params: { value: 1 } }],
+            },
+          ],
+        },
+      },
+      { name: 'tags', type: 'array', required: false, items: { type: 'string' } },
+    ],
+  };
+
+  const validOrder = {
+    id: '6f1c1f0e-3a9b-4c36-9d8e-0a3f2c1b7d55',
+    email: 'ada@example.com',
+    status: 'shipped',
+    trackingUrl: 'https://tracking.example.com/123',
+    store: { name: 'Ikeja', location: { lat: 6.6018, lon: 3.3515 } },
+    lines: [{ sku: 'A1', quantity: 2 }],
+    tags: ['gift'],
+  };
+
+  it('should accept a conforming document', () => {
+    expect(SchemaValidator.validateDocument(orderSchema, validOrder)).toEqual({
+      valid: true,
+      errors: undefined,
+    });
+  });
+
+  it('should report nested errors with JSON pointer paths', () => {
+    const result = SchemaValidator.validateDocument(orderSchema, {
+      ...validOrder,
+      store: { location: { lat: 6.6 } },
+      lines: [{ sku: 'A1', quantity: 0 }, { quantity: 1 }],
+      tags: ['gift', 7],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      { path: '/store/name', message: 'is required' },
+      { path: '/store/location', message: 'is not a valid geo_point' },
+      { path: '/lines/0/quantity', message: 'is below minimum value 1' },
+      { path: '/lines/1/sku', message: 'is required' },
+      { path: '/tags/1', message: 'has invalid type, expected string' },
+    ]);
+  });
+
+  it('should check formats', () => {
+    const result = SchemaValidator.validateDocument(orderSchema, {
+      ...validOrder,
+      id: 'order-1',
+      email: 'ada.example.com',
+      trackingUrl: 'not a url',
+    });
+
+    expect(result.errors.map(error => error.path)).toEqual(['/id', '/email', '/trackingUrl']);
+  });
+
+  it('should accept geo points as objects, strings and [lon, lat] arrays', () => {
+    const geo = (type: SchemaFieldType, at: any) =>
+      SchemaValidator.validateDocument(
+        { ...orderSchema, fields: [{ name: 'at', type, required: true, format: 'geo_point' }] },
+        { at },
+      ).valid;
+
+    expect(geo('object', { lat: 6.5, lon: 3.4 })).toBe(true);
+    expect(geo('string', '6.5,3.4')).toBe(true);
+    expect(geo('array', [3.4, 6.5])).toBe(true);
+    expect(geo('array', [3.4, 96.5])).toBe(false);
+    expect(geo('string', '6.5')).toBe(false);
+  });
+
+  it('should require fields whose condition holds', () => {
+    const result = SchemaValidator.validateDocument(orderSchema, {
+      ...validOrder,
+      trackingUrl: undefined,
+      giftMessage: 'Happy birthday',
+    });
+
+    expect(result.errors).toEqual([
+      { path: '/trackingUrl', message: 'is required when status is "shipped"' },
+      { path: '/giftWrap', message: 'is required when giftMessage is present' },
+    ]);
+    expect(
+      SchemaValidator.validateDocument(orderSchema, {
+        ...validOrder,
+        status: 'pending',
+        trackingUrl: undefined,
+      }).valid,
+    ).toBe(true);
+  });
+
+  it('should escape field names in pointers', () => {
+    expect(jsonPointer('/a', 'b/c~d')).toBe('/a/b~1c~0d');
+  });
+
+  it('should check field definitions', () => {
+    const result = SchemaValidator.validateSchema({
+      fields: [
+        { name: 'title', type: 'text' as any, required: true },
+        { name: 'title', type: 'string', required: false, items: { type: 'string' } },
+        {
+          name: 'address',
+          type: 'object',
+          required: false,
+          fields: [{ name: 'city', type: 'string', required: false, format: 'postcode' as any }],
+        },
+        {
+          name: 'zip',
+          type: 'string',
+          required: false,
+          requiredWhen: { field: 'country' },
+          validators: [{ type: 'length', params: {} }],
+        },
+      ],
+    });
+
+    expect(result.errors).toEqual([
+      {
+        path: '/fields/0/type',
+        message: 'must be one of: string, number, boolean, date, object, array',
+      },
+      { path: '/fields/1/name', message: 'is a duplicate' },
+      { path: '/fields/1/items', message: 'is only allowed on arrays' },
+      {
+        path: '/fields/2/fields/0/format',
+        message: 'must be one of: email, url, uuid, geo_point',
+      },
+      {
+        path: '/fields/3/requiredWhen',
+        message: 'must refer to another field of the same object, not country',
+      },
+      { path: '/fields/3/validators/0', message: 'must be one of: min, max, pattern, enum' },
+    ]);
+  });
+});
@@ -1,45 +1,110 @@
-import { Schema, ValidationResult, SchemaField } from '../interfaces/schema.interface';
+import { isEmail, isURL, isUUID } from 'class-validator';
+import { isEqual } from 'lodash';
+import {
+  Schema,
+  ValidationResult,
+  SchemaField,
+  SchemaItem,
+  SchemaValidationError,
+  FieldValidator,
+} from '../interfaces/schema.interface';
+
+export const SCHEMA_FIELD_TYPES = ['string', 'number', 'boolean', 'date', 'object', 'array'];
+export const SCHEMA_FIELD_FORMATS = ['email', 'url', 'uuid', 'geo_point'];
+export const SCHEMA_VALIDATOR_TYPES = ['min', 'max', 'pattern', 'enum'];
+
+/**
+ * Escapes a property name for use in a JSON pointer (RFC 6901)
+ */
+export function jsonPointer(parent: string, key: string | number): string {
+  return `${parent}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
 
 export class SchemaValidator {
   static validateDocument(schema: Schema, document: any): ValidationResult {
-    const errors: string[] = [];
+    const errors: SchemaValidationError[] = [];
+    this.validateFields(schema.fields, document, '', errors);
 
-    // Check required fields
-    for (const field of schema.fields) {
-      if (field.required && (document[field.name] === undefined || document[field.name] === null)) {
-        errors.push(`Required field '${field.name}' is missing`);
-        continue;
-      }
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
 
-      // Skip validation if field is not present and not required
-      if (document[field.name] === undefined || document[field.name] === null) {
+  /**
+   * Checks the field definitions of a schema before it is registered
+   */
+  static validateSchema(schema: Pick<Schema, 'fields'>): ValidationResult {
+    const errors: SchemaValidationError[] = [];
+    if (!Array.isArray(schema.fields)) {
+      errors.push({ path: '/fields', message: 'must be an array of fields' });
+    } else {
+      this.checkFieldDefinitions(schema.fields, '/fields', errors);
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  private static validateFields(
+    fields: SchemaField[],
+    object: Record<string, any>,
+    path: string,
+    errors: SchemaValidationError[],
+  ): void {
+    for (const field of fields) {
+      const fieldPath = jsonPointer(path, field.name);
+      const value = object[field.name];
+
+      if (value === undefined || value === null) {
+        if (field.required) {
+          errors.push({ path: fieldPath, message: 'is required' });
+        } else if (field.requiredWhen && this.conditionMet(field.requiredWhen, object)) {
+          errors.push({ path: fieldPath, message: this.conditionMessage(field.requiredWhen) });
+        }
         continue;
       }
 
-      // Validate field type
-      if (!this.validateFieldType(field, document[field.name])) {
-        errors.push(`Field '${field.name}' has invalid type, expected ${field.type}`);
-      }
+      this.validateValue(field, value, fieldPath, errors);
+    }
+  }
 
-      // Validate using field validators
-      if (field.validators && field.validators.length > 0) {
-        for (const validator of field.validators) {
-          const validationResult = this.applyValidator(validator, field.name, document[field.name]);
-          if (!validationResult.valid) {
-            errors.push(...validationResult.errors);
-          }
-        }
+  private static validateValue(
+    item: SchemaItem,
+    value: any,
+    path: string,
+    errors: SchemaValidationError[],
+  ): void {
+    if (!this.validateFieldType(item, value)) {
+      errors.push({ path, message: `has invalid type, expected ${item.type}` });
+      return;
+    }
+
+    if (item.format && !this.validateFormat(item, value)) {
+      errors.push({ path, message: `is not a valid ${item.format}` });
+    }
+
+    for (const validator of item.validators || []) {
+      const message = this.applyValidator(validator, value);
+      if (message) {
+        errors.push({ path, message });
       }
     }
 
-    return {
-      valid: errors.length === 0,
-      errors: errors.length > 0 ? errors : undefined,
-    };
+    if (item.type === 'object' && item.fields) {
+      this.validateFields(item.fields, value, path, errors);
+    }
+    if (item.type === 'array' && item.items) {
+      value.forEach((element, index) =>
+        this.validateValue(item.items, element, jsonPointer(path, index), errors),
+      );
+    }
   }
 
-  private static validateFieldType(field: SchemaField, value: any): boolean {
-    switch (field.type) {
+  private static validateFieldType(item: SchemaItem, value: any): boolean {
+    switch (item.type) {
       case 'string':
         return typeof value === 'string';
       case 'number':
@@ -57,42 +122,190 @@ export class SchemaValidator {
     }
   }
 
-  private static applyValidator(validator: any, fieldName: string, value: any): ValidationResult {
-    const errors: string[] = [];
+  private static validateFormat(item: SchemaItem, value: any): boolean {
+    switch (item.format) {
+      case 'email':
+        return typeof value === 'string' && isEmail(value);
+      case 'url':
+        return typeof value === 'string' && isURL(value, { require_tld: false });
+      case 'uuid':
+        return typeof value === 'string' && isUUID(value);
+      case 'geo_point':
+        return this.isGeoPoint(value);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * A geo point as { lat, lon }, "lat,lon" or [lon, lat]
+   */
+  private static isGeoPoint(value: any): boolean {
+    let lat: number;
+    let lon: number;
+
+    if (Array.isArray(value)) {
+      if (value.length !== 2) return false;
+      [lon, lat] = value;
+    } else if (typeof value === 'string') {
+      const parts = value.split(',');
+      if (parts.length !== 2 || parts.some(part => part.trim() === '')) return false;
+      [lat, lon] = parts.map(Number);
+    } else if (typeof value === 'object') {
+      ({ lat, lon } = value);
+    }
+
+    return (
+      typeof lat === 'number' &&
+      typeof lon === 'number' &&
+      Math.abs(lat) <= 90 &&
+      Math.abs(lon) <= 180
+    );
+  }
+
+  /**
+   * Returns the error message of a failed validator, or null
+   */
+  private static applyValidator(validator: FieldValidator, value: any): string | null {
+    // min and max bound numbers, and the length of strings and arrays
+    const measure =
+      typeof value === 'number'
+        ? value
+        : typeof value === 'string' || Array.isArray(value)
+        ? value.length
+        : null;
 
     switch (validator.type) {
       case 'min':
-        if (
-          (typeof value === 'number' && value < validator.params.value) ||
-          (typeof value === 'string' && value.length < validator.params.value)
-        ) {
-          errors.push(`Field '${fieldName}' is below minimum value ${validator.params.value}`);
-        }
-        break;
+        return measure !== null && measure < validator.params.value
+          ? `is below minimum value ${validator.params.value}`
+          : null;
       case 'max':
-        if (
-          (typeof value === 'number' && value > validator.params.value) ||
-          (typeof value === 'string' && value.length > validator.params.value)
-        ) {
-          errors.push(`Field '${fieldName}' exceeds maximum value ${validator.params.value}`);
-        }
-        break;
+        return measure !== null && measure > validator.params.value
+          ? `exceeds maximum value ${validator.params.value}`
+          : null;
       case 'pattern':
-        if (typeof value === 'string' && !new RegExp(validator.params.pattern).test(value)) {
-          errors.push(`Field '${fieldName}' does not match required pattern`);
-        }
-        break;
+        return typeof value === 'string' && !new RegExp(validator.params.pattern).test(value)
+          ? 'does not match required pattern'
+          : null;
       case 'enum':
-        if (!validator.params.values.includes(value)) {
-          errors.push(`Field '${fieldName}' must be one of: ${validator.params.values.join(', ')}`);
+        return !validator.params.values.includes(value)
+          ? `must be one of: ${validator.params.values.join(', ')}`
+          : null;
+      default:
+        return null;
+    }
+  }
+
+  private static conditionMet(
+    condition: SchemaField['requiredWhen'],
+    object: Record<string, any>,
+  ): boolean {
+    const other = object[condition.field];
+    if ('equals' in condition) {
+      return isEqual(other, condition.equals);
+    }
+    return other !== undefined && other !== null;
+  }
+
+  private static conditionMessage(condition: SchemaField['requiredWhen']): string {
+    return 'equals' in condition
+      ? `is required when ${condition.field} is ${JSON.stringify(condition.equals)}`
+      : `is required when ${condition.field} is present`;
+  }
+
+  private static checkFieldDefinitions(
+    fields: SchemaField[],
+    path: string,
+    errors: SchemaValidationError[],
+  ): void {
+    const names = new Set<string>();
+
+    fields.forEach((field, index) => {
+      const fieldPath = jsonPointer(path, index);
+      if (!field?.name || typeof field.name !== 'string') {
+        errors.push({ path: jsonPointer(fieldPath, 'name'), message: 'is required' });
+      } else if (names.has(field.name)) {
+        errors.push({ path: jsonPointer(fieldPath, 'name'), message: 'is a duplicate' });
+      }
+      names.add(field?.name);
+
+      if (field?.requiredWhen) {
+        const other = field.requiredWhen.field;
+        if (!fields.some(sibling => sibling?.name === other && sibling !== field)) {
+          errors.push({
+            path: jsonPointer(fieldPath, 'requiredWhen'),
+            message: `must refer to another field of the same object, not ${other}`,
+          });
         }
-        break;
-      // Add more validator types as needed
+      }
+
+      this.checkItemDefinition(field || ({} as SchemaField), fieldPath, errors);
+    });
+  }
+
+  private static checkItemDefinition(
+    item: SchemaItem,
+    path: string,
+    errors: SchemaValidationError[],
+  ): void {
+    if (!SCHEMA_FIELD_TYPES.includes(item.type)) {
+      errors.push({
+        path: jsonPointer(path, 'type'),
+        message: `must be one of: ${SCHEMA_FIELD_TYPES.join(', ')}`,
+      });
+    }
+    if (item.format && !SCHEMA_FIELD_FORMATS.includes(item.format)) {
+      errors.push({
+        path: jsonPointer(path, 'format'),
+        message: `must be one of: ${SCHEMA_FIELD_FORMATS.join(', ')}`,
+      });
     }
 
-    return {
-      valid: errors.length === 0,
-      errors,
-    };
+    if (item.fields !== undefined) {
+      if (item.type !== 'object' || !Array.isArray(item.fields)) {
+        errors.push({
+          path: jsonPointer(path, 'fields'),
+          message: 'must be an array of fields of an object',
+        });
+      } else {
+        this.checkFieldDefinitions(item.fields, jsonPointer(path, 'fields'), errors);
+      }
+    }
+    if (item.items !== undefined) {
+      if (item.type !== 'array' || typeof item.items !== 'object' || item.items === null) {
+        errors.push({ path: jsonPointer(path, 'items'), message: 'is only allowed on arrays' });
+      } else {
+        this.checkItemDefinition(item.items, jsonPointer(path, 'items'), errors);
+      }
+    }
+
+    (item.validators || []).forEach((validator, index) => {
+      const message = this.checkValidatorDefinition(validator);
+      if (message) {
+        errors.push({ path: jsonPointer(jsonPointer(path, 'validators'), index), message });
+      }
+    });
+  }
+
+  private static checkValidatorDefinition(validator: FieldValidator): string | null {
+    switch (validator?.type) {
+      case 'min':
+      case 'max':
+        return typeof validator.params?.value === 'number' ? null : 'needs a numeric params.value';
+      case 'pattern':
+        try {
+          new RegExp(validator.params?.pattern);
+          return typeof validator.params?.pattern === 'string'
+            ? null
+            : 'needs a params.pattern string';
+        } catch (error) {
+          return `has an invalid pattern: ${error.message}`;
+        }
+      case 'enum':
+        return Array.isArray(validator.params?.values) ? null : 'needs a params.values array';
+      default:
+        return `must be one of: ${SCHEMA_VALIDATOR_TYPES.join(', ')}`;
+    }
   }
 }
@@ -0,0 +1,95 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { SemanticSearchService } from '../services/semantic-search.service';
+import { DocumentEmbeddingService } from './document-embedding.service';
+import { EmbeddingProviderService } from './embedding-provider.service';
+
+describe('DocumentEmbeddingService', () => {
+  let service: DocumentEmbeddingService;
+  let dataSource: { query: jest.Mock };
+  let semanticSearch: { storeEmbeddings: jest.Mock; deleteEmbeddings: jest.Mock };
+  let embeddingProviders: { resolveSettings: jest.Mock; embed: jest.Mock };
+
+  beforeEach(async () => {
+    dataSource = {
+      query: jest.fn().mockResolvedValue([
+        {
+          properties: {
+            name: { type: 'text' },
+            name_vector: { type: 'dense_vector', source: ['name', 'tags'] },
+          },
+        },
+      ]),
+    };
+    semanticSearch = {
+      storeEmbeddings: jest.fn().mockResolvedValue(undefined),
+      deleteEmbeddings: jest.fn().mockResolvedValue(undefined),
+    };
+    embeddingProviders = {
+      resolveSettings: jest.fn().mockResolvedValue({ provider: 'hashing', dimensions: 3 }),
+      embed: jest.fn().mockImplementation((texts: string[]) => texts.map(() => [0.5, 0.5, 0])),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentEmbeddingService,
+        { provide: DataSource, useValue: dataSource },
+        { provide: SemanticSearchService, useValue: semanticSearch },
+        { provide: EmbeddingProviderService, useValue: embeddingProviders },
+      ],
+    }).compile();
+
+    service = module.get<DocumentEmbeddingService>(DocumentEmbeddingService);
+  });
+
+  it('should embed the source fields of dense_vector mappings', async () => {
+    await service.indexDocuments('products', [
+      { id: 'doc-1', source: { name: 'Headphones', tags: ['audio', 'wireless'] } },
+    ]);
+
+    expect(embeddingProviders.embed).toHaveBeenCalledWith(
+      ['Headphones\naudio\nwireless'],
+      expect.anything(),
+    );
+    expect(semanticSearch.storeEmbeddings).toHaveBeenCalledWith('products', 'name_vector', [
+      { documentId: 'doc-1', embedding: [0.5, 0.5, 0], text: 'Headphones\naudio\nwireless' },
+    ]);
+  });
+
+  it('should store vectors supplied with the document as they are', async () => {
+    await service.indexDocuments('products', [
+      { id: 'doc-1', source: { name: 'Headphones', name_vector: [1, 0, 0] } },
+    ]);
+
+    expect(embeddingProviders.embed).not.toHaveBeenCalled();
+    expect(semanticSearch.storeEmbeddings).toHaveBeenCalledWith('products', 'name_vector', [
+      { documentId: 'doc-1', embedding: [1, 0, 0], text: '' },
+    ]);
+  });
+
+  it('should drop the vectors of documents without text', async () => {
+    await service.indexDocuments('products', [{ id: 'doc-1', source: { price: 10 } }]);
+
+    expect(semanticSearch.deleteEmbeddings).toHaveBeenCalledWith(
+      'products',
+      ['doc-1'],
+      'name_vector',
+    );
+  });
+
+  it('should skip indices without dense_vector fields', async () => {
+    dataSource.query.mockResolvedValue([{ properties: { name: { type: 'text' } } }]);
+
+    await service.indexDocuments('products', [{ id: 'doc-1', source: { name: 'Headphones' } }]);
+
+    expect(semanticSearch.storeEmbeddings).not.toHaveBeenCalled();
+  });
+
+  it('should not fail indexing when embedding fails', async () => {
+    embeddingProviders.embed.mockRejectedValue(new Error('provider down'));
+
+    await expect(
+      service.indexDocuments('products', [{ id: 'doc-1', source: { name: 'Headphones' } }]),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,137 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { FieldMapping } from '../../index/interfaces/index.interface';
+import { SemanticSearchService } from '../services/semantic-search.service';
+import { EmbeddingProviderService } from './embedding-provider.service';
+
+export interface EmbeddableDocument {
+  id: string;
+  source: Record<string, any>;
+}
+
+/**
+ * Keeps the embeddings of mapped dense_vector fields in step with the
+ * documents they belong to.
+ *
+ * A document may carry the vector itself; otherwise the text of the field's
+ * `source` fields (or the field itself) is embedded with the index's provider.
+ * Failures are logged rather than thrown so indexing never fails on embeddings.
+ */
+@Injectable()
+export class DocumentEmbeddingService {
+  private readonly logger = new Logger(DocumentEmbeddingService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly semanticSearchService: SemanticSearchService,
+    private readonly embeddingProviders: EmbeddingProviderService,
+  ) {}
+
+  /**
+   * Embeds the dense_vector fields of documents
+   *
+   * @param changedFields - Top-level fields that changed in a partial update; only
+   * the vector fields built from them are embedded again
+   */
+  async indexDocuments(
+    indexName: string,
+    documents: EmbeddableDocument[],
+    changedFields?: string[],
+  ): Promise<void> {
+    if (documents.length === 0) return;
+
+    try {
+      const vectorFields = (await this.getVectorFields(indexName)).filter(
+        ([field, mapping]) =>
+          !changedFields ||
+          [field, ...(mapping.source || [])].some(path =>
+            changedFields.includes(path.split('.')[0]),
+          ),
+      );
+      if (vectorFields.length === 0) return;
+
+      for (const [field, mapping] of vectorFields) {
+        await this.indexField(indexName, field, mapping, documents);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to embed ${documents.length} documents of index ${indexName}: ${error.message}`,
+      );
+    }
+  }
+
+  async removeDocuments(indexName: string, documentIds: string[]): Promise<void> {
+    try {
+      await this.semanticSearchService.deleteEmbeddings(indexName, documentIds);
+    } catch (error) {
+      this.logger.error(`Failed to remove embeddings from index ${indexName}: ${error.message}`);
+    }
+  }
+
+  private async indexField(
+    indexName: string,
+    field: string,
+    mapping: FieldMapping,
+    documents: EmbeddableDocument[],
+  ): Promise<void> {
+    const items: Array<{ documentId: string; embedding: number[]; text: string }> = [];
+    const pending: Array<{ documentId: string; text: string }> = [];
+    const empty: string[] = [];
+
+    for (const document of documents) {
+      const value = this.getValue(document.source, field);
+      if (Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'number')) {
+        items.push({ documentId: document.id, embedding: value, text: '' });
+        continue;
+      }
+
+      const text = this.extractText(
+        document.source,
+        mapping.source?.length ? mapping.source : [field],
+      );
+      if (text) {
+        pending.push({ documentId: document.id, text });
+      } else {
+        empty.push(document.id);
+      }
+    }
+
+    if (pending.length > 0) {
+      const settings = await this.embeddingProviders.resolveSettings(indexName);
+      const vectors = await this.embeddingProviders.embed(
+        pending.map(item => item.text),
+        settings,
+      );
+      pending.forEach((item, i) => items.push({ ...item, embedding: vectors[i] }));
+    }
+
+    await this.semanticSearchService.storeEmbeddings(indexName, field, items);
+    await this.semanticSearchService.deleteEmbeddings(indexName, empty, field);
+    this.logger.debug(`Stored ${items.length} embeddings for ${indexName}.${field}`);
+  }
+
+  private async getVectorFields(indexName: string): Promise<Array<[string, FieldMapping]>> {
+    const rows = await this.dataSource.query(
+      `SELECT settings->'mappings'->'properties' AS properties FROM indices WHERE index_name = $1`,
+      [indexName],
+    );
+    const properties: Record<string, FieldMapping> = rows[0]?.properties || {};
+    return Object.entries(properties).filter(([, mapping]) => mapping?.type === 'dense_vector');
+  }
+
+  private extractText(source: Record<string, any>, fields: string[]): string {
+    return fields
+      .flatMap(field => {
+        const value = this.getValue(source, field);
+        return Array.isArray(value) ? value : [value];
+      })
+      .filter(value => typeof value === 'string' || typeof value === 'number')
+      .map(value => String(value).trim())
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  private getValue(source: Record<string, any>, path: string): any {
+    return path.split('.').reduce((value, key) => value?.[key], source);
+  }
+}
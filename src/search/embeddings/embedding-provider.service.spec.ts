@@ -0,0 +1,119 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { EmbeddingProviderService } from './embedding-provider.service';
+import { HashingEmbeddingProvider } from './hashing-embedding.provider';
+import { HttpEmbeddingProvider } from './http-embedding.provider';
+import { OpenAIEmbeddingProvider } from './openai-embedding.provider';
+
+describe('EmbeddingProviderService', () => {
+  let service: EmbeddingProviderService;
+  let dataSource: { query: jest.Mock };
+  let httpProvider: HttpEmbeddingProvider;
+  let config: Record<string, string>;
+
+  beforeEach(async () => {
+    dataSource = { query: jest.fn().mockResolvedValue([]) };
+    config = { EMBEDDING_HTTP_BATCH_SIZE: '2', EMBEDDING_HTTP_URL: 'http://models:8080/embed' };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmbeddingProviderService,
+        OpenAIEmbeddingProvider,
+        HttpEmbeddingProvider,
+        HashingEmbeddingProvider,
+        { provide: DataSource, useValue: dataSource },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string, fallback?: string) => config[key] ?? fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get<EmbeddingProviderService>(EmbeddingProviderService);
+    httpProvider = module.get<HttpEmbeddingProvider>(HttpEmbeddingProvider);
+  });
+
+  describe('resolveSettings', () => {
+    it('should fall back to the offline model without an OpenAI key', async () => {
+      expect(await service.resolveSettings()).toEqual({
+        provider: 'hashing',
+        model: 'hashing-v1',
+        dimensions: 1536,
+      });
+
+      config.OPENAI_API_KEY = 'sk-test';
+      expect(await service.resolveSettings()).toMatchObject({
+        provider: 'openai',
+        model: 'text-embedding-ada-002',
+      });
+    });
+
+    it('should use the embedding settings of the index', async () => {
+      config.EMBEDDING_MODEL = 'server-default';
+      dataSource.query.mockResolvedValue([
+        { embedding: { provider: 'http', model: 'nomic-embed-text', dimensions: 768 } },
+      ]);
+
+      expect(await service.resolveSettings('businesses')).toEqual({
+        provider: 'http',
+        model: 'nomic-embed-text',
+        dimensions: 768,
+      });
+      expect(dataSource.query.mock.calls[0][1]).toEqual(['businesses']);
+    });
+
+    it('should reject unknown providers', async () => {
+      config.EMBEDDING_PROVIDER = 'word2vec';
+
+      await expect(service.resolveSettings()).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('embed', () => {
+    const settings = { provider: 'http' as const, model: 'nomic-embed-text', dimensions: 2 };
+
+    it('should send one request per provider batch', async () => {
+      const embed = jest
+        .spyOn(httpProvider, 'embed')
+        .mockImplementation(async texts => texts.map(() => [0.6, 0.8]));
+
+      const vectors = await service.embed(['a', 'b', 'c'], settings);
+
+      expect(embed.mock.calls.map(([texts]) => texts)).toEqual([['a', 'b'], ['c']]);
+      expect(vectors).toHaveLength(3);
+    });
+
+    it('should reject vectors that do not match the configured dimensions', async () => {
+      jest.spyOn(httpProvider, 'embed').mockResolvedValue([[0.1, 0.2, 0.3]]);
+
+      await expect(service.embed(['a'], settings)).rejects.toThrow(
+        'returned 3 dimensions, but the index expects 2',
+      );
+    });
+
+    it('should read OpenAI-style responses from the http endpoint', async () => {
+      const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          data: [
+            { index: 1, embedding: [0, 1] },
+            { index: 0, embedding: [1, 0] },
+          ],
+        }),
+      } as Response);
+
+      expect(await service.embed(['first', 'second'], settings)).toEqual([
+        [1, 0],
+        [0, 1],
+      ]);
+      expect(fetchMock).toHaveBeenCalledWith('http://models:8080/embed', expect.anything());
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toEqual({
+        input: ['first', 'second'],
+        model: 'nomic-embed-text',
+      });
+      fetchMock.mockRestore();
+    });
+  });
+});
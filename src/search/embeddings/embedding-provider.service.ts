@@ -0,0 +1,113 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { EmbeddingSettings } from '../../index/interfaces/index.interface';
+import { HashingEmbeddingProvider } from './hashing-embedding.provider';
+import { HttpEmbeddingProvider } from './http-embedding.provider';
+import {
+  EMBEDDING_PROVIDERS,
+  EmbeddingProvider,
+  ResolvedEmbeddingSettings,
+} from './interfaces/embedding-provider.interface';
+import { OpenAIEmbeddingProvider } from './openai-embedding.provider';
+
+const DEFAULT_DIMENSIONS = 1536;
+
+/**
+ * Picks the embedding provider of an index and embeds texts in batches sized
+ * for that provider.
+ *
+ * Indices choose a provider with `settings.embedding`; otherwise EMBEDDING_PROVIDER
+ * applies, defaulting to OpenAI when OPENAI_API_KEY is set and to the offline
+ * hashing model when it is not.
+ */
+@Injectable()
+export class EmbeddingProviderService {
+  private readonly logger = new Logger(EmbeddingProviderService.name);
+  private readonly providers: Map<EmbeddingSettings['provider'], EmbeddingProvider>;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly configService: ConfigService,
+    openAIProvider: OpenAIEmbeddingProvider,
+    httpProvider: HttpEmbeddingProvider,
+    hashingProvider: HashingEmbeddingProvider,
+  ) {
+    this.providers = new Map<EmbeddingSettings['provider'], EmbeddingProvider>(
+      [openAIProvider, httpProvider, hashingProvider].map(provider => [provider.name, provider]),
+    );
+  }
+
+  /**
+   * Embedding settings of an index, or the server defaults without an index
+   */
+  async resolveSettings(indexName?: string): Promise<ResolvedEmbeddingSettings> {
+    let settings: Partial<EmbeddingSettings> = {};
+    if (indexName) {
+      const rows = await this.dataSource.query(
+        `SELECT settings->'embedding' AS embedding FROM indices WHERE index_name = $1`,
+        [indexName],
+      );
+      settings = rows[0]?.embedding || {};
+    }
+
+    const provider =
+      settings.provider ??
+      (this.configService.get<string>('EMBEDDING_PROVIDER') as EmbeddingSettings['provider']) ??
+      (this.configService.get<string>('OPENAI_API_KEY') ? 'openai' : 'hashing');
+    if (!EMBEDDING_PROVIDERS.includes(provider)) {
+      throw new BadRequestException(
+        `Unknown embedding provider '${provider}', expected one of ${EMBEDDING_PROVIDERS}`,
+      );
+    }
+
+    const dimensions =
+      settings.dimensions ??
+      Number(this.configService.get<string>('EMBEDDING_DIMENSIONS', String(DEFAULT_DIMENSIONS)));
+    if (!Number.isInteger(dimensions) || dimensions <= 0) {
+      throw new BadRequestException(`Invalid embedding dimensions '${dimensions}'`);
+    }
+
+    return {
+      ...settings,
+      provider,
+      model:
+        settings.model ??
+        (settings.provider ? undefined : this.configService.get<string>('EMBEDDING_MODEL')) ??
+        this.providers.get(provider).defaultModel(),
+      dimensions,
+    };
+  }
+
+  /**
+   * Embed texts with the given settings, one provider call per batch. Every
+   * vector must have the configured number of dimensions.
+   */
+  async embed(texts: string[], settings: ResolvedEmbeddingSettings): Promise<number[][]> {
+    const provider = this.providers.get(settings.provider);
+    const embeddings: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += provider.maxBatchSize) {
+      const batch = texts.slice(i, i + provider.maxBatchSize);
+      const vectors = await provider.embed(batch, settings);
+
+      if (vectors.length !== batch.length) {
+        throw new Error(
+          `Embedding provider '${provider.name}' returned ${vectors.length} vectors for ${batch.length} texts`,
+        );
+      }
+      const invalid = vectors.find(vector => vector?.length !== settings.dimensions);
+      if (invalid) {
+        throw new BadRequestException(
+          `Embedding provider '${provider.name}' (${settings.model}) returned ${invalid?.length} ` +
+            `dimensions, but the index expects ${settings.dimensions}`,
+        );
+      }
+
+      embeddings.push(...vectors);
+    }
+
+    this.logger.debug(`Embedded ${texts.length} texts with ${provider.name} (${settings.model})`);
+    return embeddings;
+  }
+}
@@ -0,0 +1,33 @@
+import { HashingEmbeddingProvider } from './hashing-embedding.provider';
+
+describe('HashingEmbeddingProvider', () => {
+  const provider = new HashingEmbeddingProvider();
+  const settings = { provider: 'hashing' as const, model: 'hashing-v1', dimensions: 256 };
+  const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+  it('should produce deterministic unit vectors of the configured size', async () => {
+    const [first, second] = await provider.embed(
+      ['Fresh bread bakery', 'fresh BREAD bakery'],
+      settings,
+    );
+
+    expect(first).toHaveLength(256);
+    expect(first).toEqual(second);
+    expect(cosine(first, first)).toBeCloseTo(1);
+  });
+
+  it('should place texts sharing words closer together', async () => {
+    const [query, related, unrelated] = await provider.embed(
+      ['italian restaurant', 'italian restaurants in lagos', 'car repair workshop'],
+      settings,
+    );
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('should return a zero vector for text without words', async () => {
+    const [vector] = await provider.embed(['  ...  '], settings);
+
+    expect(vector.every(value => value === 0)).toBe(true);
+  });
+});
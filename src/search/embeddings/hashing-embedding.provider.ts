@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import {
+  EmbeddingProvider,
+  ResolvedEmbeddingSettings,
+} from './interfaces/embedding-provider.interface';
+
+const TRIGRAM_WEIGHT = 0.5;
+
+/**
+ * Deterministic in-process embeddings built by hashing words and character
+ * trigrams into a fixed number of dimensions. It needs no model or network
+ * access, so it works offline; similarity is lexical rather than semantic.
+ */
+@Injectable()
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing' as const;
+  readonly maxBatchSize = 1000;
+
+  defaultModel(): string {
+    return 'hashing-v1';
+  }
+
+  async embed(texts: string[], settings: ResolvedEmbeddingSettings): Promise<number[][]> {
+    return texts.map(text => this.embedText(text, settings.dimensions));
+  }
+
+  private embedText(text: string, dimensions: number): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  /**
+   * Signed feature hashing: the hash picks the dimension and its top bit the
+   * sign, so colliding features tend to cancel out instead of piling up
+   */
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = this.fnv1a(feature);
+    vector[hash % vector.length] += hash & 0x80000000 ? -weight : weight;
+  }
+
+  private fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  EmbeddingProvider,
+  ResolvedEmbeddingSettings,
+} from './interfaces/embedding-provider.interface';
+
+/**
+ * POST a batch of texts to an embedding endpoint and read the vectors back,
+ * accepting OpenAI-style (`data[].embedding`), `embeddings` and bare array responses
+ */
+export async function requestEmbeddings(
+  url: string,
+  body: Record<string, any>,
+  headers: Record<string, string>,
+  timeoutMs: number,
+): Promise<number[][]> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Embedding request to ${url} failed: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  const data = await response.json();
+  if (Array.isArray(data?.data)) {
+    return [...data.data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => item.embedding);
+  }
+  if (Array.isArray(data?.embeddings)) {
+    return data.embeddings;
+  }
+  if (Array.isArray(data)) {
+    return data;
+  }
+  throw new Error(`Embedding response from ${url} has no embeddings`);
+}
+
+/**
+ * Embeddings from a self-hosted model server, for environments without
+ * internet access. The endpoint receives `{ input: string[], model }`.
+ */
+@Injectable()
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'http' as const;
+  readonly maxBatchSize: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.maxBatchSize = Number(this.configService.get<string>('EMBEDDING_HTTP_BATCH_SIZE', '32'));
+  }
+
+  defaultModel(): string {
+    return this.configService.get<string>('EMBEDDING_MODEL', 'default');
+  }
+
+  async embed(texts: string[], settings: ResolvedEmbeddingSettings): Promise<number[][]> {
+    const url = settings.url || this.configService.get<string>('EMBEDDING_HTTP_URL');
+    if (!url) {
+      throw new Error('Embedding endpoint not configured (set EMBEDDING_HTTP_URL or url)');
+    }
+
+    const apiKey = this.configService.get<string>('EMBEDDING_HTTP_API_KEY');
+    return requestEmbeddings(
+      url,
+      { input: texts, model: settings.model },
+      apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      Number(this.configService.get<string>('EMBEDDING_TIMEOUT_MS', '30000')),
+    );
+  }
+}
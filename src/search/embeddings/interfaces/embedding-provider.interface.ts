@@ -0,0 +1,23 @@
+import { EmbeddingSettings } from '../../../index/interfaces/index.interface';
+
+export const EMBEDDING_PROVIDERS: ReadonlyArray<EmbeddingSettings['provider']> = [
+  'openai',
+  'http',
+  'hashing',
+];
+
+/**
+ * Embedding settings of an index merged with the server defaults
+ */
+export interface ResolvedEmbeddingSettings extends EmbeddingSettings {
+  model: string;
+  dimensions: number;
+}
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingSettings['provider'];
+  // Largest number of texts embedded in one call
+  readonly maxBatchSize: number;
+  defaultModel(): string;
+  embed(texts: string[], settings: ResolvedEmbeddingSettings): Promise<number[][]>;
+}
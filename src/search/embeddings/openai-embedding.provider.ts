@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { requestEmbeddings } from './http-embedding.provider';
+import {
+  EmbeddingProvider,
+  ResolvedEmbeddingSettings,
+} from './interfaces/embedding-provider.interface';
+
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+
+@Injectable()
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly maxBatchSize = 100;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  defaultModel(): string {
+    return 'text-embedding-ada-002';
+  }
+
+  async embed(texts: string[], settings: ResolvedEmbeddingSettings): Promise<number[][]> {
+    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
+    if (!apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    // Only the text-embedding-3 models can shorten their vectors
+    const body: Record<string, any> = { input: texts, model: settings.model };
+    if (settings.model.startsWith('text-embedding-3')) {
+      body.dimensions = settings.dimensions;
+    }
+
+    return requestEmbeddings(
+      OPENAI_EMBEDDINGS_URL,
+      body,
+      { Authorization: `Bearer ${apiKey}` },
+      Number(this.configService.get<string>('EMBEDDING_TIMEOUT_MS', '30000')),
+    );
+  }
+}
@@ -7,11 +7,18 @@ import { EntityExtractionService } from './services/entity-extraction.service';
 import { LocationProcessorService } from './services/location-processor.service';
 import { QueryExpansionService } from './services/query-expansion.service';
 import { SemanticSearchService } from './services/semantic-search.service';
+import { EmbeddingProviderService } from './embeddings/embedding-provider.service';
+import { DocumentEmbeddingService } from './embeddings/document-embedding.service';
+import { OpenAIEmbeddingProvider } from './embeddings/openai-embedding.provider';
+import { HttpEmbeddingProvider } from './embeddings/http-embedding.provider';
+import { HashingEmbeddingProvider } from './embeddings/hashing-embedding.provider';
 import { GeographicFilterService } from './services/geographic-filter.service';
 import { MultiSignalRankingService } from './services/multi-signal-ranking.service';
 import { MatchQualityClassifierService } from './services/match-quality-classifier.service';
 import { TieredRankingService } from './services/tiered-ranking.service';
 import { DictionaryService } from './services/dictionary.service';
+import { HighlightService } from './services/highlight.service';
+import { SearchAsYouTypeService } from './services/search-as-you-type.service';
 import { SpellCheckerService } from './spell-checker.service';
 import { AnalysisModule } from '../analysis/analysis.module';
 import { PostgreSQLModule } from '../storage/postgresql/postgresql.module';
@@ -31,11 +38,18 @@ import { PostgreSQLModule } from '../storage/postgresql/postgresql.module';
     LocationProcessorService,
     QueryExpansionService,
     SemanticSearchService,
+    EmbeddingProviderService,
+    DocumentEmbeddingService,
+    OpenAIEmbeddingProvider,
+    HttpEmbeddingProvider,
+    HashingEmbeddingProvider,
     GeographicFilterService,
     MultiSignalRankingService,
     MatchQualityClassifierService,
     TieredRankingService,
     DictionaryService,
+    HighlightService,
+    SearchAsYouTypeService,
   ],
   exports: [
     SearchService,
@@ -46,11 +60,15 @@ import { PostgreSQLModule } from '../storage/postgresql/postgresql.module';
     LocationProcessorService,
     QueryExpansionService,
     SemanticSearchService,
+    EmbeddingProviderService,
+    DocumentEmbeddingService,
     GeographicFilterService,
     MultiSignalRankingService,
     MatchQualityClassifierService,
     TieredRankingService,
     DictionaryService,
+    HighlightService,
+    SearchAsYouTypeService,
   ],
 })
 export class SearchModule {}
@@ -0,0 +1,120 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { SearchService } from './search.service';
+import { EntityExtractionService } from './services/entity-extraction.service';
+import { LocationProcessorService } from './services/location-processor.service';
+import { QueryExpansionService } from './services/query-expansion.service';
+import { GeographicFilterService } from './services/geographic-filter.service';
+import { MultiSignalRankingService } from './services/multi-signal-ranking.service';
+import { TieredRankingService } from './services/tiered-ranking.service';
+import { TypoToleranceService } from './typo-tolerance.service';
+import { DictionaryService } from './services/dictionary.service';
+import { HighlightService } from './services/highlight.service';
+import { SemanticSearchService } from './services/semantic-search.service';
+import { SearchAsYouTypeService } from './services/search-as-you-type.service';
+import { PostgreSQLSearchEngine } from '../storage/postgresql/postgresql-search-engine';
+import { RedisCacheService } from '../storage/postgresql/redis-cache.service';
+import { FacetBuilderService } from '../storage/postgresql/facet-builder.service';
+import { FilterBuilderService } from '../storage/postgresql/filter-builder.service';
+import { SearchResponseDto } from '../api/dtos/search.dto';
+
+describe('SearchService.searchIndices', () => {
+  let service: SearchService;
+  let search: jest.SpyInstance;
+
+  const response = (
+    hits: Array<{ id: string; score: number }>,
+    facets?: SearchResponseDto['facets'],
+  ): SearchResponseDto =>
+    ({
+      data: { total: hits.length, maxScore: 1, hits, pagination: {} },
+      ...(facets && { facets }),
+      took: 1,
+    } as any);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchService,
+        FacetBuilderService,
+        FilterBuilderService,
+        ...[
+          PostgreSQLSearchEngine,
+          EntityExtractionService,
+          LocationProcessorService,
+          QueryExpansionService,
+          GeographicFilterService,
+          MultiSignalRankingService,
+          TieredRankingService,
+          TypoToleranceService,
+          DataSource,
+          DictionaryService,
+          RedisCacheService,
+          HighlightService,
+          SemanticSearchService,
+          SearchAsYouTypeService,
+        ].map(provide => ({ provide, useValue: {} })),
+      ],
+    }).compile();
+
+    service = module.get<SearchService>(SearchService);
+    search = jest.spyOn(service, 'search');
+  });
+
+  it('should re-rank merged terms buckets by count and cut them to the facet size', async () => {
+    search
+      .mockResolvedValueOnce(
+        response([{ id: 'a', score: 2 }], {
+          brand: {
+            buckets: [
+              { key: 'acme', count: 5 },
+              { key: 'zeta', count: 4 },
+            ],
+          },
+          price: { buckets: [{ key: '*-10', count: 3, to: 10 }] },
+        }),
+      )
+      .mockResolvedValueOnce(
+        response([{ id: 'b', score: 1 }], {
+          brand: {
+            buckets: [
+              { key: 'globex', count: 6 },
+              { key: 'zeta', count: 3 },
+            ],
+          },
+          price: { buckets: [{ key: '*-10', count: 2, to: 10 }] },
+        }),
+      );
+
+    const result = await service.searchIndices(['shop-eu', 'shop-us'], {
+      query: 'lamp',
+      facets: [
+        { field: 'brand', size: 2 },
+        { type: 'range', field: 'price', ranges: [{ to: 10 }] },
+      ],
+    } as any);
+
+    expect(result.facets.brand.buckets).toEqual([
+      { key: 'zeta', count: 7 },
+      { key: 'globex', count: 6 },
+    ]);
+    expect(result.facets.price.buckets).toEqual([{ key: '*-10', count: 5, to: 10 }]);
+    expect(result.data.hits.map(hit => hit.id)).toEqual(['a', 'b']);
+  });
+
+  it('should reject pages beyond the first 100 hits', async () => {
+    await expect(
+      service.searchIndices(['shop-eu', 'shop-us'], { query: 'lamp', from: 95, size: 10 } as any),
+    ).rejects.toThrow(BadRequestException);
+    expect(search).not.toHaveBeenCalled();
+
+    search.mockResolvedValue(response([]));
+    await service.searchIndices(['shop-eu', 'shop-us'], {
+      query: 'lamp',
+      from: 90,
+      size: 10,
+    } as any);
+    expect(search).toHaveBeenCalledWith('shop-eu', expect.objectContaining({ from: 0, size: 100 }));
+  });
+});
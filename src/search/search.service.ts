@@ -1,5 +1,6 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { DataSource } from 'typeorm';
+import { omit } from 'lodash';
 import {
   SearchQueryDto,
   SearchResponseDto,
@@ -16,6 +17,16 @@ import { TieredRankingService } from './services/tiered-ranking.service';
 import { TypoToleranceService, TypoCorrection } from './typo-tolerance.service';
 import { DictionaryService } from './services/dictionary.service';
 import { RedisCacheService } from '../storage/postgresql/redis-cache.service';
+import { HighlightOptions, HighlightService } from './services/highlight.service';
+import { KnnQuery, SemanticSearchService } from './services/semantic-search.service';
+import { SearchAsYouTypeService } from './services/search-as-you-type.service';
+import { FacetBuilderService } from '../storage/postgresql/facet-builder.service';
+import { FacetRequest } from '../storage/postgresql/interfaces/facet.interface';
+
+// Largest number of hits a knn or hybrid search ranks before paging
+const MAX_VECTOR_WINDOW = 1000;
+// The search engine returns at most 100 hits per query, which bounds from + size across indices
+const MAX_MULTI_INDEX_WINDOW = 100;
 
 @Injectable()
 export class SearchService {
@@ -35,6 +46,10 @@ export class SearchService {
     private readonly dataSource: DataSource,
     private readonly dictionaryService: DictionaryService,
     private readonly redisCache: RedisCacheService,
+    private readonly highlightService: HighlightService,
+    private readonly semanticSearchService: SemanticSearchService,
+    private readonly searchAsYouTypeService: SearchAsYouTypeService,
+    private readonly facetBuilder: FacetBuilderService,
   ) {
     // Cache configuration
     this.cacheEnabled = true; // Enable Redis caching
@@ -49,6 +64,12 @@ export class SearchService {
     const originalQuery = this.getQueryText(searchQuery);
 
     try {
+      const highlightOptions = this.highlightService.parseOptions(searchQuery.highlight);
+
+      if (this.getKnnQuery(searchQuery)) {
+        return await this.vectorSearch(indexName, searchQuery, highlightOptions, startTime);
+      }
+
       // 🚀 AGGRESSIVE OPTIMIZATION: Skip typo tolerance for fast queries
       let typoCorrection = null;
       let searchQueryToUse = searchQuery;
@@ -61,7 +82,7 @@ export class SearchService {
       const isLikelyCorrect = await this.dictionaryService.isQueryLikelyCorrect(originalQuery);
 
       // 🚀 OPTIMIZATION: Check cache first before executing search
-      const cacheKey = this.redisCache.generateKey(indexName, searchQuery);
+      const cacheKey = this.searchCacheKey(indexName, searchQuery);
       const cachedResult = await this.getCachedSearchResult(cacheKey);
 
       let searchResults: any;
@@ -69,7 +90,13 @@ export class SearchService {
         // Cached results are already fully processed, return immediately
         if (cachedResult && cachedResult.data) {
           const response: SearchResponseDto = {
-            ...cachedResult,
+            ...(await this.applyHighlighting(
+              indexName,
+              cachedResult,
+              highlightOptions,
+              originalQuery,
+              cachedResult.typoTolerance,
+            )),
             took: Date.now() - startTime,
             // Preserve typoTolerance if it exists in cached result
             typoTolerance: cachedResult.typoTolerance || null,
@@ -88,14 +115,22 @@ export class SearchService {
         const [originalResults, typoCorrectionResult, intelligentInfoResult] =
           await Promise.allSettled([
             this.executeSearch(indexName, searchQuery), // Original query search
-            // Only process typo tolerance if query is long enough and likely incorrect
-            originalQuery.length > 3 && !isLikelyCorrect
+            // Only process typo tolerance if query is long enough and likely incorrect.
+            // An empty page after a searchAfter cursor just means the results ran out.
+            originalQuery.length > 3 && !isLikelyCorrect && searchQuery.searchAfter === undefined
               ? this.processTypoTolerance(indexName, originalQuery)
               : Promise.resolve(null),
             // Start intelligent query processing in parallel
             this.processIntelligentQuery(originalQuery),
           ]);
 
+        if (
+          originalResults.status === 'rejected' &&
+          originalResults.reason instanceof BadRequestException
+        ) {
+          throw originalResults.reason;
+        }
+
         // Extract results
         const originalResultsValue =
           originalResults.status === 'fulfilled' ? originalResults.value : null;
@@ -188,7 +223,7 @@ export class SearchService {
 
               // 🚀 OPTIMIZATION: Check all cache keys in parallel before starting searches
               const cacheKeys = allSearchQueries.map(query =>
-                this.redisCache.generateKey(indexName, query),
+                this.searchCacheKey(indexName, query),
               );
               const cacheResults = await Promise.all(
                 cacheKeys.map(key => this.getCachedSearchResult(key)),
@@ -228,7 +263,7 @@ export class SearchService {
                   }
 
                   // Cache the result for future requests
-                  const resultCacheKey = this.redisCache.generateKey(indexName, query);
+                  const resultCacheKey = this.searchCacheKey(indexName, query);
                   await this.cacheSearchResult(resultCacheKey, result);
 
                   return result;
@@ -296,7 +331,7 @@ export class SearchService {
             // Only run corrected query if we have exactly 1 suggestion AND no results yet
             // OPTIMIZATION: Add Redis caching for search results
             // Generate cache key using RedisCacheService for consistency
-            const cacheKey = this.redisCache.generateKey(indexName, searchQueryToUse);
+            const cacheKey = this.searchCacheKey(indexName, searchQueryToUse);
 
             const cachedResult = await this.getCachedSearchResult(cacheKey);
 
@@ -314,9 +349,12 @@ export class SearchService {
         }
         // If searchResults is already set (from original query), skip the else block entirely
 
+        // Sorted and cursor-paginated pages are ordered by the engine and must not be re-ranked
+        const hasExplicitSort = this.isEngineOrdered(searchQuery);
+
         // 🚀 OPTIMIZATION: Process geographic filtering and ranking in parallel
         let finalResults = searchResults;
-        if (searchResults.data.hits.length > 0) {
+        if (searchResults.data.hits.length > 0 && !hasExplicitSort) {
           // Process geographic filtering and tiered ranking in parallel
           const geoFilterStart = Date.now();
           const [locationFiltered, rankedResults] = await Promise.all([
@@ -402,7 +440,11 @@ export class SearchService {
         }
 
         // Fallback strategy: if no results, try simplified query
-        if (finalResults.data.hits.length === 0 && intelligentInfo?.businessTypes?.length > 0) {
+        if (
+          finalResults.data.hits.length === 0 &&
+          intelligentInfo?.businessTypes?.length > 0 &&
+          searchQuery.searchAfter === undefined
+        ) {
           const simplifiedQuery = this.buildSimplifiedQuery(queryTextToUse, intelligentInfo);
           if (simplifiedQuery !== queryTextToUse) {
             const fallbackResults = await this.postgresSearchEngine.search(indexName, {
@@ -410,7 +452,9 @@ export class SearchService {
               query: simplifiedQuery,
             });
 
-            if (fallbackResults.data.hits.length > 0) {
+            if (fallbackResults.data.hits.length > 0 && hasExplicitSort) {
+              finalResults = fallbackResults;
+            } else if (fallbackResults.data.hits.length > 0) {
               const requestedSize = parseInt(searchQuery.size?.toString() || '10');
               const totalResults = parseInt(fallbackResults.data.total || '0');
               const fallbackRankedResults = await this.tieredRankingService.rankResults(
@@ -437,7 +481,13 @@ export class SearchService {
 
         // Add typo tolerance information to response
         const response: SearchResponseDto = {
-          ...finalResults,
+          ...(await this.applyHighlighting(
+            indexName,
+            finalResults,
+            highlightOptions,
+            queryTextToUse,
+            typoCorrection,
+          )),
           took: Date.now() - startTime,
           typoTolerance: typoCorrection,
         };
@@ -454,6 +504,279 @@ export class SearchService {
     }
   }
 
+  /**
+   * Searches several indices, e.g. those behind an alias, and merges their hits by
+   * score. Each index ranks the first from + size hits, so the merged page is the
+   * same as if the indices were one; from + size is limited to 100.
+   */
+  async searchIndices(
+    indexNames: string[],
+    searchQuery: SearchQueryDto,
+  ): Promise<SearchResponseDto> {
+    if (indexNames.length === 1) {
+      return this.search(indexNames[0], searchQuery);
+    }
+    if (searchQuery.searchAfter !== undefined || searchQuery.pit !== undefined) {
+      throw new BadRequestException(
+        'searchAfter and pit need a single index, not an alias of several',
+      );
+    }
+    if (this.hasCustomSort(searchQuery.sort)) {
+      throw new BadRequestException('Searches across several indices can only sort by _score');
+    }
+
+    const startTime = Date.now();
+    const from = searchQuery.from || 0;
+    const size = searchQuery.size ?? 10;
+    if (from + size > MAX_MULTI_INDEX_WINDOW) {
+      throw new BadRequestException(
+        `Searches across several indices can only page through the first ${MAX_MULTI_INDEX_WINDOW} hits (from + size)`,
+      );
+    }
+    const facetRequests = this.facetBuilder.parse(searchQuery.facets);
+    const results = await Promise.all(
+      indexNames.map(indexName =>
+        this.search(indexName, { ...searchQuery, from: 0, size: from + size }),
+      ),
+    );
+
+    const total = results.reduce((sum, result) => sum + Number(result.data.total || 0), 0);
+    const hits = results
+      .flatMap(result => result.data.hits || [])
+      .sort((a, b) => (b.score || 0) - (a.score || 0))
+      .slice(from, from + size);
+    const facets = this.mergeFacets(
+      results.map(result => result.facets).filter(Boolean),
+      facetRequests,
+    );
+
+    return {
+      data: {
+        total,
+        maxScore: Math.max(0, ...results.map(result => result.data.maxScore || 0)),
+        hits,
+        pagination: {
+          currentPage: size > 0 ? Math.floor(from / size) + 1 : 1,
+          totalPages: size > 0 ? Math.ceil(total / size) : 0,
+          pageSize: size,
+          hasNext: from + size < total,
+          hasPrevious: from > 0,
+          totalResults: total,
+        },
+      },
+      ...(facets && { facets }),
+      took: Date.now() - startTime,
+      typoTolerance: results.find(result => result.typoTolerance)?.typoTolerance || null,
+    };
+  }
+
+  private hasCustomSort(sort: SearchQueryDto['sort']): boolean {
+    if (!sort) return false;
+    const entries = Array.isArray(sort) ? sort : String(sort).split(',');
+    return entries.some(entry => {
+      const field =
+        typeof entry === 'string'
+          ? entry.trim().split(':')[0]
+          : entry.field ?? Object.keys(entry)[0];
+      return field !== '_score';
+    });
+  }
+
+  /**
+   * Adds up the bucket counts of the same facet across indices. Terms buckets are
+   * re-ranked by count (then key) and cut to the facet's size; a term outside the
+   * top buckets of an index misses that index's count.
+   */
+  private mergeFacets(
+    facetsPerIndex: SearchResponseDto['facets'][],
+    facetRequests: FacetRequest[],
+  ): SearchResponseDto['facets'] | undefined {
+    if (facetsPerIndex.length === 0) return undefined;
+
+    const merged: SearchResponseDto['facets'] = {};
+    for (const facets of facetsPerIndex) {
+      for (const [name, facet] of Object.entries(facets)) {
+        const buckets = (merged[name] ||= { buckets: [] }).buckets;
+        for (const bucket of facet.buckets) {
+          const existing = buckets.find(candidate => candidate.key === bucket.key);
+          if (existing) {
+            existing.count += bucket.count;
+          } else {
+            buckets.push({ ...bucket });
+          }
+        }
+      }
+    }
+    for (const request of facetRequests) {
+      if (request.type !== 'terms' || !merged[request.name]) continue;
+      merged[request.name].buckets = merged[request.name].buckets
+        .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+        .slice(0, request.size);
+    }
+    return merged;
+  }
+
+  /**
+   * The knn part of a search: a knn query, or the top-level knn of a hybrid search
+   */
+  private getKnnQuery(searchQuery: SearchQueryDto): KnnQuery | null {
+    const queryKnn = typeof searchQuery.query === 'object' ? searchQuery.query?.knn : undefined;
+    if (queryKnn && searchQuery.knn) {
+      throw new BadRequestException('Use either a knn query or a top-level knn, not both');
+    }
+    return queryKnn || searchQuery.knn || null;
+  }
+
+  /**
+   * Run a knn query, or a hybrid search whose keyword and vector hits are fused
+   * with reciprocal rank fusion. Both rank a window of from + size hits (at least
+   * k) and page through the fused list.
+   */
+  private async vectorSearch(
+    indexName: string,
+    searchQuery: SearchQueryDto,
+    highlightOptions: HighlightOptions | null,
+    startTime: number,
+  ): Promise<SearchResponseDto> {
+    if (this.isEngineOrdered(searchQuery)) {
+      throw new BadRequestException('sort, searchAfter and pit are not supported with knn');
+    }
+
+    const hybrid = !!searchQuery.knn;
+    if (!hybrid && searchQuery.facets?.length) {
+      throw new BadRequestException('Facets need a keyword query; use a top-level knn instead');
+    }
+
+    const from = parseInt(searchQuery.from?.toString() || '0');
+    const size = parseInt(searchQuery.size?.toString() || '10');
+    const knn = this.getKnnQuery(searchQuery);
+    const k = knn.k ?? Math.min(Math.max(from + size, 10), MAX_VECTOR_WINDOW);
+    const queryText = hybrid ? this.getQueryText(searchQuery) : knn.query_text || '';
+
+    const cacheKey = this.searchCacheKey(indexName, searchQuery);
+    const cachedResult = await this.getCachedSearchResult(cacheKey);
+    if (cachedResult?.data) {
+      return {
+        ...(await this.applyHighlighting(
+          indexName,
+          cachedResult,
+          highlightOptions,
+          queryText,
+          null,
+        )),
+        took: Date.now() - startTime,
+      };
+    }
+
+    const vectorHits = await this.semanticSearchService.knnSearch(
+      indexName,
+      { ...knn, k },
+      { filter: searchQuery.filter },
+    );
+
+    let hits: any[] = vectorHits.map(hit => omit(hit, 'similarity'));
+    let facets: any;
+    if (hybrid) {
+      const keywordResults = await this.postgresSearchEngine.search(indexName, {
+        ...searchQuery,
+        knn: undefined,
+        from: 0,
+        size: Math.min(Math.max(k, from + size), MAX_VECTOR_WINDOW),
+      });
+      facets = keywordResults.facets;
+
+      const fused = await this.multiSignalRankingService.enhancedRRF(
+        keywordResults.data.hits,
+        hits,
+        [],
+      );
+      hits = fused.map(({ finalScore, ...hit }) => ({ ...hit, score: finalScore }));
+    }
+
+    const page = hits.slice(from, from + size);
+    const results = {
+      data: {
+        hits: page,
+        total: hits.length.toString(),
+        maxScore: hits.length > 0 ? hits[0].score : 0,
+      },
+      pagination: {
+        currentPage: Math.floor(from / size) + 1,
+        totalPages: Math.ceil(hits.length / size),
+        pageSize: size,
+        hasNext: from + size < hits.length,
+        hasPrevious: from > 0,
+        totalResults: hits.length.toString(),
+      },
+      ...(facets && { facets }),
+    };
+    await this.cacheSearchResult(cacheKey, results);
+
+    this.logger.log(
+      `${hybrid ? 'Hybrid' : 'knn'} search on '${indexName}' ranked ${hits.length} hits ` +
+        `in ${Date.now() - startTime}ms`,
+    );
+
+    return {
+      ...(await this.applyHighlighting(indexName, results, highlightOptions, queryText, null)),
+      took: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Whether results come back in the engine's order (explicit sort or cursor
+   * pagination) rather than being re-ranked here
+   */
+  private isEngineOrdered(searchQuery: SearchQueryDto): boolean {
+    return (
+      (!!searchQuery.sort && searchQuery.sort.length > 0) ||
+      searchQuery.searchAfter !== undefined ||
+      searchQuery.pit !== undefined
+    );
+  }
+
+  /**
+   * Cache key of a search, or null when it must not be cached: point-in-time
+   * responses carry a renewed keep-alive that a cached copy would not have
+   */
+  private searchCacheKey(indexName: string, searchQuery: SearchQueryDto): string | null {
+    return searchQuery.pit === undefined
+      ? this.redisCache.generateKey(indexName, searchQuery)
+      : null;
+  }
+
+  /**
+   * Highlight query terms in the final hits, marking terms introduced by typo correction.
+   * Fields are matched after the char filters of their analyzers.
+   */
+  private async applyHighlighting(
+    indexName: string,
+    results: any,
+    options: HighlightOptions | null,
+    queryText: string,
+    typoCorrection: TypoCorrection | null,
+  ): Promise<any> {
+    if (!options || !results?.data?.hits?.length) {
+      return results;
+    }
+
+    const [row] = await this.dataSource.query(
+      `SELECT settings->'mappings'->'properties' AS properties FROM indices WHERE index_name = $1`,
+      [indexName],
+    );
+    const hits = this.highlightService.highlightHits(
+      results.data.hits,
+      {
+        query: queryText,
+        correctedTerms: typoCorrection?.corrections?.map(correction => correction.corrected),
+      },
+      options,
+      { indexName, mappings: row?.properties || {} },
+    );
+
+    return { ...results, data: { ...results.data, hits } };
+  }
+
   /**
    * Process typo tolerance in parallel with search
    */
@@ -512,10 +835,13 @@ export class SearchService {
       // This allows health/rating to influence results without slowing down queries
       const originalSize = parseInt(searchQuery.size?.toString() || '10');
       const fetchMultiplier = 3; // Fetch 3x more for better ranking pool (balanced speed vs quality)
-      const expandedQuery = {
-        ...searchQuery,
-        size: Math.min(originalSize * fetchMultiplier, 75), // Cap at 75 to optimize speed
-      };
+      // Engine-ordered pages are returned as-is, so they fetch exactly the requested page
+      const expandedQuery = this.isEngineOrdered(searchQuery)
+        ? searchQuery
+        : {
+            ...searchQuery,
+            size: Math.min(originalSize * fetchMultiplier, 75), // Cap at 75 to optimize speed
+          };
 
       // 🚀 OPTIMIZED: Increase timeout to 10 seconds for production reliability
       const result = await Promise.race([
@@ -536,6 +862,11 @@ export class SearchService {
 
       return result;
     } catch (error) {
+      // Invalid filters are client errors - don't mask them with the fallback search
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
       const searchTime = Date.now() - startTime;
       this.logger.error(`❌ PostgreSQL search failed after ${searchTime}ms: ${error.message}`);
 
@@ -693,8 +1024,8 @@ export class SearchService {
   /**
    * Get cached search result from Redis
    */
-  private async getCachedSearchResult(cacheKey: string): Promise<any | null> {
-    if (!this.cacheEnabled) {
+  private async getCachedSearchResult(cacheKey: string | null): Promise<any | null> {
+    if (!this.cacheEnabled || !cacheKey) {
       return null;
     }
 
@@ -713,8 +1044,8 @@ export class SearchService {
   /**
    * Cache search result in Redis
    */
-  private async cacheSearchResult(cacheKey: string, result: any): Promise<void> {
-    if (!this.cacheEnabled) {
+  private async cacheSearchResult(cacheKey: string | null, result: any): Promise<void> {
+    if (!this.cacheEnabled || !cacheKey) {
       return;
     }
 
@@ -813,6 +1144,11 @@ export class SearchService {
         return [];
       }
 
+      // search_as_you_type fields are completed from their precomputed grams
+      if (await this.searchAsYouTypeService.isSearchAsYouTypeField(indexName, field)) {
+        return this.searchAsYouTypeService.suggest(indexName, field, text, size);
+      }
+
       // Get suggestions with typo tolerance
       const suggestions = await this.typoToleranceService.getSuggestions(
         indexName,
@@ -835,6 +1171,32 @@ export class SearchService {
     }
   }
 
+  /**
+   * Suggestions from several indices, best first and without duplicates
+   */
+  async suggestIndices(
+    indexNames: string[],
+    suggestDto: SuggestQueryDto,
+  ): Promise<SuggestionResultDto[]> {
+    if (indexNames.length === 1) {
+      return this.suggest(indexNames[0], suggestDto);
+    }
+
+    const suggestions = (
+      await Promise.all(indexNames.map(indexName => this.suggest(indexName, suggestDto)))
+    ).flat();
+    const best = new Map<string, SuggestionResultDto>();
+    for (const suggestion of suggestions) {
+      const existing = best.get(suggestion.text);
+      if (!existing || (suggestion.score || 0) > (existing.score || 0)) {
+        best.set(suggestion.text, suggestion);
+      }
+    }
+    return [...best.values()]
+      .sort((a, b) => (b.score || 0) - (a.score || 0))
+      .slice(0, suggestDto.size || 5);
+  }
+
   /**
    * Get query text from search query
    */
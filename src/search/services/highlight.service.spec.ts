@@ -0,0 +1,115 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AnalyzerRegistryService } from '../../analysis/analyzer-registry.service';
+import { HighlightService } from './highlight.service';
+
+describe('HighlightService', () => {
+  let service: HighlightService;
+  let registry: AnalyzerRegistryService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [HighlightService, AnalyzerRegistryService],
+    }).compile();
+
+    service = module.get<HighlightService>(HighlightService);
+    registry = module.get<AnalyzerRegistryService>(AnalyzerRegistryService);
+  });
+
+  describe('parseOptions', () => {
+    it('should return null when highlighting is off and defaults for true', () => {
+      expect(service.parseOptions(undefined)).toBeNull();
+      expect(service.parseOptions(false)).toBeNull();
+      expect(service.parseOptions(true)).toMatchObject({
+        preTag: '<em>',
+        postTag: '</em>',
+        fragmentSize: 150,
+        numberOfFragments: 3,
+      });
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => service.parseOptions('yes')).toThrow(BadRequestException);
+      expect(() => service.parseOptions({ fields: 'name' })).toThrow(BadRequestException);
+      expect(() => service.parseOptions({ fragmentSize: 0 })).toThrow(BadRequestException);
+      expect(() => service.parseOptions({ preTag: 1 })).toThrow(BadRequestException);
+    });
+  });
+
+  describe('highlightHits', () => {
+    const hits = [
+      {
+        id: '1',
+        source: {
+          name: 'Lagos Fashion House',
+          description: 'Tailored fashion and bespoke suits for weddings in Lagos',
+          rating: 4.5,
+        },
+      },
+      { id: '2', source: { name: 'Abuja Bakery' } },
+    ];
+
+    it('should highlight matching fields and leave other hits untouched', () => {
+      const options = service.parseOptions({ numberOfFragments: 0 });
+      const [first, second] = service.highlightHits(hits, { query: 'fashion suit' }, options);
+
+      expect(first.highlight).toEqual({
+        name: ['Lagos <em>Fashion</em> House'],
+        description: ['Tailored <em>fashion</em> and bespoke <em>suits</em> for weddings in Lagos'],
+      });
+      expect(second).toBe(hits[1]);
+    });
+
+    it('should honour fields, tags and fragment limits', () => {
+      const options = service.parseOptions({
+        fields: ['description'],
+        preTag: '<b>',
+        postTag: '</b>',
+        fragmentSize: 20,
+        numberOfFragments: 1,
+      });
+      const [first] = service.highlightHits(hits, { query: 'weddings' }, options);
+
+      expect(first.highlight).toEqual({ description: ['for <b>weddings</b> in'] });
+    });
+
+    it('should treat a trailing wildcard as a prefix', () => {
+      const options = service.parseOptions({ fields: ['name'] });
+      const [first] = service.highlightHits(hits, { query: 'fash*' }, options);
+
+      expect(first.highlight).toEqual({ name: ['Lagos <em>Fashion</em> House'] });
+    });
+
+    it('should mark terms introduced by typo correction', () => {
+      const options = service.parseOptions({ fields: ['name'] });
+      const [first] = service.highlightHits(
+        hits,
+        { query: 'lagos fashion', correctedTerms: ['fashion'] },
+        options,
+      );
+
+      expect(first.highlight).toEqual({
+        name: ['<em>Lagos</em> <em class="typo-corrected">Fashion</em> House'],
+      });
+    });
+
+    it('should match after the char filters of the field analyzer and mark the original', () => {
+      registry.registerIndexAnalyzers('listings', {
+        analyzer: {
+          html: { type: 'custom', tokenizer: 'standard', charFilter: ['html_strip'] },
+        },
+      });
+      const options = service.parseOptions({ numberOfFragments: 0 });
+      const [hit] = service.highlightHits(
+        [{ id: '1', source: { about: '<a class="grill">Suya</a> &amp; grill' } }],
+        { query: 'grill' },
+        options,
+        { indexName: 'listings', mappings: { about: { type: 'text', analyzer: 'html' } } },
+      );
+
+      expect(hit.highlight).toEqual({
+        about: ['<a class="grill">Suya</a> &amp; <em>grill</em>'],
+      });
+    });
+  });
+});
@@ -0,0 +1,354 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import * as stemmer from 'porter-stemmer';
+import { AnalyzerRegistryService } from '../../analysis/analyzer-registry.service';
+import { CharFilter } from '../../analysis/interfaces/char-filter.interface';
+import { applyCharFilters, originalSpan } from '../../analysis/char-filters/mapped-text';
+import { FieldMapping } from '../../index/interfaces/index.interface';
+
+export interface HighlightOptions {
+  fields?: string[];
+  preTag: string;
+  postTag: string;
+  // Tags around terms that only match because typo tolerance rewrote the query
+  correctedPreTag: string;
+  correctedPostTag: string;
+  fragmentSize: number;
+  // 0 returns the whole field value with matches highlighted
+  numberOfFragments: number;
+}
+
+export interface HighlightTerms {
+  query: string;
+  correctedTerms?: string[];
+}
+
+// The index whose field analyzers' char filters apply before terms are matched
+export interface HighlightAnalysis {
+  indexName: string;
+  mappings?: Record<string, FieldMapping>;
+}
+
+interface QueryTerm {
+  token: string;
+  stem: string;
+  prefix: boolean;
+  corrected: boolean;
+}
+
+interface MatchSpan {
+  start: number;
+  end: number;
+  corrected: boolean;
+}
+
+const DEFAULT_HIGHLIGHT_OPTIONS: HighlightOptions = {
+  preTag: '<em>',
+  postTag: '</em>',
+  correctedPreTag: '<em class="typo-corrected">',
+  correctedPostTag: '</em>',
+  fragmentSize: 150,
+  numberOfFragments: 3,
+};
+
+const MAX_FRAGMENT_SIZE = 2000;
+const MAX_FRAGMENTS = 20;
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+const WORD_CHARACTER = /[\p{L}\p{N}_]/u;
+
+/**
+ * Highlights query terms in search hits.
+ *
+ * Query and field text go through the same analyzer, and words are also compared
+ * by their stem so highlights line up with PostgreSQL's english full-text matching.
+ */
+@Injectable()
+export class HighlightService {
+  constructor(private readonly analyzerRegistry: AnalyzerRegistryService) {}
+
+  /**
+   * Normalize the `highlight` request option; returns null when highlighting is off
+   */
+  parseOptions(highlight: any): HighlightOptions | null {
+    if (highlight === undefined || highlight === null || highlight === false) return null;
+    if (highlight === true) return { ...DEFAULT_HIGHLIGHT_OPTIONS };
+
+    if (typeof highlight !== 'object' || Array.isArray(highlight)) {
+      throw new BadRequestException('highlight must be a boolean or an options object');
+    }
+
+    const options: HighlightOptions = { ...DEFAULT_HIGHLIGHT_OPTIONS };
+
+    if (highlight.fields !== undefined) {
+      if (
+        !Array.isArray(highlight.fields) ||
+        highlight.fields.some(field => typeof field !== 'string')
+      ) {
+        throw new BadRequestException('highlight.fields must be an array of field names');
+      }
+      options.fields = highlight.fields;
+    }
+
+    for (const tag of ['preTag', 'postTag', 'correctedPreTag', 'correctedPostTag']) {
+      if (highlight[tag] !== undefined) {
+        if (typeof highlight[tag] !== 'string') {
+          throw new BadRequestException(`highlight.${tag} must be a string`);
+        }
+        options[tag] = highlight[tag];
+      }
+    }
+
+    options.fragmentSize = this.parseLimit(
+      highlight.fragmentSize,
+      'fragmentSize',
+      options.fragmentSize,
+      1,
+      MAX_FRAGMENT_SIZE,
+    );
+    options.numberOfFragments = this.parseLimit(
+      highlight.numberOfFragments,
+      'numberOfFragments',
+      options.numberOfFragments,
+      0,
+      MAX_FRAGMENTS,
+    );
+
+    return options;
+  }
+
+  /**
+   * Add a `highlight` map of field fragments to each hit that matches the query
+   */
+  highlightHits<T extends Record<string, any>>(
+    hits: T[],
+    terms: HighlightTerms,
+    options: HighlightOptions,
+    analysis?: HighlightAnalysis,
+  ): Array<T & { highlight?: Record<string, string[]> }> {
+    const queryTerms = this.buildQueryTerms(terms);
+    if (queryTerms.length === 0) return hits;
+
+    const charFilters = new Map<string, CharFilter[]>();
+    const charFiltersOf = (field: string) => {
+      if (!charFilters.has(field)) {
+        charFilters.set(field, this.charFiltersOf(field, analysis));
+      }
+      return charFilters.get(field);
+    };
+
+    return hits.map(hit => {
+      const highlight = this.highlightDocument(
+        hit.source || hit.document || {},
+        queryTerms,
+        options,
+        charFiltersOf,
+      );
+      return Object.keys(highlight).length > 0 ? { ...hit, highlight } : hit;
+    });
+  }
+
+  /**
+   * Build per-field fragments for a single document
+   */
+  private highlightDocument(
+    source: Record<string, any>,
+    queryTerms: QueryTerm[],
+    options: HighlightOptions,
+    charFiltersOf: (field: string) => CharFilter[],
+  ): Record<string, string[]> {
+    const highlight: Record<string, string[]> = {};
+    const fields = options.fields || Object.keys(source);
+
+    for (const field of fields) {
+      const values = this.fieldValues(source, field);
+      const fragments = values.flatMap(value =>
+        this.highlightText(value, queryTerms, options, charFiltersOf(field)),
+      );
+
+      if (fragments.length > 0) {
+        highlight[field] =
+          options.numberOfFragments > 0 ? fragments.slice(0, options.numberOfFragments) : fragments;
+      }
+    }
+
+    return highlight;
+  }
+
+  /**
+   * Analyze the query (and any typo corrections) into the terms to highlight.
+   * A trailing `*` on a query word turns it into a prefix term.
+   */
+  private buildQueryTerms({ query, correctedTerms = [] }: HighlightTerms): QueryTerm[] {
+    const terms = new Map<string, QueryTerm>();
+    const corrected = new Set(
+      correctedTerms.flatMap(term => this.analyze(term)).map(token => token.toLowerCase()),
+    );
+
+    for (const word of (query || '').split(/\s+/)) {
+      const prefix = word.endsWith('*');
+      for (const token of this.analyze(word.replace(/[*?]/g, ''))) {
+        if (!terms.has(token)) {
+          terms.set(token, {
+            token,
+            stem: this.stem(token),
+            prefix,
+            corrected: corrected.has(token),
+          });
+        }
+      }
+    }
+
+    // Corrected terms are highlighted even when the query text still holds the original
+    for (const token of corrected) {
+      if (!terms.has(token)) {
+        terms.set(token, { token, stem: this.stem(token), prefix: false, corrected: true });
+      }
+    }
+
+    return [...terms.values()];
+  }
+
+  private highlightText(
+    text: string,
+    queryTerms: QueryTerm[],
+    options: HighlightOptions,
+    charFilters: CharFilter[] = [],
+  ) {
+    const matches = this.findMatches(text, queryTerms, charFilters);
+    if (matches.length === 0) return [];
+
+    if (options.numberOfFragments === 0) {
+      return [this.markMatches(text, matches, 0, text.length, options)];
+    }
+
+    const fragments: string[] = [];
+    let coveredUntil = -1;
+
+    for (const match of matches) {
+      if (match.start < coveredUntil) continue;
+      if (fragments.length >= options.numberOfFragments) break;
+
+      const [start, end] = this.fragmentBounds(text, match, options.fragmentSize);
+      fragments.push(this.markMatches(text, matches, start, end, options));
+      coveredUntil = end;
+    }
+
+    return fragments;
+  }
+
+  /**
+   * Matching words of the text after the field's char filters, as spans of the
+   * original text so markup removed by an html_strip filter is never highlighted
+   */
+  private findMatches(
+    text: string,
+    queryTerms: QueryTerm[],
+    charFilters: CharFilter[] = [],
+  ): MatchSpan[] {
+    const matches: MatchSpan[] = [];
+    const mapped = charFilters.length > 0 ? applyCharFilters(charFilters, text) : null;
+
+    for (const word of (mapped?.text ?? text).matchAll(WORD_PATTERN)) {
+      const token = word[0].toLowerCase();
+      const stem = this.stem(token);
+      const term = queryTerms.find(candidate =>
+        candidate.prefix
+          ? token.startsWith(candidate.token)
+          : candidate.token === token || candidate.stem === stem,
+      );
+
+      if (term) {
+        const [start, end] = mapped
+          ? originalSpan(mapped, word.index, word.index + word[0].length)
+          : [word.index, word.index + word[0].length];
+        matches.push({ start, end, corrected: term.corrected });
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Center a fragment of roughly fragmentSize characters on a match, snapping the
+   * edges to whitespace so words are not cut in half
+   */
+  private fragmentBounds(text: string, match: MatchSpan, fragmentSize: number): [number, number] {
+    const padding = Math.max(0, Math.floor((fragmentSize - (match.end - match.start)) / 2));
+    let start = Math.max(0, match.start - padding);
+    let end = Math.min(text.length, Math.max(match.end, start + fragmentSize));
+
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      start = space !== -1 && space < match.start ? space + 1 : match.start;
+    }
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      end = space > match.end ? space : match.end;
+    }
+
+    return [start, end];
+  }
+
+  private markMatches(
+    text: string,
+    matches: MatchSpan[],
+    start: number,
+    end: number,
+    options: HighlightOptions,
+  ): string {
+    let result = '';
+    let position = start;
+
+    for (const match of matches) {
+      if (match.start < start || match.end > end) continue;
+
+      const [pre, post] = match.corrected
+        ? [options.correctedPreTag, options.correctedPostTag]
+        : [options.preTag, options.postTag];
+
+      result += text.slice(position, match.start) + pre + text.slice(match.start, match.end) + post;
+      position = match.end;
+    }
+
+    return (result + text.slice(position, end)).trim();
+  }
+
+  private fieldValues(source: Record<string, any>, field: string): string[] {
+    const value = field
+      .split('.')
+      .reduce(
+        (current, key) => (current && typeof current === 'object' ? current[key] : undefined),
+        source,
+      );
+
+    const values = Array.isArray(value) ? value : [value];
+    return values.filter((item): item is string => typeof item === 'string' && item.length > 0);
+  }
+
+  private charFiltersOf(field: string, analysis?: HighlightAnalysis): CharFilter[] {
+    if (!analysis) return [];
+
+    const name = analysis.mappings?.[field]?.analyzer || 'default';
+    const analyzer = this.analyzerRegistry.getAnalyzer(name, analysis.indexName);
+    return analyzer?.getCharFilters?.() || [];
+  }
+
+  private analyze(text: string): string[] {
+    const analyzer = this.analyzerRegistry.getAnalyzer('standard');
+    const tokens = analyzer ? analyzer.analyze(text) : text.toLowerCase().split(/\s+/);
+    return tokens.filter(token => WORD_CHARACTER.test(token));
+  }
+
+  private stem(token: string): string {
+    return stemmer.stemmer(token);
+  }
+
+  private parseLimit(value: any, name: string, fallback: number, min: number, max: number) {
+    if (value === undefined) return fallback;
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new BadRequestException(
+        `highlight.${name} must be an integer between ${min} and ${max}`,
+      );
+    }
+    return value;
+  }
+}
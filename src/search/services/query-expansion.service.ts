@@ -1,33 +1,22 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { QueryExpansionResult } from '../interfaces/intelligent-search.interface';
+import { SynonymMap } from '../../analysis/filters/synonym-filter';
+import { DEFAULT_SYNONYM_RULES } from '../../analysis/filters/default-synonyms';
 
 @Injectable()
 export class QueryExpansionService {
   private readonly logger = new Logger(QueryExpansionService.name);
 
-  // Synonym mappings for business types and services
-  private readonly synonyms = new Map<string, string[]>([
-    // Business types
-    [
-      'restaurant',
-      ['food', 'dining', 'eatery', 'cafe', 'bistro', 'pub', 'bar', 'grill', 'kitchen'],
-    ],
-    ['hotel', ['accommodation', 'lodging', 'guesthouse', 'inn', 'resort', 'motel', 'hostel']],
-    ['clinic', ['hospital', 'medical', 'healthcare', 'doctor', 'pharmacy', 'dental', 'clinic']],
-    ['shop', ['store', 'retail', 'market', 'mall', 'supermarket', 'grocery', 'shop']],
-    ['bank', ['financial', 'credit union', 'atm', 'money', 'finance', 'banking']],
-    ['school', ['education', 'university', 'college', 'academy', 'institute', 'school']],
-    ['gym', ['fitness', 'workout', 'exercise', 'sports', 'training', 'gym']],
-    ['salon', ['beauty', 'hair', 'spa', 'cosmetics', 'styling', 'salon']],
-
-    // Services
-    ['delivery', ['delivery', 'deliver', 'home delivery', 'door delivery']],
-    ['takeout', ['takeout', 'take away', 'take-away', 'pickup', 'to go']],
-    ['24/7', ['24/7', '24 hours', 'all day', 'all night', 'always open']],
-    ['emergency', ['emergency', 'urgent', 'immediate', 'asap']],
-    ['appointment', ['appointment', 'booking', 'reservation', 'schedule']],
-  ]);
+  // Synonym mappings for business types and services, seeded from the default synonym set
+  private readonly synonyms = new Map<string, string[]>(
+    SynonymMap.parse(DEFAULT_SYNONYM_RULES)
+      .entries()
+      .map(([term, alternatives]) => [
+        term,
+        alternatives.map(alternative => alternative.join(' ')).filter(synonym => synonym !== term),
+      ]),
+  );
 
   // Related terms for better context understanding
   private readonly relatedTerms = new Map<string, string[]>([
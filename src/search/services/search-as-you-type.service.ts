@@ -0,0 +1,215 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { AnalyzerRegistryService } from '../../analysis/analyzer-registry.service';
+import { searchAsYouTypeQuery } from '../../analysis/analyzers/search-as-you-type';
+import { FieldMapping } from '../../index/interfaces/index.interface';
+import { SuggestionResultDto } from '../../api/dtos/search.dto';
+
+export interface GramDocument {
+  id: string;
+  source: Record<string, any>;
+}
+
+/**
+ * Precomputes the shingles and edge n-grams of search_as_you_type fields into
+ * document_grams, one row per document and subfield, so suggestions and prefix
+ * filters are answered from a GIN index instead of ILIKE scans of the content.
+ * Failures are logged rather than thrown so indexing never fails on grams.
+ */
+@Injectable()
+export class SearchAsYouTypeService implements OnModuleInit {
+  private readonly logger = new Logger(SearchAsYouTypeService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly analyzerRegistry: AnalyzerRegistryService,
+  ) {}
+
+  async onModuleInit() {
+    await this.initializeTable();
+  }
+
+  private async initializeTable(): Promise<void> {
+    try {
+      await this.dataSource.query(`
+        CREATE TABLE IF NOT EXISTS document_grams (
+          index_name VARCHAR(255) NOT NULL,
+          document_id VARCHAR(255) NOT NULL,
+          field VARCHAR(255) NOT NULL,
+          grams TEXT[] NOT NULL,
+          PRIMARY KEY (index_name, document_id, field)
+        );
+      `);
+      await this.dataSource.query(`
+        CREATE INDEX IF NOT EXISTS idx_document_grams_grams
+          ON document_grams USING GIN (grams);
+      `);
+    } catch (error) {
+      this.logger.error(`Failed to initialize document_grams table: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Stores the grams of the search_as_you_type fields of documents
+   *
+   * @param changedFields - Top-level fields that changed in a partial update; grams
+   * of other fields are kept
+   */
+  async indexDocuments(
+    indexName: string,
+    documents: GramDocument[],
+    changedFields?: string[],
+  ): Promise<void> {
+    if (documents.length === 0) return;
+
+    try {
+      const fields = (await this.getSearchAsYouTypeFields(indexName)).filter(
+        ([field]) => !changedFields || changedFields.includes(field.split('.')[0]),
+      );
+      for (const [field, mapping] of fields) {
+        for (const [subfield, subMapping] of Object.entries(mapping.fields || {})) {
+          await this.indexSubfield(indexName, `${field}.${subfield}`, field, subMapping, documents);
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to index grams of ${documents.length} documents of index ${indexName}: ${error.message}`,
+      );
+    }
+  }
+
+  async removeDocuments(indexName: string, documentIds: string[]): Promise<void> {
+    if (documentIds.length === 0) return;
+
+    try {
+      await this.dataSource.query(
+        'DELETE FROM document_grams WHERE index_name = $1 AND document_id = ANY($2::text[])',
+        [indexName, documentIds],
+      );
+    } catch (error) {
+      this.logger.error(`Failed to remove grams from index ${indexName}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Whether the field is mapped as search_as_you_type in the index
+   */
+  async isSearchAsYouTypeField(indexName: string, field: string): Promise<boolean> {
+    const fields = await this.getSearchAsYouTypeFields(indexName);
+    return fields.some(([name]) => name === field);
+  }
+
+  /**
+   * Values of the field that contain the typed text as the start of a word or
+   * phrase, shortest first
+   */
+  async suggest(
+    indexName: string,
+    field: string,
+    text: string,
+    size: number,
+  ): Promise<SuggestionResultDto[]> {
+    const { prefix, shingles } = searchAsYouTypeQuery(text);
+    if (!prefix) {
+      return [];
+    }
+
+    const params: any[] = [indexName, field.split('.'), `${field}._prefix`, [prefix]];
+    let shingleClause = '';
+    if (shingles.length > 0) {
+      params.push(`${field}._3gram`, shingles);
+      shingleClause = `
+        AND EXISTS (
+          SELECT 1 FROM document_grams s
+          WHERE s.index_name = g.index_name AND s.document_id = g.document_id
+            AND s.field = $5 AND s.grams @> $6::text[]
+        )`;
+    }
+    params.push(size);
+
+    const rows = await this.dataSource.query(
+      `SELECT d.document_id, d.content #>> $2::text[] AS text, d.content->>'category' AS category
+       FROM document_grams g
+       JOIN documents d ON d.index_name = g.index_name AND d.document_id = g.document_id
+       WHERE g.index_name = $1 AND g.field = $3 AND g.grams @> $4::text[]${shingleClause}
+       ORDER BY length(d.content #>> $2::text[]), d.document_id
+       LIMIT $${params.length}`,
+      params,
+    );
+
+    return rows
+      .filter(row => row.text)
+      .map(row => ({
+        text: row.text,
+        id: row.document_id,
+        ...(row.category ? { category: row.category } : {}),
+      }));
+  }
+
+  private async indexSubfield(
+    indexName: string,
+    subfield: string,
+    field: string,
+    mapping: FieldMapping,
+    documents: GramDocument[],
+  ): Promise<void> {
+    const analyzer =
+      this.analyzerRegistry.getAnalyzer(mapping.analyzer, indexName) ||
+      this.analyzerRegistry.getAnalyzer('search_as_you_type');
+
+    const ids: string[] = [];
+    const grams: string[] = [];
+    const empty: string[] = [];
+    for (const document of documents) {
+      const values = [this.getValue(document.source, field)]
+        .flat()
+        .filter(value => typeof value === 'string' || typeof value === 'number');
+      const tokens = [...new Set(values.flatMap(value => analyzer.analyze(String(value))))];
+
+      if (tokens.length > 0) {
+        ids.push(document.id);
+        // Arrays of differing lengths cannot be unnested side by side, so grams travel as JSON
+        grams.push(JSON.stringify(tokens));
+      } else {
+        empty.push(document.id);
+      }
+    }
+
+    if (ids.length > 0) {
+      await this.dataSource.query(
+        `INSERT INTO document_grams (index_name, document_id, field, grams)
+         SELECT $1, item.document_id, $2,
+                ARRAY(SELECT jsonb_array_elements_text(item.grams::jsonb))
+         FROM unnest($3::text[], $4::text[]) AS item(document_id, grams)
+         ON CONFLICT (index_name, document_id, field)
+         DO UPDATE SET grams = EXCLUDED.grams`,
+        [indexName, subfield, ids, grams],
+      );
+    }
+    if (empty.length > 0) {
+      await this.dataSource.query(
+        `DELETE FROM document_grams
+         WHERE index_name = $1 AND field = $2 AND document_id = ANY($3::text[])`,
+        [indexName, subfield, empty],
+      );
+    }
+  }
+
+  private async getSearchAsYouTypeFields(
+    indexName: string,
+  ): Promise<Array<[string, FieldMapping]>> {
+    const rows = await this.dataSource.query(
+      `SELECT settings->'mappings'->'properties' AS properties FROM indices WHERE index_name = $1`,
+      [indexName],
+    );
+    const properties: Record<string, FieldMapping> = rows[0]?.properties || {};
+    return Object.entries(properties).filter(
+      ([, mapping]) => mapping?.type === 'search_as_you_type',
+    );
+  }
+
+  private getValue(source: Record<string, any>, path: string): any {
+    return path.split('.').reduce((value, key) => value?.[key], source);
+  }
+}
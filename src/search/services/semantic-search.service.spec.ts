@@ -0,0 +1,160 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { FilterBuilderService } from '../../storage/postgresql/filter-builder.service';
+import { EmbeddingProviderService } from '../embeddings/embedding-provider.service';
+import { SemanticSearchService } from './semantic-search.service';
+
+describe('SemanticSearchService', () => {
+  let service: SemanticSearchService;
+  let dataSource: { query: jest.Mock };
+  let embeddingProviders: { resolveSettings: jest.Mock; embed: jest.Mock };
+  let knnRows: any[];
+
+  beforeEach(async () => {
+    knnRows = [{ document_id: 'doc-1', content: { name: 'Headphones' }, similarity: '0.91' }];
+    dataSource = {
+      query: jest.fn().mockImplementation((sql: string) => {
+        if (sql.includes('pg_attribute')) return [{ dimensions: 3 }];
+        if (sql.includes("settings->'mappings'")) {
+          return [
+            {
+              properties: {
+                name: { type: 'text' },
+                price: { type: 'float' },
+                name_vector: { type: 'dense_vector', dims: 3, source: ['name'] },
+              },
+            },
+          ];
+        }
+        if (sql.includes('candidates')) return knnRows;
+        return [];
+      }),
+    };
+    embeddingProviders = {
+      resolveSettings: jest
+        .fn()
+        .mockResolvedValue({ provider: 'hashing', model: 'hashing-v1', dimensions: 3 }),
+      embed: jest.fn().mockResolvedValue([[0.1, 0.2, 0.3]]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SemanticSearchService,
+        FilterBuilderService,
+        { provide: DataSource, useValue: dataSource },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: EmbeddingProviderService, useValue: embeddingProviders },
+      ],
+    }).compile();
+
+    service = module.get<SemanticSearchService>(SemanticSearchService);
+  });
+
+  const knnCall = () => dataSource.query.mock.calls.find(([sql]) => sql.includes('candidates'));
+
+  describe('knnSearch', () => {
+    it('should search the nearest candidates of the field and join their documents', async () => {
+      const hits = await service.knnSearch('products', {
+        field: 'name_vector',
+        query_vector: [1, 0, 0],
+        k: 5,
+        similarity: 0.5,
+      });
+
+      expect(hits).toEqual([
+        {
+          id: 'doc-1',
+          index: 'products',
+          score: 0.91,
+          similarity: 0.91,
+          source: { name: 'Headphones' },
+        },
+      ]);
+
+      const [sql, params] = knnCall();
+      expect(sql).toContain('ORDER BY embedding <=> $1::vector');
+      expect(sql).toContain('LIMIT $4');
+      expect(params).toEqual(['[1,0,0]', 'products', 'name_vector', 100, 0.5, 5]);
+    });
+
+    it('should apply filters to the candidate documents', async () => {
+      await service.knnSearch(
+        'products',
+        { field: 'name_vector', query_vector: [1, 0, 0] },
+        { filter: { range: { price: { lt: 100 } } } },
+      );
+
+      const [sql, params] = knnCall();
+      const price = new FilterBuilderService().safeCast('price', 'numeric', 'd');
+      expect(sql).toContain(`AND (${price} < $7::numeric)`);
+      expect(params[6]).toBe(100);
+    });
+
+    it('should embed query_text with the index provider', async () => {
+      await service.knnSearch('products', { field: 'name_vector', query_text: 'headphones' });
+
+      expect(embeddingProviders.resolveSettings).toHaveBeenCalledWith('products');
+      expect(embeddingProviders.embed).toHaveBeenCalledWith(['headphones'], expect.anything());
+      expect(knnCall()[1][0]).toBe('[0.1,0.2,0.3]');
+    });
+
+    it('should reject fields that are not mapped as dense_vector', async () => {
+      await expect(
+        service.knnSearch('products', { field: 'name', query_vector: [1, 0, 0] }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject query vectors of the wrong size', async () => {
+      await expect(
+        service.knnSearch('products', { field: 'name_vector', query_vector: [1, 0] }),
+      ).rejects.toThrow('2 dimensions');
+    });
+
+    it('should require exactly one of query_vector and query_text', async () => {
+      await expect(service.knnSearch('products', { field: 'name_vector' })).rejects.toThrow(
+        'exactly one',
+      );
+      await expect(
+        service.knnSearch('products', {
+          field: 'name_vector',
+          query_vector: [1, 0, 0],
+          query_text: 'headphones',
+        }),
+      ).rejects.toThrow('exactly one');
+    });
+
+    it('should reject num_candidates below k', async () => {
+      await expect(
+        service.knnSearch('products', {
+          field: 'name_vector',
+          query_vector: [1, 0, 0],
+          k: 50,
+          num_candidates: 10,
+        }),
+      ).rejects.toThrow('num_candidates');
+    });
+  });
+
+  describe('storeEmbeddings', () => {
+    it('should upsert all vectors of a field in one statement', async () => {
+      await service.storeEmbeddings('products', 'name_vector', [
+        { documentId: 'doc-1', embedding: [1, 0, 0], text: 'a' },
+        { documentId: 'doc-2', embedding: [0, 1, 0], text: 'b' },
+      ]);
+
+      const [sql, params] = dataSource.query.mock.calls.find(([query]) =>
+        query.includes('INSERT INTO document_embeddings'),
+      );
+      expect(sql).toContain('ON CONFLICT (index_name, document_id, field_name)');
+      expect(params).toEqual([
+        'products',
+        'name_vector',
+        ['doc-1', 'doc-2'],
+        ['[1,0,0]', '[0,1,0]'],
+        ['a', 'b'],
+      ]);
+    });
+  });
+});
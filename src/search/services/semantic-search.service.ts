@@ -1,10 +1,21 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { DataSource } from 'typeorm';
+import { FieldMapping } from '../../index/interfaces/index.interface';
+import { FilterBuilderService } from '../../storage/postgresql/filter-builder.service';
+import { EmbeddingProviderService } from '../embeddings/embedding-provider.service';
+import { ResolvedEmbeddingSettings } from '../embeddings/interfaces/embedding-provider.interface';
+
+// Field name of embeddings stored without a dense_vector mapping
+export const DEFAULT_EMBEDDING_FIELD = '_default';
+
+const MAX_K = 1000;
+const MAX_NUM_CANDIDATES = 10000;
 
 export interface EmbeddingResult {
   text: string;
   embedding: number[];
+  provider: string;
   model: string;
   dimensions: number;
 }
@@ -17,69 +28,62 @@ export interface SemanticSearchResult {
   metadata?: Record<string, any>;
 }
 
+export interface KnnQuery {
+  // dense_vector field to search
+  field: string;
+  query_vector?: number[];
+  // Text embedded with the index's provider when no query_vector is given
+  query_text?: string;
+  k?: number;
+  // Nearest vectors considered before filters and the similarity threshold apply
+  num_candidates?: number;
+  // Minimum cosine similarity of a hit
+  similarity?: number;
+}
+
+export interface KnnHit {
+  id: string;
+  index: string;
+  score: number;
+  similarity: number;
+  source: Record<string, any>;
+}
+
 export interface SemanticSearchOptions {
-  model?: string;
-  dimensions?: number;
   similarityThreshold?: number;
   maxResults?: number;
   includeMetadata?: boolean;
 }
 
 @Injectable()
-export class SemanticSearchService {
+export class SemanticSearchService implements OnModuleInit {
   private readonly logger = new Logger(SemanticSearchService.name);
-  private readonly defaultModel = 'text-embedding-ada-002';
-  private readonly defaultDimensions = 1536;
   private readonly defaultSimilarityThreshold = 0.7;
+  private vectorDimensions: number | null = null;
 
   constructor(
     private readonly dataSource: DataSource,
     private readonly configService: ConfigService,
+    private readonly embeddingProviders: EmbeddingProviderService,
+    private readonly filterBuilder: FilterBuilderService,
   ) {}
 
-  /**
-   * Generate embeddings for text using OpenAI API
-   */
-  async generateEmbedding(text: string, model?: string): Promise<EmbeddingResult> {
+  async onModuleInit() {
     try {
-      const apiKey = this.configService.get<string>('OPENAI_API_KEY');
-      if (!apiKey) {
-        throw new Error('OpenAI API key not configured');
-      }
-
-      const embeddingModel = model || this.defaultModel;
-
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          input: text,
-          model: embeddingModel,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const embedding = data.data[0].embedding;
-
-      return {
-        text,
-        embedding,
-        model: embeddingModel,
-        dimensions: embedding.length,
-      };
+      await this.initializeVectorDatabase();
     } catch (error) {
-      this.logger.error(`Failed to generate embedding: ${error.message}`);
-      throw error;
+      this.logger.warn(`Vector search is unavailable until pgvector is set up: ${error.message}`);
     }
   }
 
+  /**
+   * Generate an embedding with the provider configured for the index
+   */
+  async generateEmbedding(text: string, indexName?: string): Promise<EmbeddingResult> {
+    const [result] = await this.batchGenerateEmbeddings([{ id: '', text }], indexName);
+    return result;
+  }
+
   /**
    * Store embedding in PostgreSQL with pgvector
    */
@@ -89,12 +93,15 @@ export class SemanticSearchService {
     embedding: number[],
     text: string,
     metadata?: Record<string, any>,
+    fieldName = DEFAULT_EMBEDDING_FIELD,
   ): Promise<void> {
     try {
+      await this.validateVector(embedding);
+
       const query = `
-        INSERT INTO document_embeddings (index_name, document_id, embedding, text, metadata, created_at)
-        VALUES ($1, $2, $3, $4, $5, NOW())
-        ON CONFLICT (index_name, document_id) 
+        INSERT INTO document_embeddings (index_name, document_id, field_name, embedding, text, metadata, created_at)
+        VALUES ($1, $2, $3, $4::vector, $5, $6, NOW())
+        ON CONFLICT (index_name, document_id, field_name)
         DO UPDATE SET 
           embedding = EXCLUDED.embedding,
           text = EXCLUDED.text,
@@ -105,7 +112,8 @@ export class SemanticSearchService {
       await this.dataSource.query(query, [
         indexName,
         documentId,
-        embedding,
+        fieldName,
+        this.toVectorLiteral(embedding),
         text,
         metadata ? JSON.stringify(metadata) : null,
       ]);
@@ -117,6 +125,181 @@ export class SemanticSearchService {
     }
   }
 
+  /**
+   * Store the embeddings of one field for many documents in a single statement
+   */
+  async storeEmbeddings(
+    indexName: string,
+    fieldName: string,
+    items: Array<{ documentId: string; embedding: number[]; text: string }>,
+  ): Promise<void> {
+    if (items.length === 0) return;
+
+    for (const item of items) {
+      await this.validateVector(item.embedding);
+    }
+
+    await this.dataSource.query(
+      `INSERT INTO document_embeddings (index_name, field_name, document_id, embedding, text, created_at)
+       SELECT $1, $2, item.document_id, item.embedding::vector, item.text, NOW()
+       FROM unnest($3::text[], $4::text[], $5::text[]) AS item(document_id, embedding, text)
+       ON CONFLICT (index_name, document_id, field_name)
+       DO UPDATE SET
+         embedding = EXCLUDED.embedding,
+         text = EXCLUDED.text,
+         updated_at = NOW()`,
+      [
+        indexName,
+        fieldName,
+        items.map(item => item.documentId),
+        items.map(item => this.toVectorLiteral(item.embedding)),
+        items.map(item => item.text),
+      ],
+    );
+  }
+
+  /**
+   * Remove the embeddings of documents, for every field or only the given one
+   */
+  async deleteEmbeddings(
+    indexName: string,
+    documentIds: string[],
+    fieldName?: string,
+  ): Promise<void> {
+    if (documentIds.length === 0) return;
+
+    await this.dataSource.query(
+      `DELETE FROM document_embeddings
+       WHERE index_name = $1 AND document_id = ANY($2::text[])
+         AND ($3::text IS NULL OR field_name = $3)`,
+      [indexName, documentIds, fieldName ?? null],
+    );
+  }
+
+  /**
+   * k-nearest-neighbour search over a dense_vector field. The num_candidates
+   * nearest vectors are fetched first, then filters and the similarity
+   * threshold narrow them down to at most k hits.
+   */
+  async knnSearch(
+    indexName: string,
+    knn: KnnQuery,
+    options: { filter?: Record<string, any> } = {},
+  ): Promise<KnnHit[]> {
+    if (!knn || typeof knn !== 'object' || typeof knn.field !== 'string') {
+      throw new BadRequestException('knn.field must name a dense_vector field');
+    }
+
+    const mappings = await this.getFieldMappings(indexName);
+    const mapping = mappings[knn.field];
+    if (mapping?.type !== 'dense_vector') {
+      throw new BadRequestException(
+        `Field '${knn.field}' of index '${indexName}' is not mapped as dense_vector`,
+      );
+    }
+
+    const k = knn.k ?? 10;
+    const numCandidates = knn.num_candidates ?? Math.max(100, k);
+    if (!Number.isInteger(k) || k < 1 || k > MAX_K) {
+      throw new BadRequestException(`knn.k must be an integer between 1 and ${MAX_K}`);
+    }
+    if (
+      !Number.isInteger(numCandidates) ||
+      numCandidates < k ||
+      numCandidates > MAX_NUM_CANDIDATES
+    ) {
+      throw new BadRequestException(
+        `knn.num_candidates must be an integer between k and ${MAX_NUM_CANDIDATES}`,
+      );
+    }
+    if (
+      knn.similarity !== undefined &&
+      (typeof knn.similarity !== 'number' || knn.similarity < -1 || knn.similarity > 1)
+    ) {
+      throw new BadRequestException('knn.similarity must be a number between -1 and 1');
+    }
+
+    const queryVector = await this.resolveQueryVector(indexName, knn, mapping);
+
+    const params: any[] = [
+      this.toVectorLiteral(queryVector),
+      indexName,
+      knn.field,
+      numCandidates,
+      knn.similarity ?? -1,
+      k,
+    ];
+    const filterConditions = this.filterBuilder.buildWhereClause(options.filter, params, {
+      tableAlias: 'd',
+      mappings,
+    });
+
+    const rows = await this.dataSource.query(
+      `SELECT d.document_id, d.content, candidates.similarity
+       FROM (
+         SELECT document_id, 1 - (embedding <=> $1::vector) AS similarity
+         FROM document_embeddings
+         WHERE index_name = $2 AND field_name = $3
+         ORDER BY embedding <=> $1::vector
+         LIMIT $4
+       ) candidates
+       JOIN documents d ON d.index_name = $2 AND d.document_id = candidates.document_id
+       WHERE candidates.similarity >= $5
+         ${filterConditions ? `AND ${filterConditions}` : ''}
+       ORDER BY candidates.similarity DESC, d.document_id
+       LIMIT $6`,
+      params,
+    );
+
+    return rows.map((row: any) => ({
+      id: row.document_id,
+      index: indexName,
+      score: parseFloat(row.similarity),
+      similarity: parseFloat(row.similarity),
+      source: row.content,
+    }));
+  }
+
+  private async resolveQueryVector(
+    indexName: string,
+    knn: KnnQuery,
+    mapping: FieldMapping,
+  ): Promise<number[]> {
+    if ((knn.query_vector === undefined) === (knn.query_text === undefined)) {
+      throw new BadRequestException('knn needs exactly one of query_vector or query_text');
+    }
+
+    let vector = knn.query_vector;
+    if (knn.query_text !== undefined) {
+      if (typeof knn.query_text !== 'string' || !knn.query_text.trim()) {
+        throw new BadRequestException('knn.query_text must be a non-empty string');
+      }
+      vector = (await this.generateEmbedding(knn.query_text, indexName)).embedding;
+    }
+
+    if (
+      !Array.isArray(vector) ||
+      vector.some(value => typeof value !== 'number' || !Number.isFinite(value))
+    ) {
+      throw new BadRequestException('knn.query_vector must be an array of numbers');
+    }
+    if (mapping.dims && vector.length !== mapping.dims) {
+      throw new BadRequestException(
+        `knn.query_vector has ${vector.length} dimensions, but '${knn.field}' has ${mapping.dims}`,
+      );
+    }
+    await this.validateVector(vector);
+    return vector;
+  }
+
+  private async getFieldMappings(indexName: string): Promise<Record<string, FieldMapping>> {
+    const rows = await this.dataSource.query(
+      `SELECT settings->'mappings'->'properties' AS properties FROM indices WHERE index_name = $1`,
+      [indexName],
+    );
+    return rows[0]?.properties || {};
+  }
+
   /**
    * Perform semantic search using vector similarity
    */
@@ -127,14 +310,13 @@ export class SemanticSearchService {
   ): Promise<SemanticSearchResult[]> {
     try {
       const {
-        model = this.defaultModel,
         similarityThreshold = this.defaultSimilarityThreshold,
         maxResults = 10,
         includeMetadata = true,
       } = options;
 
       // Generate embedding for query
-      const queryEmbedding = await this.generateEmbedding(queryText, model);
+      const queryEmbedding = await this.generateEmbedding(queryText, indexName);
 
       // Perform vector similarity search
       const query = `
@@ -142,20 +324,22 @@ export class SemanticSearchService {
           document_id as id,
           text,
           ${includeMetadata ? 'metadata,' : ''}
-          1 - (embedding <=> $1) as similarity,
-          (1 - (embedding <=> $1)) * 100 as score
+          1 - (embedding <=> $1::vector) as similarity,
+          (1 - (embedding <=> $1::vector)) * 100 as score
         FROM document_embeddings 
         WHERE index_name = $2 
-          AND 1 - (embedding <=> $1) >= $3
-        ORDER BY embedding <=> $1
+          AND field_name = $5
+          AND 1 - (embedding <=> $1::vector) >= $3
+        ORDER BY embedding <=> $1::vector
         LIMIT $4
       `;
 
       const results = await this.dataSource.query(query, [
-        queryEmbedding.embedding,
+        this.toVectorLiteral(queryEmbedding.embedding),
         indexName,
         similarityThreshold,
         maxResults,
+        DEFAULT_EMBEDDING_FIELD,
       ]);
 
       return results.map((row: any) => ({
@@ -226,32 +410,29 @@ export class SemanticSearchService {
   }
 
   /**
-   * Batch generate embeddings for multiple documents
+   * Batch generate embeddings for multiple documents, sending as many texts per
+   * request as the index's provider accepts
    */
   async batchGenerateEmbeddings(
     documents: Array<{ id: string; text: string; metadata?: Record<string, any> }>,
-    model?: string,
+    indexName?: string,
   ): Promise<EmbeddingResult[]> {
     try {
-      const results: EmbeddingResult[] = [];
+      const settings = await this.embeddingProviders.resolveSettings(indexName);
+      await this.validateDimensions(settings);
 
-      // Process in batches to avoid rate limits
-      const batchSize = 10;
-      for (let i = 0; i < documents.length; i += batchSize) {
-        const batch = documents.slice(i, i + batchSize);
-
-        const batchPromises = batch.map(doc => this.generateEmbedding(doc.text, model));
-
-        const batchResults = await Promise.all(batchPromises);
-        results.push(...batchResults);
-
-        // Add small delay between batches
-        if (i + batchSize < documents.length) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-      }
+      const embeddings = await this.embeddingProviders.embed(
+        documents.map(doc => doc.text),
+        settings,
+      );
 
-      return results;
+      return documents.map((doc, i) => ({
+        text: doc.text,
+        embedding: embeddings[i],
+        provider: settings.provider,
+        model: settings.model,
+        dimensions: settings.dimensions,
+      }));
     } catch (error) {
       this.logger.error(`Batch embedding generation failed: ${error.message}`);
       throw error;
@@ -259,10 +440,64 @@ export class SemanticSearchService {
   }
 
   /**
-   * Initialize pgvector extension and create embeddings table
+   * Dimensions of the embedding column created by initializeVectorDatabase,
+   * or null when the table does not exist yet
    */
-  async initializeVectorDatabase(): Promise<void> {
+  async getVectorDimensions(): Promise<number | null> {
+    if (this.vectorDimensions === null) {
+      const rows = await this.dataSource.query(
+        `SELECT atttypmod AS dimensions FROM pg_attribute
+         WHERE attrelid = to_regclass('document_embeddings') AND attname = 'embedding'`,
+      );
+      this.vectorDimensions = rows.length > 0 ? Number(rows[0].dimensions) : null;
+    }
+    return this.vectorDimensions;
+  }
+
+  /**
+   * Reject vectors that do not fit the embedding column, or any vector when
+   * the vector database has not been set up
+   */
+  private async validateVector(vector: number[]): Promise<void> {
+    const dimensions = await this.getVectorDimensions();
+    if (dimensions === null) {
+      throw new BadRequestException(
+        'Vector search is unavailable: the pgvector extension and document_embeddings table are not set up',
+      );
+    }
+    if (dimensions > 0 && vector.length !== dimensions) {
+      throw new BadRequestException(
+        `Vector has ${vector.length} dimensions, but document_embeddings stores ${dimensions}`,
+      );
+    }
+  }
+
+  private toVectorLiteral(vector: number[]): string {
+    return `[${vector.join(',')}]`;
+  }
+
+  private async validateDimensions(settings: ResolvedEmbeddingSettings): Promise<void> {
+    const dimensions = await this.getVectorDimensions();
+    if (dimensions !== null && dimensions > 0 && dimensions !== settings.dimensions) {
+      throw new BadRequestException(
+        `Embedding provider '${settings.provider}' is configured for ${settings.dimensions} ` +
+          `dimensions, but document_embeddings stores vectors of ${dimensions}`,
+      );
+    }
+  }
+
+  /**
+   * Initialize pgvector extension and create embeddings table. The vector size
+   * defaults to EMBEDDING_DIMENSIONS and cannot change once the table exists.
+   */
+  async initializeVectorDatabase(dimensions?: number): Promise<void> {
     try {
+      const vectorDimensions =
+        dimensions ?? Number(this.configService.get<string>('EMBEDDING_DIMENSIONS', '1536'));
+      if (!Number.isInteger(vectorDimensions) || vectorDimensions <= 0) {
+        throw new BadRequestException(`Invalid embedding dimensions '${vectorDimensions}'`);
+      }
+
       // Enable pgvector extension
       await this.dataSource.query('CREATE EXTENSION IF NOT EXISTS vector');
 
@@ -272,15 +507,25 @@ export class SemanticSearchService {
           id SERIAL PRIMARY KEY,
           index_name VARCHAR(255) NOT NULL,
           document_id VARCHAR(255) NOT NULL,
-          embedding vector(1536),
+          field_name VARCHAR(255) NOT NULL DEFAULT '${DEFAULT_EMBEDDING_FIELD}',
+          embedding vector(${vectorDimensions}),
           text TEXT NOT NULL,
           metadata JSONB,
           created_at TIMESTAMP DEFAULT NOW(),
-          updated_at TIMESTAMP DEFAULT NOW(),
-          UNIQUE(index_name, document_id)
+          updated_at TIMESTAMP DEFAULT NOW()
         )
       `);
 
+      // Tables created before dense_vector fields held one embedding per document
+      await this.dataSource.query(`
+        ALTER TABLE document_embeddings
+          ADD COLUMN IF NOT EXISTS field_name VARCHAR(255) NOT NULL DEFAULT '${DEFAULT_EMBEDDING_FIELD}';
+        ALTER TABLE document_embeddings
+          DROP CONSTRAINT IF EXISTS document_embeddings_index_name_document_id_key;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_document_embeddings_document_field
+          ON document_embeddings (index_name, document_id, field_name);
+      `);
+
       // Create index for vector similarity search
       await this.dataSource.query(`
         CREATE INDEX IF NOT EXISTS idx_document_embeddings_similarity 
@@ -295,6 +540,7 @@ export class SemanticSearchService {
         ON document_embeddings (index_name)
       `);
 
+      this.vectorDimensions = null;
       this.logger.log('Vector database initialized successfully');
     } catch (error) {
       this.logger.error(`Failed to initialize vector database: ${error.message}`);
@@ -1,6 +1,10 @@
 import { Injectable, Logger, Optional, BadRequestException } from '@nestjs/common';
 import { SchemaVersionManagerService } from '../../schema/schema-version-manager.service';
 import { PostgreSQLService } from '../postgresql/postgresql.service';
+import {
+  DocumentVersion,
+  VersionPrecondition,
+} from '../postgresql/interfaces/document-version.interface';
 
 interface DocumentStorageOptions {
   batchSize?: number;
@@ -11,6 +15,8 @@ export interface SourceDocument {
   documentId: string;
   content: Record<string, any>;
   metadata?: Record<string, any>;
+  version?: number;
+  seqNo?: number;
 }
 
 @Injectable()
@@ -143,6 +149,46 @@ export class DocumentStorageService {
     }
   }
 
+  async getDocumentVersion(indexName: string, documentId: string): Promise<DocumentVersion | null> {
+    return this.postgresService.getDocumentVersion(indexName, documentId);
+  }
+
+  /**
+   * Stores a document if it meets the precondition; null when it does not
+   */
+  async storeVersionedDocument(
+    indexName: string,
+    document: Omit<SourceDocument, 'indexName'>,
+    precondition: VersionPrecondition = {},
+  ): Promise<(DocumentVersion & { created: boolean }) | null> {
+    try {
+      return await this.postgresService.storeVersionedDocument(
+        { ...document, indexName },
+        precondition,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to store document: ${error.message}`);
+      throw error;
+    }
+  }
+
+  async deleteVersionedDocument(
+    indexName: string,
+    documentId: string,
+    precondition: VersionPrecondition = {},
+  ): Promise<DocumentVersion | null> {
+    try {
+      return await this.postgresService.deleteVersionedDocument(
+        indexName,
+        documentId,
+        precondition,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to delete document: ${error.message}`);
+      throw error;
+    }
+  }
+
   async deleteDocument(indexName: string, documentId: string): Promise<boolean> {
     try {
       return await this.postgresService.deleteDocument(indexName, documentId);
@@ -29,6 +29,23 @@ export class Document {
   @Column('jsonb', { name: 'field_weights', default: '{}' })
   fieldWeights: Record<string, number>;
 
+  // Maintained by the bump_document_version trigger; bigint comes back as a string
+  @Column({
+    type: 'bigint',
+    default: 1,
+    transformer: { from: value => (value === null ? value : Number(value)), to: value => value },
+  })
+  version: number;
+
+  @Column({
+    type: 'bigint',
+    name: 'seq_no',
+    insert: false,
+    update: false,
+    transformer: { from: value => (value === null ? value : Number(value)), to: value => value },
+  })
+  seqNo: number;
+
   @CreateDateColumn({
     name: 'created_at',
     transformer: { from: value => value, to: value => value },
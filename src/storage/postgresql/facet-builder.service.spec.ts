@@ -0,0 +1,129 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { FacetBuilderService } from './facet-builder.service';
+import { FilterBuilderService } from './filter-builder.service';
+
+describe('FacetBuilderService', () => {
+  let service: FacetBuilderService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [FacetBuilderService, FilterBuilderService],
+    }).compile();
+
+    service = module.get<FacetBuilderService>(FacetBuilderService);
+  });
+
+  describe('parse', () => {
+    it('should treat field names as terms facets', () => {
+      expect(service.parse(['category', 'brand.keyword'])).toEqual([
+        { type: 'terms', name: 'category', field: 'category', size: 10, disjunctive: false },
+        { type: 'terms', name: 'brand', field: 'brand', size: 10, disjunctive: false },
+      ]);
+    });
+
+    it('should parse range, histogram and date histogram facets', () => {
+      const [range, histogram, dates] = service.parse([
+        {
+          field: 'price',
+          type: 'range',
+          ranges: [{ to: 100 }, { key: 'mid', from: 100, to: 500 }],
+        },
+        { field: 'price', name: 'price_histogram', type: 'histogram', interval: 50 },
+        { field: 'created_at', type: 'date_histogram', interval: 'month', disjunctive: true },
+      ]);
+
+      expect(range).toEqual({
+        type: 'range',
+        name: 'price',
+        field: 'price',
+        disjunctive: false,
+        ranges: [
+          { key: '*-100', to: 100 },
+          { key: 'mid', from: 100, to: 500 },
+        ],
+      });
+      expect(histogram).toMatchObject({ type: 'histogram', name: 'price_histogram', interval: 50 });
+      expect(dates).toMatchObject({ type: 'date_histogram', interval: 'month', disjunctive: true });
+    });
+
+    it('should reject invalid facet requests', () => {
+      expect(() => service.parse('category')).toThrow(BadRequestException);
+      expect(() => service.parse([{ field: 'price', type: 'stats' }])).toThrow(BadRequestException);
+      expect(() => service.parse([{ field: 'price', type: 'histogram', interval: 0 }])).toThrow(
+        BadRequestException,
+      );
+      expect(() => service.parse([{ field: 'created_at', type: 'date_histogram' }])).toThrow(
+        BadRequestException,
+      );
+      expect(() => service.parse([{ field: "name') --", size: 5 }])).toThrow(BadRequestException);
+      expect(() => service.parse(['category', { field: 'category' }])).toThrow(BadRequestException);
+    });
+  });
+
+  describe('buildQuery', () => {
+    it('should count terms over array elements with a bound size', () => {
+      const [facet] = service.parse([{ field: 'tags', size: 5 }]);
+      const params: any[] = ['businesses'];
+      const sql = service.buildQuery(facet, 'index_name = $1', params);
+
+      expect(sql).toContain(`jsonb_array_elements_text(`);
+      expect(sql).toContain(`jsonb_typeof(content->'tags') = 'array'`);
+      expect(sql).toContain('WHERE index_name = $1');
+      expect(sql).toContain('LIMIT $2');
+      expect(params).toEqual(['businesses', 5]);
+    });
+
+    it('should bind range bounds typed by the field mapping', () => {
+      const [facet] = service.parse([
+        { field: 'created_at', type: 'range', ranges: [{ from: '2024-01-01' }] },
+      ]);
+      const params: any[] = ['businesses'];
+      const sql = service.buildQuery(facet, 'index_name = $1', params, {
+        created_at: { type: 'date' },
+      });
+
+      expect(sql).toContain('>= $2::timestamptz) AS bucket_0');
+      expect(params).toEqual(['businesses', '2024-01-01T00:00:00.000Z']);
+    });
+
+    it('should reject non-numeric bounds on numeric ranges', () => {
+      const [facet] = service.parse([
+        { field: 'price', type: 'range', ranges: [{ from: 'cheap' }] },
+      ]);
+
+      expect(() => service.buildQuery(facet, 'index_name = $1', ['businesses'])).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('formatResult', () => {
+    it('should shape range rows into keyed buckets', () => {
+      const [facet] = service.parse([
+        { field: 'price', type: 'range', ranges: [{ to: 100 }, { from: 100 }] },
+      ]);
+
+      expect(service.formatResult(facet, [{ bucket_0: '3', bucket_1: '7' }])).toEqual({
+        buckets: [
+          { key: '*-100', to: 100, count: 3 },
+          { key: '100-*', from: 100, count: 7 },
+        ],
+      });
+    });
+
+    it('should format histogram and date histogram keys', () => {
+      const [histogram, dates] = service.parse([
+        { field: 'price', type: 'histogram', interval: 50 },
+        { field: 'created_at', type: 'date_histogram', interval: 'day' },
+      ]);
+
+      expect(service.formatResult(histogram, [{ key: '100', count: '2' }])).toEqual({
+        buckets: [{ key: '100', count: 2 }],
+      });
+      expect(
+        service.formatResult(dates, [{ key: new Date('2024-03-01T00:00:00Z'), count: '4' }]),
+      ).toEqual({ buckets: [{ key: '2024-03-01T00:00:00.000Z', count: 4 }] });
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { FieldMapping } from '../../index/interfaces/index.interface';
+import { FilterBuilderService } from './filter-builder.service';
+import {
+  DateInterval,
+  FacetRange,
+  FacetRequest,
+  FacetResult,
+  RangeFacetRequest,
+} from './interfaces/facet.interface';
+
+const FACET_TYPES = ['terms', 'range', 'histogram', 'date_histogram'];
+const DATE_INTERVALS: DateInterval[] = [
+  'minute',
+  'hour',
+  'day',
+  'week',
+  'month',
+  'quarter',
+  'year',
+];
+
+const DEFAULT_FACET_SIZE = 10;
+const MAX_FACET_SIZE = 100;
+const MAX_FACETS = 20;
+const MAX_RANGES = 50;
+// Upper bound on histogram buckets so a tiny interval cannot explode the response
+const MAX_HISTOGRAM_BUCKETS = 1000;
+
+/**
+ * Parses facet requests and builds the aggregate SQL that computes their buckets
+ * over the full set of documents matching a search (not just the current page).
+ */
+@Injectable()
+export class FacetBuilderService {
+  constructor(private readonly filterBuilder: FilterBuilderService) {}
+
+  /**
+   * Normalize the raw `facets` list of a search request
+   *
+   * A plain string is a terms facet on that field; objects may specify `type`
+   * (terms, range, histogram, date_histogram), `name`, `size`, `ranges`,
+   * `interval` and `disjunctive`.
+   */
+  parse(facets: any): FacetRequest[] {
+    if (facets === undefined || facets === null) return [];
+
+    if (!Array.isArray(facets)) {
+      throw new BadRequestException('facets must be an array');
+    }
+    if (facets.length > MAX_FACETS) {
+      throw new BadRequestException(`At most ${MAX_FACETS} facets can be requested`);
+    }
+
+    const requests = facets.map(facet => this.parseFacet(facet));
+
+    const names = new Set<string>();
+    for (const request of requests) {
+      if (names.has(request.name)) {
+        throw new BadRequestException(`Duplicate facet name: ${request.name}`);
+      }
+      names.add(request.name);
+    }
+
+    return requests;
+  }
+
+  /**
+   * Build the aggregate query for a facet. `conditions` is the WHERE condition of
+   * the search whose bound values are already in params.
+   */
+  buildQuery(
+    facet: FacetRequest,
+    conditions: string,
+    params: any[],
+    mappings: Record<string, FieldMapping> = {},
+  ): string {
+    const bind = (value: any) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    switch (facet.type) {
+      case 'terms': {
+        const value = this.filterBuilder.fieldReference(facet.field, undefined, true);
+        // Array values contribute one bucket entry per element
+        return `
+          SELECT facet_value AS key, COUNT(*) AS count
+          FROM documents
+          CROSS JOIN LATERAL jsonb_array_elements_text(
+            CASE WHEN jsonb_typeof(${value}) = 'array' THEN ${value} ELSE jsonb_build_array(${value}) END
+          ) AS facet_value
+          WHERE ${conditions}
+            AND facet_value IS NOT NULL
+          GROUP BY facet_value
+          ORDER BY count DESC, facet_value
+          LIMIT ${bind(facet.size)}
+        `;
+      }
+      case 'range': {
+        const isDate = mappings[facet.field]?.type === 'date';
+        const cast = isDate ? 'timestamptz' : 'numeric';
+        const value = this.filterBuilder.safeCast(facet.field, cast);
+        const bound = (v: number | string) =>
+          `${bind(this.rangeBound(facet.field, v, isDate))}::${cast}`;
+        const counts = facet.ranges.map((range, i) => {
+          const bounds = [`${value} IS NOT NULL`];
+          if (range.from !== undefined) bounds.push(`${value} >= ${bound(range.from)}`);
+          if (range.to !== undefined) bounds.push(`${value} < ${bound(range.to)}`);
+          return `COUNT(*) FILTER (WHERE ${bounds.join(' AND ')}) AS bucket_${i}`;
+        });
+        return `
+          SELECT ${counts.join(', ')}
+          FROM documents
+          WHERE ${conditions}
+        `;
+      }
+      case 'histogram': {
+        const value = this.filterBuilder.safeCast(facet.field, 'numeric');
+        const interval = bind(facet.interval);
+        return `
+          SELECT floor(${value} / ${interval}::numeric) * ${interval}::numeric AS key, COUNT(*) AS count
+          FROM documents
+          WHERE ${conditions}
+            AND ${value} IS NOT NULL
+          GROUP BY 1
+          ORDER BY 1
+          LIMIT ${MAX_HISTOGRAM_BUCKETS}
+        `;
+      }
+      case 'date_histogram': {
+        const value = this.filterBuilder.safeCast(facet.field, 'timestamptz');
+        return `
+          SELECT date_trunc(${bind(facet.interval)}, ${value}) AS key, COUNT(*) AS count
+          FROM documents
+          WHERE ${conditions}
+            AND ${value} IS NOT NULL
+          GROUP BY 1
+          ORDER BY 1
+          LIMIT ${MAX_HISTOGRAM_BUCKETS}
+        `;
+      }
+    }
+  }
+
+  /**
+   * Convert the rows returned by a facet query into the response bucket shape
+   */
+  formatResult(facet: FacetRequest, rows: any[]): FacetResult {
+    switch (facet.type) {
+      case 'terms':
+        return {
+          buckets: rows.map(row => ({ key: String(row.key), count: parseInt(row.count, 10) })),
+        };
+      case 'range': {
+        const counts = rows[0] || {};
+        return {
+          buckets: facet.ranges.map((range, i) => ({
+            ...range,
+            count: parseInt(counts[`bucket_${i}`] || '0', 10),
+          })),
+        };
+      }
+      case 'histogram':
+        return {
+          buckets: rows.map(row => ({
+            key: String(Number(row.key)),
+            count: parseInt(row.count, 10),
+          })),
+        };
+      case 'date_histogram':
+        return {
+          buckets: rows.map(row => ({
+            key: new Date(row.key).toISOString(),
+            count: parseInt(row.count, 10),
+          })),
+        };
+    }
+  }
+
+  private parseFacet(facet: any): FacetRequest {
+    if (typeof facet === 'string') {
+      const field = this.validateField(facet);
+      return { type: 'terms', name: field, field, size: DEFAULT_FACET_SIZE, disjunctive: false };
+    }
+
+    if (!facet || typeof facet !== 'object' || Array.isArray(facet)) {
+      throw new BadRequestException('Each facet must be a field name or a facet object');
+    }
+
+    const type = facet.type ?? 'terms';
+    if (!FACET_TYPES.includes(type)) {
+      throw new BadRequestException(`Unsupported facet type: ${type}`);
+    }
+
+    const field = this.validateField(facet.field);
+    const base = {
+      name: typeof facet.name === 'string' && facet.name.length > 0 ? facet.name : field,
+      field,
+      disjunctive: facet.disjunctive === true,
+    };
+
+    switch (type) {
+      case 'terms': {
+        const size = facet.size ?? DEFAULT_FACET_SIZE;
+        if (!Number.isInteger(size) || size < 1 || size > MAX_FACET_SIZE) {
+          throw new BadRequestException(`Facet size must be between 1 and ${MAX_FACET_SIZE}`);
+        }
+        return { ...base, type, size };
+      }
+      case 'range':
+        return { ...base, type, ranges: this.parseRanges(field, facet.ranges) };
+      case 'histogram': {
+        const interval = facet.interval;
+        if (typeof interval !== 'number' || !Number.isFinite(interval) || interval <= 0) {
+          throw new BadRequestException(`Histogram facet on ${field} needs a positive interval`);
+        }
+        return { ...base, type, interval };
+      }
+      case 'date_histogram': {
+        if (!DATE_INTERVALS.includes(facet.interval)) {
+          throw new BadRequestException(
+            `Date histogram interval must be one of: ${DATE_INTERVALS.join(', ')}`,
+          );
+        }
+        return { ...base, type, interval: facet.interval };
+      }
+    }
+  }
+
+  private parseRanges(field: string, ranges: any): RangeFacetRequest['ranges'] {
+    if (!Array.isArray(ranges) || ranges.length === 0 || ranges.length > MAX_RANGES) {
+      throw new BadRequestException(
+        `Range facet on ${field} needs between 1 and ${MAX_RANGES} ranges`,
+      );
+    }
+
+    return ranges.map(range => {
+      const { from, to } = range || {};
+      if (from === undefined && to === undefined) {
+        throw new BadRequestException(`Each range on ${field} needs a from or to bound`);
+      }
+      for (const bound of [from, to]) {
+        if (bound !== undefined && !['number', 'string'].includes(typeof bound)) {
+          throw new BadRequestException(`Invalid range bound on ${field}`);
+        }
+      }
+
+      const result: FacetRange = {
+        key: typeof range.key === 'string' ? range.key : `${from ?? '*'}-${to ?? '*'}`,
+      };
+      if (from !== undefined) result.from = from;
+      if (to !== undefined) result.to = to;
+      return result;
+    });
+  }
+
+  private validateField(field: any): string {
+    if (typeof field !== 'string' || field.length === 0) {
+      throw new BadRequestException('Facet field name is required');
+    }
+
+    const baseField = field.endsWith('.keyword') ? field.slice(0, -'.keyword'.length) : field;
+    // Throws on anything that is not a plain JSON path
+    this.filterBuilder.fieldReference(baseField);
+    return baseField;
+  }
+
+  /**
+   * Validate a range bound against the field type; numeric dates are epoch millis
+   */
+  private rangeBound(field: string, value: number | string, isDate: boolean): number | string {
+    if (isDate) {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        throw new BadRequestException(`Range bound for ${field} must be a valid date`);
+      }
+      return date.toISOString();
+    }
+
+    const number = Number(value);
+    if (value === '' || !Number.isFinite(number)) {
+      throw new BadRequestException(`Range bound for ${field} must be numeric`);
+    }
+    return number;
+  }
+}
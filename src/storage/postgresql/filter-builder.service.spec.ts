@@ -0,0 +1,361 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { FilterBuilderService } from './filter-builder.service';
+
+describe('FilterBuilderService', () => {
+  let service: FilterBuilderService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [FilterBuilderService],
+    }).compile();
+
+    service = module.get<FilterBuilderService>(FilterBuilderService);
+  });
+
+  describe('parse', () => {
+    it('should parse both term formats into the same node', () => {
+      expect(service.parse({ term: { field: 'status', value: 'open' } })).toEqual({
+        type: 'term',
+        field: 'status',
+        value: 'open',
+      });
+      expect(service.parse({ term: { status: 'open' } })).toEqual({
+        type: 'term',
+        field: 'status',
+        value: 'open',
+      });
+    });
+
+    it('should parse both range formats', () => {
+      const expected = { type: 'range', field: 'price', gte: 10, lt: 20 };
+      expect(service.parse({ range: { field: 'price', gte: 10, lt: 20 } })).toEqual(expected);
+      expect(service.parse({ range: { price: { gte: 10, lt: 20 } } })).toEqual(expected);
+    });
+
+    it('should treat a plain field map as a conjunction of terms', () => {
+      expect(service.parse({ category: 'electronics', in_stock: true })).toEqual({
+        type: 'bool',
+        must: [
+          { type: 'term', field: 'category', value: 'electronics' },
+          { type: 'term', field: 'in_stock', value: true },
+        ],
+        should: [],
+        mustNot: [],
+      });
+    });
+
+    it('should mark .keyword terms as exact matches on the base field', () => {
+      expect(service.parse({ term: { 'name.keyword': 'Acme' } })).toEqual({
+        type: 'term',
+        field: 'name',
+        value: 'Acme',
+        exact: true,
+      });
+    });
+
+    it('should parse terms, prefix, exists and missing clauses', () => {
+      expect(service.parse({ terms: { city: ['Lagos', 'Abuja'] } })).toEqual({
+        type: 'terms',
+        field: 'city',
+        values: ['Lagos', 'Abuja'],
+      });
+      expect(service.parse({ prefix: { sku: { value: 'AB-' } } })).toEqual({
+        type: 'prefix',
+        field: 'sku',
+        value: 'AB-',
+      });
+      expect(service.parse({ exists: { field: 'email' } })).toEqual({
+        type: 'exists',
+        field: 'email',
+      });
+      expect(service.parse({ missing: { field: 'email' } })).toEqual({
+        type: 'bool',
+        must: [],
+        should: [],
+        mustNot: [{ type: 'exists', field: 'email' }],
+      });
+    });
+
+    it('should reject field names that are not plain JSON paths', () => {
+      expect(() => service.parse({ term: { "name' OR '1'='1": 'x' } })).toThrow(
+        BadRequestException,
+      );
+      expect(() => service.parse({ term: { field: 'a;DROP TABLE documents', value: 1 } })).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject unsupported clauses and values', () => {
+      expect(() => service.parse({ bool: { must: [{ script: {} }] } })).toThrow(
+        BadRequestException,
+      );
+      expect(() => service.parse({ term: { status: { $ne: null } } })).toThrow(BadRequestException);
+      expect(() => service.parse({ range: { price: { between: 1 } } })).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('compile', () => {
+    it('should bind values as placeholders after existing params', () => {
+      const params: any[] = ['businesses'];
+      const sql = service.buildWhereClause({ term: { status: "o'pen" } }, params);
+
+      expect(sql).toBe(`(content->>'status' = $2)`);
+      expect(params).toEqual(['businesses', "o'pen"]);
+    });
+
+    it('should use escaped ILIKE matching for partial text fields', () => {
+      const params: any[] = [];
+      const sql = service.buildWhereClause({ term: { name: '50%_off' } }, params);
+
+      expect(sql).toBe(`(content->>'name' ILIKE $1)`);
+      expect(params).toEqual(['%50\\%\\_off%']);
+    });
+
+    it('should compile nested fields to JSONB path expressions', () => {
+      const params: any[] = [];
+      const sql = service.buildWhereClause({ term: { 'address.city': 'Lagos' } }, params);
+
+      expect(sql).toBe(`(content->'address'->>'city' = $1)`);
+    });
+
+    it('should only use materialized boolean columns when requested', () => {
+      const filter = { term: { is_active: true } };
+
+      expect(service.buildWhereClause(filter, [])).toBe(`(content->>'is_active' = $1)`);
+      expect(service.buildWhereClause(filter, [], { materializedColumns: true })).toBe(
+        '(is_active IS NULL OR is_active = $1)',
+      );
+    });
+
+    it('should compile bool clauses with numbered placeholders', () => {
+      const params: any[] = ['businesses'];
+      const sql = service.buildWhereClause(
+        {
+          bool: {
+            must: [{ term: { status: 'open' } }, { range: { price: { gte: 10 } } }],
+            should: [{ term: { city: 'Lagos' } }, { term: { city: 'Abuja' } }],
+            must_not: [{ term: { is_blocked: true } }],
+          },
+        },
+        params,
+      );
+
+      expect(sql).toBe(
+        `((content->>'status' = $2) AND (${service.safeCast(
+          'price',
+          'numeric',
+        )} >= $3::numeric) AND ` +
+          `((content->>'city' = $4) OR (content->>'city' = $5)) AND NOT (content->>'is_blocked' = $6))`,
+      );
+      expect(params).toEqual(['businesses', 'open', 10, 'Lagos', 'Abuja', 'true']);
+    });
+
+    it('should compile terms, prefix and exists clauses', () => {
+      const params: any[] = [];
+      const sql = service.buildWhereClause(
+        {
+          bool: {
+            must: [{ terms: { city: ['Lagos', 'Abuja'] } }, { prefix: { sku: 'AB_' } }],
+            must_not: [{ exists: { field: 'email' } }],
+          },
+        },
+        params,
+      );
+
+      expect(sql).toBe(
+        `((content->>'city' = ANY($1::text[])) AND (content->>'sku' LIKE $2) AND ` +
+          `NOT (content->>'email' IS NOT NULL))`,
+      );
+      expect(params).toEqual([['Lagos', 'Abuja'], 'AB\\_%']);
+    });
+
+    it('should look up prefixes of search_as_you_type fields in their grams', () => {
+      const mappings = { name: { type: 'search_as_you_type' as const } };
+      const params: any[] = [];
+      const sql = service.buildWhereClause({ prefix: { name: 'Mama Put Resta' } }, params, {
+        mappings,
+        tableAlias: 'd',
+      });
+
+      expect(sql).toBe(
+        `(EXISTS (SELECT 1 FROM document_grams g WHERE g.index_name = d.index_name` +
+          ` AND g.document_id = d.document_id AND g.field = $1 AND g.grams @> $2::text[]))`,
+      );
+      expect(params).toEqual(['name._prefix', ['mama put resta']]);
+
+      const longer: any[] = [];
+      service.buildWhereClause({ prefix: { name: 'the best mama put resta' } }, longer, {
+        mappings,
+      });
+      expect(longer).toEqual([
+        'name._prefix',
+        ['mama put resta'],
+        'name._3gram',
+        ['the best mama', 'best mama put'],
+      ]);
+    });
+
+    it('should match nothing for a search_as_you_type prefix without any word', () => {
+      const mappings = { name: { type: 'search_as_you_type' as const } };
+      const params: any[] = [];
+
+      expect(service.buildWhereClause({ prefix: { name: ' -!' } }, params, { mappings })).toBe(
+        '(FALSE)',
+      );
+      expect(
+        service.buildWhereClause(
+          { bool: { must: [{ prefix: { name: '...' } }, { term: { city: 'Lagos' } }] } },
+          params,
+          { mappings },
+        ),
+      ).toContain('(FALSE)');
+      expect(params).toEqual(['Lagos']);
+    });
+
+    it('should match nothing for an empty terms list', () => {
+      expect(service.buildWhereClause({ terms: { city: [] } }, [])).toBe('(FALSE)');
+    });
+
+    it('should type comparisons by the field mapping', () => {
+      const mappings = {
+        created_at: { type: 'date' as const },
+        price: { type: 'float' as const },
+        name: { type: 'keyword' as const },
+      };
+      const params: any[] = [];
+      const sql = service.buildWhereClause(
+        {
+          range: { created_at: { gte: '2024-01-01' }, price: { lt: '20' } },
+          terms: { price: [5, '10'] },
+          term: { name: 'Acme' },
+        },
+        params,
+        { mappings },
+      );
+
+      expect(sql).toBe(
+        `((${service.safeCast('created_at', 'timestamptz')} >= $1::timestamptz) AND ` +
+          `(${service.safeCast('price', 'numeric')} < $2::numeric) AND ` +
+          `(${service.safeCast(
+            'price',
+            'numeric',
+          )} = ANY($3::numeric[])) AND (content->>'name' = $4))`,
+      );
+      expect(params).toEqual(['2024-01-01T00:00:00.000Z', 20, [5, 10], 'Acme']);
+    });
+
+    it('should only cast stored values that look like numbers or dates', () => {
+      const pattern = (type: 'numeric' | 'timestamptz') =>
+        new RegExp(service.safeCast('price', type).match(/~ '(.*)' THEN/)[1]);
+
+      expect(['12', ' -3.5 ', '1e3'].every(value => pattern('numeric').test(value))).toBe(true);
+      expect(['cheap', '12 EUR', ''].some(value => pattern('numeric').test(value))).toBe(false);
+      expect(
+        [
+          '2024-01-31',
+          '2024-01-31T23:59:59.123Z',
+          '2024-01-31 10:00+01:00',
+          '2024-02-29',
+          '2000-02-29',
+          '2023-04-30',
+        ].every(value => pattern('timestamptz').test(value)),
+      ).toBe(true);
+      expect(
+        [
+          'yesterday',
+          '2024-13-01',
+          '2024-01-32',
+          '2024-02-31',
+          '2023-02-29',
+          '1900-02-29',
+          '2023-04-31',
+          '0000-01-01',
+          '2024-01-31T25:00',
+          '2024-01-31T10:00+16:00',
+          '2024-01-31junk',
+        ].some(value => pattern('timestamptz').test(value)),
+      ).toBe(false);
+    });
+
+    it('should type nested fields by the properties of their object mapping', () => {
+      const mappings = {
+        address: {
+          type: 'object' as const,
+          properties: { zip: { type: 'integer' as const } },
+        },
+        'stats.rating': { type: 'float' as const },
+      };
+      const params: any[] = [];
+      const sql = service.buildWhereClause(
+        { term: { 'address.zip': '10115' }, range: { 'stats.rating': { gte: 4 } } },
+        params,
+        { mappings },
+      );
+
+      expect(sql).toContain(`(${service.safeCast('address.zip', 'numeric')} = $1::numeric)`);
+      expect(sql).toContain(`(${service.safeCast('stats.rating', 'numeric')} >= $2::numeric)`);
+      expect(service.safeCast('address.zip', 'numeric')).toContain(`content->'address'->>'zip'`);
+      expect(params).toEqual([10115, 4]);
+      expect(() =>
+        service.buildWhereClause({ term: { 'address.zip': 'unknown' } }, [], { mappings }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should reject values that do not fit the mapped type', () => {
+      const mappings = {
+        created_at: { type: 'date' as const },
+        price: { type: 'integer' as const },
+      };
+
+      expect(() =>
+        service.buildWhereClause({ range: { created_at: { gte: 'yesterday' } } }, [], { mappings }),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.buildWhereClause({ term: { price: 'cheap' } }, [], { mappings }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should return an empty condition for a missing filter', () => {
+      const params: any[] = [];
+      expect(service.buildWhereClause(undefined, params)).toBe('');
+      expect(params).toEqual([]);
+    });
+  });
+
+  describe('excludeField', () => {
+    it('should drop clauses on the field and keep the rest', () => {
+      const node = service.parse({
+        bool: {
+          must: [{ terms: { brand: ['Acme'] } }, { range: { price: { lt: 20 } } }],
+          should: [{ term: { brand: 'Globex' } }, { term: { brand: 'Initech' } }],
+        },
+      });
+
+      expect(service.excludeField(node, 'brand')).toEqual({
+        type: 'bool',
+        must: [{ type: 'range', field: 'price', lt: 20 }],
+        should: [],
+        mustNot: [],
+      });
+      expect(service.excludeField(service.parse({ term: { brand: 'Acme' } }), 'brand')).toBeNull();
+    });
+  });
+
+  describe('buildConditions', () => {
+    it('should number placeholders from the given start index', () => {
+      const params: any[] = [];
+      const result = service.buildConditions(
+        { bool: { must: [{ term: { field: 'location_text', value: 'Lagos' } }] } },
+        params,
+        2,
+      );
+
+      expect(result.sql).toBe(` AND ((content->>'location_text' ILIKE $2))`);
+      expect(result.nextParamIndex).toBe(3);
+      expect(params).toEqual(['%Lagos%']);
+    });
+  });
+});
@@ -1,243 +1,661 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  BoolFilterNode,
+  ExistsFilterNode,
+  FilterCompileOptions,
+  FilterNode,
+  FilterValue,
+  PrefixFilterNode,
+  RangeFilterNode,
+  TermFilterNode,
+  TermsFilterNode,
+} from './interfaces/filter.interface';
+import { searchAsYouTypeQuery } from '../../analysis/analyzers/search-as-you-type';
+import { FieldMapping } from '../../index/interfaces/index.interface';
 
 export interface FilterResult {
   sql: string;
   nextParamIndex: number;
 }
 
+type ParamBinder = (value: any) => string;
+
+// How a field's text value is compared in SQL
+type ValueKind = 'text' | 'numeric' | 'timestamp';
+
+const FILTER_CLAUSES = ['bool', 'term', 'terms', 'range', 'prefix', 'exists', 'missing'];
+
+const RANGE_OPERATORS: Record<string, string> = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+// Materialized boolean columns (generated from content) that have their own indexes
+const MATERIALIZED_BOOLEANS = ['is_active', 'is_verified', 'is_blocked'];
+
+// Fields that use ILIKE matching for partial text search
+const LIKE_FIELDS = [
+  'location_text',
+  'description',
+  'tags',
+  'profile',
+  'name',
+  'title',
+  'category_name',
+  'sub_category_name',
+];
+
+// Values that are safe to cast, so one malformed document cannot fail a whole query
+const NUMERIC_PATTERN = '^\\s*-?[0-9]+(\\.[0-9]+)?([eE][-+]?[0-9]+)?\\s*$';
+// An ISO calendar date with an optional time and zone, checked as far as the cast
+// would be: days per month, February 29th in leap years only, no year 0 and zone
+// offsets up to 15:59
+const YEAR = '([0-9]{3}[1-9]|[0-9]{2}[1-9]0|[0-9][1-9]00|[1-9]000)';
+const LEAP_YEAR = '([0-9]{2}(0[48]|[2468][048]|[13579][26])|(0[48]|[2468][048]|[13579][26])00)';
+const DATE_PATTERN =
+  `^\\s*(${YEAR}-((0[13578]|1[02])-(0[1-9]|[12][0-9]|3[01])|(0[469]|11)-(0[1-9]|[12][0-9]|30)` +
+  `|02-(0[1-9]|1[0-9]|2[0-8]))|${LEAP_YEAR}-02-29)` +
+  '([T ]([01][0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9](\\.[0-9]+)?)?)?' +
+  '(Z|[-+](0[0-9]|1[0-5])(:?[0-5][0-9])?)?\\s*$';
+
+// Field path segments may only contain word characters and dashes
+const FIELD_SEGMENT_PATTERN = /^[A-Za-z0-9_-]+$/;
+const MAX_FIELD_DEPTH = 8;
+
+/**
+ * Parses API filter objects into a typed filter AST and compiles that AST into
+ * parameterized SQL. Values are always bound as `$n` placeholders and field names
+ * are validated before being emitted as JSONB path expressions.
+ */
 @Injectable()
 export class FilterBuilderService {
-  private readonly logger = new Logger(FilterBuilderService.name);
+  /**
+   * Parse a raw filter object into a filter AST
+   *
+   * Accepts `term`, `terms`, `range`, `prefix`, `exists`, `missing` and `bool`
+   * clauses as well as a shorthand map of `{ field: value }` pairs, which is
+   * treated as a conjunction of term (or terms, for array values) filters.
+   */
+  parse(filter: any): FilterNode | null {
+    if (filter === undefined || filter === null) {
+      return null;
+    }
+
+    if (typeof filter !== 'object' || Array.isArray(filter)) {
+      throw new BadRequestException('Filter must be an object');
+    }
+
+    const nodes: FilterNode[] = [];
+
+    for (const [key, value] of Object.entries(filter)) {
+      if (value === undefined) continue;
+
+      switch (key) {
+        case 'bool':
+          nodes.push(this.parseBool(value));
+          break;
+        case 'term':
+          nodes.push(this.parseTerm(value));
+          break;
+        case 'terms':
+          nodes.push(this.parseTerms(value));
+          break;
+        case 'range':
+          nodes.push(...this.parseRange(value));
+          break;
+        case 'prefix':
+          nodes.push(this.parsePrefix(value));
+          break;
+        case 'exists':
+          nodes.push(this.parseExists(value));
+          break;
+        case 'missing':
+          nodes.push({ type: 'bool', must: [], should: [], mustNot: [this.parseExists(value)] });
+          break;
+        default:
+          if (Array.isArray(value)) {
+            nodes.push(this.createTermsNode(key, value));
+            break;
+          }
+          if (value !== null && typeof value === 'object') {
+            throw new BadRequestException(`Unsupported filter clause: ${key}`);
+          }
+          nodes.push(this.createTermNode(key, value));
+      }
+    }
+
+    if (nodes.length === 0) return null;
+    if (nodes.length === 1) return nodes[0];
+
+    return { type: 'bool', must: nodes, should: [], mustNot: [] };
+  }
+
+  /**
+   * Compile a filter AST into a SQL condition, appending bound values to params.
+   * Placeholders continue numbering from the params already present.
+   */
+  compile(node: FilterNode | null, params: any[], options: FilterCompileOptions = {}): string {
+    if (!node) return '';
+
+    const bind: ParamBinder = value => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    return this.compileNode(node, bind, options);
+  }
+
+  /**
+   * Parse and compile a raw filter object in one step
+   */
+  buildWhereClause(filter: any, params: any[], options: FilterCompileOptions = {}): string {
+    return this.compile(this.parse(filter), params, options);
+  }
 
   /**
    * Build filter conditions from filter object
+   *
+   * Returns an ` AND (...)` fragment whose placeholders start at startIndex,
+   * for callers that prepend their own parameters afterwards.
    */
   buildConditions(filter: any, params: any[], startIndex: number): FilterResult {
-    if (!filter) {
-      return { sql: '', nextParamIndex: startIndex };
+    const node = this.parse(filter);
+    const offset = startIndex - 1 - params.length;
+
+    const bind: ParamBinder = value => {
+      params.push(value);
+      return `$${params.length + offset}`;
+    };
+
+    const condition = node ? this.compileNode(node, bind, {}) : '';
+
+    return {
+      sql: condition ? ` AND ${condition}` : '',
+      nextParamIndex: params.length + offset + 1,
+    };
+  }
+
+  /**
+   * Build a JSONB text extraction expression for a (possibly nested) field.
+   * With asJson the leaf is extracted as jsonb instead of text.
+   */
+  fieldReference(field: string, tableAlias?: string, asJson = false): string {
+    const segments = this.validateField(field);
+    const column = tableAlias ? `${tableAlias}.content` : 'content';
+    const parents = segments.slice(0, -1).map(segment => `->${this.quoteLiteral(segment)}`);
+    const leaf = `${asJson ? '->' : '->>'}${this.quoteLiteral(segments[segments.length - 1])}`;
+
+    return `${column}${parents.join('')}${leaf}`;
+  }
+
+  /**
+   * Cast a field to numeric or timestamptz, yielding NULL for values that do not
+   * look castable instead of failing the query. Used by aggregations and sorting.
+   */
+  safeCast(field: string, type: 'numeric' | 'timestamptz', tableAlias?: string): string {
+    const ref = this.fieldReference(field, tableAlias);
+    const pattern = type === 'numeric' ? NUMERIC_PATTERN : DATE_PATTERN;
+    return `(CASE WHEN ${ref} ~ '${pattern}' THEN (${ref})::${type} END)`;
+  }
+
+  /**
+   * Remove the clauses that target a field from a filter AST, as used by
+   * disjunctive facets. `should` groups are only dropped when every branch targets
+   * the field, so unrelated alternatives keep their meaning.
+   */
+  excludeField(node: FilterNode | null, field: string): FilterNode | null {
+    if (!node) return null;
+
+    if (node.type !== 'bool') {
+      return node.field === field ? null : node;
+    }
+
+    const must = node.must.map(child => this.excludeField(child, field)).filter(Boolean);
+    const mustNot = node.mustNot.map(child => this.excludeField(child, field)).filter(Boolean);
+    const shouldRemaining = node.should.map(child => this.excludeField(child, field));
+    const should = shouldRemaining.every(child => child === null) ? [] : node.should;
+
+    if (must.length + should.length + mustNot.length === 0) return null;
+
+    return { type: 'bool', must, should, mustNot };
+  }
+
+  private parseBool(bool: any): BoolFilterNode {
+    if (!bool || typeof bool !== 'object' || Array.isArray(bool)) {
+      throw new BadRequestException('bool filter must be an object');
     }
 
-    if (filter.bool) {
-      return this.buildBoolFilter(filter.bool, params, startIndex);
+    return {
+      type: 'bool',
+      must: this.parseClauseList(bool.must),
+      should: this.parseClauseList(bool.should),
+      mustNot: this.parseClauseList(bool.must_not),
+    };
+  }
+
+  private parseClauseList(clauses: any): FilterNode[] {
+    if (clauses === undefined || clauses === null) return [];
+
+    const list = Array.isArray(clauses) ? clauses : [clauses];
+    return list.map(clause => {
+      const keys = clause && typeof clause === 'object' ? Object.keys(clause) : [];
+      if (keys.length === 0 || keys.some(key => !FILTER_CLAUSES.includes(key))) {
+        throw new BadRequestException(
+          `Unsupported filter clause: ${
+            keys.length > 0 ? keys.join(', ') : JSON.stringify(clause)
+          }`,
+        );
+      }
+      return this.parse(clause);
+    });
+  }
+
+  private parseTerm(term: any): TermFilterNode {
+    if (!term || typeof term !== 'object') {
+      throw new BadRequestException('term filter must be an object');
     }
 
-    if (filter.term) {
-      return this.buildTermFilter(filter.term, params, startIndex);
+    // Extended format: { field: 'is_active', value: true }
+    if (typeof term.field === 'string' && term.value !== undefined) {
+      return this.createTermNode(term.field, term.value);
     }
 
-    if (filter.range) {
-      return this.buildRangeFilter(filter.range, params, startIndex);
+    // Standard format: { is_active: true } or { is_active: { value: true } }
+    const entries = Object.entries(term);
+    if (entries.length !== 1) {
+      throw new BadRequestException('term filter must target exactly one field');
     }
 
-    throw new Error(`Unsupported filter type: ${Object.keys(filter).join(', ')}`);
+    const [field, raw] = entries[0];
+    const value = raw !== null && typeof raw === 'object' ? (raw as any).value : raw;
+    return this.createTermNode(field, value);
   }
 
-  /**
-   * Build boolean filter with must/should/must_not clauses
-   */
-  private buildBoolFilter(boolFilter: any, params: any[], startIndex: number): FilterResult {
-    const boolClauses: string[] = [];
-    let paramIndex = startIndex;
-
-    // Process MUST clauses (AND conditions)
-    if (boolFilter.must && Array.isArray(boolFilter.must)) {
-      for (const mustClause of boolFilter.must) {
-        const clauseResult = this.buildSingleFilterClause(mustClause, params, paramIndex);
-        if (clauseResult.sql) {
-          boolClauses.push(clauseResult.sql);
-          paramIndex = clauseResult.nextParamIndex;
-        }
-      }
+  private parseTerms(terms: any): TermsFilterNode {
+    if (!terms || typeof terms !== 'object' || Array.isArray(terms)) {
+      throw new BadRequestException('terms filter must be an object');
     }
 
-    // Process SHOULD clauses (OR conditions)
-    if (boolFilter.should && Array.isArray(boolFilter.should)) {
-      const shouldClauses: string[] = [];
-      for (const shouldClause of boolFilter.should) {
-        const clauseResult = this.buildSingleFilterClause(shouldClause, params, paramIndex);
-        if (clauseResult.sql) {
-          shouldClauses.push(clauseResult.sql);
-          paramIndex = clauseResult.nextParamIndex;
-        }
-      }
-      if (shouldClauses.length > 0) {
-        boolClauses.push(`(${shouldClauses.join(' OR ')})`);
-      }
+    // Extended format: { field: 'category', values: ['a', 'b'] }
+    if (typeof terms.field === 'string' && terms.values !== undefined) {
+      return this.createTermsNode(terms.field, terms.values);
+    }
+
+    // Standard format: { category: ['a', 'b'] }
+    const entries = Object.entries(terms);
+    if (entries.length !== 1) {
+      throw new BadRequestException('terms filter must target exactly one field');
+    }
+
+    const [field, values] = entries[0];
+    return this.createTermsNode(field, values);
+  }
+
+  private parsePrefix(prefix: any): PrefixFilterNode {
+    if (!prefix || typeof prefix !== 'object' || Array.isArray(prefix)) {
+      throw new BadRequestException('prefix filter must be an object');
+    }
+
+    // Extended format: { field: 'sku', value: 'AB-' }
+    if (typeof prefix.field === 'string' && prefix.value !== undefined) {
+      return this.createPrefixNode(prefix.field, prefix.value);
+    }
+
+    // Standard format: { sku: 'AB-' } or { sku: { value: 'AB-' } }
+    const entries = Object.entries(prefix);
+    if (entries.length !== 1) {
+      throw new BadRequestException('prefix filter must target exactly one field');
+    }
+
+    const [field, raw] = entries[0];
+    const value = raw !== null && typeof raw === 'object' ? (raw as any).value : raw;
+    return this.createPrefixNode(field, value);
+  }
+
+  private parseExists(exists: any): ExistsFilterNode {
+    if (!exists || typeof exists.field !== 'string') {
+      throw new BadRequestException('exists and missing filters require a field');
+    }
+
+    return { type: 'exists', field: this.stripKeyword(exists.field) };
+  }
+
+  private parseRange(range: any): RangeFilterNode[] {
+    if (!range || typeof range !== 'object') {
+      throw new BadRequestException('range filter must be an object');
+    }
+
+    // Extended format: { field: 'price', gte: 100 }
+    if (typeof range.field === 'string') {
+      const { field, ...bounds } = range;
+      return [this.createRangeNode(field, bounds)];
+    }
+
+    // Standard format: { price: { gte: 100 } }
+    return Object.entries(range).map(([field, bounds]) => this.createRangeNode(field, bounds));
+  }
+
+  private createTermNode(field: string, value: any): TermFilterNode {
+    this.validateValue(field, value);
+
+    const baseField = this.stripKeyword(field);
+
+    return baseField !== field
+      ? { type: 'term', field: baseField, value, exact: true }
+      : { type: 'term', field: baseField, value };
+  }
+
+  private createTermsNode(field: string, values: any): TermsFilterNode {
+    if (!Array.isArray(values)) {
+      throw new BadRequestException(`terms filter on ${field} must be an array`);
+    }
+    values.forEach(value => this.validateValue(field, value));
+
+    return { type: 'terms', field: this.stripKeyword(field), values };
+  }
+
+  private createPrefixNode(field: string, value: any): PrefixFilterNode {
+    if (typeof value !== 'string' || value.length === 0) {
+      throw new BadRequestException(`prefix filter on ${field} must be a non-empty string`);
+    }
+
+    return { type: 'prefix', field: this.stripKeyword(field), value };
+  }
+
+  private createRangeNode(field: string, bounds: any): RangeFilterNode {
+    if (!bounds || typeof bounds !== 'object') {
+      throw new BadRequestException(`range filter on ${field} must specify bounds`);
     }
 
-    // Process MUST_NOT clauses (NOT conditions)
-    if (boolFilter.must_not && Array.isArray(boolFilter.must_not)) {
-      for (const mustNotClause of boolFilter.must_not) {
-        const clauseResult = this.buildSingleFilterClause(mustNotClause, params, paramIndex);
-        if (clauseResult.sql) {
-          boolClauses.push(`NOT (${clauseResult.sql})`);
-          paramIndex = clauseResult.nextParamIndex;
-        }
+    const node: RangeFilterNode = { type: 'range', field: this.stripKeyword(field) };
+    for (const [op, value] of Object.entries(bounds)) {
+      if (!(op in RANGE_OPERATORS)) {
+        throw new BadRequestException(`Unsupported range operator: ${op}`);
       }
+      this.validateValue(field, value);
+      node[op] = value as FilterValue;
     }
 
-    // Combine all bool clauses with AND
-    const sql = boolClauses.length > 0 ? ` AND (${boolClauses.join(' AND ')})` : '';
+    if (Object.keys(RANGE_OPERATORS).every(op => node[op] === undefined)) {
+      throw new BadRequestException(`range filter on ${field} must specify at least one bound`);
+    }
 
-    return { sql, nextParamIndex: paramIndex };
+    return node;
   }
 
-  /**
-   * Build single filter clause
-   */
-  private buildSingleFilterClause(clause: any, params: any[], paramIndex: number): FilterResult {
-    if (clause.term) {
-      return this.buildTermFilter(clause.term, params, paramIndex);
+  private compileNode(node: FilterNode, bind: ParamBinder, options: FilterCompileOptions): string {
+    switch (node.type) {
+      case 'term':
+        return this.compileTerm(node, bind, options);
+      case 'terms':
+        return this.compileTerms(node, bind, options);
+      case 'range':
+        return this.compileRange(node, bind, options);
+      case 'prefix':
+        return this.compilePrefix(node, bind, options);
+      case 'exists':
+        return `(${this.fieldReference(node.field, options.tableAlias)} IS NOT NULL)`;
+      case 'bool':
+        return this.compileBool(node, bind, options);
+    }
+  }
+
+  private compileBool(node: BoolFilterNode, bind: ParamBinder, options: FilterCompileOptions) {
+    const clauses: string[] = [];
+
+    for (const child of node.must) {
+      const sql = this.compileNode(child, bind, options);
+      if (sql) clauses.push(sql);
+    }
+
+    const shouldClauses = node.should
+      .map(child => this.compileNode(child, bind, options))
+      .filter(Boolean);
+    if (shouldClauses.length > 0) {
+      clauses.push(`(${shouldClauses.join(' OR ')})`);
+    }
+
+    for (const child of node.mustNot) {
+      const sql = this.compileNode(child, bind, options);
+      if (sql) clauses.push(`NOT ${sql}`);
+    }
+
+    return clauses.length > 0 ? `(${clauses.join(' AND ')})` : '';
+  }
+
+  private compileTerm(node: TermFilterNode, bind: ParamBinder, options: FilterCompileOptions) {
+    const { field, value } = node;
+
+    if (
+      options.materializedColumns &&
+      typeof value === 'boolean' &&
+      MATERIALIZED_BOOLEANS.includes(field)
+    ) {
+      const column = options.tableAlias ? `${options.tableAlias}.${field}` : field;
+      return `(${column} IS NULL OR ${column} = ${bind(value)})`;
+    }
+
+    const fieldRef = this.fieldReference(field, options.tableAlias);
+    const kind = this.mappedKind(field, options);
+
+    if (kind !== 'text') {
+      return `(${this.castField(field, kind, options)} = ${this.bindTyped(
+        node.field,
+        value,
+        kind,
+        bind,
+      )})`;
+    }
+
+    if (typeof value === 'string' && !node.exact && this.isPartialTextField(field, options)) {
+      return `(${fieldRef} ILIKE ${bind(`%${this.escapeLike(value)}%`)})`;
+    }
+
+    return `(${fieldRef} = ${bind(String(value))})`;
+  }
+
+  private compileTerms(node: TermsFilterNode, bind: ParamBinder, options: FilterCompileOptions) {
+    if (node.values.length === 0) {
+      return '(FALSE)';
+    }
+
+    const fieldRef = this.fieldReference(node.field, options.tableAlias);
+    const kind = this.mappedKind(node.field, options);
+
+    if (kind === 'text') {
+      return `(${fieldRef} = ANY(${bind(node.values.map(String))}::text[]))`;
     }
 
-    if (clause.range) {
-      return this.buildRangeFilter(clause.range, params, paramIndex);
+    const values = node.values.map(value => this.normalizeValue(node.field, value, kind));
+    const arrayType = kind === 'numeric' ? 'numeric[]' : 'timestamptz[]';
+    return `(${this.castField(node.field, kind, options)} = ANY(${bind(values)}::${arrayType}))`;
+  }
+
+  private compileRange(node: RangeFilterNode, bind: ParamBinder, options: FilterCompileOptions) {
+    const fieldRef = this.fieldReference(node.field, options.tableAlias);
+    const clauses: string[] = [];
+
+    for (const [op, operator] of Object.entries(RANGE_OPERATORS)) {
+      const value = node[op];
+      if (value === undefined) continue;
+
+      // Unmapped fields fall back to comparing numbers numerically and everything else as text
+      const kind = this.mappedKind(node.field, options, typeof value === 'number');
+
+      if (kind === 'text') {
+        clauses.push(`${fieldRef} ${operator} ${bind(String(value))}`);
+      } else {
+        clauses.push(
+          `${this.castField(node.field, kind, options)} ${operator} ${this.bindTyped(
+            node.field,
+            value,
+            kind,
+            bind,
+          )}`,
+        );
+      }
     }
 
-    if (clause.bool) {
-      return this.buildBoolFilter(clause.bool, params, paramIndex);
+    return `(${clauses.join(' AND ')})`;
+  }
+
+  private compilePrefix(node: PrefixFilterNode, bind: ParamBinder, options: FilterCompileOptions) {
+    if (this.fieldMapping(node.field, options)?.type === 'search_as_you_type') {
+      return this.compileGramPrefix(node, bind, options);
     }
 
-    this.logger.warn(`Unsupported filter clause type: ${Object.keys(clause).join(', ')}`);
-    return { sql: '', nextParamIndex: paramIndex };
+    const fieldRef = this.fieldReference(node.field, options.tableAlias);
+    const operator = this.isPartialTextField(node.field, options) ? 'ILIKE' : 'LIKE';
+
+    return `(${fieldRef} ${operator} ${bind(`${this.escapeLike(node.value)}%`)})`;
   }
 
   /**
-   * Build term filter for exact matches
+   * Prefixes of search_as_you_type fields are looked up in the grams precomputed
+   * for their _prefix and _3gram subfields instead of scanning the content. A value
+   * without any word (only spaces or punctuation) has no grams and matches nothing.
    */
-  private buildTermFilter(termFilter: any, params: any[], paramIndex: number): FilterResult {
-    let field: string;
-    let value: any;
-
-    // Handle both formats:
-    // Standard: { field_name: value }
-    // Extended: { field: 'field_name', value: value }
-    if (termFilter.field && termFilter.value !== undefined) {
-      // Extended format: { field: 'is_active', value: true }
-      field = termFilter.field;
-      value = termFilter.value;
-    } else {
-      // Standard format: { is_active: true }
-      const [f, v] = Object.entries(termFilter)[0];
-      field = f;
-      value = v;
-    }
-
-    const fieldRef = this.getFieldReference(field);
-
-    // Fields that should use LIKE matching for partial text search
-    const likeFields = [
-      'location_text',
-      'description',
-      'tags',
-      'profile',
-      'name',
-      'title',
-      'category_name',
-      'sub_category_name',
-    ];
-
-    let sql: string;
-    if (likeFields.includes(field) && typeof value === 'string') {
-      // Use ILIKE for text fields to enable partial matching
-      params.push(`%${value}%`);
-      sql = `${fieldRef} ILIKE $${paramIndex}`;
-    } else {
-      // Use exact match for boolean, numeric, and other fields
-      params.push(value);
-      sql = `${fieldRef} = $${paramIndex}::text`;
+  private compileGramPrefix(
+    node: PrefixFilterNode,
+    bind: ParamBinder,
+    options: FilterCompileOptions,
+  ): string {
+    const { prefix, shingles } = searchAsYouTypeQuery(node.value);
+    if (!prefix) {
+      return '(FALSE)';
     }
 
-    return { sql, nextParamIndex: paramIndex + 1 };
+    const lookups = [{ subfield: '_prefix', grams: [prefix] }];
+    if (shingles.length > 0) {
+      lookups.push({ subfield: '_3gram', grams: shingles });
+    }
+
+    const table = options.tableAlias || 'documents';
+    const clauses = lookups.map(
+      ({ subfield, grams }) =>
+        `EXISTS (SELECT 1 FROM document_grams g WHERE g.index_name = ${table}.index_name` +
+        ` AND g.document_id = ${table}.document_id` +
+        ` AND g.field = ${bind(`${node.field}.${subfield}`)}` +
+        ` AND g.grams @> ${bind(grams)}::text[])`,
+    );
+    return `(${clauses.join(' AND ')})`;
   }
 
   /**
-   * Build range filter for numeric/date comparisons
+   * Resolve how a field is compared from the index mappings. Unmapped fields are
+   * compared as text unless the caller opts into numeric comparison.
    */
-  private buildRangeFilter(rangeFilter: any, params: any[], startIndex: number): FilterResult {
-    const rangeClauses: string[] = [];
-    let paramIndex = startIndex;
-
-    Object.entries(rangeFilter).forEach(([field, conditions]) => {
-      Object.entries(conditions as any).forEach(([op, value]) => {
-        const operator = this.getRangeOperator(op);
-        const fieldRef = this.getFieldReference(field);
-
-        params.push(value);
-        if (typeof value === 'number') {
-          rangeClauses.push(`(${fieldRef})::numeric ${operator} $${paramIndex}::numeric`);
-        } else {
-          rangeClauses.push(`${fieldRef} ${operator} $${paramIndex}`);
-        }
-        paramIndex++;
-      });
-    });
-
-    const sql = rangeClauses.length > 0 ? rangeClauses.join(' AND ') : '';
-    return { sql, nextParamIndex: paramIndex };
+  private mappedKind(field: string, options: FilterCompileOptions, numeric = false): ValueKind {
+    const type = this.fieldMapping(field, options)?.type;
+
+    switch (type) {
+      case 'integer':
+      case 'float':
+        return 'numeric';
+      case 'date':
+        return 'timestamp';
+      case undefined:
+        return numeric ? 'numeric' : 'text';
+      default:
+        return 'text';
+    }
   }
 
   /**
-   * Get field reference handling .keyword subfields
+   * Text-mapped fields (and well-known free-text fields when unmapped) are matched
+   * case-insensitively and partially rather than exactly
    */
-  private getFieldReference(field: string): string {
-    // Handle .keyword subfields by extracting the base field name
-    const baseField = field.includes('.keyword') ? field.split('.')[0] : field;
-    return `content->>'${baseField}'`;
+  private isPartialTextField(field: string, options: FilterCompileOptions): boolean {
+    const type = this.fieldMapping(field, options)?.type;
+    return type ? type === 'text' : LIKE_FIELDS.includes(field);
   }
 
   /**
-   * Map range operators to SQL operators
+   * The mapping of a field: auto-detected mappings key nested fields by their dot path,
+   * explicit ones nest them under the properties of object fields
    */
-  private getRangeOperator(op: string): string {
-    const operatorMap: Record<string, string> = {
-      gte: '>=',
-      gt: '>',
-      lte: '<=',
-      lt: '<',
-      eq: '=',
-    };
+  private fieldMapping(field: string, options: FilterCompileOptions): FieldMapping | undefined {
+    const mappings = options.mappings;
+    if (!mappings) return undefined;
+    if (mappings[field]) return mappings[field];
+
+    let properties = mappings;
+    let mapping: FieldMapping | undefined;
+    for (const segment of field.split('.')) {
+      mapping = properties?.[segment];
+      if (!mapping) return undefined;
+      properties = mapping.properties;
+    }
+    return mapping;
+  }
 
-    return operatorMap[op] || '=';
+  private castField(field: string, kind: ValueKind, options: FilterCompileOptions): string {
+    return this.safeCast(field, kind === 'numeric' ? 'numeric' : 'timestamptz', options.tableAlias);
+  }
+
+  private bindTyped(field: string, value: FilterValue, kind: ValueKind, bind: ParamBinder) {
+    const placeholder = bind(this.normalizeValue(field, value, kind));
+    return kind === 'numeric' ? `${placeholder}::numeric` : `${placeholder}::timestamptz`;
   }
 
   /**
-   * Combine multiple filter clauses
+   * Validate a filter value against the field's mapped type and convert it to the
+   * representation bound for the cast. Numeric dates are treated as epoch millis.
    */
-  combineClauses(
-    mustClauses: FilterResult[],
-    shouldClauses: FilterResult[],
-    mustNotClauses: FilterResult[],
-  ): FilterResult {
-    const allClauses: string[] = [];
-    let maxParamIndex = 0;
-
-    // Add must clauses (AND)
-    mustClauses.forEach(clause => {
-      if (clause.sql) {
-        allClauses.push(clause.sql);
-        maxParamIndex = Math.max(maxParamIndex, clause.nextParamIndex);
+  private normalizeValue(field: string, value: FilterValue, kind: ValueKind): FilterValue {
+    if (kind === 'numeric') {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (typeof value === 'boolean' || value === '' || !Number.isFinite(number)) {
+        throw new BadRequestException(`Filter value for ${field} must be numeric`);
       }
-    });
+      return number;
+    }
 
-    // Add should clauses (OR)
-    const shouldSqls = shouldClauses.filter(clause => clause.sql).map(clause => clause.sql);
-    if (shouldSqls.length > 0) {
-      allClauses.push(`(${shouldSqls.join(' OR ')})`);
-      shouldClauses.forEach(clause => {
-        maxParamIndex = Math.max(maxParamIndex, clause.nextParamIndex);
-      });
+    const date = typeof value === 'boolean' ? new Date(NaN) : new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Filter value for ${field} must be a valid date`);
     }
+    return date.toISOString();
+  }
 
-    // Add must not clauses (NOT)
-    mustNotClauses.forEach(clause => {
-      if (clause.sql) {
-        allClauses.push(`NOT (${clause.sql})`);
-        maxParamIndex = Math.max(maxParamIndex, clause.nextParamIndex);
-      }
-    });
+  private stripKeyword(field: string): string {
+    const baseField = field.endsWith('.keyword') ? field.slice(0, -'.keyword'.length) : field;
+    this.validateField(baseField);
+    return baseField;
+  }
+
+  private validateField(field: string): string[] {
+    if (typeof field !== 'string' || field.length === 0) {
+      throw new BadRequestException('Filter field name is required');
+    }
+
+    const segments = field.split('.');
+    if (
+      segments.length > MAX_FIELD_DEPTH ||
+      segments.some(segment => !FIELD_SEGMENT_PATTERN.test(segment))
+    ) {
+      throw new BadRequestException(`Invalid filter field: ${field}`);
+    }
+
+    return segments;
+  }
+
+  private validateValue(field: string, value: any): void {
+    if (!['string', 'number', 'boolean'].includes(typeof value)) {
+      throw new BadRequestException(`Invalid filter value for ${field}`);
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new BadRequestException(`Invalid filter value for ${field}`);
+    }
+  }
+
+  private quoteLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
 
-    const sql = allClauses.length > 0 ? ` AND (${allClauses.join(' AND ')})` : '';
-    return { sql, nextParamIndex: maxParamIndex };
+  private escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, '\\$&');
   }
 }
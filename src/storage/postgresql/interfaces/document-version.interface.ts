@@ -0,0 +1,30 @@
+export interface DocumentVersion {
+  /**
+   * Incremented by every write, or set by the writer with external versioning
+   */
+  version: number;
+
+  /**
+   * Position of the last write in the order of all writes to documents
+   */
+  seqNo: number;
+}
+
+/**
+ * Condition a write must meet against the stored document
+ */
+export interface VersionPrecondition {
+  ifVersion?: number;
+  ifSeqNo?: number;
+
+  /**
+   * External versioning: the write carries its own version, which must be higher
+   * than the stored one
+   */
+  externalVersion?: number;
+
+  /**
+   * Only write if there is no document yet
+   */
+  ifAbsent?: boolean;
+}
@@ -0,0 +1,63 @@
+/**
+ * Normalized facet requests computed over the full filtered result set.
+ *
+ * Raw `facets` entries from the API (field names or facet objects) are parsed
+ * into these by FacetBuilderService.
+ */
+export type DateInterval = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+interface BaseFacetRequest {
+  /**
+   * Name of the facet in the response (defaults to the field name)
+   */
+  name: string;
+  field: string;
+  /**
+   * Compute counts without the request's own filters on this field, so
+   * multi-select facet UIs can still show the other options
+   */
+  disjunctive: boolean;
+}
+
+export interface TermsFacetRequest extends BaseFacetRequest {
+  type: 'terms';
+  size: number;
+}
+
+export interface FacetRange {
+  key: string;
+  from?: number | string;
+  to?: number | string;
+}
+
+export interface RangeFacetRequest extends BaseFacetRequest {
+  type: 'range';
+  ranges: FacetRange[];
+}
+
+export interface HistogramFacetRequest extends BaseFacetRequest {
+  type: 'histogram';
+  interval: number;
+}
+
+export interface DateHistogramFacetRequest extends BaseFacetRequest {
+  type: 'date_histogram';
+  interval: DateInterval;
+}
+
+export type FacetRequest =
+  | TermsFacetRequest
+  | RangeFacetRequest
+  | HistogramFacetRequest
+  | DateHistogramFacetRequest;
+
+export interface FacetBucket {
+  key: string;
+  count: number;
+  from?: number | string;
+  to?: number | string;
+}
+
+export interface FacetResult {
+  buckets: FacetBucket[];
+}
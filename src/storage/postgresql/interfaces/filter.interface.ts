@@ -0,0 +1,82 @@
+/**
+ * Typed filter AST shared by search, delete-by-query and document listing.
+ *
+ * Raw `filter` objects coming from the API are parsed into these nodes by
+ * FilterBuilderService and then compiled into parameterized SQL.
+ */
+import { FieldMapping } from '../../../index/interfaces/index.interface';
+
+export type FilterValue = string | number | boolean;
+
+export interface TermFilterNode {
+  type: 'term';
+  field: string;
+  value: FilterValue;
+  /**
+   * Exact comparison even for fields that normally use partial (ILIKE) matching,
+   * e.g. when the filter targets a `.keyword` subfield
+   */
+  exact?: boolean;
+}
+
+export interface RangeFilterNode {
+  type: 'range';
+  field: string;
+  gt?: FilterValue;
+  gte?: FilterValue;
+  lt?: FilterValue;
+  lte?: FilterValue;
+}
+
+export interface TermsFilterNode {
+  type: 'terms';
+  field: string;
+  values: FilterValue[];
+}
+
+export interface PrefixFilterNode {
+  type: 'prefix';
+  field: string;
+  value: string;
+}
+
+/**
+ * Matches documents where the field holds a non-null value.
+ * `missing` filters are parsed as a negated exists node.
+ */
+export interface ExistsFilterNode {
+  type: 'exists';
+  field: string;
+}
+
+export interface BoolFilterNode {
+  type: 'bool';
+  must: FilterNode[];
+  should: FilterNode[];
+  mustNot: FilterNode[];
+}
+
+export type FilterNode =
+  | TermFilterNode
+  | TermsFilterNode
+  | RangeFilterNode
+  | PrefixFilterNode
+  | ExistsFilterNode
+  | BoolFilterNode;
+
+export interface FilterCompileOptions {
+  /**
+   * Use the generated is_active/is_verified/is_blocked columns for boolean terms.
+   * Only enable when the query already depends on those columns existing.
+   */
+  materializedColumns?: boolean;
+  /**
+   * Table alias to prefix column references with (e.g. 'd')
+   */
+  tableAlias?: string;
+  /**
+   * Field mappings of the target index (mappings.properties). Mapped date and
+   * numeric fields are compared as timestamps and numerics rather than text.
+   */
+  mappings?: Record<string, FieldMapping>;
+}
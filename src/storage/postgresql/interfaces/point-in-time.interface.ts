@@ -0,0 +1,21 @@
+/**
+ * A point-in-time (PIT) keeps documents created after it was opened out of a
+ * search, so cursor pagination does not shift while new documents are indexed.
+ * It does not freeze the documents it includes: updates and deletes made while
+ * paging are visible.
+ */
+export interface PointInTime {
+  id: string;
+  indexName: string;
+  // Database timestamp the PIT was opened at; documents created later are excluded
+  snapshot: string;
+  keepAlive: string;
+  expiresAt: string;
+  // The guarantee a PIT gives: only documents created before the snapshot match
+  consistency: 'created_before_snapshot';
+}
+
+export interface PointInTimeRequest {
+  id?: string;
+  keepAlive?: string;
+}
@@ -0,0 +1,35 @@
+/**
+ * Normalized sort keys for search results.
+ *
+ * The raw `sort` option (a `"field:desc"` string or a list of sort entries) is
+ * parsed into these by SortBuilderService and compiled into an ORDER BY clause.
+ */
+export type SortOrder = 'asc' | 'desc';
+export type SortMissing = 'first' | 'last';
+
+export interface FieldSortKey {
+  type: 'field';
+  field: string;
+  order: SortOrder;
+  missing: SortMissing;
+}
+
+export interface ScoreSortKey {
+  type: 'score';
+  order: SortOrder;
+}
+
+export interface IdSortKey {
+  type: 'id';
+  order: SortOrder;
+}
+
+export interface GeoDistanceSortKey {
+  type: 'geo_distance';
+  origin: { lat: number; lng: number };
+  latField: string;
+  lngField: string;
+  order: SortOrder;
+}
+
+export type SortKey = FieldSortKey | ScoreSortKey | IdSortKey | GeoDistanceSortKey;
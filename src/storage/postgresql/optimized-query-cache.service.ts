@@ -210,7 +210,8 @@ export class OptimizedQueryCacheService {
       this.extractQueryValue(query.query),
       query.size?.toString() || '10',
       query.from?.toString() || '0',
-      query.sort || '',
+      typeof query.sort === 'string' ? query.sort : JSON.stringify(query.sort ?? ''),
+      JSON.stringify(query.searchAfter ?? ''),
       this.hashFilter(query.filter),
       this.hashFields(query.fields),
     ];
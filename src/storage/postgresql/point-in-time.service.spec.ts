@@ -0,0 +1,67 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { PointInTimeService } from './point-in-time.service';
+
+describe('PointInTimeService', () => {
+  let service: PointInTimeService;
+  let dataSource: { query: jest.Mock };
+
+  beforeEach(async () => {
+    dataSource = {
+      query: jest.fn().mockResolvedValue([{ now: '2025-01-01T00:00:00.123456Z' }]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [PointInTimeService, { provide: DataSource, useValue: dataSource }],
+    }).compile();
+
+    service = module.get<PointInTimeService>(PointInTimeService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return null when no point-in-time is requested', async () => {
+    expect(await service.resolve('businesses')).toBeNull();
+    expect(dataSource.query).not.toHaveBeenCalled();
+  });
+
+  it('should open a point-in-time at the database time and keep its snapshot when resumed', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+    const opened = await service.resolve('businesses', { keepAlive: '1m' });
+
+    expect(opened).toMatchObject({
+      indexName: 'businesses',
+      snapshot: '2025-01-01T00:00:00.123456Z',
+      expiresAt: '2025-01-01T00:01:00.000Z',
+      consistency: 'created_before_snapshot',
+    });
+
+    jest.setSystemTime(new Date('2025-01-01T00:00:30.000Z'));
+    const resumed = await service.resolve('businesses', { id: opened.id });
+
+    expect(resumed.snapshot).toBe('2025-01-01T00:00:00.123456Z');
+    expect(resumed.expiresAt).toBe('2025-01-01T00:05:30.000Z');
+    expect(dataSource.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject expired, foreign and malformed points-in-time', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+    const { id } = await service.resolve('businesses', { keepAlive: '30s' });
+
+    await expect(service.resolve('products', { id })).rejects.toThrow(BadRequestException);
+    await expect(service.resolve('businesses', { id: 'not-a-pit' })).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.resolve('businesses', { keepAlive: '2d' })).rejects.toThrow(
+      BadRequestException,
+    );
+
+    jest.setSystemTime(new Date('2025-01-01T00:01:00.000Z'));
+    await expect(service.resolve('businesses', { id })).rejects.toThrow(
+      'Point-in-time has expired',
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { PointInTime, PointInTimeRequest } from './interfaces/point-in-time.interface';
+
+const DEFAULT_KEEP_ALIVE = '5m';
+const MAX_KEEP_ALIVE_MS = 24 * 60 * 60 * 1000;
+const KEEP_ALIVE_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+/**
+ * Opens and resolves point-in-time tokens for cursor pagination.
+ *
+ * Tokens are stateless: they encode the index, the snapshot time and an expiry,
+ * and every search that uses one hands back a token with a renewed expiry.
+ *
+ * A point-in-time is not a database snapshot. It only leaves out documents whose
+ * created_at is after the snapshot, which is read from the database clock that
+ * stamps created_at. Documents updated or deleted while paging show their current
+ * content, score and sort values (or are gone), and a document deleted and indexed
+ * again gets a new created_at and drops out.
+ */
+@Injectable()
+export class PointInTimeService {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Open a new point-in-time when the request has no id, otherwise validate the
+   * given one and extend its keep-alive. Returns null when no PIT was requested.
+   */
+  async resolve(
+    indexName: string,
+    request?: PointInTimeRequest | null,
+  ): Promise<PointInTime | null> {
+    if (request === undefined || request === null) return null;
+    if (typeof request !== 'object' || Array.isArray(request)) {
+      throw new BadRequestException('pit must be an object with an optional id and keepAlive');
+    }
+
+    const keepAlive = request.keepAlive ?? DEFAULT_KEEP_ALIVE;
+    const keepAliveMs = this.parseKeepAlive(keepAlive);
+    const now = Date.now();
+
+    let snapshot: string;
+    if (request.id !== undefined) {
+      const decoded = this.decode(request.id);
+      if (decoded.indexName !== indexName) {
+        throw new BadRequestException(`Point-in-time was not opened on index '${indexName}'`);
+      }
+      if (Date.parse(decoded.expiresAt) < now) {
+        throw new BadRequestException('Point-in-time has expired');
+      }
+      snapshot = decoded.snapshot;
+    } else {
+      snapshot = await this.databaseNow();
+    }
+
+    const expiresAt = new Date(now + keepAliveMs).toISOString();
+    return {
+      id: this.encode(indexName, snapshot, expiresAt),
+      indexName,
+      snapshot,
+      keepAlive,
+      expiresAt,
+      consistency: 'created_before_snapshot',
+    };
+  }
+
+  /**
+   * The database's current time to the microsecond, so the snapshot compares with
+   * created_at on the clock that set it
+   */
+  private async databaseNow(): Promise<string> {
+    const [{ now }] = await this.dataSource.query(
+      `SELECT to_char(CURRENT_TIMESTAMP AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS now`,
+    );
+    return now;
+  }
+
+  private encode(indexName: string, snapshot: string, expiresAt: string): string {
+    return Buffer.from(JSON.stringify({ i: indexName, s: snapshot, e: expiresAt })).toString(
+      'base64url',
+    );
+  }
+
+  private decode(id: any): Pick<PointInTime, 'indexName' | 'snapshot' | 'expiresAt'> {
+    try {
+      const { i, s, e } = JSON.parse(Buffer.from(String(id), 'base64url').toString('utf8'));
+      if (typeof i === 'string' && !isNaN(Date.parse(s)) && !isNaN(Date.parse(e))) {
+        return { indexName: i, snapshot: s, expiresAt: e };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new BadRequestException('Invalid point-in-time id');
+  }
+
+  private parseKeepAlive(keepAlive: any): number {
+    const match = typeof keepAlive === 'string' ? keepAlive.match(/^(\d+)([smh])$/) : null;
+    const ms = match ? parseInt(match[1], 10) * KEEP_ALIVE_UNITS[match[2]] : 0;
+    if (ms <= 0 || ms > MAX_KEEP_ALIVE_MS) {
+      throw new BadRequestException(
+        'pit.keepAlive must be a duration such as "30s", "5m" or "1h" (at most 24h)',
+      );
+    }
+    return ms;
+  }
+}
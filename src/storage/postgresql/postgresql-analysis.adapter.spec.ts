@@ -0,0 +1,50 @@
+import { AnalyzerRegistryService } from '../../analysis/analyzer-registry.service';
+import { PostgreSQLAnalysisAdapter } from './postgresql-analysis.adapter';
+
+describe('PostgreSQLAnalysisAdapter', () => {
+  const adapter = new PostgreSQLAnalysisAdapter(new AnalyzerRegistryService());
+
+  describe('generateGraphTsQuery', () => {
+    it('should match any alternative of a position and multi-word ones as phrases', () => {
+      expect(adapter.generateGraphTsQuery([[['cheap']], [['credit', 'union'], ['bank']]])).toBe(
+        "'cheap' & (('credit' <-> 'union') | 'bank')",
+      );
+    });
+
+    it('should escape quotes in tokens', () => {
+      expect(adapter.generateGraphTsQuery([[["o'neil"]]])).toBe("'o''neil'");
+    });
+  });
+
+  describe('generateFieldTsVector', () => {
+    it('should weight the tokens by their field', () => {
+      expect(adapter.generateFieldTsVector('name', ['quick', 'fox'])).toBe(
+        "setweight(to_tsvector('english', 'quick fox'), 'A')",
+      );
+    });
+
+    it('should use the text search configuration of the analyzer', () => {
+      expect(adapter.generateFieldTsVector('description', ['école', 'ọjà'], 'french')).toBe(
+        "setweight(to_tsvector('french', 'école ọjà'), 'D')",
+      );
+    });
+  });
+
+  describe('generateTsVector', () => {
+    it('should index each field with the configuration of its analyzer', () => {
+      const expression = adapter.generateTsVector(
+        { name: 'Les écoles', description: 'Ọjà nla' },
+        {
+          searchableAttributes: [],
+          defaultAnalyzer: 'standard',
+          fieldAnalyzers: { name: 'french', description: 'yoruba' },
+        },
+      );
+
+      expect(expression).toBe(
+        "setweight(to_tsvector('french', 'écol'), 'A') || " +
+          "setweight(to_tsvector('simple_unaccent', 'oja nla'), 'D')",
+      );
+    });
+  });
+});
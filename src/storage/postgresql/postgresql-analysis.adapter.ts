@@ -1,12 +1,16 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { AnalyzerRegistryService } from '../../analysis/analyzer-registry.service';
 import { IndexConfig } from '../../common/interfaces/index.interface';
+import { TokenGraph } from '../../analysis/token-graph';
+import { DEFAULT_TEXT_SEARCH_CONFIG } from '../../analysis/analyzers/language-analyzers';
 
 export interface AnalyzedField {
   field: string;
   tokens: string[];
   weight?: 'A' | 'B' | 'C' | 'D';
   boost?: number;
+  // PostgreSQL text search configuration of the field's analyzer
+  config?: string;
 }
 
 export interface BusinessFieldWeights {
@@ -43,12 +47,13 @@ export class PostgreSQLAnalysisAdapter {
     document: Record<string, any>,
     indexConfig: IndexConfig,
     customWeights?: BusinessFieldWeights,
+    indexName?: string,
   ): string {
     try {
       const fieldWeights = { ...this.defaultBusinessWeights, ...customWeights };
 
       // Process document fields using existing analyzers
-      const analyzedFields = this.processDocumentFields(document, indexConfig);
+      const analyzedFields = this.processDocumentFields(document, indexConfig, indexName);
 
       this.logger.debug(
         `Processing document with ${analyzedFields.length} analyzed fields for tsvector generation`,
@@ -62,11 +67,26 @@ export class PostgreSQLAnalysisAdapter {
   }
 
   /**
-   * Process document fields using existing analyzer registry
+   * Generate the tsvector expression for already analyzed tokens of one field
+   */
+  generateFieldTsVector(
+    field: string,
+    tokens: string[],
+    config?: string,
+    customWeights?: BusinessFieldWeights,
+  ): string {
+    const fieldWeights = { ...this.defaultBusinessWeights, ...customWeights };
+    return this.buildWeightedTsVector([{ field, tokens, config }], fieldWeights);
+  }
+
+  /**
+   * Process document fields using existing analyzer registry. Custom analyzers
+   * of the index take precedence over built-in analyzers of the same name.
    */
   private processDocumentFields(
     document: Record<string, any>,
     indexConfig: IndexConfig,
+    indexName?: string,
   ): AnalyzedField[] {
     const analyzedFields: AnalyzedField[] = [];
 
@@ -75,7 +95,7 @@ export class PostgreSQLAnalysisAdapter {
         // Determine analyzer based on field type or use default
         const analyzerName = this.getAnalyzerForField(field, indexConfig);
         const analyzer =
-          this.analyzerRegistry.getAnalyzer(analyzerName) ||
+          this.analyzerRegistry.getAnalyzer(analyzerName, indexName) ||
           this.analyzerRegistry.getAnalyzer('standard');
 
         if (analyzer) {
@@ -84,6 +104,7 @@ export class PostgreSQLAnalysisAdapter {
             analyzedFields.push({
               field,
               tokens,
+              config: this.analyzerRegistry.getTextSearchConfig(analyzer),
             });
           }
         }
@@ -97,6 +118,10 @@ export class PostgreSQLAnalysisAdapter {
    * Determine appropriate analyzer for field
    */
   private getAnalyzerForField(field: string, indexConfig?: IndexConfig): string {
+    if (indexConfig?.fieldAnalyzers?.[field]) {
+      return indexConfig.fieldAnalyzers[field];
+    }
+
     // Business-specific field mapping
     const fieldAnalyzerMap: Record<string, string> = {
       tags: 'keyword', // Preserve exact tags
@@ -108,7 +133,7 @@ export class PostgreSQLAnalysisAdapter {
       content: 'standard', // Standard processing for content
     };
 
-    return fieldAnalyzerMap[field] || 'standard';
+    return fieldAnalyzerMap[field] || indexConfig?.defaultAnalyzer || 'standard';
   }
 
   /**
@@ -118,11 +143,12 @@ export class PostgreSQLAnalysisAdapter {
     analyzedFields: AnalyzedField[],
     fieldWeights: BusinessFieldWeights,
   ): string {
-    const weightedTerms: Array<{ term: string; weight: string }> = [];
+    const weightedTerms: Array<{ term: string; weight: string; config: string }> = [];
 
     for (const field of analyzedFields) {
       const fieldWeight = fieldWeights[field.field] || 1.0;
       const postgresWeight = this.mapWeightToPostgreSQL(fieldWeight);
+      const config = field.config || DEFAULT_TEXT_SEARCH_CONFIG;
 
       for (const token of field.tokens) {
         // Clean token for PostgreSQL tsvector format
@@ -131,6 +157,7 @@ export class PostgreSQLAnalysisAdapter {
           weightedTerms.push({
             term: cleanToken,
             weight: postgresWeight,
+            config,
           });
         }
       }
@@ -161,7 +188,7 @@ export class PostgreSQLAnalysisAdapter {
     // Remove special characters that could break tsvector
     const sanitized = token
       .toLowerCase()
-      .replace(/[^\w\-]/g, '') // Keep only word characters and hyphens
+      .replace(/[^\p{L}\p{M}\p{N}_\-]/gu, '') // Keep only letters, digits and hyphens
       .replace(/^-+|-+$/g, '') // Remove leading/trailing hyphens
       .trim();
 
@@ -174,44 +201,49 @@ export class PostgreSQLAnalysisAdapter {
   }
 
   /**
-   * Format weighted terms into PostgreSQL tsvector string
+   * Format weighted terms into PostgreSQL tsvector string, one part per text
+   * search configuration and weight
    */
-  private formatTsVectorString(weightedTerms: Array<{ term: string; weight: string }>): string {
+  private formatTsVectorString(
+    weightedTerms: Array<{ term: string; weight: string; config: string }>,
+  ): string {
     if (weightedTerms.length === 0) {
       return '';
     }
 
-    // Group terms by weight for efficient tsvector format
-    const termsByWeight: Record<string, Set<string>> = {
-      A: new Set(),
-      B: new Set(),
-      C: new Set(),
-      D: new Set(),
-    };
-
-    // Deduplicate terms and group by weight (highest weight wins for duplicates)
-    const termWeights: Record<string, string> = {};
-    for (const { term, weight } of weightedTerms) {
-      if (!termWeights[term] || this.isHigherWeight(weight, termWeights[term])) {
-        termWeights[term] = weight;
+    // Deduplicate terms per configuration (highest weight wins for duplicates)
+    const termWeights = new Map<string, Record<string, string>>();
+    for (const { term, weight, config } of weightedTerms) {
+      const weights = termWeights.get(config) || {};
+      if (!weights[term] || this.isHigherWeight(weight, weights[term])) {
+        weights[term] = weight;
       }
-    }
-
-    // Group terms by their final weights
-    for (const [term, weight] of Object.entries(termWeights)) {
-      termsByWeight[weight].add(term);
+      termWeights.set(config, weights);
     }
 
     // Build tsvector string parts
     const tsvectorParts: string[] = [];
 
-    for (const weight of ['A', 'B', 'C', 'D']) {
-      if (termsByWeight[weight].size > 0) {
-        const terms = Array.from(termsByWeight[weight])
-          .map(term => term.replace(/'/g, "''")) // Escape single quotes
-          .join(' ');
-        if (terms) {
-          tsvectorParts.push(`setweight(to_tsvector('english', '${terms}'), '${weight}')`);
+    for (const [config, weights] of termWeights) {
+      // Group terms by their final weights
+      const termsByWeight: Record<string, Set<string>> = {
+        A: new Set(),
+        B: new Set(),
+        C: new Set(),
+        D: new Set(),
+      };
+      for (const [term, weight] of Object.entries(weights)) {
+        termsByWeight[weight].add(term);
+      }
+
+      for (const weight of ['A', 'B', 'C', 'D']) {
+        if (termsByWeight[weight].size > 0) {
+          const terms = Array.from(termsByWeight[weight])
+            .map(term => term.replace(/'/g, "''")) // Escape single quotes
+            .join(' ');
+          if (terms) {
+            tsvectorParts.push(`setweight(to_tsvector('${config}', '${terms}'), '${weight}')`);
+          }
         }
       }
     }
@@ -269,6 +301,25 @@ export class PostgreSQLAnalysisAdapter {
     return `to_tsquery('english', '(${phraseQuery}) | (${orQuery})')`;
   }
 
+  /**
+   * Generate to_tsquery text matching each position of a token graph by any of
+   * its alternatives, multi-word alternatives as phrases
+   */
+  generateGraphTsQuery(graph: TokenGraph): string {
+    const quote = (token: string) => `'${token.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+
+    return graph
+      .map(position => {
+        const alternatives = position.map(alternative =>
+          alternative.length > 1
+            ? `(${alternative.map(quote).join(' <-> ')})`
+            : quote(alternative[0]),
+        );
+        return alternatives.length > 1 ? `(${alternatives.join(' | ')})` : alternatives[0];
+      })
+      .join(' & ');
+  }
+
   /**
    * Get default business field weights
    */
@@ -51,6 +51,7 @@ export class PostgreSQLDocumentProcessor extends DocumentProcessorService {
         document.source,
         indexConfig,
         options.customFieldWeights,
+        options.indexName,
       );
 
       // Calculate enhanced field lengths for BM25
@@ -0,0 +1,78 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getDataSourceToken, getRepositoryToken } from '@nestjs/typeorm';
+import { PostgreSQLIndexStorageService } from './postgresql-index-storage.service';
+import { Document } from './entities/document.entity';
+import { Index } from './entities/index.entity';
+import { ProcessedDocument } from '../../document/interfaces/document-processor.interface';
+
+describe('PostgreSQLIndexStorageService', () => {
+  let service: PostgreSQLIndexStorageService;
+  let dataSource: { query: jest.Mock };
+
+  const processed = (fields: Record<string, string[]>): ProcessedDocument => ({
+    id: 'doc-1',
+    source: {},
+    fields: Object.fromEntries(
+      Object.entries(fields).map(([field, terms]) => [
+        field,
+        { original: terms.join(' '), terms, termFrequencies: {}, length: terms.length },
+      ]),
+    ),
+    fieldLengths: {},
+  });
+
+  beforeEach(async () => {
+    dataSource = { query: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostgreSQLIndexStorageService,
+        { provide: getDataSourceToken(), useValue: dataSource },
+        { provide: getRepositoryToken(Document), useValue: {} },
+        { provide: getRepositoryToken(Index), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<PostgreSQLIndexStorageService>(PostgreSQLIndexStorageService);
+  });
+
+  describe('storeProcessedDocument', () => {
+    it("should vectorize each field with the text search configuration of the index's analyzer", async () => {
+      dataSource.query
+        .mockResolvedValueOnce([{ configs: { _default: 'french', title: 'simple_unaccent' } }])
+        .mockResolvedValueOnce([]);
+
+      await service.storeProcessedDocument(
+        'recettes',
+        processed({ title: ['crepe', 'sucree'], description: ['recette', 'facile'] }),
+      );
+
+      const [sql, params] = dataSource.query.mock.calls[1];
+      expect(sql).toContain(
+        "setweight(to_tsvector($7::regconfig, $6), 'A') || setweight(to_tsvector($9::regconfig, $8), 'C')",
+      );
+      expect(sql).not.toContain("'english'");
+      expect(params).toEqual([
+        'doc-1',
+        'recettes',
+        expect.any(String),
+        '{}',
+        { title: 3.0, description: 1.5 },
+        'crepe sucree',
+        'simple_unaccent',
+        'recette facile',
+        'french',
+      ]);
+    });
+
+    it('should fall back to english for an index without text search configurations', async () => {
+      dataSource.query.mockResolvedValueOnce([{ configs: null }]).mockResolvedValueOnce([]);
+
+      await service.storeProcessedDocument('legacy', processed({ name: ['acme'] }));
+
+      const [sql, params] = dataSource.query.mock.calls[1];
+      expect(sql).toContain("setweight(to_tsvector($7::regconfig, $6), 'A')");
+      expect(params.slice(5)).toEqual(['acme', 'english']);
+    });
+  });
+});
@@ -13,6 +13,7 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Document } from './entities/document.entity';
 import { Index as IndexEntity } from './entities/index.entity';
 import { InjectDataSource } from '@nestjs/typeorm';
+import { DEFAULT_TEXT_SEARCH_CONFIG } from '../../analysis/analyzers/language-analyzers';
 
 @Injectable()
 export class PostgreSQLIndexStorageService implements IndexStorage {
@@ -83,24 +84,19 @@ export class PostgreSQLIndexStorageService implements IndexStorage {
     const entity = await this.indexRepository.findOne({ where: { indexName: name } });
     if (!entity) return null;
 
+    // Mappings are stored inside the settings column
+    const { mappings, ...settings } = (entity.settings || {}) as Record<string, any>;
+
     return {
       name: entity.indexName,
       createdAt: entity.createdAt.toISOString(),
       updatedAt: entity.updatedAt?.toISOString(),
       settings: {
-        analysis: {
-          analyzer: {
-            default: {
-              type: 'standard',
-              tokenizer: 'standard',
-              filter: ['lowercase', 'stop'],
-            },
-          },
-        },
         similarity: 'bm25',
         searchableFields: ['_all'],
+        ...settings,
       },
-      mappings: {
+      mappings: mappings || {
         dynamic: true,
         properties: {},
       },
@@ -193,9 +189,19 @@ export class PostgreSQLIndexStorageService implements IndexStorage {
 
   async storeProcessedDocument(indexName: string, document: ProcessedDocument): Promise<void> {
     try {
-      // Generate search vector from processed fields
-      const searchVectorParts = [];
+      // Each field is vectorized with the text search configuration of its analyzer
+      const configs = await this.getTextSearchConfigs(indexName);
+
+      // Parameters $1-$5 are the row; each field adds its text and configuration
       const fieldWeights: Record<string, number> = {};
+      const params: any[] = [
+        document.id,
+        indexName,
+        JSON.stringify(document.fields),
+        JSON.stringify({}),
+        fieldWeights,
+      ];
+      const searchVectorParts = [];
 
       for (const [field, fieldData] of Object.entries(document.fields)) {
         if (!fieldData.terms || fieldData.terms.length === 0) continue;
@@ -222,9 +228,10 @@ export class PostgreSQLIndexStorageService implements IndexStorage {
         fieldWeights[field] = weightValue;
 
         // Create field-specific tsvector
-        const fieldText = fieldData.terms.join(' ');
+        const text = params.push(fieldData.terms.join(' '));
+        const config = params.push(configs[field] || configs._default);
         searchVectorParts.push(
-          `setweight(to_tsvector('english', $${searchVectorParts.length + 1}), '${weight}')`,
+          `setweight(to_tsvector($${config}::regconfig, $${text}), '${weight}')`,
         );
       }
 
@@ -232,30 +239,16 @@ export class PostgreSQLIndexStorageService implements IndexStorage {
       const searchVectorExpr =
         searchVectorParts.length > 0
           ? searchVectorParts.join(' || ')
-          : `to_tsvector('english', '')`;
-
-      // Get field values for parameters
-      const params = Object.entries(document.fields)
-        .filter(([_, fieldData]) => fieldData.terms && fieldData.terms.length > 0)
-        .map(([_, fieldData]) => fieldData.terms.join(' '));
+          : `to_tsvector('${DEFAULT_TEXT_SEARCH_CONFIG}', '')`;
 
       // Store document with generated tsvector
       await this.dataSource.query(
-        `INSERT INTO documents (document_id, index_name, content, metadata, search_vector, field_weights)
-         VALUES ($${params.length + 1}, $${params.length + 2}, $${params.length + 3}, $${
-          params.length + 4
-        }, ${searchVectorExpr}, $${params.length + 5})
+        `INSERT INTO documents (document_id, index_name, content, metadata, field_weights, search_vector)
+         VALUES ($1, $2, $3, $4, $5, ${searchVectorExpr})
          ON CONFLICT (document_id, index_name)
          DO UPDATE SET search_vector = EXCLUDED.search_vector,
                       field_weights = EXCLUDED.field_weights`,
-        [
-          document.id,
-          indexName,
-          JSON.stringify(document.fields),
-          JSON.stringify({}),
-          ...params,
-          fieldWeights,
-        ],
+        params,
       );
     } catch (error) {
       this.logger.error(
@@ -265,6 +258,18 @@ export class PostgreSQLIndexStorageService implements IndexStorage {
     }
   }
 
+  /**
+   * The text search configuration of each text field and of `_default`, which the
+   * index derives from its analyzers when it is saved
+   */
+  private async getTextSearchConfigs(indexName: string): Promise<Record<string, string>> {
+    const result = await this.dataSource.query(
+      `SELECT settings->'textSearchConfigs' AS configs FROM indices WHERE index_name = $1`,
+      [indexName],
+    );
+    return { _default: DEFAULT_TEXT_SEARCH_CONFIG, ...(result[0]?.configs || {}) };
+  }
+
   async getProcessedDocument(indexName: string, documentId: string): Promise<any> {
     const doc = await this.documentRepository.findOne({
       where: { indexName, documentId },
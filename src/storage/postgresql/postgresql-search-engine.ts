@@ -11,6 +11,7 @@ import { PostgreSQLAnalysisAdapter } from './postgresql-analysis.adapter';
 
 import { QueryProcessorService } from '../../search/query-processor.service';
 import { IndexConfig } from '../../common/interfaces/index.interface';
+import { FieldMapping } from '../../index/interfaces/index.interface';
 import {
   SearchQueryDto,
   SearchResponseDto,
@@ -28,6 +29,15 @@ import { TypoToleranceService } from '../../search/typo-tolerance.service';
 import { OptimizedQueryCacheService, CacheStats } from './optimized-query-cache.service';
 import { BM25RankingService } from './bm25-ranking.service';
 import { FilterBuilderService } from './filter-builder.service';
+import { AnalyzerRegistryService } from '../../analysis/analyzer-registry.service';
+import { analyzeToGraph, hasAlternatives } from '../../analysis/token-graph';
+import { DEFAULT_TEXT_SEARCH_CONFIG } from '../../analysis/analyzers/language-analyzers';
+import { FacetBuilderService } from './facet-builder.service';
+import { SortBuilderService } from './sort-builder.service';
+import { PointInTimeService } from './point-in-time.service';
+import { FilterNode } from './interfaces/filter.interface';
+import { FacetRequest, FacetResult } from './interfaces/facet.interface';
+import { SortKey } from './interfaces/sort.interface';
 import { RedisCacheService } from './redis-cache.service';
 
 export interface PostgreSQLSearchOptions {
@@ -52,6 +62,24 @@ export interface PostgreSQLSearchResult {
   took: number;
 }
 
+/**
+ * Cursor pagination state of a data query: the sort values to resume after and
+ * the point-in-time snapshot that documents created later are left out by
+ */
+interface SearchCursor {
+  searchAfter?: any[];
+  snapshot?: string;
+}
+
+/**
+ * Query text analyzed by an index analyzer: the tsquery of its synonym graph, if
+ * any, and the text search configuration to parse the query with
+ */
+interface AnalyzedQuery {
+  tsQuery?: string;
+  config?: string;
+}
+
 interface SearchMetrics {
   queryParsing: number;
   execution: number;
@@ -80,6 +108,12 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
     private readonly dataSource: DataSource,
     private readonly optimizedCache: OptimizedQueryCacheService,
     private readonly redisCache: RedisCacheService,
+    private readonly filterBuilder: FilterBuilderService,
+    private readonly facetBuilder: FacetBuilderService,
+    private readonly sortBuilder: SortBuilderService,
+    private readonly pointInTime: PointInTimeService,
+    private readonly analyzerRegistry: AnalyzerRegistryService,
+    private readonly analysisAdapter: PostgreSQLAnalysisAdapter,
   ) {}
 
   async onModuleInit() {
@@ -112,19 +146,50 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
   async search(indexName: string, searchQuery: SearchQueryDto): Promise<any> {
     const startTime = Date.now();
 
-    const searchTerm = this.extractSearchTerm(searchQuery);
+    const { searchTerm, analyzedQuery } = await this.analyzeSearchTerm(
+      indexName,
+      searchQuery,
+      this.extractSearchTerm(searchQuery),
+    );
 
     const size = Math.min(searchQuery.size || 10, 100); // Cap at 100
     const from = searchQuery.from || 0;
 
     try {
-      // Build optimized data query
+      const facetRequests = this.facetBuilder.parse(searchQuery.facets);
+      const pit = await this.pointInTime.resolve(indexName, searchQuery.pit);
+
+      // Cursor pagination needs a total order, so the sort always ends in tie-breaks
+      const cursor: SearchCursor | undefined =
+        pit || searchQuery.searchAfter !== undefined
+          ? { searchAfter: searchQuery.searchAfter, snapshot: pit?.snapshot }
+          : undefined;
+      if (cursor?.searchAfter !== undefined && from > 0) {
+        throw new BadRequestException('from must be 0 when using searchAfter');
+      }
+
+      const requestedSortKeys = this.sortBuilder.parse(searchQuery.sort, searchQuery.userLocation);
+      const sortKeys = cursor
+        ? this.sortBuilder.withTieBreaks(requestedSortKeys)
+        : requestedSortKeys;
+
+      // Filters, facets and sorts are typed by the index mappings (dates, numerics)
+      const mappings =
+        searchQuery.filter || facetRequests.length > 0 || requestedSortKeys.length > 0
+          ? await this.getFieldMappings(indexName)
+          : undefined;
+
+      // Build optimized data query; cursor pages fetch one extra row to detect a next page
       const { sql: dataSql, params: dataParams } = await this.buildOptimizedSingleQuery(
         indexName,
         searchTerm,
-        size,
+        cursor ? size + 1 : size,
         from,
         searchQuery.filter,
+        mappings,
+        sortKeys,
+        cursor,
+        analyzedQuery,
       );
 
       // Build optimized count query
@@ -132,13 +197,26 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
         indexName,
         searchTerm,
         searchQuery.filter,
+        mappings,
+        pit?.snapshot,
+        analyzedQuery,
       );
 
       // Execute queries in parallel for better performance
-      const [results, countResult] = await Promise.all([
+      const [rows, countResult, facets] = await Promise.all([
         this.dataSource.query(dataSql, dataParams),
         this.dataSource.query(countSql, countParams),
+        this.computeFacets(
+          indexName,
+          searchTerm,
+          searchQuery.filter,
+          facetRequests,
+          mappings,
+          pit?.snapshot,
+          analyzedQuery,
+        ),
       ]);
+      const results = cursor ? rows.slice(0, size) : rows;
 
       const queryTime = Date.now() - startTime;
 
@@ -155,6 +233,7 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
       }
 
       const total = parseInt(countResult[0]?.total_count || '0');
+      const hasNext = cursor ? rows.length > size : from + size < total;
 
       const responseData = {
         data: {
@@ -162,6 +241,8 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
             id: row.document_id,
             index: indexName,
             score: row.rank || 1.0,
+            version: Number(row.version),
+            seqNo: Number(row.seq_no),
             source: row.content,
           })),
           total: total.toString(),
@@ -171,10 +252,26 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
           currentPage: Math.floor(from / size) + 1,
           totalPages: Math.ceil(total / size),
           pageSize: size,
-          hasNext: from + size < total,
-          hasPrevious: from > 0,
+          hasNext,
+          hasPrevious: from > 0 || cursor?.searchAfter !== undefined,
           totalResults: total.toString(),
+          ...(cursor && {
+            searchAfter:
+              hasNext && results.length > 0
+                ? this.sortBuilder.extractSortValues(sortKeys, results[results.length - 1])
+                : null,
+          }),
+          ...(pit && {
+            pit: {
+              id: pit.id,
+              keepAlive: pit.keepAlive,
+              expiresAt: pit.expiresAt,
+              snapshot: pit.snapshot,
+              consistency: pit.consistency,
+            },
+          }),
         },
+        ...(facets && { facets }),
         took: Date.now() - startTime,
       };
 
@@ -828,10 +925,67 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
     indexName: string,
     searchTerm: string,
     filter?: any,
+    mappings?: Record<string, FieldMapping>,
+    snapshot?: string,
+    analyzedQuery?: AnalyzedQuery,
   ): Promise<{ sql: string; params: any[] }> {
+    const { conditions, params } = await this.buildMatchConditions(
+      indexName,
+      searchTerm,
+      this.filterBuilder.parse(filter),
+      mappings,
+      snapshot,
+      analyzedQuery,
+    );
+
+    const sql = `
+      SELECT COUNT(*) as total_count
+      FROM documents
+      WHERE ${conditions}
+    `;
+    return { sql, params };
+  }
+
+  /**
+   * Build the WHERE condition matching a search term and filter, shared by the
+   * count query and facet aggregations. A point-in-time snapshot leaves out
+   * documents created after it.
+   */
+  private async buildMatchConditions(
+    indexName: string,
+    searchTerm: string,
+    filterNode: FilterNode | null,
+    mappings?: Record<string, FieldMapping>,
+    snapshot?: string,
+    analyzedQuery?: AnalyzedQuery,
+  ): Promise<{ conditions: string; params: any[] }> {
+    const { conditions, params } = await this.buildSearchConditions(
+      indexName,
+      searchTerm,
+      filterNode,
+      mappings,
+      analyzedQuery,
+    );
+    if (!snapshot) {
+      return { conditions, params };
+    }
+
+    params.push(snapshot);
+    return {
+      conditions: `${conditions}\n          AND created_at <= $${params.length}::timestamptz`,
+      params,
+    };
+  }
+
+  private async buildSearchConditions(
+    indexName: string,
+    searchTerm: string,
+    filterNode: FilterNode | null,
+    mappings?: Record<string, FieldMapping>,
+    analyzedQuery?: AnalyzedQuery,
+  ): Promise<{ conditions: string; params: any[] }> {
     const normalizedTerm = this.normalizeSearchQuery(searchTerm);
     const lowercasedTerm = normalizedTerm.toLowerCase(); // For comparison with name_lower index
-    const filterConditions = this.buildFilterConditions(filter);
 
     // 🚀 OPTIMIZATION: Cache column check result
     const cacheKey = `columns:${indexName}`;
@@ -845,16 +999,17 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
 
     // Handle match_all queries
     if (normalizedTerm === '*' || normalizedTerm === '') {
-      const sql = `
-        SELECT COUNT(*) as total_count
-        FROM documents
-        WHERE index_name = $1
+      const params: any[] = [indexName];
+      const filterConditions = this.filterBuilder.compile(filterNode, params, {
+        materializedColumns: true,
+        mappings,
+      });
+      const conditions = `index_name = $1
           AND is_active = true
           AND is_verified = true
           AND is_blocked = false
-          ${filterConditions ? `AND ${filterConditions}` : ''}
-      `;
-      return { sql, params: [indexName] };
+          ${filterConditions ? `AND ${filterConditions}` : ''}`;
+      return { conditions, params };
     }
 
     // Check if wildcard query
@@ -863,17 +1018,19 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
 
     if (isWildcard) {
       // Count for wildcard queries
-      let sql: string;
+      let conditions: string;
+      const params: any[] = [indexName, cleanTerm];
+      const filterConditions = this.filterBuilder.compile(filterNode, params, {
+        materializedColumns: true,
+        mappings,
+      });
 
       // Check category_lower separately if needed
       const categoryCheck = await this.checkOptimizedColumnsExist();
 
       if (nameLower && categoryCheck.categoryLower) {
         // FAST PATH: Use indexed columns
-        sql = `
-          SELECT COUNT(*) as total_count
-          FROM documents
-          WHERE index_name = $1
+        conditions = `index_name = $1
             AND is_active = true
             AND is_verified = true
             AND is_blocked = false
@@ -881,14 +1038,10 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
               name_lower LIKE '%' || $2 || '%'
               OR category_lower LIKE '%' || $2 || '%'
             )
-            ${filterConditions ? `AND ${filterConditions}` : ''}
-        `;
+            ${filterConditions ? `AND ${filterConditions}` : ''}`;
       } else {
         // FALLBACK PATH: Use original query
-        sql = `
-          SELECT COUNT(*) as total_count
-          FROM documents
-          WHERE index_name = $1
+        conditions = `index_name = $1
             AND is_active = true
             AND is_verified = true
             AND is_blocked = false
@@ -896,73 +1049,96 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
               lower(COALESCE(content->>'name', content->>'business_name', '')) LIKE '%' || $2 || '%'
               OR lower(COALESCE(content->>'category_name', content->>'category', '')) LIKE '%' || $2 || '%'
             )
-            ${filterConditions ? `AND ${filterConditions}` : ''}
-        `;
+            ${filterConditions ? `AND ${filterConditions}` : ''}`;
       }
 
-      return {
-        sql,
-        params: [indexName, cleanTerm],
-      };
+      return { conditions, params };
     }
 
-    // 🚀 OPTIMIZATION: Use approximate count for large result sets (>1000 expected)
-    // For very large counts, use reltuples estimate instead of exact COUNT
-    const useApproximateCount = false; // Can be enabled for very large datasets
-
-    // Use optimized count for full-text search queries
-    let sql: string;
-
-    if (useApproximateCount) {
-      // Approximate count using table statistics (much faster for large tables)
-      sql = `
-        SELECT 
-          CASE 
-            WHEN reltuples > 0 THEN reltuples::BIGINT
-            ELSE (SELECT COUNT(*) FROM documents WHERE index_name = $1 AND is_active = true AND is_verified = true AND is_blocked = false)
-          END as total_count
-        FROM pg_class
-        WHERE relname = 'documents'
-      `;
-      return { sql, params: [indexName] };
-    }
+    // Use optimized conditions for full-text search queries
+    let conditions: string;
+    const params: any[] = [lowercasedTerm, indexName];
+    const filterConditions = this.filterBuilder.compile(filterNode, params, {
+      materializedColumns: true,
+      mappings,
+    });
+    const textQuery = this.buildTextQuery(params, analyzedQuery);
 
     if (nameLower) {
       // FAST PATH: Use indexed name_lower column
-      sql = `
-        SELECT COUNT(*) as total_count
-        FROM documents
-        WHERE index_name = $2
+      conditions = `index_name = $2
           AND is_active = true
           AND is_verified = true
           AND is_blocked = false
           AND (
             name_lower LIKE $1 || '%'
-            OR weighted_search_vector @@ plainto_tsquery('english', $1)
+            OR weighted_search_vector @@ ${textQuery}
           )
-          ${filterConditions ? `AND ${filterConditions}` : ''}
-      `;
+          ${filterConditions ? `AND ${filterConditions}` : ''}`;
     } else {
       // FALLBACK PATH: Use original query
-      sql = `
-        SELECT COUNT(*) as total_count
-        FROM documents
-        WHERE index_name = $2
+      conditions = `index_name = $2
           AND is_active = true
           AND is_verified = true
           AND is_blocked = false
           AND (
             lower(COALESCE(content->>'name', content->>'business_name', '')) LIKE $1 || '%'
-            OR weighted_search_vector @@ plainto_tsquery('english', $1)
+            OR weighted_search_vector @@ ${textQuery}
           )
-          ${filterConditions ? `AND ${filterConditions}` : ''}
-      `;
+          ${filterConditions ? `AND ${filterConditions}` : ''}`;
     }
 
-    return {
-      sql,
-      params: [lowercasedTerm, indexName],
-    };
+    return { conditions, params };
+  }
+
+  /**
+   * Compute the requested facets over every document matching the search.
+   * Disjunctive facets ignore the filter clauses on their own field.
+   */
+  private async computeFacets(
+    indexName: string,
+    searchTerm: string,
+    filter: any,
+    facets: FacetRequest[],
+    mappings?: Record<string, FieldMapping>,
+    snapshot?: string,
+    analyzedQuery?: AnalyzedQuery,
+  ): Promise<Record<string, FacetResult> | undefined> {
+    if (facets.length === 0) return undefined;
+
+    const filterNode = this.filterBuilder.parse(filter);
+
+    const results = await Promise.all(
+      facets.map(async facet => {
+        const facetFilter = facet.disjunctive
+          ? this.filterBuilder.excludeField(filterNode, facet.field)
+          : filterNode;
+        const { conditions, params } = await this.buildMatchConditions(
+          indexName,
+          searchTerm,
+          facetFilter,
+          mappings,
+          snapshot,
+          analyzedQuery,
+        );
+        const sql = this.facetBuilder.buildQuery(facet, conditions, params, mappings);
+        const rows = await this.dataSource.query(sql, params);
+        return [facet.name, this.facetBuilder.formatResult(facet, rows)] as const;
+      }),
+    );
+
+    return Object.fromEntries(results);
+  }
+
+  /**
+   * Load the field mappings of an index (stored in settings.mappings)
+   */
+  private async getFieldMappings(indexName: string): Promise<Record<string, FieldMapping>> {
+    const result = await this.dataSource.query(
+      `SELECT settings->'mappings'->'properties' AS properties FROM indices WHERE index_name = $1`,
+      [indexName],
+    );
+    return result[0]?.properties || {};
   }
 
   /**
@@ -1012,10 +1188,14 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
     size: number,
     from: number,
     filter?: any,
+    mappings?: Record<string, FieldMapping>,
+    sortKeys: SortKey[] = [],
+    cursor?: SearchCursor,
+    analyzedQuery?: AnalyzedQuery,
   ): Promise<{ sql: string; params: any[] }> {
     const normalizedTerm = this.normalizeSearchQuery(searchTerm);
     const lowercasedTerm = normalizedTerm.toLowerCase(); // For comparison with name_lower index
-    const filterConditions = this.buildFilterConditions(filter);
+    const filterNode = this.filterBuilder.parse(filter);
 
     // 🚀 OPTIMIZATION: Cache column check result (reused from count query cache)
     const cacheKey = `columns:${indexName}`;
@@ -1029,22 +1209,31 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
 
     // Handle match_all queries
     if (normalizedTerm === '*' || normalizedTerm === '') {
+      const params: any[] = [indexName, size, from];
+      const filterConditions = this.filterBuilder.compile(filterNode, params, {
+        materializedColumns: true,
+        mappings,
+      });
       const sql = `
         SELECT
           document_id,
           content,
           metadata,
+          version,
+          seq_no,
           1.0 as rank
+          ${this.buildSortValueColumns(sortKeys, cursor, params, mappings)}
         FROM documents
         WHERE index_name = $1
           AND is_active = true
           AND is_verified = true
           AND is_blocked = false
           ${filterConditions ? `AND ${filterConditions}` : ''}
-        ORDER BY document_id
+          ${this.buildCursorConditions(sortKeys, cursor, params, mappings, '1.0')}
+        ORDER BY ${this.buildOrderBy(sortKeys, params, mappings, 'document_id')}
         LIMIT $2 OFFSET $3
       `;
-      return { sql, params: [indexName, size, from] };
+      return { sql, params };
     }
 
     // Check if wildcard query (contains * or ?)
@@ -1052,7 +1241,16 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
 
     if (isWildcard) {
       // WILDCARD SEARCH - Uses trigram indexes
-      return this.buildWildcardQuery(indexName, searchTerm, size, from, filterConditions);
+      return this.buildWildcardQuery(
+        indexName,
+        searchTerm,
+        size,
+        from,
+        filterNode,
+        mappings,
+        sortKeys,
+        cursor,
+      );
     }
 
     // STANDARD FULL-TEXT SEARCH - Optimized with indexed lowercase columns
@@ -1060,43 +1258,58 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
     // Removed expensive ts_rank_cd calculation (tiered ranking handles scoring)
 
     let sql: string;
+    const params: any[] = [lowercasedTerm, indexName, size, from];
+    const filterConditions = this.filterBuilder.compile(filterNode, params, {
+      materializedColumns: true,
+      mappings,
+    });
+    const textQuery = this.buildTextQuery(params, analyzedQuery);
 
     if (nameLower) {
       // 🚀 OPTIMIZED: Prioritize full-text search with GIN index, then filter by name
       // This uses the GIN index efficiently while still checking name_lower for ranking
+      const rank = `CASE
+            WHEN name_lower = $1 THEN 1000.0
+            WHEN name_lower LIKE $1 || '%' THEN 500.0
+            ELSE 100.0
+          END`;
       sql = `
         SELECT
           document_id,
           content,
           metadata,
-          CASE 
-            WHEN name_lower = $1 THEN 1000.0
-            WHEN name_lower LIKE $1 || '%' THEN 500.0
-            ELSE 100.0
-          END as rank
+          version,
+          seq_no,
+          ${rank} as rank
+          ${this.buildSortValueColumns(sortKeys, cursor, params, mappings)}
         FROM documents
         WHERE index_name = $2
           AND is_active = true
           AND is_verified = true
           AND is_blocked = false
-          AND weighted_search_vector @@ plainto_tsquery('english', $1)
+          AND weighted_search_vector @@ ${textQuery}
           ${filterConditions ? `AND ${filterConditions}` : ''}
-        ORDER BY rank DESC, name_lower
+          ${this.buildCursorConditions(sortKeys, cursor, params, mappings, rank)}
+        ORDER BY ${this.buildOrderBy(sortKeys, params, mappings, 'rank DESC, name_lower')}
         LIMIT $3 OFFSET $4
       `;
     } else {
       // FALLBACK PATH: Use original query (before optimization) - no COALESCE overhead
+      // Simplified ranking (tiered ranking service handles detailed scoring)
+      const rank = `CASE
+            WHEN lower(COALESCE(content->>'name', content->>'business_name', '')) = $1 THEN 1000.0
+            WHEN lower(COALESCE(content->>'name', content->>'business_name', '')) LIKE $1 || '%' THEN 500.0
+            ELSE 100.0
+          END`;
       sql = `
         SELECT
           document_id,
           content,
           metadata,
-          -- Simplified ranking (tiered ranking service handles detailed scoring)
-          CASE 
-            WHEN lower(COALESCE(content->>'name', content->>'business_name', '')) = $1 THEN 1000.0
-            WHEN lower(COALESCE(content->>'name', content->>'business_name', '')) LIKE $1 || '%' THEN 500.0
-            ELSE 100.0
-          END as rank
+          version,
+          seq_no,
+          ${rank} as rank
+          ${this.buildSortValueColumns(sortKeys, cursor, params, mappings)}
         FROM documents
         WHERE index_name = $2
           AND is_active = true
@@ -1104,18 +1317,21 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
           AND is_blocked = false
           AND (
             lower(COALESCE(content->>'name', content->>'business_name', '')) LIKE $1 || '%'
-            OR weighted_search_vector @@ plainto_tsquery('english', $1)
+            OR weighted_search_vector @@ ${textQuery}
           )
           ${filterConditions ? `AND ${filterConditions}` : ''}
-        ORDER BY rank DESC, lower(COALESCE(content->>'name', content->>'business_name', ''))
+          ${this.buildCursorConditions(sortKeys, cursor, params, mappings, rank)}
+        ORDER BY ${this.buildOrderBy(
+          sortKeys,
+          params,
+          mappings,
+          "rank DESC, lower(COALESCE(content->>'name', content->>'business_name', ''))",
+        )}
         LIMIT $3 OFFSET $4
       `;
     }
 
-    return {
-      sql,
-      params: [lowercasedTerm, indexName, size, from],
-    };
+    return { sql, params };
   }
 
   /**
@@ -1127,10 +1343,24 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
     pattern: string,
     size: number,
     from: number,
-    filterConditions?: string,
+    filterNode?: FilterNode | null,
+    mappings?: Record<string, FieldMapping>,
+    sortKeys: SortKey[] = [],
+    cursor?: SearchCursor,
   ): { sql: string; params: any[] } {
     // Clean wildcards for search
     const cleanTerm = pattern.replace(/[*?]/g, '');
+    const params: any[] = [cleanTerm, indexName, size, from];
+    const filterConditions = this.filterBuilder.compile(filterNode, params, {
+      materializedColumns: true,
+      mappings,
+    });
+
+    // Ranking using trigram similarity (uses GIN index)
+    const rank = `GREATEST(
+          word_similarity($1, name) * 1000,
+          word_similarity($1, category) * 500
+        )`;
 
     // 🚀 OPTIMIZED: Use trigram indexes for fast wildcard search
     // This query uses idx_documents_name_trgm and idx_documents_category_trgm
@@ -1139,11 +1369,10 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
         document_id,
         content,
         metadata,
-        -- Ranking using trigram similarity (uses GIN index)
-        GREATEST(
-          word_similarity($1, name) * 1000,
-          word_similarity($1, category) * 500
-        ) as rank
+        version,
+        seq_no,
+        ${rank} as rank
+        ${this.buildSortValueColumns(sortKeys, cursor, params, mappings)}
       FROM documents
       WHERE index_name = $2
         -- Use materialized boolean columns (indexed)
@@ -1156,117 +1385,76 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
           OR category % $1
         )
         ${filterConditions ? `AND ${filterConditions}` : ''}
-      ORDER BY rank DESC
+        ${this.buildCursorConditions(sortKeys, cursor, params, mappings, rank)}
+      ORDER BY ${this.buildOrderBy(sortKeys, params, mappings, 'rank DESC')}
       LIMIT $3 OFFSET $4
     `;
 
-    return {
-      sql,
-      params: [cleanTerm, indexName, size, from],
-    };
+    return { sql, params };
   }
 
   /**
-   * Build filter conditions from filter object
+   * ORDER BY list for a data query: the requested sort keys, or the query's
+   * default relevance order when no sort was requested
    */
-  private buildFilterConditions(filter?: any): string {
-    if (!filter) return '';
-
-    // Handle bool filter
-    if (filter.bool) {
-      const conditions: string[] = [];
-
-      if (filter.bool.must) {
-        filter.bool.must.forEach((clause: any) => {
-          const condition = this.buildTermCondition(clause);
-          if (condition) conditions.push(condition);
-        });
-      }
-
-      if (filter.bool.should) {
-        const shouldConditions = filter.bool.should
-          .map((clause: any) => {
-            const condition = this.buildTermCondition(clause);
-            return condition;
-          })
-          .filter(Boolean);
-
-        if (shouldConditions.length > 0) {
-          conditions.push(`(${shouldConditions.join(' OR ')})`);
-        }
-      }
-
-      if (filter.bool.must_not) {
-        filter.bool.must_not.forEach((clause: any) => {
-          const condition = this.buildTermCondition(clause);
-          if (condition) conditions.push(`NOT (${condition})`);
-        });
-      }
-
-      return conditions.join(' AND ');
+  private buildOrderBy(
+    sortKeys: SortKey[],
+    params: any[],
+    mappings: Record<string, FieldMapping> | undefined,
+    defaultOrder: string,
+  ): string {
+    if (sortKeys.length === 0) {
+      return defaultOrder;
     }
-
-    // Handle single term filter
-    return this.buildTermCondition(filter);
+    return this.sortBuilder.buildOrderBy(sortKeys, params, { mappings, scoreColumn: 'rank' });
   }
 
   /**
-   * Build condition for a single term filter
-   * Uses materialized columns when available for better performance
+   * Extra select columns carrying the sort values of cursor-paginated hits
    */
-  private buildTermCondition(termFilter: any): string {
-    if (!termFilter || !termFilter.term) return '';
-
-    const { field, value } = termFilter.term;
-    if (!field || value === undefined) return '';
-
-    // 🚀 OPTIMIZATION: Use materialized columns for common boolean filters
-    // These have indexes and are MUCH faster than JSONB extraction
-    const materializedBooleans = {
-      is_active: 'is_active',
-      is_verified: 'is_verified',
-      is_blocked: 'is_blocked',
-    };
-
-    if (field in materializedBooleans && typeof value === 'boolean') {
-      const col = materializedBooleans[field];
-      return `(${col} IS NULL OR ${col} = ${value})`;
-    }
-
-    // Fields that should use LIKE matching for partial text search
-    const likeFields = [
-      'location_text',
-      'description',
-      'tags',
-      'profile',
-      'name',
-      'title',
-      'category_name',
-      'sub_category_name',
-    ];
-
-    // Handle boolean values (fallback to JSONB)
-    if (typeof value === 'boolean') {
-      return `content->>'${field}' = '${value}'`;
-    }
+  private buildSortValueColumns(
+    sortKeys: SortKey[],
+    cursor: SearchCursor | undefined,
+    params: any[],
+    mappings: Record<string, FieldMapping> | undefined,
+  ): string {
+    if (!cursor) return '';
+
+    const columns = this.sortBuilder.buildSortValueColumns(sortKeys, params, {
+      mappings,
+      scoreColumn: 'rank',
+    });
+    return columns ? `, ${columns}` : '';
+  }
 
-    // Handle string values
-    if (typeof value === 'string') {
-      if (likeFields.includes(field)) {
-        // Use ILIKE for text fields to enable partial matching
-        return `content->>'${field}' ILIKE '%${value}%'`;
-      } else {
-        // Use exact match for other string fields
-        return `content->>'${field}' = '${value}'`;
-      }
+  /**
+   * Conditions restricting a data query to its point-in-time snapshot and to
+   * the hits after the search_after cursor. The score is compared through the
+   * query's rank expression, since the rank alias is not visible in WHERE.
+   */
+  private buildCursorConditions(
+    sortKeys: SortKey[],
+    cursor: SearchCursor | undefined,
+    params: any[],
+    mappings: Record<string, FieldMapping> | undefined,
+    rankExpression: string,
+  ): string {
+    const conditions: string[] = [];
+
+    if (cursor?.snapshot) {
+      params.push(cursor.snapshot);
+      conditions.push(`created_at <= $${params.length}::timestamptz`);
     }
-
-    // Handle numeric values
-    if (typeof value === 'number') {
-      return `content->>'${field}' = '${value}'`;
+    if (cursor?.searchAfter !== undefined) {
+      conditions.push(
+        this.sortBuilder.buildSearchAfter(sortKeys, cursor.searchAfter, params, {
+          mappings,
+          scoreColumn: `(${rankExpression})`,
+        }),
+      );
     }
 
-    return '';
+    return conditions.map(condition => `AND ${condition}`).join(' ');
   }
 
   /**
@@ -1374,6 +1562,83 @@ export class PostgreSQLSearchEngine implements SearchEngine, OnModuleInit {
     return textParts.join(' ');
   }
 
+  /**
+   * Run the query text through the search analyzer of an index: the
+   * searchAnalyzer or analyzer of a match query's field, else the index's
+   * default_search or default analyzer. Only custom and language analyzers apply;
+   * other text is left to PostgreSQL. When the analyzer expands synonyms the
+   * tsquery matches any one of them, and it is parsed with the analyzer's text
+   * search configuration.
+   */
+  private async analyzeSearchTerm(
+    indexName: string,
+    searchQuery: SearchQueryDto,
+    searchTerm: string,
+  ): Promise<{ searchTerm: string; analyzedQuery?: AnalyzedQuery }> {
+    if (!searchTerm || /[*?]/.test(searchTerm)) {
+      return { searchTerm };
+    }
+
+    let analyzerName: string | undefined;
+    const field =
+      typeof searchQuery.query === 'object' ? searchQuery.query?.match?.field : undefined;
+    if (field) {
+      const mapping = (await this.getFieldMappings(indexName))[field];
+      analyzerName = mapping?.searchAnalyzer || mapping?.analyzer;
+    }
+    analyzerName =
+      analyzerName ||
+      ['default_search', 'default'].find(name =>
+        this.analyzerRegistry.hasIndexAnalyzer(indexName, name),
+      );
+
+    if (
+      !analyzerName ||
+      !(
+        this.analyzerRegistry.hasIndexAnalyzer(indexName, analyzerName) ||
+        this.analyzerRegistry.isLanguageAnalyzer(analyzerName)
+      )
+    ) {
+      return { searchTerm };
+    }
+
+    const analyzer = this.analyzerRegistry.getAnalyzer(analyzerName, indexName);
+    const graph = analyzeToGraph(analyzer, searchTerm);
+    if (graph.length === 0) {
+      return { searchTerm };
+    }
+
+    return {
+      searchTerm: graph.map(position => position[0].join(' ')).join(' '),
+      analyzedQuery: {
+        tsQuery: hasAlternatives(graph)
+          ? this.analysisAdapter.generateGraphTsQuery(graph)
+          : undefined,
+        config: this.analyzerRegistry.getTextSearchConfig(analyzer),
+      },
+    };
+  }
+
+  /**
+   * The tsquery a full-text search matches: the analyzed synonym graph when
+   * there is one, else the plain search term in $1. Configurations other than
+   * english are passed as a parameter.
+   */
+  private buildTextQuery(params: any[], analyzedQuery?: AnalyzedQuery): string {
+    let config = `'${DEFAULT_TEXT_SEARCH_CONFIG}'`;
+    if (analyzedQuery?.config && analyzedQuery.config !== DEFAULT_TEXT_SEARCH_CONFIG) {
+      params.push(analyzedQuery.config);
+      config = `$${params.length}::regconfig`;
+    }
+
+    if (!analyzedQuery?.tsQuery) {
+      return `plainto_tsquery(${config}, $1)`;
+    }
+
+    params.push(analyzedQuery.tsQuery);
+    return `to_tsquery(${config}, $${params.length})`;
+  }
+
   /**
    * Extract search term from query - simplified for maximum performance
    */
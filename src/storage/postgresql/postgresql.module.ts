@@ -12,6 +12,9 @@ import { Index } from './entities/index.entity';
 import { SchemaModule } from '../../schema/schema.module';
 import { BM25RankingService } from './bm25-ranking.service';
 import { FilterBuilderService } from './filter-builder.service';
+import { FacetBuilderService } from './facet-builder.service';
+import { SortBuilderService } from './sort-builder.service';
+import { PointInTimeService } from './point-in-time.service';
 import { PostgreSQLDocumentProcessor } from './postgresql-document-processor';
 import { PostgreSQLAnalysisAdapter } from './postgresql-analysis.adapter';
 import { AnalysisModule } from 'src/analysis/analysis.module';
@@ -68,6 +71,9 @@ import { FieldWeightsService } from './field-weights.service';
     OptimizedQueryCacheService,
     BM25RankingService,
     FilterBuilderService,
+    FacetBuilderService,
+    SortBuilderService,
+    PointInTimeService,
     RedisCacheService,
     PostgreSQLSearchEngine,
     FieldWeightsService,
@@ -82,6 +88,9 @@ import { FieldWeightsService } from './field-weights.service';
     TypeOrmModule,
     BM25RankingService,
     FilterBuilderService,
+    FacetBuilderService,
+    SortBuilderService,
+    PointInTimeService,
     PostgreSQLAnalysisAdapter,
     PostgreSQLDocumentProcessor,
     RedisCacheService,
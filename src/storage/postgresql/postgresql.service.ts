@@ -7,6 +7,9 @@ import { chunk } from 'lodash';
 import * as fs from 'fs';
 import * as path from 'path';
 import { Index } from './entities/index.entity';
+import { FilterBuilderService } from './filter-builder.service';
+import { FieldMapping } from '../../index/interfaces/index.interface';
+import { DocumentVersion, VersionPrecondition } from './interfaces/document-version.interface';
 
 @Injectable()
 export class PostgreSQLService implements OnModuleInit {
@@ -16,6 +19,7 @@ export class PostgreSQLService implements OnModuleInit {
     @InjectRepository(Document)
     private readonly documentRepository: Repository<Document>,
     private readonly dataSource: DataSource,
+    private readonly filterBuilder: FilterBuilderService,
   ) {}
 
   async onModuleInit(): Promise<void> {
@@ -188,6 +192,122 @@ export class PostgreSQLService implements OnModuleInit {
 
           -- Update existing indices to have 'open' status if they don't have it
           UPDATE indices SET status = 'open' WHERE status IS NULL;
+
+          -- Optimistic concurrency: a version per document and a sequence number per write
+          CREATE SEQUENCE IF NOT EXISTS documents_seq_no_seq;
+          ALTER TABLE documents ADD COLUMN IF NOT EXISTS version BIGINT NOT NULL DEFAULT 1;
+          ALTER TABLE documents
+            ADD COLUMN IF NOT EXISTS seq_no BIGINT NOT NULL DEFAULT nextval('documents_seq_no_seq');
+
+          -- A change to a document takes the next sequence number, and the next version
+          -- unless the write sets the version itself
+          CREATE OR REPLACE FUNCTION bump_document_version() RETURNS TRIGGER AS $$
+          BEGIN
+              IF NEW.content IS DISTINCT FROM OLD.content
+                  OR NEW.metadata IS DISTINCT FROM OLD.metadata
+                  OR NEW.version IS DISTINCT FROM OLD.version THEN
+                  NEW.seq_no := nextval('documents_seq_no_seq');
+                  IF NEW.version IS NOT DISTINCT FROM OLD.version THEN
+                      NEW.version := OLD.version + 1;
+                  END IF;
+              END IF;
+              RETURN NEW;
+          END;
+          $$ LANGUAGE plpgsql;
+
+          DROP TRIGGER IF EXISTS bump_document_version_trigger ON documents;
+          CREATE TRIGGER bump_document_version_trigger BEFORE UPDATE ON documents
+            FOR EACH ROW EXECUTE FUNCTION bump_document_version();
+
+          -- Index every field with the text search configuration of its analyzer
+          -- (kept in step with scripts/init-clean-postgres.sql)
+          CREATE EXTENSION IF NOT EXISTS unaccent;
+          DO $$
+          BEGIN
+              IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'simple_unaccent') THEN
+                  CREATE TEXT SEARCH CONFIGURATION simple_unaccent (COPY = simple);
+                  ALTER TEXT SEARCH CONFIGURATION simple_unaccent
+                      ALTER MAPPING FOR hword, hword_part, word WITH unaccent, simple;
+              END IF;
+          END $$;
+
+          CREATE OR REPLACE FUNCTION field_text_search_config(
+              configs jsonb,
+              field_name text
+          ) RETURNS regconfig AS $$
+              SELECT COALESCE(configs->>field_name, configs->>'_default', 'english')::regconfig;
+          $$ LANGUAGE sql STABLE;
+
+          -- Text fields of an index: those with a text search configuration, or the
+          -- built-in business fields for indices that map no text field
+          CREATE OR REPLACE FUNCTION document_search_fields(configs jsonb) RETURNS text[] AS $$
+              SELECT COALESCE(
+                  (SELECT array_agg(key) FROM jsonb_object_keys(configs) AS key WHERE key <> '_default'),
+                  ARRAY['title', 'description', 'name', 'profile', 'slug', 'tags']
+              );
+          $$ LANGUAGE sql IMMUTABLE;
+
+          -- Text of a (dotted) field, with the elements of an array joined
+          CREATE OR REPLACE FUNCTION document_field_text(doc_content jsonb, field_name text) RETURNS text AS $$
+              SELECT CASE jsonb_typeof(doc_content #> string_to_array(field_name, '.'))
+                  WHEN 'array' THEN (
+                      SELECT string_agg(value, ' ')
+                      FROM jsonb_array_elements_text(doc_content #> string_to_array(field_name, '.'))
+                  )
+                  ELSE doc_content #>> string_to_array(field_name, '.')
+              END;
+          $$ LANGUAGE sql IMMUTABLE;
+
+          CREATE OR REPLACE FUNCTION generate_document_search_vector(doc_index_name TEXT, doc_content JSONB) RETURNS TSVECTOR AS $$
+          DECLARE
+              configs JSONB;
+              field_name TEXT;
+              search_vector TSVECTOR := ''::tsvector;
+          BEGIN
+              SELECT settings->'textSearchConfigs' INTO configs FROM indices WHERE index_name = doc_index_name;
+
+              FOREACH field_name IN ARRAY document_search_fields(configs) LOOP
+                  search_vector := search_vector || to_tsvector(
+                      field_text_search_config(configs, field_name),
+                      COALESCE(document_field_text(doc_content, field_name), '')
+                  );
+              END LOOP;
+              RETURN search_vector;
+          END;
+          $$ LANGUAGE plpgsql STABLE;
+
+          -- Re-analyze search vectors only when one of the index's text fields changed
+          CREATE OR REPLACE FUNCTION update_document_search_vector() RETURNS TRIGGER AS $$
+          DECLARE
+              configs JSONB;
+          BEGIN
+              -- A vector the application analyzed with the index's analyzers stands
+              -- as long as the content it was built from is unchanged
+              IF TG_OP = 'UPDATE'
+                  AND NEW.content IS NOT DISTINCT FROM OLD.content
+                  AND NEW.search_vector IS DISTINCT FROM OLD.search_vector THEN
+                  NEW.materialized_vector := NEW.search_vector;
+                  RETURN NEW;
+              END IF;
+
+              -- Partial updates mostly leave the index's text fields alone, so skip re-analysis then
+              SELECT settings->'textSearchConfigs' INTO configs FROM indices WHERE index_name = NEW.index_name;
+              IF TG_OP = 'UPDATE'
+                  AND NEW.search_vector IS NOT DISTINCT FROM OLD.search_vector
+                  AND NEW.materialized_vector IS NOT DISTINCT FROM OLD.materialized_vector
+                  AND NOT EXISTS (
+                      SELECT 1 FROM unnest(document_search_fields(configs)) AS field_name
+                      WHERE NEW.content #> string_to_array(field_name, '.')
+                          IS DISTINCT FROM OLD.content #> string_to_array(field_name, '.')
+                  ) THEN
+                  RETURN NEW;
+              END IF;
+
+              NEW.search_vector := generate_document_search_vector(NEW.index_name, NEW.content);
+              NEW.materialized_vector := NEW.search_vector;
+              RETURN NEW;
+          END;
+          $$ LANGUAGE plpgsql;
         `;
       }
 
@@ -220,7 +340,7 @@ export class PostgreSQLService implements OnModuleInit {
       });
 
       // Generate search vector
-      const searchVector = await this.generateSearchVector(document.content);
+      const searchVector = await this.generateSearchVector(document.indexName, document.content);
       const fieldWeights = this.calculateFieldWeights(document.content);
 
       // Store search document
@@ -238,10 +358,13 @@ export class PostgreSQLService implements OnModuleInit {
     }
   }
 
-  private async generateSearchVector(content: Record<string, any>): Promise<string> {
+  private async generateSearchVector(
+    indexName: string,
+    content: Record<string, any>,
+  ): Promise<string> {
     const result = await this.dataSource.query(
-      'SELECT generate_document_search_vector($1) as vector',
-      [JSON.stringify(content)],
+      'SELECT generate_document_search_vector($1, $2) as vector',
+      [indexName, JSON.stringify(content)],
     );
     return result[0].vector;
   }
@@ -266,9 +389,110 @@ export class PostgreSQLService implements OnModuleInit {
       documentId: doc.documentId,
       content: doc.content,
       metadata: doc.metadata,
+      version: doc.version,
+      seqNo: doc.seqNo,
     };
   }
 
+  async getDocumentVersion(indexName: string, documentId: string): Promise<DocumentVersion | null> {
+    const rows = await this.dataSource.query(
+      'SELECT version, seq_no FROM documents WHERE index_name = $1 AND document_id = $2',
+      [indexName, documentId],
+    );
+    return rows.length > 0 ? this.toVersion(rows[0]) : null;
+  }
+
+  /**
+   * Writes a document if it meets the precondition, in one statement so concurrent
+   * writers cannot slip in between. Returns null when the precondition fails.
+   * document.version, if set, is stored as is instead of the next version.
+   */
+  async storeVersionedDocument(
+    document: SourceDocument,
+    precondition: VersionPrecondition = {},
+  ): Promise<(DocumentVersion & { created: boolean }) | null> {
+    const { ifVersion, ifSeqNo, externalVersion, ifAbsent } = precondition;
+    const params: any[] = [
+      document.documentId,
+      document.indexName,
+      JSON.stringify(document.content),
+      JSON.stringify(document.metadata || {}),
+      document.version ?? externalVersion ?? null,
+    ];
+
+    // if_version and if_seq_no can only match a document that exists
+    if (ifVersion !== undefined || ifSeqNo !== undefined) {
+      const [rows] = await this.dataSource.query(
+        `UPDATE documents
+         SET content = $3::jsonb, metadata = $4::jsonb, version = COALESCE($5::bigint, version + 1)
+         WHERE document_id = $1 AND index_name = $2 AND ${this.versionConditions(
+           precondition,
+           params,
+         )}
+         RETURNING version, seq_no`,
+        params,
+      );
+      return rows.length > 0 ? { ...this.toVersion(rows[0]), created: false } : null;
+    }
+
+    const onConflict = ifAbsent
+      ? 'DO NOTHING'
+      : `DO UPDATE SET
+           content = EXCLUDED.content,
+           metadata = EXCLUDED.metadata,
+           version = COALESCE($5::bigint, documents.version + 1)
+         ${externalVersion !== undefined ? 'WHERE documents.version < $5::bigint' : ''}`;
+    const rows = await this.dataSource.query(
+      `INSERT INTO documents (document_id, index_name, content, metadata, version)
+       VALUES ($1, $2, $3::jsonb, $4::jsonb, COALESCE($5::bigint, 1))
+       ON CONFLICT (document_id, index_name) ${onConflict}
+       RETURNING version, seq_no, (xmax = 0) AS created`,
+      params,
+    );
+    return rows.length > 0 ? { ...this.toVersion(rows[0]), created: rows[0].created } : null;
+  }
+
+  /**
+   * Deletes a document if it meets the precondition. Returns the version it had, or
+   * null when it does not exist or the precondition fails.
+   */
+  async deleteVersionedDocument(
+    indexName: string,
+    documentId: string,
+    precondition: VersionPrecondition = {},
+  ): Promise<DocumentVersion | null> {
+    const params: any[] = [documentId, indexName];
+    const conditions = this.versionConditions(precondition, params);
+    const [rows] = await this.dataSource.query(
+      `DELETE FROM documents
+       WHERE document_id = $1 AND index_name = $2${conditions ? ` AND ${conditions}` : ''}
+       RETURNING version, seq_no`,
+      params,
+    );
+    return rows.length > 0 ? this.toVersion(rows[0]) : null;
+  }
+
+  private versionConditions(precondition: VersionPrecondition, params: any[]): string {
+    const conditions: string[] = [];
+    if (precondition.ifVersion !== undefined) {
+      params.push(precondition.ifVersion);
+      conditions.push(`version = $${params.length}`);
+    }
+    if (precondition.ifSeqNo !== undefined) {
+      params.push(precondition.ifSeqNo);
+      conditions.push(`seq_no = $${params.length}`);
+    }
+    if (precondition.externalVersion !== undefined) {
+      params.push(precondition.externalVersion);
+      conditions.push(`version < $${params.length}`);
+    }
+    return conditions.join(' AND ');
+  }
+
+  private toVersion(row: { version: string; seq_no: string }): DocumentVersion {
+    return { version: Number(row.version), seqNo: Number(row.seq_no) };
+  }
+
   async updateDocument(document: SourceDocument): Promise<void> {
     await this.documentRepository.update(
       { indexName: document.indexName, documentId: document.documentId },
@@ -371,29 +595,66 @@ export class PostgreSQLService implements OnModuleInit {
   ): Promise<{ documents: SourceDocument[]; total: number }> {
     const { limit = 10, offset = 0, filter } = options;
 
-    const queryBuilder = this.documentRepository
-      .createQueryBuilder('document')
-      .where('document.indexName = :indexName', { indexName });
+    const params: any[] = [indexName];
+    const filterConditions = await this.buildFilterClause(indexName, filter, params);
+    const whereClause = `WHERE index_name = $1${
+      filterConditions ? ` AND ${filterConditions}` : ''
+    }`;
 
-    if (filter) {
-      Object.entries(filter).forEach(([key, value]) => {
-        queryBuilder.andWhere(`document.content->>'${key}' = :${key}`, { [key]: value });
-      });
-    }
+    const [countResult] = await this.dataSource.query(
+      `SELECT COUNT(*) as total FROM documents ${whereClause}`,
+      params,
+    );
 
-    const [documents, total] = await queryBuilder.skip(offset).take(limit).getManyAndCount();
+    // A limit of 0 means "no limit"
+    const pageParams = [...params, limit > 0 ? limit : null, offset];
+    const pageClause = `LIMIT $${pageParams.length - 1} OFFSET $${pageParams.length}`;
+
+    const rows = await this.dataSource.query(
+      `SELECT document_id, index_name, content, metadata, version, seq_no
+       FROM documents
+       ${whereClause}
+       ORDER BY document_id
+       ${pageClause}`,
+      pageParams,
+    );
 
     return {
-      documents: documents.map(doc => ({
-        indexName: doc.indexName,
-        documentId: doc.documentId,
-        content: doc.content,
-        metadata: doc.metadata,
+      documents: rows.map(row => ({
+        indexName: row.index_name,
+        documentId: row.document_id,
+        content: row.content,
+        metadata: row.metadata,
+        ...this.toVersion(row),
       })),
-      total,
+      total: parseInt(countResult?.total || '0', 10),
     };
   }
 
+  /**
+   * Compiles a filter on the documents table, appending its values to params. Filters
+   * go through the same compiler as search so both paths match identically.
+   */
+  async buildFilterClause(
+    indexName: string,
+    filter: Record<string, any> | undefined,
+    params: any[],
+  ): Promise<string> {
+    const mappings = filter ? await this.getFieldMappings(indexName) : undefined;
+    return this.filterBuilder.buildWhereClause(filter, params, { mappings });
+  }
+
+  /**
+   * Get the field mappings of an index (stored in settings.mappings)
+   */
+  async getFieldMappings(indexName: string): Promise<Record<string, FieldMapping>> {
+    const result = await this.dataSource.query(
+      `SELECT settings->'mappings'->'properties' AS properties FROM indices WHERE index_name = $1`,
+      [indexName],
+    );
+    return result[0]?.properties || {};
+  }
+
   async deleteAllDocuments(): Promise<void> {
     await this.documentRepository.clear();
   }
@@ -41,9 +41,28 @@ export class RedisCacheService {
    * Generate cache key for search query
    */
   generateKey(indexName: string, searchQuery: SearchQueryDto): string {
-    const queryStr =
+    let queryStr =
       typeof searchQuery.query === 'string' ? searchQuery.query : JSON.stringify(searchQuery.query);
 
+    // Filters, facets, sorting, cursors and hybrid vector queries change the response,
+    // so they must be part of the key
+    if (
+      searchQuery.filter ||
+      searchQuery.facets ||
+      searchQuery.sort ||
+      searchQuery.searchAfter ||
+      searchQuery.knn
+    ) {
+      queryStr += JSON.stringify({
+        filter: searchQuery.filter,
+        facets: searchQuery.facets,
+        sort: searchQuery.sort,
+        userLocation: searchQuery.sort ? searchQuery.userLocation : undefined,
+        searchAfter: searchQuery.searchAfter,
+        knn: searchQuery.knn,
+      });
+    }
+
     const size = searchQuery.size || 10;
     const from = searchQuery.from || 0;
 
@@ -146,6 +165,13 @@ export class RedisCacheService {
     }
   }
 
+  /**
+   * Shared connection for other Redis-backed features such as rate limiting
+   */
+  getClient(): Redis {
+    return this.redis;
+  }
+
   /**
    * Simple hash function for query string
    */
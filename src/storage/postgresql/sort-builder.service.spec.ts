@@ -0,0 +1,161 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { FilterBuilderService } from './filter-builder.service';
+import { SortBuilderService } from './sort-builder.service';
+
+describe('SortBuilderService', () => {
+  let service: SortBuilderService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SortBuilderService, FilterBuilderService],
+    }).compile();
+
+    service = module.get<SortBuilderService>(SortBuilderService);
+  });
+
+  describe('parse', () => {
+    it('should parse legacy sort strings', () => {
+      expect(service.parse('title:desc, _score')).toEqual([
+        { type: 'field', field: 'title', order: 'desc', missing: 'last' },
+        { type: 'score', order: 'desc' },
+      ]);
+    });
+
+    it('should parse structured sort entries', () => {
+      expect(
+        service.parse([
+          { price: { order: 'asc', missing: '_first' } },
+          { field: 'address.city', order: 'DESC' },
+          { _id: 'desc' },
+        ]),
+      ).toEqual([
+        { type: 'field', field: 'price', order: 'asc', missing: 'first' },
+        { type: 'field', field: 'address.city', order: 'desc', missing: 'last' },
+        { type: 'id', order: 'desc' },
+      ]);
+    });
+
+    it('should default the geo distance origin to the user location', () => {
+      expect(service.parse([{ _geo_distance: {} }], { lat: 6.5, lng: 3.4 })).toEqual([
+        {
+          type: 'geo_distance',
+          origin: { lat: 6.5, lng: 3.4 },
+          latField: 'latitude',
+          lngField: 'longitude',
+          order: 'asc',
+        },
+      ]);
+    });
+
+    it('should reject invalid sort entries', () => {
+      expect(() => service.parse('price:up')).toThrow(BadRequestException);
+      expect(() => service.parse([{ price: { missing: 'middle' } }])).toThrow(BadRequestException);
+      expect(() => service.parse([{ "name'": 'asc' }])).toThrow(BadRequestException);
+      expect(() => service.parse([{ _geo_distance: { order: 'asc' } }])).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('buildOrderBy', () => {
+    it('should type field sorts by their mapping and add tie-breaks', () => {
+      const keys = service.parse([
+        { price: 'desc' },
+        { created_at: { order: 'asc', missing: 'first' } },
+        'name',
+        'rating',
+      ]);
+      const sql = service.buildOrderBy(keys, [], {
+        scoreColumn: 'rank',
+        mappings: {
+          price: { type: 'float' },
+          created_at: { type: 'date' },
+          name: { type: 'text' },
+        },
+      });
+
+      expect(sql).toMatch(/THEN \(content->>'price'\)::numeric END\) DESC NULLS LAST, \(CASE/);
+      expect(sql).toContain(`THEN (content->>'created_at')::timestamptz END) ASC NULLS FIRST, `);
+      expect(sql).toMatch(
+        new RegExp(
+          `lower\\(content->>'name'\\) ASC NULLS LAST, ` +
+            `NULLIF\\(content->'rating', 'null'::jsonb\\) ASC NULLS LAST, ` +
+            `rank DESC, document_id ASC$`,
+        ),
+      );
+    });
+
+    it('should not repeat explicit score and id keys as tie-breaks', () => {
+      const keys = service.parse(['_id:desc', '_score:asc']);
+
+      expect(service.buildOrderBy(keys, [], { scoreColumn: 'rank' })).toBe(
+        'document_id DESC, rank ASC',
+      );
+    });
+
+    it('should bind the geo distance origin', () => {
+      const params: any[] = ['businesses'];
+      const keys = service.parse([{ _geo_distance: { lat: 9.08, lng: 7.4 } }]);
+      const sql = service.buildOrderBy(keys, params, { scoreColumn: 'rank' });
+
+      expect(sql).toContain('radians($2::float8)');
+      expect(sql).toContain(`- $3::float8`);
+      expect(sql).toContain('ASC NULLS LAST, rank DESC, document_id ASC');
+      expect(params).toEqual(['businesses', 9.08, 7.4]);
+    });
+  });
+
+  describe('search after', () => {
+    const mappings = { price: { type: 'float' as const } };
+
+    it('should select the sort values of field keys', () => {
+      const keys = service.withTieBreaks(service.parse('price:desc'));
+      const columns = service.buildSortValueColumns(keys, [], { scoreColumn: 'rank', mappings });
+
+      expect(keys.map(key => key.type)).toEqual(['field', 'score', 'id']);
+      expect(columns).toMatch(/::numeric END\) AS sort_value_0$/);
+      expect(
+        service.extractSortValues(keys, { sort_value_0: '9.99', rank: '1.0', document_id: 'a' }),
+      ).toEqual(['9.99', '1.0', 'a']);
+    });
+
+    it('should resume after the sort values of the last hit', () => {
+      const keys = service.withTieBreaks(service.parse('price:desc'));
+      const params: any[] = [];
+      const sql = service.buildSearchAfter(keys, ['9.99', '1.0', 'a'], params, {
+        scoreColumn: '(1.0)',
+        mappings,
+      });
+      const price = service.buildSortValueColumns(keys, [], { scoreColumn: 'rank', mappings });
+      const priceExpression = price.replace(/ AS sort_value_0$/, '');
+
+      expect(sql).toBe(
+        `(((${priceExpression} < $1::numeric OR ${priceExpression} IS NULL)) OR ` +
+          `(${priceExpression} = $2::numeric AND (1.0) < $3::numeric) OR ` +
+          `(${priceExpression} = $4::numeric AND (1.0) = $5::numeric AND document_id > $6::text))`,
+      );
+      expect(params).toEqual(['9.99', '9.99', '1.0', '9.99', '1.0', 'a']);
+    });
+
+    it('should place null sort values according to missing', () => {
+      const keys = service.withTieBreaks(service.parse([{ rating: { missing: 'first' } }]));
+      const sql = service.buildSearchAfter(keys, [null, 1, 'a'], [], { scoreColumn: 'rank' });
+
+      expect(sql).toMatch(/^\(\(NULLIF\(content->'rating', 'null'::jsonb\) IS NOT NULL\) OR/);
+      expect(sql).toContain(`NULLIF(content->'rating', 'null'::jsonb) IS NULL AND rank < $1`);
+    });
+
+    it('should reject malformed cursors', () => {
+      const keys = service.withTieBreaks(service.parse('price:desc'));
+      const options = { scoreColumn: 'rank', mappings };
+
+      expect(() => service.buildSearchAfter(keys, ['9.99'], [], options)).toThrow(
+        BadRequestException,
+      );
+      expect(() => service.buildSearchAfter(keys, ['cheap', '1.0', 'a'], [], options)).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,422 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { FieldMapping } from '../../index/interfaces/index.interface';
+import { FilterBuilderService } from './filter-builder.service';
+import {
+  FieldSortKey,
+  GeoDistanceSortKey,
+  SortKey,
+  SortMissing,
+  SortOrder,
+} from './interfaces/sort.interface';
+
+export interface SortCompileOptions {
+  mappings?: Record<string, FieldMapping>;
+  /**
+   * Column (or alias) holding the relevance score of the query
+   */
+  scoreColumn: string;
+}
+
+const MAX_SORT_KEYS = 10;
+const EARTH_RADIUS_METERS = 6371000;
+const SORT_VALUE_COLUMN = 'sort_value';
+
+interface CompiledSortKey {
+  expression: string;
+  // Type the cursor values are bound as
+  cast: 'numeric' | 'timestamptz' | 'text' | 'jsonb' | 'float8';
+  nullable: boolean;
+  nullsFirst: boolean;
+}
+
+/**
+ * Parses the `sort` option of a search and compiles it into an ORDER BY list.
+ * Field keys are typed by the index mappings so numbers and dates sort by value
+ * rather than as text; ties always fall back to score and then document id.
+ */
+@Injectable()
+export class SortBuilderService {
+  constructor(private readonly filterBuilder: FilterBuilderService) {}
+
+  /**
+   * Parse a sort option into sort keys
+   *
+   * Accepts the legacy `"field:desc"` string (comma-separated for several keys)
+   * or a list whose entries are such strings, `{ field, order, missing }` objects,
+   * `{ price: 'desc' }` / `{ price: { order, missing } }` maps, or a
+   * `{ _geo_distance: { lat, lng, latField, lngField, order } }` entry whose origin
+   * defaults to the request's userLocation.
+   */
+  parse(sort: any, userLocation?: { lat: number; lng: number }): SortKey[] {
+    if (sort === undefined || sort === null || sort === '') return [];
+
+    const entries =
+      typeof sort === 'string'
+        ? sort
+            .split(',')
+            .map(entry => entry.trim())
+            .filter(Boolean)
+        : Array.isArray(sort)
+        ? sort
+        : [sort];
+
+    if (entries.length > MAX_SORT_KEYS) {
+      throw new BadRequestException(`At most ${MAX_SORT_KEYS} sort keys are supported`);
+    }
+
+    return entries.map(entry =>
+      typeof entry === 'string'
+        ? this.parseStringEntry(entry)
+        : this.parseObjectEntry(entry, userLocation),
+    );
+  }
+
+  /**
+   * Append the score and document id tie-breaks unless they are already sorted
+   * on, making the order total so it can be resumed from a hit's sort values
+   */
+  withTieBreaks(keys: SortKey[]): SortKey[] {
+    const result = [...keys];
+    if (!keys.some(key => key.type === 'score')) {
+      result.push({ type: 'score', order: 'desc' });
+    }
+    if (!keys.some(key => key.type === 'id')) {
+      result.push({ type: 'id', order: 'asc' });
+    }
+    return result;
+  }
+
+  /**
+   * Compile sort keys into an ORDER BY list (without the ORDER BY keyword),
+   * binding geo origins into params
+   */
+  buildOrderBy(keys: SortKey[], params: any[], options: SortCompileOptions): string {
+    const bind = this.binder(params);
+
+    return this.withTieBreaks(keys)
+      .map(key => {
+        const { expression, nullable, nullsFirst } = this.compileKey(key, bind, options);
+        const direction = key.order.toUpperCase();
+        return nullable
+          ? `${expression} ${direction} NULLS ${nullsFirst ? 'FIRST' : 'LAST'}`
+          : `${expression} ${direction}`;
+      })
+      .join(', ');
+  }
+
+  /**
+   * Select list exposing the sort value of every field and geo key, so the
+   * values of the last hit can be handed back as a search_after cursor.
+   * Returns an empty string when every key is a score or id key.
+   */
+  buildSortValueColumns(keys: SortKey[], params: any[], options: SortCompileOptions): string {
+    const bind = this.binder(params);
+
+    return keys
+      .map((key, i) =>
+        key.type === 'field' || key.type === 'geo_distance'
+          ? `${this.compileKey(key, bind, options).expression} AS ${SORT_VALUE_COLUMN}_${i}`
+          : null,
+      )
+      .filter(Boolean)
+      .join(', ');
+  }
+
+  /**
+   * Sort values of a result row selected with buildSortValueColumns
+   */
+  extractSortValues(keys: SortKey[], row: Record<string, any>): any[] {
+    return keys.map((key, i) => {
+      if (key.type === 'score') return row.rank;
+      if (key.type === 'id') return row.document_id;
+
+      const value = row[`${SORT_VALUE_COLUMN}_${i}`];
+      return value instanceof Date ? value.toISOString() : value ?? null;
+    });
+  }
+
+  /**
+   * Compile a search_after cursor into a condition matching the rows that sort
+   * strictly after the given sort values. Keys must already include their
+   * tie-breaks (see withTieBreaks) for pages to neither skip nor repeat hits.
+   */
+  buildSearchAfter(
+    keys: SortKey[],
+    values: any,
+    params: any[],
+    options: SortCompileOptions,
+  ): string {
+    if (!Array.isArray(values) || values.length !== keys.length) {
+      throw new BadRequestException(
+        `searchAfter must be an array with one value per sort key (${keys.length})`,
+      );
+    }
+
+    const bind = this.binder(params);
+    const compiled = keys.map(key => this.compileKey(key, bind, options));
+
+    // (k1 after v1) OR (k1 = v1 AND k2 after v2) OR ...
+    const branches = compiled.map((key, i) => {
+      const conditions = compiled
+        .slice(0, i)
+        .map((previous, j) => this.equalTo(previous, values[j], bind));
+      conditions.push(this.sortsAfter(key, keys[i].order, values[i], bind));
+      return conditions.join(' AND ');
+    });
+
+    return `(${branches.map(branch => `(${branch})`).join(' OR ')})`;
+  }
+
+  private parseStringEntry(entry: string): SortKey {
+    const [field, order, ...rest] = entry.split(':').map(part => part.trim());
+    if (rest.length > 0) {
+      throw new BadRequestException(`Invalid sort entry: ${entry}`);
+    }
+    return this.createKey(field, { order });
+  }
+
+  private parseObjectEntry(entry: any, userLocation?: { lat: number; lng: number }): SortKey {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new BadRequestException('Sort entries must be strings or objects');
+    }
+
+    // Extended format: { field: 'price', order: 'desc', missing: 'first' }
+    if (typeof entry.field === 'string') {
+      return this.createKey(entry.field, entry);
+    }
+
+    const entries = Object.entries(entry);
+    if (entries.length !== 1) {
+      throw new BadRequestException('Each sort entry must target exactly one field');
+    }
+
+    const [field, options] = entries[0];
+    if (field === '_geo_distance') {
+      return this.createGeoKey(options, userLocation);
+    }
+
+    // Standard format: { price: 'desc' } or { price: { order: 'desc', missing: 'last' } }
+    return this.createKey(field, typeof options === 'string' ? { order: options } : options);
+  }
+
+  private createKey(field: string, options: any): SortKey {
+    if (!options || typeof options !== 'object') {
+      throw new BadRequestException(`Invalid sort options for ${field}`);
+    }
+
+    if (field === '_score') {
+      return { type: 'score', order: this.parseOrder(options.order, 'desc') };
+    }
+    if (field === '_id') {
+      return { type: 'id', order: this.parseOrder(options.order, 'asc') };
+    }
+
+    // Throws on anything that is not a plain JSON path
+    this.filterBuilder.fieldReference(field.replace(/\.keyword$/, ''));
+
+    return {
+      type: 'field',
+      field,
+      order: this.parseOrder(options.order, 'asc'),
+      missing: this.parseMissing(options.missing),
+    };
+  }
+
+  private createGeoKey(
+    options: any,
+    userLocation?: { lat: number; lng: number },
+  ): GeoDistanceSortKey {
+    if (!options || typeof options !== 'object') {
+      throw new BadRequestException('_geo_distance sort must be an object');
+    }
+
+    const lat = options.lat ?? userLocation?.lat;
+    const lng = options.lng ?? userLocation?.lng;
+    if (
+      typeof lat !== 'number' ||
+      typeof lng !== 'number' ||
+      Math.abs(lat) > 90 ||
+      Math.abs(lng) > 180
+    ) {
+      throw new BadRequestException(
+        '_geo_distance sort needs valid lat/lng coordinates or a userLocation',
+      );
+    }
+
+    const latField = options.latField ?? 'latitude';
+    const lngField = options.lngField ?? 'longitude';
+    this.filterBuilder.fieldReference(latField);
+    this.filterBuilder.fieldReference(lngField);
+
+    return {
+      type: 'geo_distance',
+      origin: { lat, lng },
+      latField,
+      lngField,
+      order: this.parseOrder(options.order, 'asc'),
+    };
+  }
+
+  private parseOrder(order: any, fallback: SortOrder): SortOrder {
+    if (order === undefined || order === '') return fallback;
+
+    const normalized = typeof order === 'string' ? order.toLowerCase() : order;
+    if (normalized !== 'asc' && normalized !== 'desc') {
+      throw new BadRequestException(`Invalid sort order: ${order}`);
+    }
+    return normalized;
+  }
+
+  private parseMissing(missing: any): SortMissing {
+    if (missing === undefined) return 'last';
+
+    const normalized = typeof missing === 'string' ? missing.replace(/^_/, '') : missing;
+    if (normalized !== 'first' && normalized !== 'last') {
+      throw new BadRequestException(`Invalid sort missing value: ${missing}`);
+    }
+    return normalized;
+  }
+
+  private compileKey(
+    key: SortKey,
+    bind: (value: any) => string,
+    options: SortCompileOptions,
+  ): CompiledSortKey {
+    switch (key.type) {
+      case 'score':
+        return {
+          expression: options.scoreColumn,
+          cast: 'numeric',
+          nullable: false,
+          nullsFirst: false,
+        };
+      case 'id':
+        return { expression: 'document_id', cast: 'text', nullable: false, nullsFirst: false };
+      case 'field':
+        return {
+          ...this.fieldExpression(key, options.mappings),
+          nullable: true,
+          nullsFirst: key.missing === 'first',
+        };
+      case 'geo_distance':
+        return {
+          expression: this.distanceExpression(key, bind),
+          cast: 'float8',
+          nullable: true,
+          nullsFirst: false,
+        };
+    }
+  }
+
+  /**
+   * Sort expression for a field, typed by its mapping. Unmapped fields sort by
+   * their JSONB value, which orders numbers numerically and strings lexically.
+   */
+  private fieldExpression(
+    key: FieldSortKey,
+    mappings: Record<string, FieldMapping> = {},
+  ): Pick<CompiledSortKey, 'expression' | 'cast'> {
+    if (key.field.endsWith('.keyword')) {
+      const field = key.field.slice(0, -'.keyword'.length);
+      return { expression: this.filterBuilder.fieldReference(field), cast: 'text' };
+    }
+
+    switch (mappings[key.field]?.type) {
+      case 'integer':
+      case 'float':
+        return { expression: this.filterBuilder.safeCast(key.field, 'numeric'), cast: 'numeric' };
+      case 'date':
+        return {
+          expression: this.filterBuilder.safeCast(key.field, 'timestamptz'),
+          cast: 'timestamptz',
+        };
+      case 'text':
+        return {
+          expression: `lower(${this.filterBuilder.fieldReference(key.field)})`,
+          cast: 'text',
+        };
+      case 'keyword':
+      case 'boolean':
+        return { expression: this.filterBuilder.fieldReference(key.field), cast: 'text' };
+      default:
+        return {
+          expression: `NULLIF(${this.filterBuilder.fieldReference(
+            key.field,
+            undefined,
+            true,
+          )}, 'null'::jsonb)`,
+          cast: 'jsonb',
+        };
+    }
+  }
+
+  private sortsAfter(
+    key: CompiledSortKey,
+    order: SortOrder,
+    value: any,
+    bind: (value: any) => string,
+  ): string {
+    if (value === null) {
+      // Only non-null values can follow a null that sorts first
+      return key.nullable && key.nullsFirst ? `${key.expression} IS NOT NULL` : 'FALSE';
+    }
+
+    const comparison = `${key.expression} ${order === 'asc' ? '>' : '<'} ${this.bindValue(
+      key,
+      value,
+      bind,
+    )}`;
+    return key.nullable && !key.nullsFirst
+      ? `(${comparison} OR ${key.expression} IS NULL)`
+      : comparison;
+  }
+
+  private equalTo(key: CompiledSortKey, value: any, bind: (value: any) => string): string {
+    return value === null
+      ? `${key.expression} IS NULL`
+      : `${key.expression} = ${this.bindValue(key, value, bind)}`;
+  }
+
+  private bindValue(key: CompiledSortKey, value: any, bind: (value: any) => string): string {
+    if (key.cast === 'jsonb') {
+      return `${bind(JSON.stringify(value))}::jsonb`;
+    }
+
+    const valid =
+      key.cast === 'text'
+        ? ['string', 'number', 'boolean'].includes(typeof value)
+        : key.cast === 'timestamptz'
+        ? typeof value === 'string' && !isNaN(Date.parse(value))
+        : (typeof value === 'number' && isFinite(value)) ||
+          (typeof value === 'string' && value.trim() !== '' && isFinite(Number(value)));
+    if (!valid) {
+      throw new BadRequestException(`Invalid searchAfter value: ${JSON.stringify(value)}`);
+    }
+
+    return `${bind(key.cast === 'text' ? String(value) : value)}::${key.cast}`;
+  }
+
+  private binder(params: any[]) {
+    return (value: any) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+  }
+
+  /**
+   * Great-circle (haversine) distance in meters from the origin; NULL when the
+   * document has no usable coordinates
+   */
+  private distanceExpression(key: GeoDistanceSortKey, bind: (value: any) => string): string {
+    const lat = this.filterBuilder.safeCast(key.latField, 'numeric');
+    const lng = this.filterBuilder.safeCast(key.lngField, 'numeric');
+    const originLat = `${bind(key.origin.lat)}::float8`;
+    const originLng = `${bind(key.origin.lng)}::float8`;
+
+    return `(${2 * EARTH_RADIUS_METERS} * asin(LEAST(1, sqrt(
+      power(sin(radians(${lat} - ${originLat}) / 2), 2) +
+      cos(radians(${originLat})) * cos(radians(${lat})) *
+      power(sin(radians(${lng} - ${originLng}) / 2), 2)
+    ))))`;
+  }
+}